@@ -0,0 +1,29 @@
+import { ForumThreadLatestUpdateChecker } from "../../service/forumThreadLatestUpdate";
+import { defineCommand, UsageError } from "../types";
+
+export const checkUpdatesCommand = defineCommand({
+  name: "check-updates",
+  summary: "Refresh reply counts and last reply dates from the listings",
+  needsDatabase: true,
+  options: {
+    forum: {
+      type: "number",
+      description: "Only check this forum ID",
+    },
+    discover: {
+      type: "boolean",
+      description: "Also check subforums found on the forum index",
+    },
+  },
+  async run({ options }) {
+    if (options.forum !== undefined && !(options.forum > 0)) {
+      throw new UsageError(`Invalid forum ID "${options.forum}"`);
+    }
+
+    const checker = new ForumThreadLatestUpdateChecker({
+      forumId: options.forum,
+      discoverSubforums: options.discover,
+    });
+    return checker.run();
+  },
+});
@@ -0,0 +1,73 @@
+import { ThreadMetadataService } from "../../service/threadMetadata";
+import { defineCommand, UsageError } from "../types";
+
+export const findThreadsCommand = defineCommand({
+  name: "find-threads",
+  summary: "List stored threads by forum, prefix, tag or sticky/locked state",
+  needsDatabase: true,
+  options: {
+    forum: {
+      type: "number",
+      description: "Only threads of this forum ID",
+    },
+    prefix: {
+      type: "string",
+      description: "Only threads with this prefix name or prefix ID",
+    },
+    tag: {
+      type: "string",
+      description: "Only threads with this tag (slug or name)",
+    },
+    sticky: {
+      type: "boolean",
+      description: "Only sticky threads",
+    },
+    locked: {
+      type: "boolean",
+      description: "Only locked threads",
+    },
+    limit: {
+      type: "number",
+      description: "Most threads to list",
+      default: 50,
+    },
+  },
+  async run({ options }) {
+    if (options.forum !== undefined && !(options.forum > 0)) {
+      throw new UsageError(`Invalid forum ID "${options.forum}"`);
+    }
+    if (!(options.limit > 0)) {
+      throw new UsageError("--limit must be a positive number");
+    }
+    const prefix =
+      options.prefix !== undefined && /^\d+$/.test(options.prefix)
+        ? parseInt(options.prefix)
+        : options.prefix;
+
+    const threads = await new ThreadMetadataService().findThreads({
+      forumId: options.forum,
+      prefix,
+      tag: options.tag,
+      sticky: options.sticky || undefined,
+      locked: options.locked || undefined,
+      limit: options.limit,
+    });
+    if (threads.length === 0) {
+      console.log("No matching threads");
+      return true;
+    }
+
+    for (const thread of threads) {
+      const flags = [thread.sticky ? "📌" : "", thread.locked ? "🔒" : ""]
+        .filter(Boolean)
+        .join("");
+      const prefixLabel = thread.prefix ? `[${thread.prefix}] ` : "";
+      console.log(
+        `${thread.threadId}  ${flags ? `${flags} ` : ""}${prefixLabel}` +
+          `${thread.title}  (${thread.replies} replies, ` +
+          `${thread.pageCount ?? "?"} pages)`
+      );
+    }
+    return true;
+  },
+});
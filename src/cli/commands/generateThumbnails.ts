@@ -0,0 +1,13 @@
+import { ThumbnailService } from "../../service/thumbnailService";
+import { defineCommand } from "../types";
+
+export const generateThumbnailsCommand = defineCommand({
+  name: "generate-thumbnails",
+  summary: "Create missing thumbnails for stored images and set existThumb",
+  needsDatabase: true,
+  async run() {
+    const { created, failed } = await new ThumbnailService().backfill();
+    console.log(`Created ${created} thumbnails (${failed} failed)`);
+    return failed === 0;
+  },
+});
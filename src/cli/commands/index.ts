@@ -0,0 +1,46 @@
+import { CliCommand } from "../types";
+import { listThreadsCommand } from "./listThreads";
+import { checkUpdatesCommand } from "./checkUpdates";
+import { scrapeDetailsCommand } from "./scrapeDetails";
+import { scrapeThreadCommand } from "./scrapeThread";
+import { scrapeJobsCommand } from "./scrapeJobs";
+import { scrapeMembersCommand } from "./scrapeMembers";
+import { migrateMediaCommand } from "./migrateMedia";
+import { purgeMediaCommand } from "./purgeMedia";
+import { pruneMediaCommand } from "./pruneMedia";
+import { retryMediaCommand } from "./retryMedia";
+import { mediaClustersCommand } from "./mediaClusters";
+import { generateThumbnailsCommand } from "./generateThumbnails";
+import { parseHtmlCommand } from "./parseHtml";
+import { mockServerCommand } from "./mockServer";
+import { postHistoryCommand } from "./postHistory";
+import { postDiffCommand } from "./postDiff";
+import { threadRepliesCommand } from "./threadReplies";
+import { findThreadsCommand } from "./findThreads";
+import { migrateCommand } from "./migrate";
+import { rollbackCommand } from "./rollback";
+import { statusCommand } from "./status";
+
+export const commands: CliCommand[] = [
+  listThreadsCommand,
+  checkUpdatesCommand,
+  scrapeDetailsCommand,
+  scrapeThreadCommand,
+  scrapeJobsCommand,
+  scrapeMembersCommand,
+  migrateMediaCommand,
+  purgeMediaCommand,
+  pruneMediaCommand,
+  retryMediaCommand,
+  mediaClustersCommand,
+  generateThumbnailsCommand,
+  parseHtmlCommand,
+  mockServerCommand,
+  postHistoryCommand,
+  postDiffCommand,
+  threadRepliesCommand,
+  findThreadsCommand,
+  migrateCommand,
+  rollbackCommand,
+  statusCommand,
+];
@@ -0,0 +1,40 @@
+import { ForumScraper } from "../../service/forumScrapingScript";
+import { defineCommand, UsageError } from "../types";
+
+export const listThreadsCommand = defineCommand({
+  name: "list-threads",
+  summary: "Scrape the forum listings and upsert every thread",
+  needsDatabase: true,
+  options: {
+    "start-page": {
+      type: "number",
+      description: "First listing page to scrape",
+      default: 1,
+    },
+    "end-page": {
+      type: "number",
+      description: "Last listing page to scrape (defaults to the last page)",
+    },
+    forum: {
+      type: "number",
+      description: "Only scrape this forum ID",
+    },
+    discover: {
+      type: "boolean",
+      description: "Also scrape subforums found on the forum index",
+    },
+  },
+  async run({ options }) {
+    if (options.forum !== undefined && !(options.forum > 0)) {
+      throw new UsageError(`Invalid forum ID "${options.forum}"`);
+    }
+
+    const scraper = new ForumScraper({
+      startPage: options["start-page"],
+      endPage: options["end-page"],
+      forumId: options.forum,
+      discoverSubforums: options.discover,
+    });
+    return scraper.run();
+  },
+});
@@ -0,0 +1,77 @@
+import { DEFAULT_NEAR_DUPLICATE_DISTANCE } from "../../media/perceptualHash";
+import { NearDuplicateFinder } from "../../service/nearDuplicateFinder";
+import { defineCommand, UsageError } from "../types";
+
+export const mediaClustersCommand = defineCommand({
+  name: "media-clusters",
+  summary: "List clusters of near-duplicate images across posts and threads",
+  needsDatabase: true,
+  options: {
+    distance: {
+      type: "number",
+      description: "Largest Hamming distance (0-64) between near-duplicates",
+      default: DEFAULT_NEAR_DUPLICATE_DISTANCE,
+    },
+    "min-size": {
+      type: "number",
+      description: "Smallest number of media in a listed cluster",
+      default: 2,
+    },
+    "cross-thread": {
+      type: "boolean",
+      description: "Only list clusters that span more than one thread",
+    },
+    limit: {
+      type: "number",
+      description: "Number of clusters to list",
+      default: 20,
+    },
+    backfill: {
+      type: "boolean",
+      description: "First hash stored images that have no perceptual hash",
+    },
+    json: {
+      type: "boolean",
+      description: "Print clusters as JSON",
+    },
+  },
+  async run({ options }) {
+    if (!(options.distance >= 0 && options.distance <= 64)) {
+      throw new UsageError("--distance must be between 0 and 64");
+    }
+
+    const finder = new NearDuplicateFinder();
+
+    if (options.backfill) {
+      const { updated, failed } = await finder.backfillHashes();
+      console.log(`Backfilled ${updated} hashes (${failed} failed)`);
+    }
+
+    const clusters = await finder.findClusters({
+      maxDistance: options.distance,
+      minSize: options["min-size"],
+      crossThreadOnly: options["cross-thread"],
+    });
+    const listed = clusters.slice(0, options.limit);
+
+    if (options.json) {
+      console.log(JSON.stringify(listed, null, 2));
+      return true;
+    }
+
+    console.log(`Found ${clusters.length} clusters`);
+    listed.forEach((cluster, index) => {
+      console.log(
+        `\nCluster ${index + 1}: ${cluster.media.length} media in ${
+          cluster.threadIds.length
+        } threads (hashes: ${cluster.hashes.join(", ")})`
+      );
+      for (const media of cluster.media) {
+        console.log(
+          `  thread ${media.threadId} post ${media.postId}  ${media.link}`
+        );
+      }
+    });
+    return true;
+  },
+});
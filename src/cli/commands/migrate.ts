@@ -0,0 +1,24 @@
+import { SchemaMigrator } from "../../service/schemaMigrator";
+import { defineCommand } from "../types";
+
+export const migrateCommand = defineCommand({
+  name: "migrate",
+  summary: "Apply pending schema migrations",
+  needsDatabase: true,
+  allowPendingMigrations: true,
+  options: {
+    to: {
+      type: "string",
+      description: "Stop after this migration, e.g. 0001-typed-thread-columns",
+    },
+  },
+  async run({ options }) {
+    const applied = await new SchemaMigrator().migrate(options.to);
+    console.log(
+      applied.length > 0
+        ? `✅ Applied ${applied.length} migration(s)`
+        : "✅ Schema is up to date"
+    );
+    return true;
+  },
+});
@@ -0,0 +1,28 @@
+import { ForumMediaMigration } from "../../service/forumMediaMigration";
+import { defineCommand } from "../types";
+
+export const migrateMediaCommand = defineCommand({
+  name: "migrate-media",
+  summary: "Migrate post media into the forum_medias table",
+  needsDatabase: true,
+  options: {
+    preview: {
+      type: "boolean",
+      description: "Only print what would be migrated",
+    },
+    limit: {
+      type: "number",
+      description: "Number of posts to show in preview mode",
+      default: 10,
+    },
+  },
+  async run({ options }) {
+    const migration = new ForumMediaMigration();
+    if (options.preview) {
+      await migration.previewMigration(options.limit);
+    } else {
+      await migration.migrateMedias();
+    }
+    return true;
+  },
+});
@@ -0,0 +1,54 @@
+import { MockForumServer } from "../../mock/mockForumServer";
+import { defineCommand } from "../types";
+
+export const mockServerCommand = defineCommand({
+  name: "mock-server",
+  summary: "Serve a generated XenForo-like forum locally for end-to-end runs",
+  options: {
+    port: { type: "number", description: "Port to listen on", default: 8080 },
+    threads: {
+      type: "number",
+      description: "Number of generated threads",
+      default: 60,
+    },
+    seed: {
+      type: "number",
+      description: "Seed for the generated content",
+      default: 17,
+    },
+    "fail-every": {
+      type: "number",
+      description: "Answer every Nth request with a 503 (0 = never)",
+      default: 0,
+    },
+    "session-limit": {
+      type: "number",
+      description: "Log sessions out after N requests (0 = never)",
+      default: 0,
+    },
+  },
+  async run({ options }) {
+    const server = new MockForumServer({
+      port: options.port,
+      threadCount: options.threads,
+      seed: options.seed,
+      failEvery: options["fail-every"],
+      sessionRequestLimit: options["session-limit"],
+    });
+    await server.start();
+
+    console.log(`Mock forum listening on ${server.url}`);
+    console.log("Point the scrapers at it with:");
+    console.log(`  SITE_URL=${server.url} FORUM_URL=${server.forumUrl}`);
+
+    // Serve until interrupted
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", resolve);
+      process.once("SIGTERM", resolve);
+    });
+
+    await server.stop();
+    console.log("Mock forum stopped");
+    return true;
+  },
+});
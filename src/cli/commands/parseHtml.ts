@@ -0,0 +1,48 @@
+import * as fs from "fs";
+import { parseHtmlDocument } from "../../parsers/html";
+import {
+  parseLastPageNumber,
+  parsePagePosts,
+  parseThreadListing,
+} from "../../parsers/pageParsers";
+import { siteConfig } from "../../config/site";
+import { defineCommand, UsageError } from "../types";
+
+export const parseHtmlCommand = defineCommand({
+  name: "parse-html",
+  summary: "Re-parse a saved listing or thread page and print it as JSON",
+  args: [{ name: "file", description: "Saved HTML page", required: true }],
+  options: {
+    type: {
+      type: "string",
+      description: "Page type: listing or thread",
+      default: "thread",
+    },
+    url: {
+      type: "string",
+      description: "URL the page was saved from",
+      default: siteConfig.siteUrl,
+    },
+  },
+  async run({ args, options }) {
+    const { type, url } = options;
+    if (type !== "listing" && type !== "thread") {
+      throw new UsageError(`Unknown page type "${type}"`);
+    }
+
+    const html = fs.readFileSync(args[0], "utf8");
+    const document = parseHtmlDocument(html, url);
+    const lastPageNumber = parseLastPageNumber(document);
+
+    const result =
+      type === "listing"
+        ? { lastPageNumber, threads: parseThreadListing(document) }
+        : {
+            lastPageNumber,
+            posts: parsePagePosts(document, new URL(url).origin),
+          };
+
+    console.log(JSON.stringify(result, null, 2));
+    return true;
+  },
+});
@@ -0,0 +1,79 @@
+import {
+  diffLines,
+  formatDiff,
+  PostRevisionService,
+} from "../../service/postRevisions";
+import { defineCommand, UsageError } from "../types";
+
+const parseRevision = (text: string | undefined): number | undefined => {
+  if (text === undefined) {
+    return undefined;
+  }
+  const revision = parseInt(text);
+  if (!Number.isInteger(revision) || revision <= 0) {
+    throw new UsageError(`Invalid revision "${text}"`);
+  }
+  return revision;
+};
+
+export const postDiffCommand = defineCommand({
+  name: "post-diff",
+  summary: "Show how a post changed between two revisions",
+  needsDatabase: true,
+  args: [
+    { name: "postId", description: "Post ID", required: true },
+    { name: "from", description: "Older revision (default: the one before to)" },
+    { name: "to", description: "Newer revision (default: the latest)" },
+  ],
+  options: {
+    context: {
+      type: "number",
+      description: "Unchanged lines to show around each change",
+      default: 3,
+    },
+  },
+  async run({ args, options }) {
+    const postId = parseInt(args[0]);
+    if (!Number.isInteger(postId) || postId <= 0) {
+      throw new UsageError(`Invalid post ID "${args[0]}"`);
+    }
+    if (!Number.isInteger(options.context) || options.context < 0) {
+      throw new UsageError("--context must be a whole number of lines");
+    }
+
+    const revisions = await new PostRevisionService().history(postId);
+    if (revisions.length === 0) {
+      console.log(`No revisions recorded for post ${postId}`);
+      return false;
+    }
+
+    const toNumber =
+      parseRevision(args[2]) ?? revisions[revisions.length - 1].revision;
+    const fromNumber = parseRevision(args[1]) ?? toNumber - 1;
+    const from = revisions.find((revision) => revision.revision === fromNumber);
+    const to = revisions.find((revision) => revision.revision === toNumber);
+    if (!from || !to) {
+      console.log(
+        `Post ${postId} has revisions 1-${revisions.length}; ` +
+          `cannot compare ${fromNumber} with ${toNumber}`
+      );
+      return false;
+    }
+
+    console.log(
+      `--- post ${postId} revision ${from.revision} (${from.createdAt.toISOString()})`
+    );
+    console.log(
+      `+++ post ${postId} revision ${to.revision} (${to.createdAt.toISOString()})`
+    );
+    if (from.contentHash === to.contentHash) {
+      console.log("No content changes");
+    } else {
+      console.log(formatDiff(diffLines(from.content, to.content), options.context));
+    }
+    if (from.likes !== to.likes) {
+      console.log(`Likes: ${from.likes} → ${to.likes}`);
+    }
+    return true;
+  },
+});
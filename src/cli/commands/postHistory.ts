@@ -0,0 +1,38 @@
+import { diffLines, PostRevisionService } from "../../service/postRevisions";
+import { defineCommand, UsageError } from "../types";
+
+export const postHistoryCommand = defineCommand({
+  name: "post-history",
+  summary: "List the recorded revisions of a post",
+  needsDatabase: true,
+  args: [{ name: "postId", description: "Post ID", required: true }],
+  async run({ args }) {
+    const postId = parseInt(args[0]);
+    if (!Number.isInteger(postId) || postId <= 0) {
+      throw new UsageError(`Invalid post ID "${args[0]}"`);
+    }
+
+    const revisions = await new PostRevisionService().history(postId);
+    if (revisions.length === 0) {
+      console.log(`No revisions recorded for post ${postId}`);
+      return false;
+    }
+
+    revisions.forEach((revision, index) => {
+      const previous = revisions[index - 1];
+      let change = "first seen";
+      if (previous) {
+        const lines = diffLines(previous.content, revision.content);
+        const added = lines.filter((line) => line.op === "+").length;
+        const removed = lines.filter((line) => line.op === "-").length;
+        change = `+${added} -${removed} lines`;
+      }
+      console.log(
+        `#${revision.revision}  ${revision.createdAt.toISOString()}  ` +
+          `${revision.contentHash.slice(0, 12)}  ` +
+          `${revision.content.length} chars, ${revision.likes} likes  (${change})`
+      );
+    });
+    return true;
+  },
+});
@@ -0,0 +1,30 @@
+import { MediaObjectService } from "../../service/mediaObjectService";
+import { defineCommand, UsageError } from "../types";
+
+export const pruneMediaCommand = defineCommand({
+  name: "prune-media",
+  summary: "Delete unreferenced media objects and abandoned uploads",
+  needsDatabase: true,
+  options: {
+    "older-than": {
+      type: "number",
+      description: "Only prune what has been unused for this many hours",
+      default: 24,
+    },
+  },
+  async run({ options }) {
+    const hours = options["older-than"];
+    if (!(hours >= 0)) {
+      throw new UsageError("--older-than must be a number of hours");
+    }
+
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const mediaObjects = new MediaObjectService();
+    const pruned = await mediaObjects.pruneUnreferenced(cutoff);
+    console.log(`Pruned ${pruned} unreferenced media objects`);
+
+    const aborted = await mediaObjects.abortIncompleteUploads(cutoff);
+    console.log(`Aborted ${aborted} abandoned uploads`);
+    return true;
+  },
+});
@@ -0,0 +1,24 @@
+import { MediaFileList } from "../../service/mediaFileList";
+import { defineCommand, UsageError } from "../types";
+
+export const purgeMediaCommand = defineCommand({
+  name: "purge-media",
+  summary: "Delete the stored media of every post in forum_posts",
+  options: {
+    yes: {
+      type: "boolean",
+      short: "y",
+      description: "Confirm deleting all media from the media store",
+    },
+  },
+  async run({ options }) {
+    if (!options.yes) {
+      throw new UsageError("Refusing to delete all media without --yes");
+    }
+
+    // Manages its own database connection
+    const mediaFileList = new MediaFileList();
+    await mediaFileList.deleteAllMediaFromDatabase();
+    return true;
+  },
+});
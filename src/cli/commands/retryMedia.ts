@@ -0,0 +1,44 @@
+import { ForumDetailPageScraper } from "../../service/forumDetailPageScraping";
+import { defineCommand, UsageError } from "../types";
+
+export const retryMediaCommand = defineCommand({
+  name: "retry-media",
+  summary: "Retry media downloads that failed during earlier scrapes",
+  needsDatabase: true,
+  options: {
+    limit: {
+      type: "number",
+      description: "Most failures to retry in this run",
+      default: 100,
+    },
+    "max-attempts": {
+      type: "number",
+      description: "Give up on media that failed this many times",
+      default: parseInt(process.env.MEDIA_RETRY_MAX_ATTEMPTS || "5"),
+    },
+    thread: {
+      type: "number",
+      description: "Only retry media of this thread",
+    },
+  },
+  async run({ options }) {
+    if (!(options.limit > 0)) {
+      throw new UsageError("--limit must be a positive number");
+    }
+    if (!(options["max-attempts"] > 0)) {
+      throw new UsageError("--max-attempts must be a positive number");
+    }
+    if (options.thread !== undefined && !(options.thread > 0)) {
+      throw new UsageError(`Invalid thread ID "${options.thread}"`);
+    }
+
+    const scraper = new ForumDetailPageScraper();
+    const { recovered, failed } = await scraper.retryFailedMedia({
+      limit: options.limit,
+      maxAttempts: options["max-attempts"],
+      threadId: options.thread,
+    });
+    console.log(`Recovered ${recovered} media, ${failed} still failing`);
+    return failed === 0;
+  },
+});
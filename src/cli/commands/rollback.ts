@@ -0,0 +1,32 @@
+import { SchemaMigrator } from "../../service/schemaMigrator";
+import { defineCommand, UsageError } from "../types";
+
+export const rollbackCommand = defineCommand({
+  name: "rollback",
+  summary: "Revert the most recently applied schema migrations",
+  needsDatabase: true,
+  allowPendingMigrations: true,
+  options: {
+    steps: {
+      type: "number",
+      description: "Number of migrations to revert",
+      default: 1,
+    },
+    to: {
+      type: "string",
+      description: "Revert every migration after this one instead",
+    },
+  },
+  async run({ options }) {
+    if (!Number.isInteger(options.steps) || options.steps < 1) {
+      throw new UsageError("--steps must be a positive integer");
+    }
+
+    const reverted = await new SchemaMigrator().rollback(
+      options.steps,
+      options.to
+    );
+    console.log(`✅ Reverted ${reverted.length} migration(s)`);
+    return true;
+  },
+});
@@ -0,0 +1,31 @@
+import { ForumDetailPageScraper } from "../../service/forumDetailPageScraping";
+import { isReactionsMode } from "../../service/postReactions";
+import { defineCommand, UsageError } from "../types";
+
+export const scrapeDetailsCommand = defineCommand({
+  name: "scrape-details",
+  summary: "Claim queued threads and scrape their posts and media",
+  needsDatabase: true,
+  options: {
+    "worker-id": {
+      type: "string",
+      description: "Name of this worker (defaults to WORKER_ID or host-pid)",
+    },
+    reactions: {
+      type: "string",
+      description: "Reactions to read for liked posts: off, counts or users",
+      default: process.env.SCRAPE_REACTIONS || "off",
+    },
+  },
+  async run({ options }) {
+    if (!isReactionsMode(options.reactions)) {
+      throw new UsageError("--reactions must be off, counts or users");
+    }
+
+    const scraper = new ForumDetailPageScraper({
+      workerId: options["worker-id"],
+      reactions: options.reactions,
+    });
+    return scraper.run();
+  },
+});
@@ -0,0 +1,36 @@
+import { ScrapeJobQueue } from "../../service/scrapeJobQueue";
+import { defineCommand } from "../types";
+
+export const scrapeJobsCommand = defineCommand({
+  name: "scrape-jobs",
+  summary: "Show the scrape job queue, queue stale threads or retry failures",
+  needsDatabase: true,
+  options: {
+    enqueue: {
+      type: "boolean",
+      description: "Queue threads whose detail pages are out of date",
+    },
+    "retry-failed": {
+      type: "boolean",
+      description: "Put failed jobs back in the queue",
+    },
+  },
+  async run({ options }) {
+    const queue = new ScrapeJobQueue();
+
+    if (options.enqueue) {
+      await queue.enqueueStaleThreads();
+    }
+
+    if (options["retry-failed"]) {
+      const requeued = await queue.retryFailed();
+      console.log(`Requeued ${requeued} failed jobs`);
+    }
+
+    const counts = await queue.getStatusCounts();
+    for (const [status, count] of Object.entries(counts)) {
+      console.log(`${status.padEnd(8)} ${count}`);
+    }
+    return true;
+  },
+});
@@ -0,0 +1,44 @@
+import { ForumMemberScraper } from "../../service/forumMemberScraping";
+import { defineCommand, UsageError } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const scrapeMembersCommand = defineCommand({
+  name: "scrape-members",
+  summary: "Read member profiles: join date, message count and avatar",
+  needsDatabase: true,
+  args: [
+    { name: "id", description: "Only read this member (defaults to stale ones)" },
+  ],
+  options: {
+    limit: {
+      type: "number",
+      description: "Most stale profiles to read in this run",
+      default: 100,
+    },
+    "max-age": {
+      type: "number",
+      description: "Re-read profiles older than this many days",
+      default: 30,
+    },
+  },
+  async run({ args, options }) {
+    const userId = args[0] === undefined ? undefined : parseInt(args[0]);
+    if (userId !== undefined && !(Number.isInteger(userId) && userId > 0)) {
+      throw new UsageError(`Invalid member ID "${args[0]}"`);
+    }
+    if (!(options.limit > 0)) {
+      throw new UsageError("--limit must be a positive number");
+    }
+    if (!(options["max-age"] >= 0)) {
+      throw new UsageError("--max-age must be a number of days");
+    }
+
+    const scraper = new ForumMemberScraper();
+    return scraper.run({
+      userIds: userId ? [userId] : undefined,
+      limit: options.limit,
+      olderThan: new Date(Date.now() - options["max-age"] * DAY_MS),
+    });
+  },
+});
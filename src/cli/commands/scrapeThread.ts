@@ -0,0 +1,37 @@
+import { ForumDetailPageScraper } from "../../service/forumDetailPageScraping";
+import { isReactionsMode } from "../../service/postReactions";
+import { defineCommand, UsageError } from "../types";
+
+export const scrapeThreadCommand = defineCommand({
+  name: "scrape-thread",
+  summary: "Scrape posts and media for a single thread",
+  needsDatabase: true,
+  args: [{ name: "id", description: "Thread ID to scrape", required: true }],
+  options: {
+    reactions: {
+      type: "string",
+      description: "Reactions to read for liked posts: off, counts or users",
+      default: process.env.SCRAPE_REACTIONS || "off",
+    },
+  },
+  async run({ args, options }) {
+    const threadId = parseInt(args[0]);
+    if (!Number.isInteger(threadId) || threadId <= 0) {
+      throw new UsageError(`Invalid thread ID "${args[0]}"`);
+    }
+    if (!isReactionsMode(options.reactions)) {
+      throw new UsageError("--reactions must be off, counts or users");
+    }
+
+    const scraper = new ForumDetailPageScraper({
+      reactions: options.reactions,
+    });
+    const thread = await scraper.runDetailPage(threadId);
+    if (thread) {
+      console.log(
+        `Thread ${thread.threadId}: lastUpdatedPage=${thread.lastUpdatedPage}, detailPageUpdateDate=${thread.detailPageUpdateDate}`
+      );
+    }
+    return !!thread;
+  },
+});
@@ -0,0 +1,28 @@
+import { SchemaMigrator } from "../../service/schemaMigrator";
+import { defineCommand } from "../types";
+
+export const statusCommand = defineCommand({
+  name: "status",
+  summary: "List schema migrations and whether each is applied",
+  needsDatabase: true,
+  allowPendingMigrations: true,
+  async run() {
+    const migrations = await new SchemaMigrator().status();
+    for (const migration of migrations) {
+      const state = migration.appliedAt
+        ? `applied ${migration.appliedAt.toISOString()}`
+        : "pending";
+      console.log(
+        `${migration.name}  ${state}${migration.missing ? " (file missing)" : ""}`
+      );
+    }
+
+    const pending = migrations.filter((migration) => !migration.appliedAt);
+    console.log(
+      pending.length > 0
+        ? `${pending.length} pending migration(s); run "form-scrp migrate"`
+        : "Schema is up to date"
+    );
+    return true;
+  },
+});
@@ -0,0 +1,42 @@
+import { PostQuoteGraph } from "../../service/postQuotes";
+import { defineCommand, UsageError } from "../types";
+
+export const threadRepliesCommand = defineCommand({
+  name: "thread-replies",
+  summary: "Show who replied to whom in a thread, from quoted posts",
+  needsDatabase: true,
+  args: [{ name: "id", description: "Thread ID", required: true }],
+  async run({ args }) {
+    const threadId = parseInt(args[0]);
+    if (!Number.isInteger(threadId) || threadId <= 0) {
+      throw new UsageError(`Invalid thread ID "${args[0]}"`);
+    }
+
+    const replies = await new PostQuoteGraph().threadReplies(threadId);
+    if (replies.length === 0) {
+      console.log(`No quotes recorded in thread ${threadId}`);
+      return true;
+    }
+
+    for (const reply of replies) {
+      const target = reply.quotedPostId
+        ? `post ${reply.quotedPostId}`
+        : "an unlinked quote";
+      console.log(
+        `${reply.author || "?"} → ${reply.quotedAuthor || "?"}  ` +
+          `(post ${reply.postId} quotes ${target})`
+      );
+    }
+
+    const pairs = new Map<string, number>();
+    for (const reply of replies) {
+      const pair = `${reply.author || "?"} → ${reply.quotedAuthor || "?"}`;
+      pairs.set(pair, (pairs.get(pair) || 0) + 1);
+    }
+    console.log("\nReplies by pair:");
+    [...pairs.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([pair, count]) => console.log(`  ${count}  ${pair}`));
+    return true;
+  },
+});
@@ -0,0 +1,219 @@
+import { parseArgs } from "util";
+import { sequelize } from "../config/database";
+import { SchemaMigrator } from "../service/schemaMigrator";
+import { commands } from "./commands";
+import {
+  CliCommand,
+  ExitCode,
+  OptionSpec,
+  OptionValues,
+  UsageError,
+} from "./types";
+
+const PROGRAM_NAME = "form-scrp";
+
+/**
+ * Render the top-level help listing every command
+ */
+const formatProgramHelp = (): string => {
+  const width = Math.max(...commands.map((command) => command.name.length));
+  const lines = [
+    `Usage: ${PROGRAM_NAME} <command> [options]`,
+    "",
+    "Commands:",
+    ...commands.map(
+      (command) => `  ${command.name.padEnd(width)}  ${command.summary}`
+    ),
+    "",
+    `Run "${PROGRAM_NAME} <command> --help" for command options.`,
+  ];
+  return lines.join("\n");
+};
+
+/**
+ * Render the help text for a single command
+ */
+const formatCommandHelp = (command: CliCommand): string => {
+  const args = command.args || [];
+  const options = Object.entries(command.options || {});
+  const usageArgs = args
+    .map((arg) => (arg.required ? `<${arg.name}>` : `[${arg.name}]`))
+    .join(" ");
+
+  const lines = [
+    `Usage: ${PROGRAM_NAME} ${command.name}${usageArgs ? ` ${usageArgs}` : ""}${
+      options.length > 0 ? " [options]" : ""
+    }`,
+    "",
+    command.summary,
+  ];
+
+  if (args.length > 0) {
+    lines.push("", "Arguments:");
+    for (const arg of args) {
+      lines.push(`  ${arg.name.padEnd(24)}  ${arg.description}`);
+    }
+  }
+
+  lines.push("", "Options:");
+  for (const [name, spec] of options) {
+    const flag = `${spec.short ? `-${spec.short}, ` : ""}--${name}${
+      spec.type === "boolean" ? "" : ` <${spec.type}>`
+    }`;
+    const defaultText =
+      spec.default !== undefined ? ` (default: ${spec.default})` : "";
+    lines.push(`  ${flag.padEnd(24)}  ${spec.description}${defaultText}`);
+  }
+  lines.push(`  ${"-h, --help".padEnd(24)}  Show this help`);
+
+  return lines.join("\n");
+};
+
+/**
+ * Parse argv for a command into positional args and typed option values
+ */
+const parseCommandArgs = (
+  command: CliCommand,
+  argv: string[]
+): { args: string[]; options: OptionValues<Record<string, OptionSpec>>; help: boolean } => {
+  const specs = command.options || {};
+  const parserOptions: Record<
+    string,
+    { type: "string" | "boolean"; short?: string }
+  > = { help: { type: "boolean", short: "h" } };
+
+  for (const [name, spec] of Object.entries(specs)) {
+    parserOptions[name] = {
+      type: spec.type === "boolean" ? "boolean" : "string",
+      ...(spec.short ? { short: spec.short } : {}),
+    };
+  }
+
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: parserOptions,
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const values = parsed.values as Record<string, string | boolean | undefined>;
+  const help = !!values.help;
+  const options: Record<string, string | number | boolean | undefined> = {};
+
+  for (const [name, spec] of Object.entries(specs)) {
+    const raw = values[name];
+
+    if (raw === undefined) {
+      options[name] =
+        spec.default !== undefined
+          ? spec.default
+          : spec.type === "boolean"
+          ? false
+          : undefined;
+    } else if (spec.type === "number") {
+      const number = Number(raw);
+      if (!Number.isFinite(number)) {
+        throw new UsageError(`Option --${name} expects a number, got "${raw}"`);
+      }
+      options[name] = number;
+    } else {
+      options[name] = raw;
+    }
+  }
+
+  const args = parsed.positionals;
+  if (!help) {
+    const argSpecs = command.args || [];
+    const required = argSpecs.filter((arg) => arg.required).length;
+    if (args.length < required) {
+      throw new UsageError(
+        `Missing argument <${argSpecs[args.length].name}>`
+      );
+    }
+    if (args.length > argSpecs.length) {
+      throw new UsageError(`Unexpected argument "${args[argSpecs.length]}"`);
+    }
+  }
+
+  return { args, options: options as OptionValues<Record<string, OptionSpec>>, help };
+};
+
+/**
+ * Connect to the database, refusing to run against a schema that is
+ * behind the migrations unless the command manages migrations itself
+ */
+const connectDatabase = async (command: CliCommand): Promise<void> => {
+  await sequelize.authenticate();
+  console.log("Database connection established successfully.");
+
+  if (!command.allowPendingMigrations) {
+    await new SchemaMigrator().assertCurrent();
+  }
+};
+
+/**
+ * Run the CLI with the given arguments (without the node/script prefix)
+ * @returns The process exit code
+ */
+export const runCli = async (argv: string[]): Promise<ExitCode> => {
+  const [commandName, ...rest] = argv;
+
+  if (!commandName || commandName === "--help" || commandName === "-h" || commandName === "help") {
+    console.log(formatProgramHelp());
+    return commandName ? ExitCode.Success : ExitCode.Usage;
+  }
+
+  const command = commands.find((candidate) => candidate.name === commandName);
+  if (!command) {
+    console.error(`Unknown command "${commandName}"\n`);
+    console.error(formatProgramHelp());
+    return ExitCode.Usage;
+  }
+
+  let parsed: ReturnType<typeof parseCommandArgs>;
+  try {
+    parsed = parseCommandArgs(command, rest);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n`);
+      console.error(formatCommandHelp(command));
+      return ExitCode.Usage;
+    }
+    throw error;
+  }
+
+  if (parsed.help) {
+    console.log(formatCommandHelp(command));
+    return ExitCode.Success;
+  }
+
+  try {
+    if (command.needsDatabase) {
+      await connectDatabase(command);
+    }
+
+    const success = await command.run({
+      args: parsed.args,
+      options: parsed.options,
+    });
+
+    return success ? ExitCode.Success : ExitCode.Failure;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n`);
+      console.error(formatCommandHelp(command));
+      return ExitCode.Usage;
+    }
+    console.error(`Error running ${command.name}:`, error);
+    return ExitCode.Failure;
+  } finally {
+    if (command.needsDatabase) {
+      await sequelize.close().catch(() => undefined);
+    }
+  }
+};
@@ -0,0 +1,83 @@
+/**
+ * Exit codes returned by the CLI so cron jobs and systemd units can tell
+ * a successful run apart from a failed one or a bad invocation.
+ */
+export enum ExitCode {
+  Success = 0,
+  Failure = 1,
+  Usage = 2,
+}
+
+export type OptionType = "string" | "number" | "boolean";
+
+export interface OptionSpec {
+  type: OptionType;
+  description: string;
+  short?: string;
+  default?: string | number | boolean;
+}
+
+export interface ArgumentSpec {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+type OptionValue<S extends OptionSpec> = S["type"] extends "number"
+  ? number
+  : S["type"] extends "boolean"
+  ? boolean
+  : string;
+
+/**
+ * Parsed option values, typed from the command's option specs.
+ * Booleans and options with a default are always present.
+ */
+export type OptionValues<O extends Record<string, OptionSpec>> = {
+  [K in keyof O]: O[K] extends { type: "boolean" } | { default: any }
+    ? OptionValue<O[K]>
+    : OptionValue<O[K]> | undefined;
+};
+
+export interface CommandContext<O extends Record<string, OptionSpec>> {
+  args: string[];
+  options: OptionValues<O>;
+}
+
+export interface CliCommand<
+  O extends Record<string, OptionSpec> = Record<string, OptionSpec>
+> {
+  name: string;
+  summary: string;
+  args?: ArgumentSpec[];
+  options?: O;
+  /** Connect the database before running the command */
+  needsDatabase?: boolean;
+  /** Run even when schema migrations are pending (migration commands) */
+  allowPendingMigrations?: boolean;
+  /** Return true on success, false on failure */
+  run(context: CommandContext<O>): Promise<boolean>;
+}
+
+/**
+ * Define a command with its option types inferred from its specs. The
+ * result is erased to a plain CliCommand so commands with different
+ * options share one registry; runCli parses the options by the same
+ * specs, so the command still receives its typed values.
+ */
+export const defineCommand = <O extends Record<string, OptionSpec>>(
+  command: CliCommand<O>
+): CliCommand => ({
+  ...command,
+  run: (context) => command.run(context as CommandContext<O>),
+});
+
+/**
+ * Thrown for invalid command-line input; reported with the command usage
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
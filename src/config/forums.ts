@@ -0,0 +1,151 @@
+import dotenv from "dotenv";
+import * as fs from "fs";
+import { siteConfig } from "./site";
+import { ForumNodeData } from "../parsers/types";
+
+dotenv.config();
+
+/**
+ * A forum whose listing pages the scrapers crawl, with its crawl settings
+ */
+export interface ForumNode {
+  /** XenForo node ID, the number at the end of the forum URL */
+  forumId: number;
+  name: string;
+  /** Listing URL with a trailing slash; pages are `${url}page-N` */
+  url: string;
+  /** Most listing pages to crawl per run (0 = every page) */
+  maxPages: number;
+  /** Pause between listing pages, to avoid being blocked */
+  pageDelayMs: number;
+  /** Also crawl the subforums listed under this forum on the forum index */
+  discoverSubforums: boolean;
+}
+
+/** A FORUMS entry: a listing URL, or a URL with crawl settings */
+type ForumEntry = string | (Partial<ForumNode> & { url: string });
+
+const DEFAULT_PAGE_DELAY_MS = 2000;
+
+/**
+ * Read the node ID from a forum URL such as /forums/some-forum.17/
+ * @returns 0 if the URL has no node ID
+ */
+export const forumIdFromUrl = (url: string): number => {
+  const match = url.match(/\/forums\/(?:[^/]*\.)?(\d+)\/?(?:page-\d+)?$/);
+  return match ? parseInt(match[1]) : 0;
+};
+
+const normalizeForumUrl = (url: string, siteUrl: string): string => {
+  const absolute = url.startsWith("http") ? url : `${siteUrl}${url}`;
+  return absolute.endsWith("/") ? absolute : `${absolute}/`;
+};
+
+/**
+ * Build forum nodes from the JSON list in FORUMS or FORUMS_FILE. Entries
+ * are listing URLs (absolute or site-relative) or objects with a url and
+ * any ForumNode setting, e.g.
+ * [{"url": "/forums/models-and-celebrities.17/", "maxPages": 5}]
+ * @throws Error if the JSON is malformed or a URL has no node ID
+ */
+export const parseForumConfig = (
+  json: string,
+  siteUrl: string
+): ForumNode[] => {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid forum config: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error("Invalid forum config: expected a JSON array");
+  }
+
+  const forums: ForumNode[] = [];
+  for (const entry of entries as ForumEntry[]) {
+    const settings = typeof entry === "string" ? { url: entry } : entry;
+    if (!settings || typeof settings.url !== "string") {
+      throw new Error(`Invalid forum config entry: ${JSON.stringify(entry)}`);
+    }
+
+    const url = normalizeForumUrl(settings.url, siteUrl);
+    const forumId = settings.forumId || forumIdFromUrl(url);
+    if (!forumId) {
+      throw new Error(`Forum URL has no node ID: ${settings.url}`);
+    }
+    if (forums.some((forum) => forum.forumId === forumId)) {
+      continue;
+    }
+
+    forums.push({
+      forumId,
+      name: settings.name || `Forum ${forumId}`,
+      url,
+      maxPages: settings.maxPages ?? 0,
+      pageDelayMs: settings.pageDelayMs ?? DEFAULT_PAGE_DELAY_MS,
+      discoverSubforums: settings.discoverSubforums ?? false,
+    });
+  }
+
+  return forums;
+};
+
+/**
+ * Add the subforums of every forum with discoverSubforums, at any depth
+ * the index shows. Subforums inherit their parent's crawl settings and
+ * follow it in the returned order.
+ * @param index - Forums parsed from the forum index
+ */
+export const withSubforums = (
+  forums: ForumNode[],
+  index: ForumNodeData[]
+): ForumNode[] => {
+  const result: ForumNode[] = [];
+  const seen = new Set<number>(forums.map((forum) => forum.forumId));
+
+  const addChildren = (parent: ForumNode) => {
+    for (const child of index) {
+      if (child.parentId !== parent.forumId || seen.has(child.forumId)) {
+        continue;
+      }
+      seen.add(child.forumId);
+      const subforum: ForumNode = {
+        ...parent,
+        forumId: child.forumId,
+        name: child.title,
+        url: normalizeForumUrl(child.url, siteConfig.siteUrl),
+      };
+      result.push(subforum);
+      addChildren(subforum);
+    }
+  };
+
+  for (const forum of forums) {
+    result.push(forum);
+    if (forum.discoverSubforums) {
+      addChildren(forum);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Forums to crawl: FORUMS (inline JSON), else FORUMS_FILE (path to a JSON
+ * file), else the single forum at FORUM_URL
+ */
+export const loadForumNodes = (): ForumNode[] => {
+  const { siteUrl, forumUrl } = siteConfig;
+
+  if (process.env.FORUMS) {
+    return parseForumConfig(process.env.FORUMS, siteUrl);
+  }
+  if (process.env.FORUMS_FILE) {
+    return parseForumConfig(
+      fs.readFileSync(process.env.FORUMS_FILE, "utf8"),
+      siteUrl
+    );
+  }
+  return parseForumConfig(JSON.stringify([forumUrl]), siteUrl);
+};
@@ -0,0 +1,252 @@
+import {
+  DataType,
+  ModelAttributeColumnOptions,
+  ModelAttributes,
+  QueryInterface,
+  QueryTypes,
+} from "sequelize";
+
+export interface TableIndex {
+  name: string;
+  fields: string[];
+  unique?: boolean;
+}
+
+const hasIndex = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  name: string
+): Promise<boolean> => {
+  const indexes = (await queryInterface.showIndex(tableName)) as {
+    name: string;
+  }[];
+  return indexes.some((index) => index.name === name);
+};
+
+/**
+ * Add an index unless one with the same name exists
+ * @returns true if the index was added
+ */
+export const ensureIndex = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  index: TableIndex
+): Promise<boolean> => {
+  if (await hasIndex(queryInterface, tableName, index.name)) {
+    return false;
+  }
+  await queryInterface.addIndex(tableName, index.fields, {
+    name: index.name,
+    unique: index.unique,
+  });
+  return true;
+};
+
+/**
+ * Drop an index if it exists
+ */
+export const dropIndex = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  name: string
+): Promise<void> => {
+  if (await hasIndex(queryInterface, tableName, name)) {
+    await queryInterface.removeIndex(tableName, name);
+  }
+};
+
+export interface TableForeignKey {
+  name: string;
+  field: string;
+  references: { table: string; field: string };
+  onDelete: "CASCADE" | "SET NULL" | "RESTRICT";
+}
+
+const hasForeignKey = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  name: string
+): Promise<boolean> => {
+  const references = (await queryInterface.getForeignKeyReferencesForTable(
+    tableName
+  )) as { constraintName: string }[];
+  return references.some((reference) => reference.constraintName === name);
+};
+
+/**
+ * Add a foreign key constraint unless one with the same name exists
+ * @returns true if the constraint was added
+ */
+export const ensureForeignKey = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  key: TableForeignKey
+): Promise<boolean> => {
+  if (await hasForeignKey(queryInterface, tableName, key.name)) {
+    return false;
+  }
+  await queryInterface.addConstraint(tableName, {
+    type: "foreign key",
+    name: key.name,
+    fields: [key.field],
+    references: key.references,
+    onDelete: key.onDelete,
+    onUpdate: "CASCADE",
+  });
+  return true;
+};
+
+/**
+ * Drop a foreign key constraint if it exists
+ */
+export const dropForeignKey = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  name: string
+): Promise<void> => {
+  if (await hasForeignKey(queryInterface, tableName, name)) {
+    await queryInterface.removeConstraint(tableName, name);
+  }
+};
+
+/**
+ * Add a column unless the table already has it
+ * @returns true if the column was added
+ */
+export const ensureColumn = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  column: string,
+  attribute: ModelAttributeColumnOptions
+): Promise<boolean> => {
+  const columns = await queryInterface.describeTable(tableName);
+  if (columns[column]) {
+    return false;
+  }
+  await queryInterface.addColumn(tableName, column, attribute);
+  return true;
+};
+
+/**
+ * Drop a column if the table has it
+ */
+export const dropColumn = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  column: string
+): Promise<void> => {
+  const columns = await queryInterface.describeTable(tableName);
+  if (columns[column]) {
+    await queryInterface.removeColumn(tableName, column);
+  }
+};
+
+/**
+ * Create a table with its indexes. A table that already exists, as
+ * created by sequelize.sync() before migrations, gets the columns and
+ * indexes it lacks instead.
+ */
+export const ensureTable = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  attributes: ModelAttributes,
+  indexes: TableIndex[] = []
+): Promise<void> => {
+  if (!(await queryInterface.tableExists(tableName))) {
+    await queryInterface.createTable(tableName, attributes);
+  } else {
+    for (const [column, attribute] of Object.entries(attributes)) {
+      await ensureColumn(
+        queryInterface,
+        tableName,
+        column,
+        attribute as ModelAttributeColumnOptions
+      );
+    }
+  }
+
+  for (const index of indexes) {
+    await ensureIndex(queryInterface, tableName, index);
+  }
+};
+
+export interface ColumnConversion {
+  /** Only convert while the column's SQL type starts with this, e.g. VARCHAR */
+  from: string;
+  to: DataType;
+  /** Integer primary key used to walk the table in batches */
+  primaryKey: string;
+  convert: (value: any) => unknown;
+}
+
+const CONVERSION_BATCH_SIZE = 1000;
+
+/**
+ * Change a column's type, converting every value in JavaScript. The new
+ * values go to a temporary column that then replaces the original, so an
+ * interrupted conversion can simply be run again.
+ * @returns false if the column was missing or already converted
+ */
+export const convertColumn = async (
+  queryInterface: QueryInterface,
+  tableName: string,
+  column: string,
+  conversion: ColumnConversion
+): Promise<boolean> => {
+  const { sequelize } = queryInterface;
+  const columns = await queryInterface.describeTable(tableName);
+  const temporary = `${column}_converted`;
+
+  // Interrupted between dropping the original and renaming its replacement
+  if (!columns[column] && columns[temporary]) {
+    await queryInterface.renameColumn(tableName, temporary, column);
+    return true;
+  }
+  if (
+    !columns[column] ||
+    !columns[column].type.toUpperCase().startsWith(conversion.from)
+  ) {
+    return false;
+  }
+
+  if (!columns[temporary]) {
+    await queryInterface.addColumn(tableName, temporary, {
+      type: conversion.to,
+      allowNull: true,
+    });
+  }
+
+  const { primaryKey } = conversion;
+  let lastKey = -1;
+  for (;;) {
+    const rows = await sequelize.query<{ id: number; value: unknown }>(
+      `SELECT \`${primaryKey}\` AS id, \`${column}\` AS value
+         FROM \`${tableName}\`
+        WHERE \`${primaryKey}\` > ?
+        ORDER BY \`${primaryKey}\`
+        LIMIT ${CONVERSION_BATCH_SIZE}`,
+      { replacements: [lastKey], type: QueryTypes.SELECT }
+    );
+    if (rows.length === 0) {
+      break;
+    }
+
+    const cases = rows.map(() => "WHEN ? THEN ?").join(" ");
+    await sequelize.query(
+      `UPDATE \`${tableName}\`
+          SET \`${temporary}\` = CASE \`${primaryKey}\` ${cases} END
+        WHERE \`${primaryKey}\` IN (?)`,
+      {
+        replacements: [
+          ...rows.flatMap((row) => [row.id, conversion.convert(row.value)]),
+          rows.map((row) => row.id),
+        ],
+      }
+    );
+    lastKey = rows[rows.length - 1].id;
+  }
+
+  await queryInterface.removeColumn(tableName, column);
+  await queryInterface.renameColumn(tableName, temporary, column);
+  return true;
+};
@@ -0,0 +1,25 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export type SiteAdapterName = "xenforo2";
+
+const DEFAULT_SITE_URL = "https://www.lpsg.com";
+const DEFAULT_FORUM_PATH = "/forums/models-and-celebrities.17/";
+
+/**
+ * Forum the scrapers target. Point SITE_URL (and optionally FORUM_URL) at
+ * the mock forum server to run the whole pipeline without network access.
+ */
+const siteUrl = (process.env.SITE_URL || DEFAULT_SITE_URL).replace(/\/+$/, "");
+
+const forumUrl = process.env.FORUM_URL || `${siteUrl}${DEFAULT_FORUM_PATH}`;
+
+export const siteConfig = {
+  // Forum software the site runs, see ../site
+  adapter: (process.env.SITE_ADAPTER || "xenforo2") as SiteAdapterName,
+  siteUrl,
+  // Listing pages are built as `${forumUrl}page-N`
+  forumUrl: forumUrl.endsWith("/") ? forumUrl : `${forumUrl}/`,
+  loginUrl: `${siteUrl}/login/`,
+};
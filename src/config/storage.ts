@@ -0,0 +1,33 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export type MediaStoreDriver = "s3" | "wasabi" | "minio" | "local";
+
+/**
+ * Media storage settings. MEDIA_STORE picks the driver; the S3_* variables
+ * are shared by the s3, wasabi and minio drivers.
+ */
+export const storageConfig = {
+  driver: (process.env.MEDIA_STORE || "wasabi") as MediaStoreDriver,
+  s3: {
+    bucket: process.env.S3_BUCKET_NAME || "",
+    region: process.env.S3_REGION || "us-east-2",
+    endpoint: process.env.S3_ENDPOINT || "",
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+    // Overrides the provider's default public URL (e.g. a CDN in front)
+    publicUrl: process.env.S3_PUBLIC_URL || "",
+  },
+  // Large files are streamed from disk in parts instead of one PUT
+  multipart: {
+    multipartThreshold:
+      parseInt(process.env.MEDIA_MULTIPART_THRESHOLD_MB || "16") * 1024 * 1024,
+    partSize: parseInt(process.env.MEDIA_PART_SIZE_MB || "8") * 1024 * 1024,
+    partConcurrency: parseInt(process.env.MEDIA_PART_CONCURRENCY || "2"),
+  },
+  local: {
+    dir: process.env.MEDIA_LOCAL_DIR || "media",
+    publicUrl: process.env.MEDIA_PUBLIC_URL || "",
+  },
+};
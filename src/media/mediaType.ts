@@ -0,0 +1,176 @@
+import * as fs from "fs";
+import { extensionForContentType } from "./video";
+
+/** ForumMedia.type of a stored file */
+export type MediaKind = "img" | "mov";
+
+export interface DetectedMediaType {
+  kind: MediaKind;
+  /** Extension used in the object key, with the dot */
+  extension: string;
+  contentType: string;
+}
+
+/** Enough of a file to recognise every supported format */
+export const SNIFF_LENGTH = 64;
+
+/**
+ * Thrown for downloads whose bytes are not a supported image or video,
+ * such as an HTML error page served in place of an attachment
+ */
+export class UnsupportedMediaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedMediaError";
+  }
+}
+
+const image = (extension: string, contentType: string): DetectedMediaType => ({
+  kind: "img",
+  extension,
+  contentType,
+});
+
+const video = (extension: string, contentType: string): DetectedMediaType => ({
+  kind: "mov",
+  extension,
+  contentType,
+});
+
+const startsWith = (bytes: Buffer, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length &&
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Buffer, start: number, end: number): string =>
+  bytes.toString("latin1", start, Math.min(end, bytes.length));
+
+// ISO base media file brands (bytes 8-12 after "ftyp") that are images
+const HEIF_BRANDS = ["heic", "heix", "heim", "heis", "mif1", "msf1"];
+const AVIF_BRANDS = ["avif", "avis"];
+
+/**
+ * MP4, MOV, HEIC and AVIF share one container; the major brand tells
+ * them apart, and the response header settles generic brands
+ */
+const detectIsoMedia = (
+  bytes: Buffer,
+  responseContentType?: string | null
+): DetectedMediaType => {
+  const brand = ascii(bytes, 8, 12).toLowerCase();
+
+  if (AVIF_BRANDS.includes(brand)) {
+    return image(".avif", "image/avif");
+  }
+  if (HEIF_BRANDS.includes(brand)) {
+    return image(".heic", "image/heic");
+  }
+  if (
+    brand === "qt  " ||
+    extensionForContentType(responseContentType) === ".mov"
+  ) {
+    return video(".mov", "video/quicktime");
+  }
+  return video(".mp4", "video/mp4");
+};
+
+/**
+ * Identify an image or video from its first bytes. The bytes decide; the
+ * response Content-Type is only consulted to tell MP4 from MOV when the
+ * container does not say. SVG is not accepted since it can carry script.
+ * @param bytes - The start of the file, at least SNIFF_LENGTH bytes if
+ * the file is that long
+ * @param responseContentType - Content-Type the file was served with
+ * @returns null for anything that is not a supported image or video
+ */
+export const detectMediaType = (
+  bytes: Buffer,
+  responseContentType?: string | null
+): DetectedMediaType | null => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return image(".jpg", "image/jpeg");
+  }
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return image(".png", "image/png");
+  }
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") {
+    return image(".gif", "image/gif");
+  }
+  if (ascii(bytes, 0, 4) === "RIFF") {
+    const format = ascii(bytes, 8, 12);
+    if (format === "WEBP") {
+      return image(".webp", "image/webp");
+    }
+    if (format === "AVI ") {
+      return video(".avi", "video/x-msvideo");
+    }
+    return null;
+  }
+  if (ascii(bytes, 0, 2) === "BM" && bytes.length >= 14) {
+    return image(".bmp", "image/bmp");
+  }
+  if (
+    startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return image(".tiff", "image/tiff");
+  }
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    return detectIsoMedia(bytes, responseContentType);
+  }
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+    // Matroska; WebM names itself in the EBML DocType near the start
+    return bytes.includes("webm", 0, "latin1")
+      ? video(".webm", "video/webm")
+      : video(".mkv", "video/x-matroska");
+  }
+  if (ascii(bytes, 0, 3) === "FLV") {
+    return video(".flv", "video/x-flv");
+  }
+  if (startsWith(bytes, [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11])) {
+    return video(".wmv", "video/x-ms-wmv");
+  }
+
+  return null;
+};
+
+/**
+ * Whether the bytes look like an HTML or XML document rather than a
+ * binary file, whatever the response headers claimed
+ */
+export const looksLikeMarkup = (bytes: Buffer): boolean => {
+  const text = ascii(bytes, 0, SNIFF_LENGTH)
+    .replace(/^\xEF\xBB\xBF/, "") // UTF-8 byte order mark
+    .trimStart()
+    .toLowerCase();
+  return (
+    text.startsWith("<!doctype") ||
+    text.startsWith("<html") ||
+    text.startsWith("<head") ||
+    text.startsWith("<body") ||
+    text.startsWith("<?xml") ||
+    text.startsWith("<!--")
+  );
+};
+
+/**
+ * Read the first SNIFF_LENGTH bytes of a file
+ */
+export const readFileHeader = async (filePath: string): Promise<Buffer> => {
+  const file = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(SNIFF_LENGTH);
+    const { bytesRead } = await file.read(buffer, 0, SNIFF_LENGTH, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+};
+
+/**
+ * detectMediaType() for a file on disk
+ */
+export const detectFileMediaType = async (
+  filePath: string,
+  responseContentType?: string | null
+): Promise<DetectedMediaType | null> =>
+  detectMediaType(await readFileHeader(filePath), responseContentType);
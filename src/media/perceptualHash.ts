@@ -0,0 +1,122 @@
+import sharp from "sharp";
+
+// dHash compares each pixel with its right neighbour on a 9x8 thumbnail,
+// giving one bit per comparison: 8 rows x 8 comparisons = 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const HASH_BITS = (HASH_WIDTH - 1) * HASH_HEIGHT;
+
+/** Hashes at or below this Hamming distance are treated as the same picture */
+export const DEFAULT_NEAR_DUPLICATE_DISTANCE = 8;
+
+/**
+ * Difference hash (dHash) of an image as 16 hex characters. Resizing,
+ * recompressing and small colour changes leave the hash (nearly) unchanged.
+ * @param image - Image contents, or the path of an image file
+ * @throws If the input is not an image sharp can decode
+ */
+export const computeDHash = async (
+  image: Buffer | string
+): Promise<string> => {
+  const pixels = await sharp(image, { failOn: "none" })
+    .flatten({ background: "#ffffff" })
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+
+  return hash.toString(16).padStart(16, "0");
+};
+
+/**
+ * Number of differing bits between two hex hashes of equal length
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff > 0n) {
+    diff &= diff - 1n;
+    distance++;
+  }
+  return distance;
+};
+
+/**
+ * Group hashes whose Hamming distance chains together within maxDistance.
+ * Uses the pigeonhole principle to avoid comparing every pair: split into
+ * maxDistance + 1 bands, two hashes within maxDistance share at least one
+ * identical band, so only hashes sharing a band are compared.
+ * @returns Every distinct hash in exactly one cluster, largest first
+ */
+export const clusterHashes = (
+  hashes: string[],
+  maxDistance: number = DEFAULT_NEAR_DUPLICATE_DISTANCE
+): string[][] => {
+  const unique = [...new Set(hashes)];
+  const parent = unique.map((_, index) => index);
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const bandCount = Math.min(maxDistance + 1, HASH_BITS);
+  const bandWidth = Math.ceil(HASH_BITS / bandCount);
+
+  for (let band = 0; band < bandCount; band++) {
+    const shift = BigInt(band * bandWidth);
+    const mask = (1n << BigInt(bandWidth)) - 1n;
+    const buckets = new Map<bigint, number[]>();
+
+    unique.forEach((hash, index) => {
+      const value = (BigInt(`0x${hash}`) >> shift) & mask;
+      const bucket = buckets.get(value);
+      if (bucket) {
+        bucket.push(index);
+      } else {
+        buckets.set(value, [index]);
+      }
+    });
+
+    for (const bucket of buckets.values()) {
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          const a = find(bucket[i]);
+          const b = find(bucket[j]);
+          if (
+            a !== b &&
+            hammingDistance(unique[bucket[i]], unique[bucket[j]]) <=
+              maxDistance
+          ) {
+            parent[a] = b;
+          }
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<number, string[]>();
+  unique.forEach((hash, index) => {
+    const root = find(index);
+    const cluster = clusters.get(root);
+    if (cluster) {
+      cluster.push(hash);
+    } else {
+      clusters.set(root, [hash]);
+    }
+  });
+
+  return [...clusters.values()].sort((a, b) => b.length - a.length);
+};
@@ -0,0 +1,69 @@
+import * as path from "path";
+import sharp from "sharp";
+
+/** Thumbnails fit inside this box, keeping the aspect ratio */
+export const THUMBNAIL_WIDTH = 400;
+export const THUMBNAIL_HEIGHT = 400;
+
+export interface Thumbnail {
+  buffer: Buffer;
+  contentType: string;
+}
+
+/**
+ * Key of the thumbnail stored next to an object, following the `_thumb`
+ * convention the frontend uses to derive thumbnail links
+ */
+export const thumbnailKey = (key: string): string => {
+  const extension = path.posix.extname(key);
+  return `${key.slice(0, key.length - extension.length)}_thumb${extension}`;
+};
+
+/**
+ * Render a thumbnail in the same format as the original, so the `_thumb`
+ * key keeps the original's extension and content type
+ * @param image - Image contents, or the path of an image file
+ * @param extension - Extension of the original, with or without the dot
+ * @throws If the input is not an image sharp can decode
+ */
+export const generateThumbnail = async (
+  image: Buffer | string,
+  extension: string
+): Promise<Thumbnail> => {
+  const format = extension.replace(/^\./, "").toLowerCase();
+  const animated = format === "gif" || format === "webp";
+
+  const pipeline = sharp(image, { failOn: "none", animated })
+    .rotate() // Apply EXIF orientation before it is stripped
+    .resize(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, {
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+
+  switch (format) {
+    case "png":
+      return {
+        buffer: await pipeline.png({ compressionLevel: 9 }).toBuffer(),
+        contentType: "image/png",
+      };
+    case "gif":
+      return {
+        buffer: await pipeline.gif().toBuffer(),
+        contentType: "image/gif",
+      };
+    case "webp":
+      return {
+        buffer: await pipeline.webp({ quality: 80 }).toBuffer(),
+        contentType: "image/webp",
+      };
+    default:
+      // JPEG for jpg/jpeg and for formats browsers show poorly (bmp, tiff)
+      return {
+        buffer: await pipeline
+          .flatten({ background: "#ffffff" })
+          .jpeg({ quality: 80, mozjpeg: true })
+          .toBuffer(),
+        contentType: "image/jpeg",
+      };
+  }
+};
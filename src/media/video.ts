@@ -0,0 +1,107 @@
+import { execFile } from "child_process";
+
+/** Extensions stored as ForumMedia type "mov" */
+export const VIDEO_EXTENSIONS = [
+  "mp4",
+  "webm",
+  "mov",
+  "avi",
+  "mkv",
+  "wmv",
+  "flv",
+];
+
+const VIDEO_CONTENT_TYPES: Record<string, string> = {
+  "video/mp4": "mp4",
+  "video/x-m4v": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov",
+  "video/x-msvideo": "avi",
+  "video/x-matroska": "mkv",
+  "video/x-ms-wmv": "wmv",
+  "video/x-flv": "flv",
+};
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/bmp": "bmp",
+  "image/svg+xml": "svg",
+};
+
+// Poster frames are taken this far in, past fade-ins and black first frames
+const POSTER_OFFSET_SECONDS = 1;
+const FFMPEG_TIMEOUT = 60000;
+
+/**
+ * Whether an extension (with or without the dot) is a video format
+ */
+export const isVideoExtension = (extension: string): boolean =>
+  VIDEO_EXTENSIONS.includes(extension.replace(/^\./, "").toLowerCase());
+
+/**
+ * Extension (with the dot) for a response Content-Type, ignoring
+ * parameters such as charset
+ * @returns null for types that are not a known image or video format
+ */
+export const extensionForContentType = (
+  contentType: string | null | undefined
+): string | null => {
+  const type = (contentType || "").split(";")[0].trim().toLowerCase();
+  const extension = VIDEO_CONTENT_TYPES[type] || IMAGE_CONTENT_TYPES[type];
+  return extension ? `.${extension}` : null;
+};
+
+const runFfmpeg = (args: string[]): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    execFile(
+      process.env.FFMPEG_PATH || "ffmpeg",
+      args,
+      {
+        encoding: "buffer",
+        timeout: FFMPEG_TIMEOUT,
+        maxBuffer: 32 * 1024 * 1024,
+      },
+      (error, stdout) => (error ? reject(error) : resolve(stdout))
+    );
+  });
+
+/**
+ * Grab one frame of a video as a JPEG using ffmpeg (FFMPEG_PATH, or
+ * ffmpeg on the PATH)
+ * @param videoPath - Video file on disk
+ * @throws If ffmpeg is missing or cannot decode the video
+ */
+export const extractPosterFrame = async (videoPath: string): Promise<Buffer> => {
+  const grabFrame = (offsetSeconds: number) =>
+    runFfmpeg([
+      "-hide_banner",
+      "-loglevel",
+      "error",
+      "-ss",
+      String(offsetSeconds),
+      "-i",
+      videoPath,
+      "-frames:v",
+      "1",
+      "-f",
+      "image2",
+      "-c:v",
+      "mjpeg",
+      "pipe:1",
+    ]);
+
+  // Clips shorter than the offset produce no frame; retry from the start
+  const frame = await grabFrame(POSTER_OFFSET_SECONDS);
+  if (frame.length > 0) {
+    return frame;
+  }
+
+  const firstFrame = await grabFrame(0);
+  if (firstFrame.length === 0) {
+    throw new Error(`ffmpeg produced no frame for ${videoPath}`);
+  }
+  return firstFrame;
+};
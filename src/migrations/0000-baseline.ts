@@ -0,0 +1,154 @@
+import { DataTypes, ModelAttributes, QueryInterface } from "sequelize";
+import { ensureTable, TableIndex } from "../config/schema";
+
+/*
+ * The schema as sequelize.sync() left it before versioned migrations.
+ * Databases created that way keep their tables and only gain the columns
+ * and indexes they lack; new databases get every table.
+ */
+
+const timestamps: ModelAttributes = {
+  createdAt: { type: DataTypes.DATE, allowNull: false },
+  updatedAt: { type: DataTypes.DATE, allowNull: false },
+};
+
+const nullable = (type: any) => ({
+  type,
+  allowNull: true,
+  defaultValue: null,
+});
+
+const TABLES: [string, ModelAttributes, TableIndex[]][] = [
+  [
+    "forum_threads",
+    {
+      threadId: { type: DataTypes.INTEGER, primaryKey: true },
+      title: DataTypes.TEXT,
+      creator: DataTypes.STRING,
+      creationDate: DataTypes.STRING,
+      replies: DataTypes.STRING,
+      views: DataTypes.STRING,
+      lastReplyDate: DataTypes.STRING,
+      lastReplier: DataTypes.STRING,
+      threadUrl: DataTypes.STRING,
+      forumId: nullable(DataTypes.INTEGER),
+      lastUpdatedPage: DataTypes.INTEGER,
+      detailPageUpdateDate: nullable(DataTypes.STRING),
+      ...timestamps,
+    },
+    [{ name: "forum_threads_forum_id", fields: ["forumId"] }],
+  ],
+  [
+    "forum_posts",
+    {
+      postId: { type: DataTypes.INTEGER, primaryKey: true },
+      threadId: DataTypes.INTEGER,
+      author: DataTypes.STRING,
+      content: DataTypes.TEXT,
+      postCreatedDate: DataTypes.STRING,
+      likes: DataTypes.INTEGER,
+      ...timestamps,
+    },
+    [],
+  ],
+  [
+    "media_objects",
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      sha256: DataTypes.CHAR(64),
+      key: DataTypes.STRING(512),
+      size: DataTypes.INTEGER,
+      contentType: nullable(DataTypes.STRING),
+      hasThumb: { type: DataTypes.BOOLEAN, defaultValue: false },
+      refCount: { type: DataTypes.INTEGER, defaultValue: 0 },
+      ...timestamps,
+    },
+    [
+      { name: "media_objects_sha256", fields: ["sha256"], unique: true },
+      { name: "media_objects_ref_count", fields: ["refCount"] },
+    ],
+  ],
+  [
+    "forum_medias",
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      threadId: DataTypes.INTEGER,
+      postId: DataTypes.INTEGER,
+      link: DataTypes.TEXT,
+      existThumb: { type: DataTypes.INTEGER, defaultValue: 0 },
+      type: nullable(DataTypes.ENUM("img", "mov")),
+      mediaObjectId: nullable(DataTypes.INTEGER),
+      perceptualHash: nullable(DataTypes.CHAR(16)),
+      ...timestamps,
+    },
+    [
+      { name: "forum_medias_media_object_id", fields: ["mediaObjectId"] },
+      { name: "forum_medias_perceptual_hash", fields: ["perceptualHash"] },
+    ],
+  ],
+  [
+    "scrape_jobs",
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      threadId: DataTypes.INTEGER,
+      status: {
+        type: DataTypes.ENUM("pending", "running", "done", "failed"),
+        defaultValue: "pending",
+      },
+      lastReplyDate: DataTypes.STRING,
+      workerId: nullable(DataTypes.STRING),
+      leaseExpiresAt: nullable(DataTypes.DATE),
+      attempts: { type: DataTypes.INTEGER, defaultValue: 0 },
+      lastError: nullable(DataTypes.TEXT),
+      ...timestamps,
+    },
+    [
+      { name: "scrape_jobs_thread_id", fields: ["threadId"], unique: true },
+      {
+        name: "scrape_jobs_status_lease",
+        fields: ["status", "leaseExpiresAt"],
+      },
+    ],
+  ],
+  [
+    "media_failures",
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      threadId: DataTypes.INTEGER,
+      postId: DataTypes.INTEGER,
+      url: DataTypes.TEXT,
+      urlHash: DataTypes.CHAR(64),
+      thumbUrl: nullable(DataTypes.TEXT),
+      errorClass: DataTypes.STRING(64),
+      errorMessage: nullable(DataTypes.TEXT),
+      attempts: { type: DataTypes.INTEGER, defaultValue: 1 },
+      lastAttemptAt: DataTypes.DATE,
+      nextAttemptAt: DataTypes.DATE,
+      ...timestamps,
+    },
+    [
+      { name: "media_failures_thread_id", fields: ["threadId"] },
+      {
+        name: "media_failures_post_url",
+        fields: ["postId", "urlHash"],
+        unique: true,
+      },
+      { name: "media_failures_next_attempt", fields: ["nextAttemptAt"] },
+    ],
+  ],
+];
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  for (const [tableName, attributes, indexes] of TABLES) {
+    await ensureTable(queryInterface, tableName, attributes, indexes);
+  }
+};
+
+/**
+ * Drops every table, and with them all scraped data
+ */
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  for (const [tableName] of [...TABLES].reverse()) {
+    await queryInterface.dropTable(tableName);
+  }
+};
@@ -0,0 +1,86 @@
+import { DataTypes, QueryInterface } from "sequelize";
+import { convertColumn, dropIndex, ensureIndex } from "../config/schema";
+import { parseCount, parseForumDate } from "../parsers/values";
+
+/*
+ * Store thread counts as INTEGER and forum dates as DATETIME instead of the
+ * text shown on the page ("1.2K", "2024-01-24T19:34:34-0500"), so sorting,
+ * range queries and staleness checks compare values rather than strings.
+ */
+
+// [table, column, integer primary key]
+const COUNT_COLUMNS: [string, string, string][] = [
+  ["forum_threads", "replies", "threadId"],
+  ["forum_threads", "views", "threadId"],
+];
+
+const DATE_COLUMNS: [string, string, string][] = [
+  ["forum_threads", "creationDate", "threadId"],
+  ["forum_threads", "lastReplyDate", "threadId"],
+  ["forum_threads", "detailPageUpdateDate", "threadId"],
+  ["forum_posts", "postCreatedDate", "postId"],
+  ["scrape_jobs", "lastReplyDate", "id"],
+];
+
+const LAST_REPLY_INDEX = "forum_threads_last_reply_date";
+
+/**
+ * XenForo datetime attribute format, as the columns held before
+ */
+const formatForumDate = (value: Date | string | null): string | null =>
+  value ? new Date(value).toISOString().replace(/\.\d{3}Z$/, "+0000") : null;
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  for (const [tableName, column, primaryKey] of COUNT_COLUMNS) {
+    await convertColumn(queryInterface, tableName, column, {
+      from: "VARCHAR",
+      to: DataTypes.INTEGER,
+      primaryKey,
+      convert: parseCount,
+    });
+  }
+  for (const [tableName, column, primaryKey] of DATE_COLUMNS) {
+    await convertColumn(queryInterface, tableName, column, {
+      from: "VARCHAR",
+      to: DataTypes.DATE,
+      primaryKey,
+      convert: parseForumDate,
+    });
+  }
+
+  // Threads without replies list no latest reply; they sort by creation
+  await queryInterface.sequelize.query(
+    "UPDATE forum_threads SET lastReplyDate = creationDate WHERE lastReplyDate IS NULL"
+  );
+
+  await ensureIndex(queryInterface, "forum_threads", {
+    name: LAST_REPLY_INDEX,
+    fields: ["lastReplyDate"],
+  });
+};
+
+/**
+ * Back to text columns. Counts come back as plain digits and dates in
+ * XenForo's format, so "1.2K" returns as "1200".
+ */
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await dropIndex(queryInterface, "forum_threads", LAST_REPLY_INDEX);
+
+  for (const [tableName, column, primaryKey] of COUNT_COLUMNS) {
+    await convertColumn(queryInterface, tableName, column, {
+      from: "INT",
+      to: DataTypes.STRING,
+      primaryKey,
+      convert: (value: number | null) =>
+        value === null ? null : String(value),
+    });
+  }
+  for (const [tableName, column, primaryKey] of DATE_COLUMNS) {
+    await convertColumn(queryInterface, tableName, column, {
+      from: "DATETIME",
+      to: DataTypes.STRING,
+      primaryKey,
+      convert: formatForumDate,
+    });
+  }
+};
@@ -0,0 +1,21 @@
+import { DataTypes, QueryInterface } from "sequelize";
+import { dropColumn, ensureColumn } from "../config/schema";
+
+/*
+ * Post media moved to the forum_medias table, but databases created before
+ * that still carry the old JSON column on forum_posts.
+ */
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await dropColumn(queryInterface, "forum_posts", "medias");
+};
+
+/**
+ * Restores the column empty; its former contents live in forum_medias
+ */
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await ensureColumn(queryInterface, "forum_posts", "medias", {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  });
+};
@@ -0,0 +1,36 @@
+import { DataTypes, QueryInterface } from "sequelize";
+import { ensureTable } from "../config/schema";
+
+/*
+ * Keep every scraped version of a post instead of overwriting its content.
+ */
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await ensureTable(
+    queryInterface,
+    "post_revisions",
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      postId: DataTypes.INTEGER,
+      revision: DataTypes.INTEGER,
+      threadId: DataTypes.INTEGER,
+      contentHash: DataTypes.CHAR(64),
+      content: DataTypes.TEXT,
+      likes: DataTypes.INTEGER,
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false },
+    },
+    [
+      {
+        name: "post_revisions_post_revision",
+        fields: ["postId", "revision"],
+        unique: true,
+      },
+      { name: "post_revisions_thread_id", fields: ["threadId"] },
+    ]
+  );
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.dropTable("post_revisions");
+};
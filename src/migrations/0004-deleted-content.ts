@@ -0,0 +1,41 @@
+import { DataTypes, QueryInterface } from "sequelize";
+import {
+  dropColumn,
+  dropIndex,
+  ensureColumn,
+  ensureIndex,
+} from "../config/schema";
+
+/*
+ * Flag posts that disappeared from their thread and threads that
+ * disappeared from their forum listing, rather than deleting the rows.
+ */
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await ensureColumn(queryInterface, "forum_posts", "deletedAt", {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  });
+  await ensureIndex(queryInterface, "forum_posts", {
+    name: "forum_posts_thread_deleted",
+    fields: ["threadId", "deletedAt"],
+  });
+
+  await ensureColumn(queryInterface, "forum_threads", "missingSince", {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  });
+  await ensureIndex(queryInterface, "forum_threads", {
+    name: "forum_threads_missing_since",
+    fields: ["missingSince"],
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await dropIndex(queryInterface, "forum_threads", "forum_threads_missing_since");
+  await dropColumn(queryInterface, "forum_threads", "missingSince");
+  await dropIndex(queryInterface, "forum_posts", "forum_posts_thread_deleted");
+  await dropColumn(queryInterface, "forum_posts", "deletedAt");
+};
@@ -0,0 +1,26 @@
+import { DataTypes, QueryInterface } from "sequelize";
+import { dropColumn, ensureColumn } from "../config/schema";
+
+/*
+ * Keep post bodies as sanitized HTML and as a structured node tree next to
+ * the plain text, so archived posts keep their quotes, links and media.
+ * Posts scraped before this have neither until they are scraped again.
+ */
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await ensureColumn(queryInterface, "forum_posts", "contentHtml", {
+    type: DataTypes.TEXT("medium"),
+    allowNull: true,
+    defaultValue: null,
+  });
+  await ensureColumn(queryInterface, "forum_posts", "contentBody", {
+    type: DataTypes.JSON,
+    allowNull: true,
+    defaultValue: null,
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await dropColumn(queryInterface, "forum_posts", "contentBody");
+  await dropColumn(queryInterface, "forum_posts", "contentHtml");
+};
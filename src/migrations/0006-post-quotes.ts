@@ -0,0 +1,46 @@
+import { DataTypes, QueryInterface } from "sequelize";
+import { ensureTable } from "../config/schema";
+
+/*
+ * Record which posts quote which, so replies can be followed within and
+ * across threads.
+ */
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await ensureTable(
+    queryInterface,
+    "post_quotes",
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      threadId: DataTypes.INTEGER,
+      postId: DataTypes.INTEGER,
+      quotedPostId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        defaultValue: null,
+      },
+      quotedMemberId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        defaultValue: null,
+      },
+      quotedAuthor: {
+        type: DataTypes.STRING,
+        allowNull: true,
+        defaultValue: null,
+      },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false },
+    },
+    [
+      { name: "post_quotes_thread_id", fields: ["threadId"] },
+      { name: "post_quotes_post_id", fields: ["postId"] },
+      { name: "post_quotes_quoted_post_id", fields: ["quotedPostId"] },
+      { name: "post_quotes_quoted_member_id", fields: ["quotedMemberId"] },
+    ]
+  );
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.dropTable("post_quotes");
+};
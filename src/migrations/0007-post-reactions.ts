@@ -0,0 +1,37 @@
+import { DataTypes, QueryInterface } from "sequelize";
+import { ensureTable } from "../config/schema";
+
+/*
+ * Reaction counts per type (and optionally the reacting members) for each
+ * post, instead of a single likes estimate.
+ */
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await ensureTable(
+    queryInterface,
+    "post_reactions",
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      threadId: DataTypes.INTEGER,
+      postId: DataTypes.INTEGER,
+      reactionId: DataTypes.INTEGER,
+      reactionName: DataTypes.STRING(100),
+      count: DataTypes.INTEGER,
+      users: { type: DataTypes.JSON, allowNull: true, defaultValue: null },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false },
+    },
+    [
+      { name: "post_reactions_thread_id", fields: ["threadId"] },
+      {
+        name: "post_reactions_post_reaction",
+        fields: ["postId", "reactionId"],
+        unique: true,
+      },
+    ]
+  );
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.dropTable("post_reactions");
+};
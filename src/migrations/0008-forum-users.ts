@@ -0,0 +1,81 @@
+import { DataTypes, QueryInterface } from "sequelize";
+import {
+  dropColumn,
+  dropIndex,
+  ensureColumn,
+  ensureIndex,
+  ensureTable,
+} from "../config/schema";
+
+/*
+ * Members by XenForo user ID, and the member IDs of post authors, thread
+ * creators and last repliers. Rows scraped earlier keep a null ID until
+ * they are scraped again.
+ */
+
+const nullableInteger = {
+  type: DataTypes.INTEGER,
+  allowNull: true,
+  defaultValue: null,
+};
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await ensureTable(
+    queryInterface,
+    "forum_users",
+    {
+      userId: { type: DataTypes.INTEGER, primaryKey: true },
+      username: DataTypes.STRING,
+      nameHistory: { type: DataTypes.JSON, allowNull: false },
+      joinDate: { type: DataTypes.DATE, allowNull: true, defaultValue: null },
+      messageCount: nullableInteger,
+      reactionScore: nullableInteger,
+      avatarMediaObjectId: nullableInteger,
+      profileScrapedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        defaultValue: null,
+      },
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false },
+    },
+    [
+      { name: "forum_users_username", fields: ["username"] },
+      {
+        name: "forum_users_profile_scraped_at",
+        fields: ["profileScrapedAt"],
+      },
+    ]
+  );
+
+  await ensureColumn(queryInterface, "forum_posts", "authorId", nullableInteger);
+  await ensureIndex(queryInterface, "forum_posts", {
+    name: "forum_posts_author_id",
+    fields: ["authorId"],
+  });
+  await ensureColumn(
+    queryInterface,
+    "forum_threads",
+    "creatorId",
+    nullableInteger
+  );
+  await ensureIndex(queryInterface, "forum_threads", {
+    name: "forum_threads_creator_id",
+    fields: ["creatorId"],
+  });
+  await ensureColumn(
+    queryInterface,
+    "forum_threads",
+    "lastReplierId",
+    nullableInteger
+  );
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await dropColumn(queryInterface, "forum_threads", "lastReplierId");
+  await dropIndex(queryInterface, "forum_threads", "forum_threads_creator_id");
+  await dropColumn(queryInterface, "forum_threads", "creatorId");
+  await dropIndex(queryInterface, "forum_posts", "forum_posts_author_id");
+  await dropColumn(queryInterface, "forum_posts", "authorId");
+  await queryInterface.dropTable("forum_users");
+};
@@ -0,0 +1,100 @@
+import { DataTypes, QueryInterface } from "sequelize";
+import {
+  dropColumn,
+  dropIndex,
+  ensureColumn,
+  ensureIndex,
+  ensureTable,
+} from "../config/schema";
+
+/*
+ * Thread prefixes, sticky and locked state, page count and first post
+ * preview, and the tags of each thread through a join table.
+ */
+
+const nullableInteger = {
+  type: DataTypes.INTEGER,
+  allowNull: true,
+  defaultValue: null,
+};
+
+const flag = { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: false };
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await ensureColumn(
+    queryInterface,
+    "forum_threads",
+    "prefixId",
+    nullableInteger
+  );
+  await ensureColumn(queryInterface, "forum_threads", "prefix", {
+    type: DataTypes.STRING(100),
+    allowNull: true,
+    defaultValue: null,
+  });
+  await ensureColumn(queryInterface, "forum_threads", "sticky", flag);
+  await ensureColumn(queryInterface, "forum_threads", "locked", flag);
+  await ensureColumn(
+    queryInterface,
+    "forum_threads",
+    "pageCount",
+    nullableInteger
+  );
+  await ensureColumn(queryInterface, "forum_threads", "firstPostPreview", {
+    type: DataTypes.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  });
+  await ensureIndex(queryInterface, "forum_threads", {
+    name: "forum_threads_prefix_id",
+    fields: ["prefixId"],
+  });
+
+  await ensureTable(
+    queryInterface,
+    "forum_tags",
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      tag: DataTypes.STRING(100),
+      name: DataTypes.STRING(100),
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false },
+    },
+    [{ name: "forum_tags_tag", fields: ["tag"], unique: true }]
+  );
+  await ensureTable(
+    queryInterface,
+    "thread_tags",
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      threadId: DataTypes.INTEGER,
+      tagId: DataTypes.INTEGER,
+      createdAt: { type: DataTypes.DATE, allowNull: false },
+      updatedAt: { type: DataTypes.DATE, allowNull: false },
+    },
+    [
+      {
+        name: "thread_tags_thread_tag",
+        fields: ["threadId", "tagId"],
+        unique: true,
+      },
+      { name: "thread_tags_tag_id", fields: ["tagId"] },
+    ]
+  );
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.dropTable("thread_tags");
+  await queryInterface.dropTable("forum_tags");
+  await dropIndex(queryInterface, "forum_threads", "forum_threads_prefix_id");
+  for (const name of [
+    "firstPostPreview",
+    "pageCount",
+    "locked",
+    "sticky",
+    "prefix",
+    "prefixId",
+  ]) {
+    await dropColumn(queryInterface, "forum_threads", name);
+  }
+};
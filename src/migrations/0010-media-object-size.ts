@@ -0,0 +1,18 @@
+import { DataTypes, QueryInterface } from "sequelize";
+
+/*
+ * media_objects.size as BIGINT: video files can be larger than the 2 GB
+ * a signed INTEGER holds.
+ */
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.changeColumn("media_objects", "size", {
+    type: DataTypes.BIGINT,
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.changeColumn("media_objects", "size", {
+    type: DataTypes.INTEGER,
+  });
+};
@@ -0,0 +1,52 @@
+import { QueryInterface } from "sequelize";
+import {
+  dropForeignKey,
+  dropIndex,
+  ensureForeignKey,
+  ensureIndex,
+} from "../config/schema";
+
+/*
+ * Foreign keys from post authors, thread creators and last repliers to
+ * forum_users, which the scrapers fill before saving posts and threads.
+ * IDs without a member row are cleared first; deleting a member clears
+ * the IDs pointing at them.
+ */
+
+// [table, column, constraint]
+const MEMBER_COLUMNS: [string, string, string][] = [
+  ["forum_posts", "authorId", "forum_posts_author_id_fk"],
+  ["forum_threads", "creatorId", "forum_threads_creator_id_fk"],
+  ["forum_threads", "lastReplierId", "forum_threads_last_replier_id_fk"],
+];
+
+const LAST_REPLIER_INDEX = "forum_threads_last_replier_id";
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await ensureIndex(queryInterface, "forum_threads", {
+    name: LAST_REPLIER_INDEX,
+    fields: ["lastReplierId"],
+  });
+
+  for (const [tableName, column, name] of MEMBER_COLUMNS) {
+    await queryInterface.sequelize.query(
+      `UPDATE \`${tableName}\` AS t
+         LEFT JOIN forum_users AS u ON u.userId = t.\`${column}\`
+          SET t.\`${column}\` = NULL
+        WHERE t.\`${column}\` IS NOT NULL AND u.userId IS NULL`
+    );
+    await ensureForeignKey(queryInterface, tableName, {
+      name,
+      field: column,
+      references: { table: "forum_users", field: "userId" },
+      onDelete: "SET NULL",
+    });
+  }
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  for (const [tableName, , name] of [...MEMBER_COLUMNS].reverse()) {
+    await dropForeignKey(queryInterface, tableName, name);
+  }
+  await dropIndex(queryInterface, "forum_threads", LAST_REPLIER_INDEX);
+};
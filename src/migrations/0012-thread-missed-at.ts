@@ -0,0 +1,20 @@
+import { DataTypes, QueryInterface } from "sequelize";
+import { dropColumn, ensureColumn } from "../config/schema";
+
+/*
+ * Threads are only marked missing once two listing checks in a row miss
+ * them, so a thread moved to another forum or whose last reply was
+ * deleted is not flagged by a single check. missedAt holds the first miss.
+ */
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await ensureColumn(queryInterface, "forum_threads", "missedAt", {
+    type: DataTypes.DATE,
+    allowNull: true,
+    defaultValue: null,
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await dropColumn(queryInterface, "forum_threads", "missedAt");
+};
@@ -0,0 +1,325 @@
+/**
+ * Deterministic fake forum content for the mock forum server. The same
+ * options always produce the same threads, posts and attachments, so
+ * end-to-end runs can assert on exact counts.
+ */
+
+export interface MockForumDataOptions {
+  seed: number;
+  forumId: number;
+  forumSlug: string;
+  forumTitle: string;
+  threadCount: number;
+  stickyCount: number;
+  maxPostsPerThread: number;
+  /** Roughly one in N posts carries attachments */
+  attachmentEvery: number;
+}
+
+export interface MockAttachment {
+  attachmentId: number;
+  filename: string;
+  width: number;
+  height: number;
+}
+
+export interface MockPost {
+  postId: number;
+  author: string;
+  content: string;
+  createdAt: Date;
+  likes: number;
+  attachments: MockAttachment[];
+  inlineImages: string[];
+}
+
+export interface MockMember {
+  userId: number;
+  username: string;
+  joinedAt: Date;
+  messages: number;
+  reactionScore: number;
+}
+
+export interface MockThread {
+  threadId: number;
+  slug: string;
+  title: string;
+  creator: string;
+  createdAt: Date;
+  lastReplyAt: Date;
+  lastReplier: string;
+  views: number;
+  postCount: number;
+  sticky: boolean;
+  locked: boolean;
+  prefix: MockPrefix | null;
+  /** Tag slugs shown on the thread page */
+  tags: string[];
+}
+
+export interface MockPrefix {
+  prefixId: number;
+  name: string;
+}
+
+const USERNAMES = [
+  "alice",
+  "bob",
+  "carol",
+  "dave",
+  "erin",
+  "frank",
+  "grace",
+  "heidi",
+  "ivan",
+  "judy",
+  "mallory",
+  "night_owl",
+  "gallery_keeper",
+  "late_replier",
+];
+
+// Stickies are locked announcements; every third other thread is HQ and
+// each thread is tagged with the first word of its title
+const threadLabels = (
+  sticky: boolean,
+  index: number,
+  title: string
+): Pick<MockThread, "sticky" | "locked" | "prefix" | "tags"> => ({
+  sticky,
+  locked: sticky,
+  prefix: sticky
+    ? { prefixId: 1, name: "Announcement" }
+    : index % 3 === 0
+    ? { prefixId: 3, name: "HQ" }
+    : null,
+  tags: [title.split(" ")[0].toLowerCase()],
+});
+
+/**
+ * Member ID of a mock username, or null for names that are not members
+ */
+export const mockMemberId = (username: string): number | null =>
+  USERNAMES.indexOf(username) + 1 || null;
+
+const TITLE_WORDS = [
+  "Beach",
+  "Gallery",
+  "Photoshoot",
+  "Weekend",
+  "Backstage",
+  "Collection",
+  "Interview",
+  "Premiere",
+  "Outtakes",
+  "Archive",
+  "Summer",
+  "Campaign",
+];
+
+const SENTENCES = [
+  "Thanks for sharing!",
+  "Any more from this set?",
+  "Here is the full gallery.",
+  "Great find, adding a few of my own.",
+  "Does anyone know the photographer?",
+  "Bumping this with some new pictures.",
+  "These are from the official site.",
+  "Quality is much better than the last batch.",
+];
+
+// 2024-01-01T00:00:00Z, the first generated post
+const EPOCH = Date.UTC(2024, 0, 1);
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Small seeded PRNG (mulberry32) returning floats in [0, 1)
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(random: () => number, items: T[]): T =>
+  items[Math.floor(random() * items.length)];
+
+const randomInt = (random: () => number, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+class MockForumData {
+  readonly options: MockForumDataOptions;
+  readonly threads: MockThread[];
+  private postCache = new Map<number, MockPost[]>();
+
+  constructor(options: MockForumDataOptions) {
+    this.options = options;
+    this.threads = this.generateThreads();
+  }
+
+  /**
+   * Threads in listing order: stickies first, then by latest reply
+   */
+  get listing(): MockThread[] {
+    const stickies = this.threads.filter((thread) => thread.sticky);
+    const normal = this.threads
+      .filter((thread) => !thread.sticky)
+      .sort((a, b) => b.lastReplyAt.getTime() - a.lastReplyAt.getTime());
+    return [...stickies, ...normal];
+  }
+
+  findThread(threadId: number): MockThread | undefined {
+    return this.threads.find((thread) => thread.threadId === threadId);
+  }
+
+  /**
+   * Posts of a thread, generated on first access
+   */
+  getPosts(thread: MockThread): MockPost[] {
+    let posts = this.postCache.get(thread.threadId);
+    if (!posts) {
+      posts = this.generatePosts(thread);
+      this.postCache.set(thread.threadId, posts);
+    }
+    return posts;
+  }
+
+  findPost(postId: number): MockPost | undefined {
+    const thread = this.threads[Math.floor(postId / 10000) - 1];
+    if (!thread) return undefined;
+    return this.getPosts(thread).find((post) => post.postId === postId);
+  }
+
+  findMember(userId: number): MockMember | undefined {
+    const username = USERNAMES[userId - 1];
+    if (!username) return undefined;
+
+    const random = createRandom(this.options.seed ^ (userId * 7919));
+    return {
+      userId,
+      username,
+      joinedAt: new Date(EPOCH - randomInt(random, 30, 3000) * 24 * HOUR),
+      messages: randomInt(random, 1, 20000),
+      reactionScore: randomInt(random, 0, 50000),
+    };
+  }
+
+  findAttachment(attachmentId: number): MockAttachment | undefined {
+    const threadIndex = Math.floor(attachmentId / 1000000) - 1;
+    const thread = this.threads[threadIndex];
+    if (!thread) return undefined;
+
+    for (const post of this.getPosts(thread)) {
+      const attachment = post.attachments.find(
+        (candidate) => candidate.attachmentId === attachmentId
+      );
+      if (attachment) return attachment;
+    }
+    return undefined;
+  }
+
+  private generateThreads(): MockThread[] {
+    const random = createRandom(this.options.seed);
+    const threads: MockThread[] = [];
+
+    for (let index = 0; index < this.options.threadCount; index++) {
+      const threadId = 1000 + index;
+      const title = `${pick(random, TITLE_WORDS)} ${pick(
+        random,
+        TITLE_WORDS
+      ).toLowerCase()} thread ${threadId}`;
+      const postCount = randomInt(random, 1, this.options.maxPostsPerThread);
+      const createdAt = new Date(EPOCH + index * 6 * HOUR);
+      const lastReplyAt = new Date(
+        createdAt.getTime() + (postCount - 1) * randomInt(random, 1, 48) * HOUR
+      );
+
+      threads.push({
+        threadId,
+        slug: slugify(title),
+        title,
+        creator: pick(random, USERNAMES),
+        createdAt,
+        lastReplyAt,
+        lastReplier: pick(random, USERNAMES),
+        views: randomInt(random, postCount * 10, postCount * 5000),
+        postCount,
+        ...threadLabels(index < this.options.stickyCount, index, title),
+      });
+    }
+
+    return threads;
+  }
+
+  private generatePosts(thread: MockThread): MockPost[] {
+    const random = createRandom(this.options.seed ^ thread.threadId);
+    const threadIndex = thread.threadId - 1000;
+    const span = thread.lastReplyAt.getTime() - thread.createdAt.getTime();
+    const posts: MockPost[] = [];
+    let attachmentCount = 0;
+
+    for (let index = 0; index < thread.postCount; index++) {
+      const postId = (threadIndex + 1) * 10000 + index;
+      const isLast = index === thread.postCount - 1;
+      const attachments: MockAttachment[] = [];
+      const inlineImages: string[] = [];
+
+      if (random() < 1 / this.options.attachmentEvery) {
+        const count = randomInt(random, 1, 3);
+        for (let i = 0; i < count; i++) {
+          attachmentCount++;
+          attachments.push({
+            attachmentId: (threadIndex + 1) * 1000000 + attachmentCount,
+            filename: `${thread.slug}-${attachmentCount}.png`,
+            width: randomInt(random, 2, 8) * 40,
+            height: randomInt(random, 2, 8) * 30,
+          });
+        }
+      }
+
+      if (random() < 0.1) {
+        inlineImages.push(`/data/inline/${postId}.png`);
+      }
+
+      posts.push({
+        postId,
+        author:
+          index === 0
+            ? thread.creator
+            : isLast
+            ? thread.lastReplier
+            : pick(random, USERNAMES),
+        content: pick(random, SENTENCES),
+        createdAt:
+          index === 0
+            ? thread.createdAt
+            : isLast
+            ? thread.lastReplyAt
+            : new Date(
+                thread.createdAt.getTime() +
+                  Math.floor((span * index) / (thread.postCount - 1))
+              ),
+        likes:
+          random() < 0.4 ? 0 : randomInt(random, 1, random() < 0.1 ? 2000 : 5),
+        attachments,
+        inlineImages,
+      });
+    }
+
+    return posts;
+  }
+}
+
+export { MockForumData };
@@ -0,0 +1,470 @@
+import {
+  MockAttachment,
+  MockMember,
+  MockPost,
+  MockThread,
+  mockMemberId,
+} from "./mockForumData";
+
+/**
+ * HTML templates for the mock forum. Markup mirrors the XenForo classes
+ * the page parsers and ForumSession look for, nothing more.
+ */
+
+export interface PageChrome {
+  title: string;
+  /** Logged-in username, or null to render the guest navigation */
+  username: string | null;
+  showCookieNotice: boolean;
+}
+
+// Names shown in reaction bars before the "and N others" count
+const LIKERS = ["alice", "bob", "carol"];
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * XenForo datetime attribute format, e.g. 2024-01-24T19:34:34+0000
+ */
+const formatDatetime = (date: Date): string =>
+  date.toISOString().replace(/\.\d{3}Z$/, "+0000");
+
+const formatCount = (count: number): string => {
+  if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}K`;
+  return String(count);
+};
+
+const renderTime = (date: Date, className = "u-dt"): string =>
+  `<time class="${className}" dir="auto" datetime="${formatDatetime(
+    date
+  )}" data-time="${Math.floor(date.getTime() / 1000)}" title="${escapeHtml(
+    date.toUTCString()
+  )}">${date.toDateString()}</time>`;
+
+const renderUsername = (username: string): string => {
+  const userId = mockMemberId(username);
+  if (!userId) {
+    return `<span class="username">${escapeHtml(username)}</span>`;
+  }
+  return `<a href="/members/${escapeHtml(
+    username
+  )}.${userId}/" class="username" data-user-id="${userId}">${escapeHtml(
+    username
+  )}</a>`;
+};
+
+/**
+ * Wrap page content with the account navigation and cookie notice
+ */
+export const renderLayout = (chrome: PageChrome, content: string): string => {
+  const navigation = chrome.username
+    ? `<div class="p-navgroup p-account p-navgroup--member">
+    <a href="/account/" class="p-navgroup-link p-navgroup-link--user">${escapeHtml(
+      chrome.username
+    )}</a>
+  </div>`
+    : `<div class="p-navgroup p-discovery p-navgroup--guest">
+    <a href="/login/" class="p-navgroup-link p-navgroup-link--textual p-navgroup-link--logIn">Log in</a>
+  </div>`;
+
+  const cookieNotice = chrome.showCookieNotice
+    ? `<div class="notice notice--cookie">
+    This site uses cookies to help personalise content.
+    <a href="/misc/cookies?update=1" class="button--notice button">Accept</a>
+  </div>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en-US">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(chrome.title)} | Mock Forum</title>
+</head>
+<body>
+  ${cookieNotice}
+  ${navigation}
+  <div class="p-body-content">
+${content}
+  </div>
+</body>
+</html>`;
+};
+
+/**
+ * Render `.pageNav-main` for a paginated route. Only emitted when there is
+ * more than one page, like XenForo does.
+ */
+export const renderPageNav = (
+  baseUrl: string,
+  page: number,
+  lastPage: number
+): string => {
+  if (lastPage <= 1) return "";
+
+  const pageUrl = (n: number) => (n === 1 ? baseUrl : `${baseUrl}page-${n}`);
+  const pages = Array.from(
+    new Set([1, page - 1, page, page + 1, lastPage])
+  ).filter((n) => n >= 1 && n <= lastPage);
+
+  const items = pages
+    .map(
+      (n) =>
+        `<li class="pageNav-page${
+          n === page ? " pageNav-page--current" : ""
+        }"><a href="${pageUrl(n)}">${n}</a></li>`
+    )
+    .join("\n        ");
+
+  return `<nav class="pageNavWrapper">
+    <div class="pageNav">
+      <ul class="pageNav-main">
+        ${items}
+      </ul>
+    </div>
+  </nav>`;
+};
+
+const renderPrefix = (thread: MockThread): string =>
+  thread.prefix
+    ? `<a href="/forums/?prefix_id=${
+        thread.prefix.prefixId
+      }" class="labelLink" rel="nofollow"><span class="label">${escapeHtml(
+        thread.prefix.name
+      )}</span></a>`
+    : "";
+
+const renderThreadRow = (thread: MockThread): string => {
+  const threadUrl = `/threads/${thread.slug}.${thread.threadId}/`;
+  const hasReplies = thread.postCount > 1;
+  const latest = hasReplies
+    ? `<a href="${threadUrl}latest" rel="nofollow">${renderTime(
+        thread.lastReplyAt,
+        "structItem-latestDate u-dt"
+      )}</a>
+        <div class="structItem-minor">${renderUsername(thread.lastReplier)}</div>`
+    : `<div class="structItem-minor">—</div>`;
+
+  const statuses = [
+    thread.locked ? "locked" : "",
+    thread.sticky ? "sticky" : "",
+  ]
+    .filter(Boolean)
+    .map(
+      (status) =>
+        `<li><i class="structItem-status structItem-status--${status}"></i></li>`
+    )
+    .join("");
+
+  return `<div class="structItem structItem--thread js-inlineModContainer js-threadListItem-${
+    thread.threadId
+  }" data-author="${escapeHtml(thread.creator)}">
+      <div class="structItem-cell structItem-cell--main">
+        ${statuses ? `<ul class="structItem-statuses">${statuses}</ul>` : ""}
+        <div class="structItem-title">${renderPrefix(
+          thread
+        )}<a href="${threadUrl}unread" data-tp-primary="on">${escapeHtml(
+    thread.title
+  )}</a></div>
+        <div class="structItem-minor">
+          <ul class="structItem-parts">
+            <li>${renderUsername(thread.creator)}</li>
+            <li class="structItem-startDate"><a href="${threadUrl}">${renderTime(
+    thread.createdAt
+  )}</a></li>
+          </ul>
+        </div>
+      </div>
+      <div class="structItem-cell structItem-cell--meta">
+        <dl class="pairs pairs--justified"><dt>Replies</dt><dd>${formatCount(
+          thread.postCount - 1
+        )}</dd></dl>
+        <dl class="pairs pairs--justified structItem-minor"><dt>Views</dt><dd>${formatCount(
+          thread.views
+        )}</dd></dl>
+      </div>
+      <div class="structItem-cell structItem-cell--latest">
+        ${latest}
+      </div>
+    </div>`;
+};
+
+/**
+ * Render the forum index with a single category holding the given forum
+ */
+export const renderForumIndex = (forumUrl: string, title: string): string =>
+  `<div class="block block--category">
+    <div class="block-container">
+      <h2 class="block-header">Forums</h2>
+      <div class="block-body">
+        <div class="node node--forum node--depth2">
+          <div class="node-body">
+            <div class="node-main js-nodeMain">
+              <h3 class="node-title"><a href="${forumUrl}">${escapeHtml(
+    title
+  )}</a></h3>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  </div>`;
+
+/**
+ * Render one page of a forum listing
+ */
+export const renderForumPage = (
+  forumUrl: string,
+  threads: MockThread[],
+  page: number,
+  lastPage: number
+): string => {
+  const stickies = threads.filter((thread) => thread.sticky);
+  const normal = threads.filter((thread) => !thread.sticky);
+
+  return `<div class="block-outer">${renderPageNav(forumUrl, page, lastPage)}</div>
+  <div class="block-container">
+    <div class="structItemContainer">
+      ${
+        stickies.length > 0
+          ? `<div class="structItemContainer-group structItemContainer-group--sticky">
+      ${stickies.map(renderThreadRow).join("\n      ")}
+      </div>`
+          : ""
+      }
+      <div class="structItemContainer-group js-threadList">
+      ${normal.map(renderThreadRow).join("\n      ")}
+      </div>
+    </div>
+  </div>`;
+};
+
+/**
+ * Likes text in the XenForo reactions bar format, e.g.
+ * "alice, bob, carol and 1,295 others"
+ */
+export const renderLikesText = (likes: number): string => {
+  const visible = LIKERS.slice(0, Math.min(likes, 3)).map(escapeHtml);
+  if (likes <= 1) return visible.join("");
+  if (likes <= 3) {
+    return `${visible.slice(0, -1).join(", ")} and ${visible[visible.length - 1]}`;
+  }
+  const others = likes - 3;
+  return `${visible.join(", ")} and ${others.toLocaleString("en-US")} other${
+    others === 1 ? "" : "s"
+  }`;
+};
+
+const renderAttachment = (attachment: MockAttachment): string => {
+  const slug = attachment.filename.replace(/\./g, "-");
+  return `<li class="file file--linked">
+              <a class="file-preview js-lbImage" href="/attachments/${slug}.${
+    attachment.attachmentId
+  }/"><img src="/data/attachments/${Math.floor(
+    attachment.attachmentId / 1000
+  )}/${attachment.attachmentId}-thumb.png" alt="${escapeHtml(
+    attachment.filename
+  )}" /></a>
+            </li>`;
+};
+
+const renderPost = (thread: MockThread, post: MockPost): string => {
+  const attachments =
+    post.attachments.length > 0
+      ? `<section class="message-attachments">
+            <ul class="attachmentList">
+            ${post.attachments.map(renderAttachment).join("\n            ")}
+            </ul>
+          </section>`
+      : "";
+  const inlineImages = post.inlineImages
+    .map((src) => `<img src="${src}" class="bbImage" alt="" />`)
+    .join("");
+  const reactions =
+    post.likes > 0
+      ? `<div class="reactionsBar"><a class="reactionsBar-link" href="/posts/${
+          post.postId
+        }/reactions">${renderLikesText(post.likes)}</a></div>`
+      : "";
+
+  return `<article class="message message--post js-post" data-author="${escapeHtml(
+    post.author
+  )}" data-content="post-${post.postId}" id="js-post-${post.postId}">
+      <div class="message-userDetails"><h4 class="message-name">${renderUsername(
+        post.author
+      )}</h4></div>
+      <header class="message-attribution"><a href="/threads/${thread.slug}.${
+    thread.threadId
+  }/post-${post.postId}">${renderTime(post.createdAt)}</a></header>
+      <div class="message-content js-messageContent">
+        <div class="message-userContent" data-lb-id="post-${post.postId}">
+          <article class="message-body"><div class="bbWrapper">${escapeHtml(
+            post.content
+          )}${inlineImages}</div></article>
+          ${attachments}
+        </div>
+      </div>
+      <footer class="message-footer">${reactions}</footer>
+    </article>`;
+};
+
+/**
+ * Render one page of a thread
+ */
+export const renderThreadPage = (
+  thread: MockThread,
+  posts: MockPost[],
+  page: number,
+  lastPage: number
+): string => {
+  const threadUrl = `/threads/${thread.slug}.${thread.threadId}/`;
+  const tags = thread.tags
+    .map(
+      (tag) =>
+        `<a href="/tags/${tag}/" class="tagItem">${escapeHtml(tag)}</a>`
+    )
+    .join(" ");
+  const locked = thread.locked
+    ? `<dl class="blockStatus"><dd class="blockStatus-message blockStatus-message--locked">Not open for further replies.</dd></dl>`
+    : "";
+  return `<h1 class="p-title-value">${renderPrefix(thread)}${escapeHtml(
+    thread.title
+  )}</h1>
+  <dl class="tagList"><dd>${tags}</dd></dl>
+  ${locked}
+  ${renderPageNav(threadUrl, page, lastPage)}
+  <div class="block-body js-replyNewMessageContainer">
+    ${posts.map((post) => renderPost(thread, post)).join("\n    ")}
+  </div>`;
+};
+
+const REACTIONS_PER_PAGE = 50;
+
+// Every mock reaction is a Like, given by the likers and then member<N>
+const renderReactionRow = (index: number): string => {
+  const username = LIKERS[index] || `member${index + 1}`;
+  const userId = mockMemberId(username) || 100000 + index;
+  return `<li class="block-row block-row--separated">
+              <div class="contentRow"><div class="contentRow-main">
+                <span class="contentRow-extra"><span class="reaction reaction--1" data-reaction-id="1"><img class="reaction-sprite js-reaction" alt="Like" title="Like" /></span></span>
+                <h3 class="contentRow-header"><a href="/members/${escapeHtml(
+                  username
+                )}.${userId}/" class="username" data-user-id="${userId}">${escapeHtml(
+    username
+  )}</a></h3>
+              </div></div>
+            </li>`;
+};
+
+/**
+ * Render a page of the members who reacted to a post. Later pages are the
+ * bare list XenForo loads behind its "More…" button.
+ */
+export const renderReactionsPage = (post: MockPost, page: number): string => {
+  const start = (page - 1) * REACTIONS_PER_PAGE;
+  const end = Math.min(post.likes, start + REACTIONS_PER_PAGE);
+  const rows: string[] = [];
+  for (let index = start; index < end; index++) {
+    rows.push(renderReactionRow(index));
+  }
+  const more =
+    end < post.likes
+      ? `<div class="block-footer"><a href="/posts/${
+          post.postId
+        }/reactions?reaction_id=0&amp;list_only=1&amp;page=${
+          page + 1
+        }" class="button--link button" data-xf-click="inserter">More…</a></div>`
+      : "";
+  const list = `<ol class="block-body">
+            ${rows.join("\n            ")}
+          </ol>
+          ${more}`;
+  if (page > 1) {
+    return list;
+  }
+
+  const count = post.likes.toLocaleString("en-US");
+  return `<div class="block"><div class="block-container">
+    <h2 class="block-tabHeader tabs" role="tablist">
+      <a class="tabs-tab is-active" href="/posts/${
+        post.postId
+      }/reactions?reaction_id=0">All (${count})</a>
+      <a class="tabs-tab" href="/posts/${
+        post.postId
+      }/reactions?reaction_id=1"><bdi>Like</bdi> (${count})</a>
+    </h2>
+    <ul class="tabPanes"><li class="is-active" role="tabpanel">
+          ${list}
+    </li></ul>
+  </div></div>`;
+};
+
+/**
+ * Render the header of a member's profile page
+ */
+export const renderMemberPage = (member: MockMember): string =>
+  `<div class="memberHeader">
+    <div class="memberHeader-main">
+      <span class="memberHeader-avatar"><span class="avatarWrapper"><a href="/data/avatars/o/0/${
+        member.userId
+      }.png" class="avatar avatar--l" data-user-id="${
+    member.userId
+  }"><img src="/data/avatars/l/0/${member.userId}.png" alt="${escapeHtml(
+    member.username
+  )}" /></a></span></span>
+      <div class="memberHeader-content memberHeader-content--info">
+        <h1 class="memberHeader-name"><span class="username" data-user-id="${
+          member.userId
+        }">${escapeHtml(member.username)}</span></h1>
+        <div class="memberHeader-blurb"><dl class="pairs pairs--inline"><dt>Joined</dt><dd>${renderTime(
+          member.joinedAt
+        )}</dd></dl></div>
+      </div>
+    </div>
+    <div class="memberHeader-content">
+      <div class="memberHeader-stats">
+        <dl class="pairs pairs--rows"><dt>Messages</dt><dd>${member.messages.toLocaleString(
+          "en-US"
+        )}</dd></dl>
+        <dl class="pairs pairs--rows"><dt title="Reaction score">Reaction score</dt><dd>${member.reactionScore.toLocaleString(
+          "en-US"
+        )}</dd></dl>
+      </div>
+    </div>
+  </div>`;
+
+/**
+ * Render the full-size view of an attachment
+ */
+export const renderAttachmentPage = (attachment: MockAttachment): string =>
+  `<div class="block-container">
+    <div class="block-body block-row">
+      <img src="/data/${Math.floor(attachment.attachmentId / 1000)}/${
+    attachment.attachmentId
+  }-full.png" alt="${escapeHtml(attachment.filename)}" class="bbImage" width="${
+    attachment.width
+  }" height="${attachment.height}" />
+    </div>
+  </div>`;
+
+export const renderLoginPage = (error: string | null): string =>
+  `<form action="/login/login" method="post" class="block">
+    ${error ? `<div class="blockMessage blockMessage--error">${escapeHtml(error)}</div>` : ""}
+    <dl class="formRow"><dt>Your name or email address</dt>
+      <dd><input type="text" class="input" name="login" autocomplete="username" /></dd></dl>
+    <dl class="formRow"><dt>Password</dt>
+      <dd><input type="password" class="input" name="password" autocomplete="current-password" /></dd></dl>
+    <button type="submit" class="button--primary button button--icon button--icon--login">Log in</button>
+  </form>`;
+
+export const renderAccountPage = (username: string): string =>
+  `<h1 class="p-title-value">Your account</h1>
+  <div class="block-body">Logged in as ${escapeHtml(username)}</div>`;
+
+export const renderErrorPage = (message: string): string =>
+  `<div class="blockMessage blockMessage--error">${escapeHtml(message)}</div>`;
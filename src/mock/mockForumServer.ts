@@ -0,0 +1,521 @@
+import * as http from "http";
+import * as crypto from "crypto";
+import { AddressInfo } from "net";
+import { MockForumData, MockThread } from "./mockForumData";
+import { createMockPng } from "./mockImage";
+import {
+  PageChrome,
+  renderAccountPage,
+  renderAttachmentPage,
+  renderErrorPage,
+  renderForumIndex,
+  renderForumPage,
+  renderLayout,
+  renderLoginPage,
+  renderMemberPage,
+  renderReactionsPage,
+  renderThreadPage,
+} from "./mockForumPages";
+
+export interface MockForumServerOptions {
+  port: number;
+  host: string;
+  seed: number;
+  forumId: number;
+  forumSlug: string;
+  forumTitle: string;
+  threadCount: number;
+  stickyCount: number;
+  maxPostsPerThread: number;
+  attachmentEvery: number;
+  threadsPerPage: number;
+  postsPerPage: number;
+  /** Accepted credentials; null accepts any non-empty login and password */
+  username: string | null;
+  password: string | null;
+  /** Answer every Nth request with a 503 to exercise retries (0 = never) */
+  failEvery: number;
+  /** Expire a session after N requests to exercise re-login (0 = never) */
+  sessionRequestLimit: number;
+}
+
+interface MockSession {
+  username: string;
+  requests: number;
+}
+
+const DEFAULT_OPTIONS: MockForumServerOptions = {
+  port: 0,
+  host: "127.0.0.1",
+  seed: 17,
+  forumId: 17,
+  forumSlug: "models-and-celebrities",
+  forumTitle: "Models and Celebrities",
+  threadCount: 60,
+  stickyCount: 2,
+  maxPostsPerThread: 45,
+  attachmentEvery: 4,
+  threadsPerPage: 20,
+  postsPerPage: 20,
+  username: null,
+  password: null,
+  failEvery: 0,
+  sessionRequestLimit: 0,
+};
+
+const SESSION_COOKIE = "xf_user";
+const CONSENT_COOKIE = "xf_consent";
+
+/**
+ * Local HTTP server imitating the XenForo routes the scrapers hit:
+ * the forum index, forum listings, thread pages, post reaction lists,
+ * member profiles, attachment pages, media files, login and the account
+ * page. Content is generated
+ * deterministically from the seed.
+ */
+class MockForumServer {
+  readonly options: MockForumServerOptions;
+  readonly data: MockForumData;
+  private server: http.Server | null = null;
+  private sessions = new Map<string, MockSession>();
+  private requestCount = 0;
+
+  constructor(options: Partial<MockForumServerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.data = new MockForumData(this.options);
+  }
+
+  /**
+   * Base URL of the running server, usable as SITE_URL
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error("Mock forum server is not running");
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  /**
+   * Forum listing URL, usable as FORUM_URL
+   */
+  get forumUrl(): string {
+    return `${this.url}${this.forumPath}`;
+  }
+
+  private get forumPath(): string {
+    return `/forums/${this.options.forumSlug}.${this.options.forumId}/`;
+  }
+
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error("Mock forum server error:", error);
+        if (!res.headersSent) {
+          res.writeHead(500, { "Content-Type": "text/plain" });
+        }
+        res.end("Internal server error");
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.options.port, this.options.host, () => {
+        this.server!.off("error", reject);
+        resolve();
+      });
+    });
+
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || "/", "http://mock.invalid");
+    const path = url.pathname;
+    const cookies = this.parseCookies(req);
+    const session = this.getSession(cookies[SESSION_COOKIE]);
+    const chrome: PageChrome = {
+      title: this.options.forumTitle,
+      username: session ? session.username : null,
+      showCookieNotice: !cookies[CONSENT_COOKIE],
+    };
+
+    if (req.method === "POST" && path === "/login/login") {
+      return this.handleLogin(req, res, chrome);
+    }
+
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      return this.sendHtml(
+        res,
+        405,
+        chrome,
+        renderErrorPage("Method not allowed")
+      );
+    }
+
+    if (path === "/login/") {
+      return this.sendHtml(
+        res,
+        200,
+        { ...chrome, title: "Log in" },
+        renderLoginPage(null)
+      );
+    }
+
+    if (path === "/logout/") {
+      if (cookies[SESSION_COOKIE]) {
+        this.sessions.delete(cookies[SESSION_COOKIE]);
+      }
+      return this.redirect(res, this.forumPath, [
+        `${SESSION_COOKIE}=; Path=/; Max-Age=0`,
+      ]);
+    }
+
+    if (path === "/misc/cookies") {
+      return this.redirect(res, req.headers.referer || this.forumPath, [
+        `${CONSENT_COOKIE}=1; Path=/`,
+      ]);
+    }
+
+    // Simulated outage, after login so a flaky run can still authenticate
+    this.requestCount++;
+    if (
+      this.options.failEvery > 0 &&
+      this.requestCount % this.options.failEvery === 0
+    ) {
+      return this.sendHtml(
+        res,
+        503,
+        chrome,
+        renderErrorPage("The site is temporarily unavailable")
+      );
+    }
+
+    if (path === "/") {
+      return this.redirect(res, this.forumPath);
+    }
+
+    if (path === "/account/") {
+      if (!session) {
+        return this.redirect(res, "/login/");
+      }
+      return this.sendHtml(
+        res,
+        200,
+        { ...chrome, title: "Your account" },
+        renderAccountPage(session.username)
+      );
+    }
+
+    if (path === "/forums/") {
+      return this.sendHtml(
+        res,
+        200,
+        { ...chrome, title: "Forums" },
+        renderForumIndex(this.forumPath, this.options.forumTitle)
+      );
+    }
+
+    const forumMatch = path.match(/^\/forums\/[^/]+\.(\d+)\/(?:page-(\d+))?$/);
+    if (forumMatch) {
+      return this.handleForum(res, chrome, forumMatch);
+    }
+
+    const threadMatch = path.match(
+      /^\/threads\/[^/]+\.(\d+)\/(?:page-(\d+)|unread|latest|post-\d+)?$/
+    );
+    if (threadMatch) {
+      return this.handleThread(res, chrome, threadMatch);
+    }
+
+    const reactionsMatch = path.match(/^\/posts\/(\d+)\/reactions$/);
+    if (reactionsMatch) {
+      const post = this.data.findPost(parseInt(reactionsMatch[1]));
+      if (!post) {
+        return this.notFound(res, chrome);
+      }
+      const page = parseInt(url.searchParams.get("page") || "1");
+      return this.sendHtml(
+        res,
+        200,
+        { ...chrome, title: "Members who reacted to this message" },
+        renderReactionsPage(post, page)
+      );
+    }
+
+    const memberMatch = path.match(/^\/members\/(?:[^/]*\.)?(\d+)\/$/);
+    if (memberMatch) {
+      const member = this.data.findMember(parseInt(memberMatch[1]));
+      if (!member) {
+        return this.notFound(res, chrome);
+      }
+      return this.sendHtml(
+        res,
+        200,
+        { ...chrome, title: member.username },
+        renderMemberPage(member)
+      );
+    }
+
+    const attachmentMatch = path.match(/^\/attachments\/[^/]+\.(\d+)\/$/);
+    if (attachmentMatch) {
+      if (!session) {
+        return this.sendHtml(
+          res,
+          403,
+          chrome,
+          renderErrorPage("You must be logged-in to do that.")
+        );
+      }
+      const attachment = this.data.findAttachment(parseInt(attachmentMatch[1]));
+      if (!attachment) {
+        return this.notFound(res, chrome);
+      }
+      return this.sendHtml(
+        res,
+        200,
+        { ...chrome, title: attachment.filename, showCookieNotice: false },
+        renderAttachmentPage(attachment)
+      );
+    }
+
+    // Thumbnails, full-size attachments, inline images and avatars
+    const mediaMatch = path.match(
+      /^\/data\/(?:attachments\/\d+\/(\d+)-thumb|\d+\/(\d+)-full|inline\/(\d+)|avatars\/[a-z]\/\d+\/(\d+))\.png$/
+    );
+    if (mediaMatch) {
+      return this.handleMedia(res, chrome, mediaMatch);
+    }
+
+    return this.notFound(res, chrome);
+  }
+
+  private async handleLogin(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    chrome: PageChrome
+  ): Promise<void> {
+    const body = new URLSearchParams(await this.readBody(req));
+    const login = body.get("login") || "";
+    const password = body.get("password") || "";
+
+    const valid =
+      this.options.username === null
+        ? !!login && !!password
+        : login === this.options.username &&
+          password === this.options.password;
+
+    if (!valid) {
+      return this.sendHtml(
+        res,
+        200,
+        { ...chrome, title: "Log in" },
+        renderLoginPage("Incorrect password. Please try again.")
+      );
+    }
+
+    const token = crypto.randomBytes(16).toString("hex");
+    this.sessions.set(token, { username: login, requests: 0 });
+    return this.redirect(res, this.forumPath, [
+      `${SESSION_COOKIE}=${token}; Path=/; HttpOnly`,
+    ]);
+  }
+
+  private handleForum(
+    res: http.ServerResponse,
+    chrome: PageChrome,
+    match: RegExpMatchArray
+  ): void {
+    if (parseInt(match[1]) !== this.options.forumId) {
+      return this.notFound(res, chrome);
+    }
+
+    const listing = this.data.listing;
+    const lastPage = Math.max(
+      1,
+      Math.ceil(listing.length / this.options.threadsPerPage)
+    );
+    const page = match[2] ? parseInt(match[2]) : 1;
+
+    // XenForo redirects out-of-range pages to the last page
+    if (page > lastPage) {
+      return this.redirect(res, `${this.forumPath}page-${lastPage}`);
+    }
+
+    const start = (page - 1) * this.options.threadsPerPage;
+    const threads = listing.slice(start, start + this.options.threadsPerPage);
+
+    this.sendHtml(
+      res,
+      200,
+      chrome,
+      renderForumPage(this.forumPath, threads, page, lastPage)
+    );
+  }
+
+  private handleThread(
+    res: http.ServerResponse,
+    chrome: PageChrome,
+    match: RegExpMatchArray
+  ): void {
+    const thread = this.data.findThread(parseInt(match[1]));
+    if (!thread) {
+      return this.notFound(res, chrome);
+    }
+
+    const posts = this.data.getPosts(thread);
+    const lastPage = Math.max(
+      1,
+      Math.ceil(posts.length / this.options.postsPerPage)
+    );
+    const page = match[2] ? parseInt(match[2]) : 1;
+
+    if (page > lastPage) {
+      return this.redirect(res, `${this.threadPath(thread)}page-${lastPage}`);
+    }
+
+    const start = (page - 1) * this.options.postsPerPage;
+    this.sendHtml(
+      res,
+      200,
+      { ...chrome, title: thread.title },
+      renderThreadPage(
+        thread,
+        posts.slice(start, start + this.options.postsPerPage),
+        page,
+        lastPage
+      )
+    );
+  }
+
+  private handleMedia(
+    res: http.ServerResponse,
+    chrome: PageChrome,
+    match: RegExpMatchArray
+  ): void {
+    const [, thumbId, fullId, inlineId, avatarId] = match;
+    let image: Buffer;
+
+    if (inlineId) {
+      image = createMockPng(64, 48, parseInt(inlineId));
+    } else if (avatarId) {
+      if (!this.data.findMember(parseInt(avatarId))) {
+        return this.notFound(res, chrome);
+      }
+      image = createMockPng(96, 96, parseInt(avatarId));
+    } else {
+      const attachment = this.data.findAttachment(
+        parseInt(thumbId || fullId)
+      );
+      if (!attachment) {
+        return this.notFound(res, chrome);
+      }
+      image = thumbId
+        ? createMockPng(80, 60, attachment.attachmentId)
+        : createMockPng(
+            attachment.width,
+            attachment.height,
+            attachment.attachmentId
+          );
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "image/png",
+      "Content-Length": image.length,
+      "Cache-Control": "public, max-age=31536000",
+    });
+    res.end(image);
+  }
+
+  private threadPath(thread: MockThread): string {
+    return `/threads/${thread.slug}.${thread.threadId}/`;
+  }
+
+  /**
+   * Look up the session for a cookie token, expiring it once it has served
+   * sessionRequestLimit requests
+   */
+  private getSession(token: string | undefined): MockSession | null {
+    if (!token) return null;
+    const session = this.sessions.get(token);
+    if (!session) return null;
+
+    session.requests++;
+    if (
+      this.options.sessionRequestLimit > 0 &&
+      session.requests > this.options.sessionRequestLimit
+    ) {
+      this.sessions.delete(token);
+      return null;
+    }
+    return session;
+  }
+
+  private parseCookies(req: http.IncomingMessage): Record<string, string> {
+    const cookies: Record<string, string> = {};
+    for (const part of (req.headers.cookie || "").split(";")) {
+      const [name, ...value] = part.trim().split("=");
+      if (name) {
+        cookies[name] = decodeURIComponent(value.join("="));
+      }
+    }
+    return cookies;
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+      req.on("error", reject);
+    });
+  }
+
+  private sendHtml(
+    res: http.ServerResponse,
+    status: number,
+    chrome: PageChrome,
+    content: string
+  ): void {
+    const html = renderLayout(chrome, content);
+    res.writeHead(status, {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Length": Buffer.byteLength(html),
+    });
+    res.end(html);
+  }
+
+  private redirect(
+    res: http.ServerResponse,
+    location: string,
+    cookies: string[] = []
+  ): void {
+    res.writeHead(303, {
+      Location: location,
+      ...(cookies.length > 0 ? { "Set-Cookie": cookies } : {}),
+    });
+    res.end();
+  }
+
+  private notFound(res: http.ServerResponse, chrome: PageChrome): void {
+    this.sendHtml(
+      res,
+      404,
+      chrome,
+      renderErrorPage("The requested page could not be found.")
+    );
+  }
+}
+
+export { MockForumServer };
@@ -0,0 +1,56 @@
+import * as zlib from "zlib";
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+};
+
+/**
+ * Encode a real (decodable) RGB PNG with a gradient derived from the seed,
+ * so every mock attachment has distinct bytes
+ */
+export const createMockPng = (
+  width: number,
+  height: number,
+  seed: number
+): Buffer => {
+  const red = (seed * 97) % 256;
+  const green = (seed * 57) % 256;
+  const blue = (seed * 17) % 256;
+
+  // Each scanline starts with filter type 0 (None)
+  const rowLength = width * 3 + 1;
+  const pixels = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = y * rowLength + 1 + x * 3;
+      pixels[offset] = (red + x) % 256;
+      pixels[offset + 1] = (green + y) % 256;
+      pixels[offset + 2] = blue;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: truecolor
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", zlib.deflateSync(pixels)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+};
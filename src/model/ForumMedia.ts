@@ -7,9 +7,11 @@ import {
   ForeignKey,
   AutoIncrement,
   Default,
+  Index,
 } from "sequelize-typescript";
 import { ForumThread } from "./ForumThread";
 import { ForumPost } from "./ForumPost";
+import { MediaObject } from "./MediaObject";
 
 @Table({
   tableName: "forum_medias",
@@ -42,4 +44,23 @@ export class ForumMedia extends Model {
     defaultValue: null,
   })
   type!: "img" | "mov" | null;
+
+  // Shared content-addressed object behind link; null for legacy rows
+  @ForeignKey(() => MediaObject)
+  @Index("forum_medias_media_object_id")
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  mediaObjectId!: number | null;
+
+  // dHash for near-duplicate detection; null for videos and legacy rows
+  @Index("forum_medias_perceptual_hash")
+  @Column({
+    type: DataType.CHAR(16),
+    allowNull: true,
+    defaultValue: null,
+  })
+  perceptualHash!: string | null;
 }
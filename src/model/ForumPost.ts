@@ -1,5 +1,7 @@
-import { Table, Column, Model, PrimaryKey, DataType, ForeignKey } from 'sequelize-typescript';
+import { Table, Column, Model, PrimaryKey, DataType, ForeignKey, Index } from 'sequelize-typescript';
 import { ForumThread } from './ForumThread';
+import { ForumUser } from './ForumUser';
+import { PostBodyNode } from '../parsers/types';
 
 @Table({
   tableName: 'forum_posts',
@@ -11,18 +13,60 @@ export class ForumPost extends Model {
   postId!: number;
 
   @ForeignKey(() => ForumThread)
+  @Index('forum_posts_thread_deleted')
   @Column(DataType.INTEGER)
   threadId!: number;
 
   @Column(DataType.STRING)
   author!: string;
 
+  // Author's forum_users row; null for guests and posts scraped before
+  // member IDs were kept
+  @ForeignKey(() => ForumUser)
+  @Index('forum_posts_author_id')
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  authorId!: number | null;
+
   @Column(DataType.TEXT)
   content!: string;
 
-  @Column(DataType.STRING)
-  postCreatedDate!: string;
+  // Sanitized body HTML, for re-rendering the post as it was shown
+  @Column({
+    type: DataType.TEXT('medium'),
+    allowNull: true,
+    defaultValue: null,
+  })
+  contentHtml!: string | null;
+
+  // Body as PostBodyNodes, with media nodes pointing at forum_medias rows
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+    defaultValue: null,
+  })
+  contentBody!: PostBodyNode[] | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    defaultValue: null,
+  })
+  postCreatedDate!: Date | null;
 
   @Column(DataType.INTEGER)
   likes!: number;
+
+  // When a scrape of the post's page range no longer found it; cleared if
+  // the post shows up again
+  @Index('forum_posts_thread_deleted')
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    defaultValue: null,
+  })
+  deletedAt!: Date | null;
 } 
\ No newline at end of file
@@ -0,0 +1,32 @@
+import {
+  Table,
+  Column,
+  Model,
+  PrimaryKey,
+  DataType,
+  AutoIncrement,
+  Index,
+} from "sequelize-typescript";
+
+/**
+ * A tag used on thread pages, by its URL slug
+ */
+@Table({
+  tableName: "forum_tags",
+  timestamps: true,
+})
+export class ForumTag extends Model {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id!: number;
+
+  // Slug from the tag's /tags/<slug>/ link
+  @Index({ name: "forum_tags_tag", unique: true })
+  @Column(DataType.STRING(100))
+  tag!: string;
+
+  // Displayed name, e.g. "mc kolos" for mc-kolos
+  @Column(DataType.STRING(100))
+  name!: string;
+}
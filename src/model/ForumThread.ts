@@ -1,4 +1,5 @@
-import { Table, Column, Model, PrimaryKey, DataType } from 'sequelize-typescript';
+import { Table, Column, Model, PrimaryKey, DataType, ForeignKey, Index } from 'sequelize-typescript';
+import { ForumUser } from './ForumUser';
 
 @Table({
   tableName: 'forum_threads',
@@ -15,31 +16,137 @@ export class ForumThread extends Model {
   @Column(DataType.STRING)
   creator!: string;
 
-  @Column(DataType.STRING)
-  creationDate!: string;
+  // Creator's forum_users row; null for guests and threads listed before
+  // member IDs were kept
+  @ForeignKey(() => ForumUser)
+  @Index('forum_threads_creator_id')
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  creatorId!: number | null;
 
-  @Column(DataType.STRING)
-  replies!: string;
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    defaultValue: null,
+  })
+  creationDate!: Date | null;
 
-  @Column(DataType.STRING)
-  views!: string;
+  @Column(DataType.INTEGER)
+  replies!: number;
 
-  @Column(DataType.STRING)
-  lastReplyDate!: string;
+  @Column(DataType.INTEGER)
+  views!: number;
+
+  // The thread's creation date until someone replies
+  @Index('forum_threads_last_reply_date')
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    defaultValue: null,
+  })
+  lastReplyDate!: Date | null;
 
   @Column(DataType.STRING)
   lastReplier!: string;
 
+  @ForeignKey(() => ForumUser)
+  @Index('forum_threads_last_replier_id')
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  lastReplierId!: number | null;
+
   @Column(DataType.STRING)
   threadUrl!: string;
 
+  // Prefix label in front of the title, e.g. "HQ"; null without one
+  @Index('forum_threads_prefix_id')
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  prefixId!: number | null;
+
+  @Column({
+    type: DataType.STRING(100),
+    allowNull: true,
+    defaultValue: null,
+  })
+  prefix!: string | null;
+
+  // Pinned to the top of the forum's first listing page
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  })
+  sticky!: boolean;
+
+  // Closed to new replies
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  })
+  locked!: boolean;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  pageCount!: number | null;
+
+  // Plain text start of the first post, read with thread page 1
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  })
+  firstPostPreview!: string | null;
+
+  // XenForo node ID of the forum the thread is listed in
+  @Index('forum_threads_forum_id')
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  forumId!: number | null;
+
   @Column(DataType.INTEGER)
   lastUpdatedPage!: number;
 
+  // lastReplyDate as of the last complete detail page scrape
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    defaultValue: null,
+  })
+  detailPageUpdateDate!: Date | null;
+
+  // First listing check that should have shown the thread but did not;
+  // cleared when the thread is listed again
+  @Index('forum_threads_missing_since')
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    defaultValue: null,
+  })
+  missingSince!: Date | null;
+
+  // Set by a listing check that missed the thread; the next check that
+  // misses it too marks it missing. Cleared when the thread is listed.
   @Column({
-    type: DataType.STRING,
+    type: DataType.DATE,
     allowNull: true,
     defaultValue: null,
   })
-  detailPageUpdateDate!: string | null;
+  missedAt!: Date | null;
 }
@@ -0,0 +1,82 @@
+import {
+  Table,
+  Column,
+  Model,
+  PrimaryKey,
+  DataType,
+  ForeignKey,
+  Index,
+} from "sequelize-typescript";
+import { MediaObject } from "./MediaObject";
+
+export interface UsernameChange {
+  /** The name the member went by before */
+  username: string;
+  /** When a scrape first saw the newer name */
+  changedAt: string;
+}
+
+/**
+ * A forum member, keyed by XenForo user ID so that renames keep one row.
+ * Names come from posts and listings; the rest from the profile page.
+ */
+@Table({
+  tableName: "forum_users",
+  timestamps: true,
+})
+export class ForumUser extends Model {
+  @PrimaryKey
+  @Column(DataType.INTEGER)
+  userId!: number;
+
+  @Index("forum_users_username")
+  @Column(DataType.STRING)
+  username!: string;
+
+  // Earlier names, oldest first
+  @Column({
+    type: DataType.JSON,
+    allowNull: false,
+    defaultValue: [],
+  })
+  nameHistory!: UsernameChange[];
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    defaultValue: null,
+  })
+  joinDate!: Date | null;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  messageCount!: number | null;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  reactionScore!: number | null;
+
+  // Stored avatar; holds a reference on the object like forum_medias rows
+  @ForeignKey(() => MediaObject)
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  avatarMediaObjectId!: number | null;
+
+  // Last profile page scrape; null until the profile is read
+  @Index("forum_users_profile_scraped_at")
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    defaultValue: null,
+  })
+  profileScrapedAt!: Date | null;
+}
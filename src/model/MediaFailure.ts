@@ -0,0 +1,73 @@
+import {
+  Table,
+  Column,
+  Model,
+  PrimaryKey,
+  DataType,
+  ForeignKey,
+  AutoIncrement,
+  Default,
+  Index,
+} from "sequelize-typescript";
+import { ForumThread } from "./ForumThread";
+
+/**
+ * A post's media URL that could not be downloaded or stored. Rows are
+ * removed once a scrape or `retry-media` stores the media.
+ */
+@Table({
+  tableName: "media_failures",
+  timestamps: true,
+})
+export class MediaFailure extends Model {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id!: number;
+
+  @ForeignKey(() => ForumThread)
+  @Index("media_failures_thread_id")
+  @Column(DataType.INTEGER)
+  threadId!: number;
+
+  @Index({ name: "media_failures_post_url", unique: true })
+  @Column(DataType.INTEGER)
+  postId!: number;
+
+  @Column(DataType.TEXT)
+  url!: string;
+
+  // Media URLs are too long to index; the SHA-256 of the URL stands in
+  @Index({ name: "media_failures_post_url", unique: true })
+  @Column(DataType.CHAR(64))
+  urlHash!: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  })
+  thumbUrl!: string | null;
+
+  // Error name, e.g. MediaDownloadError or UnsupportedMediaError
+  @Column(DataType.STRING(64))
+  errorClass!: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  })
+  errorMessage!: string | null;
+
+  @Default(1)
+  @Column(DataType.INTEGER)
+  attempts!: number;
+
+  @Column(DataType.DATE)
+  lastAttemptAt!: Date;
+
+  @Index("media_failures_next_attempt")
+  @Column(DataType.DATE)
+  nextAttemptAt!: Date;
+}
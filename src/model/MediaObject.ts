@@ -0,0 +1,55 @@
+import {
+  Table,
+  Column,
+  Model,
+  PrimaryKey,
+  DataType,
+  AutoIncrement,
+  Default,
+  Index,
+} from "sequelize-typescript";
+
+/**
+ * A stored media file, addressed by the SHA-256 of its content so that the
+ * same image re-posted across posts and threads is uploaded once. refCount
+ * is the number of forum_medias rows and member avatars pointing at it.
+ */
+@Table({
+  tableName: "media_objects",
+  timestamps: true,
+})
+export class MediaObject extends Model {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id!: number;
+
+  @Index({ name: "media_objects_sha256", unique: true })
+  @Column(DataType.CHAR(64))
+  sha256!: string;
+
+  // Key of the full-size object in the media store
+  @Column(DataType.STRING(512))
+  key!: string;
+
+  // Bytes; videos can pass the 2 GB an INTEGER holds
+  @Column(DataType.BIGINT)
+  size!: number;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    defaultValue: null,
+  })
+  contentType!: string | null;
+
+  // Whether a `_thumb` object is stored next to the full-size one
+  @Default(false)
+  @Column(DataType.BOOLEAN)
+  hasThumb!: boolean;
+
+  @Default(0)
+  @Index("media_objects_ref_count")
+  @Column(DataType.INTEGER)
+  refCount!: number;
+}
@@ -0,0 +1,60 @@
+import {
+  Table,
+  Column,
+  Model,
+  PrimaryKey,
+  DataType,
+  ForeignKey,
+  AutoIncrement,
+  Index,
+} from "sequelize-typescript";
+import { ForumPost } from "./ForumPost";
+
+/**
+ * An edge of the reply graph: a post quoting another post or member.
+ * Rows of a post are replaced whenever the post is scraped.
+ */
+@Table({
+  tableName: "post_quotes",
+  timestamps: true,
+})
+export class PostQuote extends Model {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id!: number;
+
+  @Index("post_quotes_thread_id")
+  @Column(DataType.INTEGER)
+  threadId!: number;
+
+  // The quoting post
+  @ForeignKey(() => ForumPost)
+  @Index("post_quotes_post_id")
+  @Column(DataType.INTEGER)
+  postId!: number;
+
+  // May be a post of another thread, or one that was never scraped
+  @Index("post_quotes_quoted_post_id")
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  quotedPostId!: number | null;
+
+  @Index("post_quotes_quoted_member_id")
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    defaultValue: null,
+  })
+  quotedMemberId!: number | null;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    defaultValue: null,
+  })
+  quotedAuthor!: string | null;
+}
@@ -0,0 +1,59 @@
+import {
+  Table,
+  Column,
+  Model,
+  PrimaryKey,
+  DataType,
+  ForeignKey,
+  AutoIncrement,
+  Index,
+} from "sequelize-typescript";
+import { ForumPost } from "./ForumPost";
+
+export interface ReactionUser {
+  userId: number | null;
+  username: string;
+}
+
+/**
+ * How many members gave a post one reaction type, read from the post's
+ * reactions list. Rows of a post are replaced whenever it is re-read.
+ */
+@Table({
+  tableName: "post_reactions",
+  timestamps: true,
+})
+export class PostReaction extends Model {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id!: number;
+
+  @Index("post_reactions_thread_id")
+  @Column(DataType.INTEGER)
+  threadId!: number;
+
+  @ForeignKey(() => ForumPost)
+  @Index({ name: "post_reactions_post_reaction", unique: true })
+  @Column(DataType.INTEGER)
+  postId!: number;
+
+  // XenForo reaction ID, e.g. 1 for Like
+  @Index({ name: "post_reactions_post_reaction", unique: true })
+  @Column(DataType.INTEGER)
+  reactionId!: number;
+
+  @Column(DataType.STRING(100))
+  reactionName!: string;
+
+  @Column(DataType.INTEGER)
+  count!: number;
+
+  // Members who gave the reaction, only kept in "users" reactions mode
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+    defaultValue: null,
+  })
+  users!: ReactionUser[] | null;
+}
@@ -0,0 +1,51 @@
+import {
+  Table,
+  Column,
+  Model,
+  PrimaryKey,
+  DataType,
+  ForeignKey,
+  AutoIncrement,
+  Index,
+} from "sequelize-typescript";
+import { ForumPost } from "./ForumPost";
+
+/**
+ * One version of a post's content as scraped. A revision is added when a
+ * scrape sees content whose hash differs from the latest revision, so
+ * createdAt is when an edit was first noticed, not when it was made.
+ */
+@Table({
+  tableName: "post_revisions",
+  timestamps: true,
+})
+export class PostRevision extends Model {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id!: number;
+
+  // Revisions of a post are numbered from 1
+  @ForeignKey(() => ForumPost)
+  @Index({ name: "post_revisions_post_revision", unique: true })
+  @Column(DataType.INTEGER)
+  postId!: number;
+
+  @Index({ name: "post_revisions_post_revision", unique: true })
+  @Column(DataType.INTEGER)
+  revision!: number;
+
+  @Index("post_revisions_thread_id")
+  @Column(DataType.INTEGER)
+  threadId!: number;
+
+  // sha256 of the content
+  @Column(DataType.CHAR(64))
+  contentHash!: string;
+
+  @Column(DataType.TEXT)
+  content!: string;
+
+  @Column(DataType.INTEGER)
+  likes!: number;
+}
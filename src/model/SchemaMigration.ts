@@ -0,0 +1,18 @@
+import { Table, Column, Model, PrimaryKey, DataType } from "sequelize-typescript";
+
+/**
+ * A migration from src/migrations that has been applied to this database,
+ * keyed by its file name without the extension
+ */
+@Table({
+  tableName: "schema_migrations",
+  timestamps: false,
+})
+export class SchemaMigration extends Model {
+  @PrimaryKey
+  @Column(DataType.STRING(191))
+  name!: string;
+
+  @Column(DataType.DATE)
+  appliedAt!: Date;
+}
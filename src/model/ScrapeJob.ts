@@ -0,0 +1,73 @@
+import {
+  Table,
+  Column,
+  Model,
+  PrimaryKey,
+  DataType,
+  ForeignKey,
+  AutoIncrement,
+  Default,
+  Index,
+} from "sequelize-typescript";
+import { ForumThread } from "./ForumThread";
+
+export type ScrapeJobStatus = "pending" | "running" | "done" | "failed";
+
+/**
+ * One detail-page scrape of a thread. Workers claim pending jobs (or
+ * running jobs whose lease expired) and renew the lease while working.
+ */
+@Table({
+  tableName: "scrape_jobs",
+  timestamps: true,
+})
+export class ScrapeJob extends Model {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id!: number;
+
+  @ForeignKey(() => ForumThread)
+  @Index({ name: "scrape_jobs_thread_id", unique: true })
+  @Column(DataType.INTEGER)
+  threadId!: number;
+
+  @Default("pending")
+  @Index("scrape_jobs_status_lease")
+  @Column(DataType.ENUM("pending", "running", "done", "failed"))
+  status!: ScrapeJobStatus;
+
+  // Copied from the thread so claims keep the newest-first order
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    defaultValue: null,
+  })
+  lastReplyDate!: Date | null;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+    defaultValue: null,
+  })
+  workerId!: string | null;
+
+  @Index("scrape_jobs_status_lease")
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+    defaultValue: null,
+  })
+  leaseExpiresAt!: Date | null;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  attempts!: number;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+    defaultValue: null,
+  })
+  lastError!: string | null;
+}
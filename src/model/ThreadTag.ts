@@ -0,0 +1,38 @@
+import {
+  Table,
+  Column,
+  Model,
+  PrimaryKey,
+  DataType,
+  ForeignKey,
+  AutoIncrement,
+  Index,
+} from "sequelize-typescript";
+import { ForumTag } from "./ForumTag";
+import { ForumThread } from "./ForumThread";
+
+/**
+ * A tag shown on a thread page. Rows of a thread are replaced whenever its
+ * first page is read.
+ */
+@Table({
+  tableName: "thread_tags",
+  timestamps: true,
+})
+export class ThreadTag extends Model {
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id!: number;
+
+  @ForeignKey(() => ForumThread)
+  @Index({ name: "thread_tags_thread_tag", unique: true })
+  @Column(DataType.INTEGER)
+  threadId!: number;
+
+  @ForeignKey(() => ForumTag)
+  @Index({ name: "thread_tags_thread_tag", unique: true })
+  @Index("thread_tags_tag_id")
+  @Column(DataType.INTEGER)
+  tagId!: number;
+}
@@ -0,0 +1,50 @@
+import { Page } from "puppeteer";
+import { DomDocument } from "./types";
+
+type ParserFunction = (...args: never[]) => unknown;
+
+/**
+ * Source shipped with each registered parser: every function of its
+ * module, declared together so parsers can call each other once they are
+ * in the page
+ */
+const parserSources = new Map<ParserFunction, string>();
+
+/**
+ * Make the functions exported by a parser module runnable through
+ * evaluateParser. Site adapters register the module their parsers come
+ * from; see ./pageParsers for the rules such a module has to follow.
+ */
+export const registerParserModule = (parsers: object): void => {
+  const functions = Object.values(parsers).filter(
+    (value): value is ParserFunction => typeof value === "function"
+  );
+  const source = functions.map((parser) => parser.toString()).join("\n");
+  for (const parser of functions) {
+    parserSources.set(parser, source);
+  }
+};
+
+/**
+ * Run a page parser inside the browser against the page's document
+ * @param page - Puppeteer page to evaluate in
+ * @param parser - A function from a module passed to registerParserModule
+ * @param args - Extra JSON-serializable arguments after the DOM root
+ */
+export const evaluateParser = async <A extends unknown[], R>(
+  page: Page,
+  parser: (root: DomDocument, ...args: A) => R,
+  ...args: A
+): Promise<R> => {
+  const source = parserSources.get(parser);
+  if (source === undefined) {
+    throw new Error(`${parser.name} is not a registered page parser`);
+  }
+
+  const expression = `(() => {
+${source}
+return ${parser.name}(document, ...${JSON.stringify(args)});
+})()`;
+
+  return (await page.evaluate(expression)) as R;
+};
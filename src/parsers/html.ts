@@ -0,0 +1,13 @@
+import { JSDOM } from "jsdom";
+import { DomDocument } from "./types";
+
+/**
+ * Build a DOM from raw HTML in Node so archived pages can be re-parsed
+ * with the page parsers without launching Chromium
+ * @param html - Saved page HTML
+ * @param url - URL the page was fetched from (resolves relative links)
+ */
+export const parseHtmlDocument = (html: string, url: string): DomDocument => {
+  const dom = new JSDOM(html, { url });
+  return dom.window.document as unknown as DomDocument;
+};
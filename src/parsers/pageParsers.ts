@@ -0,0 +1,1341 @@
+import {
+  AttachmentMediaUrl,
+  DomDocument,
+  DomElement,
+  DomNode,
+  DomRoot,
+  ForumNodeData,
+  ForumThreadData,
+  MemberProfileData,
+  PostBodyNode,
+  PostData,
+  PostQuoteData,
+  ReactionsPageData,
+  ThreadPageData,
+  ThreadPrefixData,
+  ThreadStateData,
+  ThreadUpdateData,
+} from "./types";
+
+/*
+ * Pure page parsers: each takes a DOM root and returns plain data, so the
+ * same code runs in Node against raw HTML (see ./html) and inside the
+ * browser (see ./evaluate).
+ *
+ * The browser bridge ships these functions with toString(), so they must
+ * stay `function` declarations that only call each other: no imports at
+ * runtime, no module-level constants and no TypeScript features that
+ * compile to helpers.
+ */
+
+/**
+ * Resolve a forum-relative URL against the site URL
+ */
+export function toAbsoluteUrl(url: string, baseUrl: string): string {
+  return url.startsWith("http") ? url : `${baseUrl}${url}`;
+}
+
+/**
+ * Read the last page number from the `.pageNav-main` pagination
+ */
+export function parseLastPageNumber(root: DomRoot): number {
+  const pageNav = root.querySelector(".pageNav-main");
+  if (!pageNav) return 1;
+
+  const lastPageLink = pageNav.querySelector("li:last-child a");
+  if (!lastPageLink) return 1;
+
+  const href = lastPageLink.getAttribute("href") || "";
+  // Match pattern like "page-3" in URLs like "/threads/mc-kolos.3654511/page-3"
+  const match = href.match(/page-(\d+)$/);
+  return match ? parseInt(match[1]) : 1;
+}
+
+/**
+ * Count likes from the reactions bar text
+ * Format examples:
+ * 1 user: "username"
+ * 2 users: "username1 and username2"
+ * 3 users: "username1, username2 and username3"
+ * 4+ users: "username1, username2, username3 and 1,295 others"
+ */
+export function parseLikesText(text: string): number {
+  if (!text.trim()) {
+    return 0;
+  }
+
+  // Split by "and" to separate visible names from "others" count
+  if (!text.includes(" and ")) {
+    // 1 user: "username" - no "and"
+    return 1;
+  }
+
+  // Split by "and" to get the first part (visible names)
+  const parts = text.split(" and ");
+  const visibleNamesPart = parts[0];
+  const afterAndPart = parts[1];
+
+  // Count commas in the visible names part only
+  const commaCount = (visibleNamesPart.match(/,/g) || []).length;
+  const visibleNamesCount = commaCount + 1; // Number of visible names = comma count + 1
+
+  // Check if there's an "others" count
+  const othersMatch = afterAndPart.match(/([0-9,]+)\s+others?/i);
+
+  if (othersMatch) {
+    // 4+ users: "username1, username2, username3 and 1,295 others"
+    const otherCountStr = othersMatch[1].replace(/,/g, ""); // Remove commas from "1,295"
+    return visibleNamesCount + parseInt(otherCountStr);
+  } else if (commaCount === 0) {
+    // 2 users: "username1 and username2" - no commas in first part
+    return 2;
+  } else {
+    // 3 users: "username1, username2 and username3" - 1 comma in first part
+    return 3;
+  }
+}
+
+/**
+ * Extract the thread ID from a `.structItem` row
+ */
+export function parseThreadId(element: DomElement): number {
+  const threadIdStr =
+    element.getAttribute("data-thread-id") ||
+    element.className.match(/js-threadListItem-(\d+)/)?.[1] ||
+    "";
+
+  return parseInt(threadIdStr) || 0;
+}
+
+/**
+ * Member ID of a `.username` element, from data-user-id or a
+ * /members/name.123/ link
+ * @returns null for guests, deleted members and missing elements
+ */
+export function parseUserId(element: DomElement | null): number | null {
+  if (!element) {
+    return null;
+  }
+  const href = element.getAttribute("href") || "";
+  const userIdStr =
+    element.getAttribute("data-user-id") ||
+    href.match(/\/members\/(?:[^/]*\.)?(\d+)\/?$/)?.[1] ||
+    "";
+  return parseInt(userIdStr) || null;
+}
+
+/**
+ * Parse a single `.structItem` row of a forum listing
+ * @returns null for rows without a title or thread ID
+ */
+export function parseThreadRow(element: DomElement): ForumThreadData | null {
+  const threadId = parseThreadId(element);
+
+  // The prefix label is a link of its own, before the title link
+  const titleElement =
+    element.querySelector('.structItem-title a[data-tp-primary="on"]') ||
+    element.querySelector(".structItem-title a:not(.labelLink)");
+  const title = titleElement?.textContent?.trim() || "";
+
+  // Extract thread URL from the title link
+  const threadUrl = titleElement?.getAttribute("href") || "";
+
+  const creatorElement = element.querySelector(".structItem-minor .username");
+  const creator = creatorElement?.textContent?.trim() || "";
+  const creatorId = parseUserId(creatorElement);
+
+  const creationDateElement = element.querySelector(".structItem-minor time");
+  const creationDate = creationDateElement?.getAttribute("datetime") || "";
+
+  const update = parseThreadUpdateRow(element);
+
+  if (!title || threadId <= 0) {
+    return null;
+  }
+
+  return {
+    threadId,
+    title,
+    creator,
+    creatorId,
+    creationDate,
+    replies: update.replies,
+    views: update.views,
+    lastReplyDate: update.lastReplyDate,
+    lastReplier: update.lastReplier,
+    lastReplierId: update.lastReplierId,
+    threadUrl,
+    prefixId: update.prefixId,
+    prefix: update.prefix,
+    sticky: update.sticky,
+    locked: update.locked,
+    pageCount: update.pageCount,
+  };
+}
+
+/**
+ * Read the prefix label in front of a thread title
+ * @param element Listing row or thread page title; the prefix ID comes from
+ * the label's filter link or the row's is-prefixN class
+ */
+export function parseThreadPrefix(element: DomElement): ThreadPrefixData {
+  const label = element.querySelector(
+    ".structItem-title .label, .p-title-value .label"
+  );
+  const prefix = label?.textContent?.trim() || null;
+  if (!prefix) {
+    return { prefixId: null, prefix: null };
+  }
+
+  const href = label?.closest(".labelLink")?.getAttribute("href") || "";
+  const prefixIdStr =
+    href.match(/prefix_id=(\d+)/)?.[1] ||
+    element.className.match(/\bis-prefix(\d+)\b/)?.[1] ||
+    "";
+  return { prefixId: parseInt(prefixIdStr) || null, prefix };
+}
+
+/**
+ * Read the prefix, sticky and locked status and page count of a
+ * `.structItem` row
+ */
+export function parseThreadState(element: DomElement): ThreadStateData {
+  // Last page link of the row's page jump; threads on one page have none
+  let pageCount = 1;
+  Array.from(element.querySelectorAll(".structItem-pageJump a")).forEach(
+    (link) => {
+      pageCount = Math.max(pageCount, parseInt(link.textContent || "") || 0);
+    }
+  );
+
+  return {
+    ...parseThreadPrefix(element),
+    sticky:
+      !!element.closest(".structItemContainer-group--sticky") ||
+      !!element.querySelector(".structItem-status--sticky"),
+    locked: !!element.querySelector(".structItem-status--locked"),
+    pageCount,
+  };
+}
+
+/**
+ * Parse the reply stats of a `.structItem` row
+ */
+export function parseThreadUpdateRow(element: DomElement): ThreadUpdateData {
+  const repliesElement = element.querySelector(
+    ".structItem-cell--meta dl:nth-child(1) dd"
+  );
+  const replies = repliesElement?.textContent?.trim() || "0";
+
+  const viewsElement = element.querySelector(
+    ".structItem-cell--meta dl:nth-child(2) dd"
+  );
+  const views = viewsElement?.textContent?.trim() || "0";
+
+  const lastReplyElement = element.querySelector(
+    ".structItem-cell--latest time"
+  );
+  const lastReplyDate = lastReplyElement?.getAttribute("datetime") || "";
+
+  const lastReplierElement = element.querySelector(
+    ".structItem-cell--latest .username"
+  );
+  const lastReplier = lastReplierElement?.textContent?.trim() || "";
+  const lastReplierId = parseUserId(lastReplierElement);
+
+  return {
+    threadId: parseThreadId(element),
+    replies,
+    views,
+    lastReplyDate,
+    lastReplier,
+    lastReplierId,
+    ...parseThreadState(element),
+  };
+}
+
+/**
+ * Parse every thread row (including stickies) on a forum listing page
+ */
+export function parseThreadListing(root: DomRoot): ForumThreadData[] {
+  const threads: ForumThreadData[] = [];
+
+  Array.from(root.querySelectorAll(".structItem")).forEach((element) => {
+    try {
+      const thread = parseThreadRow(element);
+      if (thread) {
+        threads.push(thread);
+      }
+    } catch (error) {
+      console.error("Error parsing thread element:", error);
+    }
+  });
+
+  return threads;
+}
+
+/**
+ * Parse reply stats and state of every thread on a listing page, stickies
+ * included
+ */
+export function parseThreadUpdates(root: DomRoot): ThreadUpdateData[] {
+  const threads: ThreadUpdateData[] = [];
+
+  // Sticky threads come first, in .structItemContainer-group--sticky, and
+  // are marked sticky so the update checker can tell them apart
+  const threadElements = root.querySelectorAll(
+    ".structItemContainer-group .structItem"
+  );
+
+  Array.from(threadElements).forEach((element) => {
+    try {
+      const thread = parseThreadUpdateRow(element);
+      if (thread.threadId > 0 && thread.lastReplyDate) {
+        threads.push(thread);
+      }
+    } catch (error) {
+      console.error("Error parsing thread element:", error);
+    }
+  });
+
+  return threads;
+}
+
+/**
+ * Parse a forum link from the forum index
+ * @returns null for links that are not forums, e.g. categories and link
+ * forums
+ */
+export function parseForumNodeLink(
+  link: DomElement,
+  baseUrl: string,
+  parentId: number | null
+): ForumNodeData | null {
+  const href = link.getAttribute("href") || "";
+  const match = href.match(/\/forums\/(?:[^/]*\.)?(\d+)\/$/);
+  const title = link.textContent?.trim() || "";
+
+  if (!match || !title) {
+    return null;
+  }
+
+  return {
+    forumId: parseInt(match[1]),
+    title,
+    url: toAbsoluteUrl(href, baseUrl),
+    parentId,
+  };
+}
+
+/**
+ * Parse every forum on the forum index: the `.node` entries and the
+ * subforum links listed beneath each of them
+ */
+export function parseForumNodes(
+  root: DomRoot,
+  baseUrl: string
+): ForumNodeData[] {
+  const forums: ForumNodeData[] = [];
+  const add = (forum: ForumNodeData | null) => {
+    if (forum && !forums.some((known) => known.forumId === forum.forumId)) {
+      forums.push(forum);
+    }
+  };
+
+  Array.from(root.querySelectorAll(".node")).forEach((element) => {
+    const titleLink = element.querySelector(".node-title a");
+    const node = titleLink ? parseForumNodeLink(titleLink, baseUrl, null) : null;
+    if (!node) {
+      return;
+    }
+    add(node);
+
+    // Subforums appear as a flat list and again in a dropdown menu
+    Array.from(element.querySelectorAll("a.subNodeLink--forum")).forEach(
+      (link) => add(parseForumNodeLink(link, baseUrl, node.forumId))
+    );
+  });
+
+  return forums;
+}
+
+/**
+ * Extract the numeric post ID of a `.message` element, falling back from
+ * article[data-content] to data-lb-id to the js-post- element id
+ */
+export function parsePostId(element: DomElement): number {
+  // Extract post ID from article element - get the numeric ID
+  const articleElement = element.closest("article[data-content]");
+  let postId = 0;
+
+  if (articleElement) {
+    const contentAttr = articleElement.getAttribute("data-content");
+    if (contentAttr) {
+      const match = contentAttr.match(/post-(\d+)/);
+      if (match) {
+        postId = parseInt(match[1]);
+      }
+    }
+  }
+
+  // Fallback methods if article element not found
+  if (!postId) {
+    const dataLbId = element.getAttribute("data-lb-id");
+    if (dataLbId) {
+      postId = parseInt(dataLbId) || 0;
+    }
+  }
+
+  if (!postId) {
+    const elementId = element.id;
+    if (elementId) {
+      const match = elementId.match(/js-post-(\d+)/);
+      if (match) {
+        postId = parseInt(match[1]);
+      }
+    }
+  }
+
+  return postId;
+}
+
+/**
+ * Media page URL of a XenForo Media Gallery embed: a [data-media-key]
+ * wrapper or an iframe pointing at /media/<slug>.<id>/embed
+ * @returns null for other embeds
+ */
+export function parseMediaEmbedUrl(
+  embed: DomElement,
+  baseUrl: string
+): string | null {
+  const key = embed.getAttribute("data-media-key");
+  const embedMatch = (embed.getAttribute("src") || "").match(
+    /media\/(?:[^/?#]*\.)?(\d+)\/embed/
+  );
+  const mediaId = key && /^\d+$/.test(key) ? key : embedMatch?.[1];
+  return mediaId ? toAbsoluteUrl(`/media/${mediaId}/`, baseUrl) : null;
+}
+
+/**
+ * Extract media of a post as [fullImageUrl, thumbImageUrl] pairs where
+ * the thumb can be empty. Full-size URLs come from attachment <a href>
+ * links instead of their thumbnails; videos pair with their poster.
+ */
+export function parsePostMedias(
+  element: DomElement,
+  baseUrl: string
+): [string, string][] {
+  const medias: [string, string][] = [];
+
+  // Get attachments from message-attachments section
+  const attachmentSection = element.querySelector(".message-attachments");
+  if (attachmentSection) {
+    // Get attachment links (full-size images) - PRIORITY: Extract from <a href>
+    const attachmentLinks = attachmentSection.querySelectorAll(
+      'a[href*="/attachments/"]'
+    );
+    Array.from(attachmentLinks).forEach((link) => {
+      const href = link.getAttribute("href");
+      if (href) {
+        const fullUrl = toAbsoluteUrl(href, baseUrl);
+
+        // Check if this <a> tag contains an <img> (thumbnail)
+        const imgInsideLink = link.querySelector("img[src]");
+        if (imgInsideLink) {
+          // If there's a thumbnail inside the link, add both full and thumb
+          const imgSrc = imgInsideLink.getAttribute("src");
+          if (imgSrc) {
+            medias.push([fullUrl, toAbsoluteUrl(imgSrc, baseUrl)]);
+          }
+        } else {
+          // No thumbnail found, add full URL with empty thumb
+          medias.push([fullUrl, ""]);
+        }
+      }
+    });
+  }
+
+  // Get images from message content (inline images)
+  const contentImages = element.querySelectorAll(
+    ".message-content img[src], .message-content img[data-src]"
+  );
+  Array.from(contentImages).forEach((img) => {
+    // Skip if this image is inside .message-attachments section (already processed)
+    if (img.closest(".message-attachments")) {
+      return;
+    }
+
+    // Try to get src first, then data-src
+    const src = img.getAttribute("src") || img.getAttribute("data-src");
+
+    if (
+      src &&
+      !src.includes("avatar") &&
+      !src.includes("smiley") &&
+      !src.includes("icon")
+    ) {
+      // Regular inline image with empty thumb
+      medias.push([toAbsoluteUrl(src, baseUrl), ""]);
+    }
+  });
+
+  // Get videos from message content: <video src> or <video><source>
+  // (lazy players use data-src), with the poster frame as thumbnail
+  const videos = element.querySelectorAll(".message-content video");
+  Array.from(videos).forEach((video) => {
+    // Video attachments are already listed as attachment links
+    if (video.closest(".message-attachments")) {
+      return;
+    }
+
+    const source = video.querySelector("source[src], source[data-src]");
+    const src =
+      video.getAttribute("src") ||
+      source?.getAttribute("src") ||
+      source?.getAttribute("data-src");
+    if (src) {
+      const poster = video.getAttribute("poster");
+      medias.push([
+        toAbsoluteUrl(src, baseUrl),
+        poster ? toAbsoluteUrl(poster, baseUrl) : "",
+      ]);
+    }
+  });
+
+  // Get XenForo Media Gallery embeds ([GALLERY=media, id]) as media page
+  // URLs; the page is resolved to its image or video file when downloading
+  const galleryEmbeds = element.querySelectorAll(
+    '.message-content [data-media-site-id^="xfmg"][data-media-key], .message-content iframe[src*="media/"]'
+  );
+  Array.from(galleryEmbeds).forEach((embed) => {
+    const url = parseMediaEmbedUrl(embed, baseUrl);
+    if (url) {
+      medias.push([url, ""]);
+    }
+  });
+
+  // Remove duplicates from media pairs
+  // Keep only unique pairs based on full image URL
+  const urlMap = new Map<string, [string, string]>();
+
+  for (const [fullUrl, thumbUrl] of medias) {
+    // Use full URL as key for deduplication (or thumb URL if full is empty)
+    const keyUrl = fullUrl || thumbUrl;
+
+    // If we haven't seen this URL before, add the pair
+    if (!urlMap.has(keyUrl)) {
+      urlMap.set(keyUrl, [fullUrl, thumbUrl]);
+    }
+  }
+
+  return Array.from(urlMap.values());
+}
+
+/**
+ * Escape text for use in HTML text or a double-quoted attribute
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Resolve a URL found in post markup; protocol-relative URLs get https
+ * @returns null for anything that is not a web URL (javascript:, data:)
+ */
+export function toSafeUrl(url: string | null, baseUrl: string): string | null {
+  const trimmed = (url || "").trim();
+  if (trimmed.startsWith("//")) {
+    return `https:${trimmed}`;
+  }
+  if (/^https?:\/\//i.test(trimmed) || trimmed.startsWith("/")) {
+    return toAbsoluteUrl(trimmed, baseUrl);
+  }
+  return null;
+}
+
+/**
+ * Reduce a post body to safe HTML: known formatting tags only, no scripts,
+ * styles, event handlers or embeds, absolute URLs, lazy images given their
+ * real src, and only the bbCode* classes that mark quotes, spoilers and
+ * code blocks
+ */
+export function sanitizePostHtml(element: DomElement, baseUrl: string): string {
+  const attributes: Record<string, string[]> = {
+    a: ["href", "title"],
+    b: [],
+    strong: [],
+    i: [],
+    em: [],
+    u: [],
+    s: [],
+    del: [],
+    br: [],
+    p: [],
+    div: [],
+    span: [],
+    blockquote: ["data-quote", "data-source"],
+    ul: [],
+    ol: [],
+    li: [],
+    pre: [],
+    code: [],
+    h2: [],
+    h3: [],
+    h4: [],
+    table: [],
+    thead: [],
+    tbody: [],
+    tr: [],
+    th: [],
+    td: [],
+    img: ["src", "alt", "title", "width", "height"],
+    video: ["src", "poster"],
+    source: ["src", "type"],
+  };
+  const droppedTags = [
+    "script",
+    "style",
+    "iframe",
+    "noscript",
+    "button",
+    "form",
+    "input",
+    "textarea",
+    "select",
+    "object",
+    "embed",
+    "svg",
+  ];
+  const urlAttributes = ["href", "src", "poster"];
+  const voidTags = ["br", "img", "source"];
+
+  function renderChildren(node: DomNode): string {
+    return Array.from(node.childNodes).map(render).join("");
+  }
+
+  function render(node: DomNode): string {
+    if (node.nodeType === 3) {
+      return escapeHtml(node.textContent || "");
+    }
+    if (node.nodeType !== 1) {
+      return "";
+    }
+
+    const el = node as DomElement;
+    const tag = el.tagName.toLowerCase();
+    if (droppedTags.includes(tag)) {
+      return "";
+    }
+    if (!attributes[tag]) {
+      return renderChildren(el);
+    }
+
+    let attrs = "";
+    for (const name of attributes[tag]) {
+      let value = el.getAttribute(name);
+      if (name === "src" && !value) {
+        value = el.getAttribute("data-src");
+      }
+      if (value !== null && urlAttributes.includes(name)) {
+        value = toSafeUrl(value, baseUrl);
+      }
+      if (value !== null) {
+        attrs += ` ${name}="${escapeHtml(value)}"`;
+      }
+    }
+    if (tag === "a") {
+      attrs += ' rel="nofollow noopener"';
+    }
+    if (tag === "video") {
+      attrs += " controls";
+    }
+    const classes = (el.getAttribute("class") || "")
+      .split(/\s+/)
+      .filter((name) => /^bbCode/.test(name));
+    if (classes.length > 0) {
+      attrs += ` class="${escapeHtml(classes.join(" "))}"`;
+    }
+
+    return voidTags.includes(tag)
+      ? `<${tag}${attrs}>`
+      : `<${tag}${attrs}>${renderChildren(el)}</${tag}>`;
+  }
+
+  return renderChildren(element).trim();
+}
+
+/**
+ * Convert a post body to PostBodyNodes. Top-level content and the content
+ * of quotes and spoilers is grouped into paragraphs at blank lines and
+ * block elements; smilies become their text. Media nodes carry the same
+ * URLs as parsePostMedias so they can be matched to stored media.
+ */
+export function parsePostBody(
+  element: DomElement,
+  baseUrl: string
+): PostBodyNode[] {
+  const blockTypes = ["paragraph", "heading", "list", "quote", "code"];
+
+  function isBlock(node: PostBodyNode): boolean {
+    return (
+      blockTypes.includes(node.type) ||
+      (node.type === "spoiler" && !node.inline) ||
+      (node.type === "media" && node.kind !== "image")
+    );
+  }
+
+  function isBlankText(node: PostBodyNode | undefined): boolean {
+    return !!node && node.type === "text" && node.text.trim() === "";
+  }
+
+  /**
+   * Trim whitespace at the edges of a run of inline nodes and around its
+   * line breaks
+   */
+  function trimInline(nodes: PostBodyNode[]): PostBodyNode[] {
+    const trimmed: PostBodyNode[] = [];
+    nodes.forEach((node, index) => {
+      if (node.type !== "text") {
+        trimmed.push(node);
+        return;
+      }
+      let text = node.text;
+      if (index > 0 && nodes[index - 1].type === "break") {
+        text = text.trimStart();
+      }
+      if (index < nodes.length - 1 && nodes[index + 1].type === "break") {
+        text = text.trimEnd();
+      }
+      if (text) {
+        trimmed.push({ type: "text", text });
+      }
+    });
+    while (
+      trimmed.length > 0 &&
+      (trimmed[0].type === "break" || isBlankText(trimmed[0]))
+    ) {
+      trimmed.shift();
+    }
+    while (
+      trimmed.length > 0 &&
+      (trimmed[trimmed.length - 1].type === "break" ||
+        isBlankText(trimmed[trimmed.length - 1]))
+    ) {
+      trimmed.pop();
+    }
+    const first = trimmed[0];
+    if (first && first.type === "text") {
+      trimmed[0] = { type: "text", text: first.text.trimStart() };
+    }
+    const last = trimmed[trimmed.length - 1];
+    if (last && last.type === "text") {
+      trimmed[trimmed.length - 1] = { type: "text", text: last.text.trimEnd() };
+    }
+    return trimmed;
+  }
+
+  function paragraphs(nodes: PostBodyNode[]): PostBodyNode[] {
+    const blocks: PostBodyNode[] = [];
+    let current: PostBodyNode[] = [];
+
+    function flush() {
+      const children = trimInline(current);
+      if (children.length > 0) {
+        blocks.push({ type: "paragraph", children });
+      }
+      current = [];
+    }
+
+    nodes.forEach((node, index) => {
+      if (isBlock(node)) {
+        flush();
+        blocks.push(node);
+        return;
+      }
+      // A second line break (blank text between them aside) ends a paragraph
+      if (node.type === "break") {
+        let previous = index - 1;
+        while (previous >= 0 && isBlankText(nodes[previous])) {
+          previous--;
+        }
+        if (previous >= 0 && nodes[previous].type === "break") {
+          flush();
+          return;
+        }
+      }
+      current.push(node);
+    });
+    flush();
+    return blocks;
+  }
+
+  function convertChildren(node: DomNode): PostBodyNode[] {
+    const nodes: PostBodyNode[] = [];
+    Array.from(node.childNodes).forEach((child) => {
+      nodes.push(...convert(child));
+    });
+    return nodes;
+  }
+
+  function mediaImage(img: DomElement): PostBodyNode[] {
+    if (/(^|\s)smilie(\s|$)/.test(img.getAttribute("class") || "")) {
+      const alt = img.getAttribute("alt");
+      return alt ? [{ type: "text", text: alt }] : [];
+    }
+    const src = img.getAttribute("src") || img.getAttribute("data-src");
+    if (
+      !src ||
+      src.includes("avatar") ||
+      src.includes("smiley") ||
+      src.includes("icon")
+    ) {
+      return [];
+    }
+    return [
+      {
+        type: "media",
+        kind: "image",
+        url: toAbsoluteUrl(src, baseUrl),
+        mediaId: null,
+      },
+    ];
+  }
+
+  function mediaVideo(video: DomElement): PostBodyNode[] {
+    const source = video.querySelector("source[src], source[data-src]");
+    const src =
+      video.getAttribute("src") ||
+      source?.getAttribute("src") ||
+      source?.getAttribute("data-src");
+    return src
+      ? [
+          {
+            type: "media",
+            kind: "video",
+            url: toAbsoluteUrl(src, baseUrl),
+            mediaId: null,
+          },
+        ]
+      : [];
+  }
+
+  function mediaEmbed(wrapper: DomElement): PostBodyNode[] {
+    const iframe =
+      wrapper.tagName.toLowerCase() === "iframe"
+        ? wrapper
+        : wrapper.querySelector("iframe[src]");
+    const url =
+      parseMediaEmbedUrl(wrapper, baseUrl) ||
+      (iframe ? parseMediaEmbedUrl(iframe, baseUrl) : null);
+    if (url) {
+      return [{ type: "media", kind: "embed", url, mediaId: null }];
+    }
+    const video = wrapper.querySelector("video");
+    if (video) {
+      return mediaVideo(video);
+    }
+    // Other sites' players (YouTube and the like) become plain links
+    const src = iframe ? toSafeUrl(iframe.getAttribute("src"), baseUrl) : null;
+    return src
+      ? [{ type: "link", url: src, children: [{ type: "text", text: src }] }]
+      : [];
+  }
+
+  function quote(block: DomElement): PostBodyNode {
+    const source = (block.getAttribute("data-source") || "").match(
+      /post:\s*(\d+)/
+    );
+    const content =
+      block.querySelector(".bbCodeBlock-expandContent") ||
+      block.querySelector(".bbCodeBlock-content") ||
+      block;
+    return {
+      type: "quote",
+      author: block.getAttribute("data-quote") || null,
+      postId: source ? parseInt(source[1]) : null,
+      children: paragraphs(convertChildren(content)),
+    };
+  }
+
+  function convert(node: DomNode): PostBodyNode[] {
+    if (node.nodeType === 3) {
+      const text = (node.textContent || "").replace(/\s+/g, " ");
+      return text ? [{ type: "text", text }] : [];
+    }
+    if (node.nodeType !== 1) {
+      return [];
+    }
+
+    const el = node as DomElement;
+    const tag = el.tagName.toLowerCase();
+    const classes = (el.getAttribute("class") || "").split(/\s+/);
+
+    if (
+      ["script", "style", "noscript", "button", "form"].includes(tag) ||
+      classes.includes("bbCodeBlock-title") ||
+      classes.includes("bbCodeBlock-expandLink")
+    ) {
+      return [];
+    }
+    if (classes.includes("bbCodeBlock--quote") || tag === "blockquote") {
+      return [quote(el)];
+    }
+    if (classes.includes("bbCodeSpoiler")) {
+      const title = el.querySelector(".bbCodeSpoiler-button-title");
+      const content =
+        el.querySelector(".bbCodeSpoiler-content .bbCodeBlock-content") ||
+        el.querySelector(".bbCodeSpoiler-content") ||
+        el;
+      return [
+        {
+          type: "spoiler",
+          title: title?.textContent?.trim() || null,
+          inline: false,
+          children: paragraphs(convertChildren(content)),
+        },
+      ];
+    }
+    if (classes.includes("bbCodeInlineSpoiler")) {
+      return [
+        {
+          type: "spoiler",
+          title: null,
+          inline: true,
+          children: convertChildren(el),
+        },
+      ];
+    }
+    if (classes.includes("bbCodeBlock--code")) {
+      const code = el.querySelector("code") || el.querySelector("pre") || el;
+      return [{ type: "code", text: code.textContent || "" }];
+    }
+    if (
+      classes.includes("bbMediaWrapper") ||
+      el.getAttribute("data-media-key") ||
+      tag === "iframe"
+    ) {
+      return mediaEmbed(el);
+    }
+
+    switch (tag) {
+      case "br":
+        return [{ type: "break" }];
+      case "b":
+      case "strong":
+        return [{ type: "bold", children: convertChildren(el) }];
+      case "i":
+      case "em":
+        return [{ type: "italic", children: convertChildren(el) }];
+      case "u":
+        return [{ type: "underline", children: convertChildren(el) }];
+      case "s":
+      case "strike":
+      case "del":
+        return [{ type: "strike", children: convertChildren(el) }];
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6":
+        return [
+          {
+            type: "heading",
+            level: parseInt(tag.slice(1)),
+            children: trimInline(convertChildren(el)),
+          },
+        ];
+      case "ul":
+      case "ol":
+        return [
+          {
+            type: "list",
+            ordered: tag === "ol",
+            children: convertChildren(el).filter(
+              (child) => child.type === "item"
+            ),
+          },
+        ];
+      case "li":
+        return [{ type: "item", children: trimInline(convertChildren(el)) }];
+      case "pre":
+        return [{ type: "code", text: el.textContent || "" }];
+      case "img":
+        return mediaImage(el);
+      case "video":
+        return mediaVideo(el);
+      case "a": {
+        const children = convertChildren(el);
+        const url = toSafeUrl(el.getAttribute("href"), baseUrl);
+        // Image links (inline attachments) are the image itself
+        if (!url || children.some((child) => child.type === "media")) {
+          return children;
+        }
+        return [{ type: "link", url, children }];
+      }
+      case "p":
+      case "div":
+        // Block containers (alignment, paragraphs) keep their line breaks
+        return [{ type: "break" }, ...convertChildren(el), { type: "break" }];
+      default:
+        return convertChildren(el);
+    }
+  }
+
+  return paragraphs(convertChildren(element));
+}
+
+/**
+ * Quotes in a post body of other posts or members, once each. Quotes
+ * naming neither a post nor an author are left out.
+ */
+export function parsePostQuotes(element: DomElement): PostQuoteData[] {
+  const quotes: PostQuoteData[] = [];
+  const seen: string[] = [];
+
+  Array.from(element.querySelectorAll("blockquote.bbCodeBlock--quote")).forEach(
+    (quote) => {
+      const source = (quote.getAttribute("data-source") || "").match(
+        /post:\s*(\d+)/
+      );
+      const member = (quote.getAttribute("data-attributes") || "").match(
+        /member:\s*(\d+)/
+      );
+      const data: PostQuoteData = {
+        postId: source ? parseInt(source[1]) : null,
+        memberId: member ? parseInt(member[1]) : null,
+        author: quote.getAttribute("data-quote") || null,
+      };
+      const key = `${data.postId}|${data.memberId}|${data.author}`;
+      if ((data.postId || data.author) && !seen.includes(key)) {
+        seen.push(key);
+        quotes.push(data);
+      }
+    }
+  );
+
+  return quotes;
+}
+
+/**
+ * Parse a single `.message` element of a thread page
+ * @returns null when no post ID can be found
+ */
+export function parsePost(
+  element: DomElement,
+  baseUrl: string
+): PostData | null {
+  const postId = parsePostId(element);
+  if (!postId) {
+    return null;
+  }
+
+  // Extract author
+  const authorElement = element.querySelector(".message-userDetails .username");
+  const author = authorElement?.textContent?.trim() || "";
+  const authorId = parseUserId(authorElement);
+
+  // Extract content
+  const contentElement = element.querySelector(".message-content .bbWrapper");
+  const content = contentElement?.textContent?.trim() || "";
+  const html = contentElement ? sanitizePostHtml(contentElement, baseUrl) : "";
+  const body = contentElement ? parsePostBody(contentElement, baseUrl) : [];
+  const quotes = contentElement ? parsePostQuotes(contentElement) : [];
+
+  // Extract post created date from the datetime attribute (already ISO
+  // format) of the time element carrying a title like "Oct 5, 2025 at 5:03 PM"
+  let postCreatedDate = "";
+  const timeElement = element.querySelector("time.u-dt[title]");
+  if (timeElement && timeElement.getAttribute("title")) {
+    postCreatedDate = timeElement.getAttribute("datetime") || "";
+  }
+
+  const reactionsLink = element.querySelector(
+    '.reactionsBar-link[href*="/reactions"]'
+  );
+  const likes = reactionsLink
+    ? parseLikesText(reactionsLink.textContent || "")
+    : 0;
+
+  return {
+    postId,
+    author,
+    authorId,
+    content,
+    html,
+    body,
+    quotes,
+    postCreatedDate,
+    likes,
+    medias: parsePostMedias(element, baseUrl),
+  };
+}
+
+/**
+ * Parse all posts on a thread page
+ */
+export function parsePagePosts(root: DomRoot, baseUrl: string): PostData[] {
+  const posts: PostData[] = [];
+
+  Array.from(root.querySelectorAll(".message")).forEach((element) => {
+    try {
+      const post = parsePost(element, baseUrl);
+      if (post) {
+        posts.push(post);
+      }
+    } catch (error) {
+      console.error("Error parsing post element:", error);
+    }
+  });
+
+  return posts;
+}
+
+/**
+ * Parse the thread details shown above the posts: the title prefix, the
+ * tag list and the locked notice
+ */
+export function parseThreadPage(root: DomRoot): ThreadPageData {
+  const titleElement = root.querySelector("h1.p-title-value");
+  const tags: ThreadPageData["tags"] = [];
+  Array.from(root.querySelectorAll(".tagList .tagItem")).forEach((link) => {
+    const href = link.getAttribute("href") || "";
+    const tag = href.match(/\/tags\/([^/?#]+)\/?/)?.[1];
+    const name = link.textContent?.trim() || "";
+    if (tag && name) {
+      tags.push({ tag: decodeURIComponent(tag), name });
+    }
+  });
+
+  return {
+    ...(titleElement
+      ? parseThreadPrefix(titleElement)
+      : { prefixId: null, prefix: null }),
+    tags,
+    locked: !!root.querySelector(".blockStatus-message--locked"),
+  };
+}
+
+/**
+ * Parse a post's reactions page (/posts/<id>/reactions): the count of each
+ * reaction type from the tabs, and the members listed on this page. Pages
+ * without per-type tabs are counted from the member list.
+ */
+export function parseReactionsPage(
+  root: DomRoot,
+  baseUrl: string
+): ReactionsPageData {
+  const users: ReactionsPageData["users"] = [];
+  const names: Record<string, string> = {};
+
+  Array.from(root.querySelectorAll(".block-row")).forEach((row) => {
+    const user = row.querySelector(".username");
+    const reaction = row.querySelector("[data-reaction-id]");
+    if (!user || !reaction) {
+      return;
+    }
+    const reactionId = parseInt(
+      reaction.getAttribute("data-reaction-id") || ""
+    );
+    if (!reactionId) {
+      return;
+    }
+    const image = reaction.querySelector("img");
+    names[reactionId] =
+      image?.getAttribute("title") || image?.getAttribute("alt") || "";
+    users.push({
+      reactionId,
+      reactionName: names[reactionId],
+      userId: parseUserId(user),
+      username: user.textContent?.trim() || "",
+    });
+  });
+
+  const reactions: ReactionsPageData["reactions"] = [];
+  Array.from(root.querySelectorAll(".tabs-tab")).forEach((tab) => {
+    const href = tab.getAttribute("href") || "";
+    const idMatch = href.match(/reaction_id=(\d+)/);
+    const reaction = tab.querySelector("[data-reaction-id]");
+    const reactionId = idMatch
+      ? parseInt(idMatch[1])
+      : parseInt(reaction?.getAttribute("data-reaction-id") || "") || 0;
+    // reaction_id=0 is the "All" tab
+    if (!reactionId) {
+      return;
+    }
+    const text = tab.textContent || "";
+    const countMatch = text.match(/\(([\d,]+)\)\s*$/);
+    const image = tab.querySelector("img");
+    reactions.push({
+      reactionId,
+      name:
+        tab.querySelector("bdi")?.textContent?.trim() ||
+        image?.getAttribute("title") ||
+        names[reactionId] ||
+        "",
+      count: countMatch ? parseInt(countMatch[1].replace(/,/g, "")) : 0,
+    });
+  });
+
+  if (reactions.length === 0) {
+    users.forEach((user) => {
+      const existing = reactions.find(
+        (reaction) => reaction.reactionId === user.reactionId
+      );
+      if (existing) {
+        existing.count++;
+      } else {
+        reactions.push({
+          reactionId: user.reactionId,
+          name: names[user.reactionId] || "",
+          count: 1,
+        });
+      }
+    });
+  }
+
+  const more = root.querySelector(
+    '[data-xf-click="inserter"][href], .pageNav-jump--next[href]'
+  );
+  const nextHref = more?.getAttribute("href");
+  return {
+    reactions,
+    users,
+    nextPageUrl: nextHref ? toAbsoluteUrl(nextHref, baseUrl) : null,
+  };
+}
+
+/**
+ * Parse the header of a member profile page (/members/name.123/)
+ * @returns null when the page shows no member, e.g. for private profiles
+ */
+export function parseMemberProfile(
+  root: DomRoot,
+  baseUrl: string
+): MemberProfileData | null {
+  const header = root.querySelector(".memberHeader");
+  const nameElement = header?.querySelector(".memberHeader-name .username");
+  const userId =
+    parseUserId(nameElement || null) ||
+    parseUserId(header?.querySelector("[data-user-id]") || null);
+  if (!header || !nameElement || !userId) {
+    return null;
+  }
+
+  // Label (dt) to value (dd) of the header's pairs, e.g. Messages: 1,234
+  const pairs: Record<string, DomElement> = {};
+  Array.from(header.querySelectorAll("dl.pairs")).forEach((pair) => {
+    const term = pair.querySelector("dt");
+    const value = pair.querySelector("dd");
+    const label = term?.getAttribute("title") || term?.textContent || "";
+    if (value && label.trim()) {
+      pairs[label.trim().toLowerCase()] = value;
+    }
+  });
+
+  // The avatar links to its original size; members without one get a
+  // letter placeholder instead of an image
+  const avatarLink = header.querySelector(".memberHeader-avatar a[href]");
+  const avatarImage = header.querySelector(".memberHeader-avatar img[src]");
+  const avatarHref = avatarLink?.getAttribute("href") || "";
+  const avatarUrl = avatarImage
+    ? avatarHref.includes("/avatars/")
+      ? avatarHref
+      : avatarImage.getAttribute("src")
+    : null;
+
+  return {
+    userId,
+    username: nameElement.textContent?.trim() || "",
+    joinDate:
+      pairs["joined"]?.querySelector("time")?.getAttribute("datetime") || "",
+    messages: pairs["messages"]?.textContent?.trim() || "",
+    reactionScore: pairs["reaction score"]?.textContent?.trim() || "",
+    avatarUrl: avatarUrl ? toAbsoluteUrl(avatarUrl, baseUrl) : null,
+  };
+}
+
+/**
+ * Check whether an attachment page actually contains media
+ * (not an age-verification or cookie wall)
+ */
+export function hasAttachmentMediaContent(root: DomDocument): boolean {
+  const imgCount = root.querySelectorAll("img").length;
+  const videoCount = root.querySelectorAll("video").length;
+  const bodyText = root.body.textContent || "";
+
+  // Check for common error indicators
+  if (
+    bodyText.includes("age verification") ||
+    bodyText.includes("18 or older")
+  ) {
+    return false;
+  }
+
+  if (bodyText.includes("cookies") && bodyText.length < 1000) {
+    return false;
+  }
+
+  return imgCount > 0 || videoCount > 0 || bodyText.length > 500;
+}
+
+/**
+ * Find the direct media URL on an attachment page, skipping avatars,
+ * data URIs and links back to attachment pages
+ */
+export function parseAttachmentMediaUrl(
+  root: DomDocument,
+  baseUrl: string
+): AttachmentMediaUrl | null {
+  const isDirectUrl = (url: string): boolean =>
+    !url.includes("/attachments/") && !url.endsWith("/");
+  const isContentImage = (src: string): boolean =>
+    !src.includes("data:") && !src.includes("avatar") && isDirectUrl(src);
+
+  // Look for img element with src attribute (prioritize)
+  const img = root.querySelector("img[src]");
+  const imgSrc = img ? toAbsoluteUrl(img.getAttribute("src") || "", baseUrl) : "";
+  if (imgSrc && isContentImage(imgSrc)) {
+    return { url: imgSrc, type: "img" };
+  }
+
+  // Look for video element
+  const video = root.querySelector("video source[src]");
+  const videoSrc = video
+    ? toAbsoluteUrl(video.getAttribute("src") || "", baseUrl)
+    : "";
+  if (videoSrc && isDirectUrl(videoSrc)) {
+    return { url: videoSrc, type: "video" };
+  }
+
+  // Look for any element with data-src
+  const dataSrcImg = root.querySelector("img[data-src]");
+  const dataSrc = dataSrcImg?.getAttribute("data-src") || "";
+  if (dataSrc && isDirectUrl(dataSrc)) {
+    return { url: dataSrc, type: "data-src" };
+  }
+
+  // Look for any img element that might be hidden or not fully loaded
+  for (const candidate of Array.from(root.querySelectorAll("img"))) {
+    const src = toAbsoluteUrl(candidate.getAttribute("src") || "", baseUrl);
+    if (
+      candidate.getAttribute("src") &&
+      isContentImage(src) &&
+      (src.includes(".gif") || src.includes(".jpg") || src.includes(".png"))
+    ) {
+      return { url: src, type: "hidden-img" };
+    }
+  }
+
+  // Try to find any media URL in the page content
+  const gifMatch = root.body.innerHTML.match(/https:\/\/[^"'\s]+\.gif/);
+  if (gifMatch && isDirectUrl(gifMatch[0])) {
+    return { url: gifMatch[0], type: "content-match" };
+  }
+
+  return null;
+}
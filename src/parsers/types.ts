@@ -0,0 +1,218 @@
+/**
+ * Minimal DOM surface used by the parsers. Satisfied by the browser DOM
+ * inside page.evaluate and by jsdom in Node.
+ */
+export interface DomElement extends DomRoot, DomNode {
+  id: string;
+  className: string;
+  tagName: string;
+  textContent: string | null;
+  innerHTML: string;
+  getAttribute(name: string): string | null;
+  closest(selectors: string): DomElement | null;
+}
+
+/**
+ * Element or text node, for parsers that walk a subtree node by node
+ */
+export interface DomNode {
+  /** 1 for elements, 3 for text */
+  nodeType: number;
+  textContent: string | null;
+  childNodes: ArrayLike<DomNode>;
+}
+
+export interface DomRoot {
+  querySelector(selectors: string): DomElement | null;
+  querySelectorAll(selectors: string): ArrayLike<DomElement>;
+}
+
+export interface DomDocument extends DomRoot {
+  body: DomElement;
+}
+
+/**
+ * Prefix label shown in front of a thread title
+ */
+export interface ThreadPrefixData {
+  /** null for threads without a prefix */
+  prefixId: number | null;
+  prefix: string | null;
+}
+
+/**
+ * State of a thread shown in its listing row
+ */
+export interface ThreadStateData extends ThreadPrefixData {
+  sticky: boolean;
+  locked: boolean;
+  /** Number of pages, from the row's page jump links */
+  pageCount: number;
+}
+
+export interface ForumThreadData extends ThreadStateData {
+  threadId: number;
+  title: string;
+  creator: string;
+  /** Member ID of the creator; null for guests and deleted members */
+  creatorId: number | null;
+  creationDate: string;
+  replies: string;
+  views: string;
+  lastReplyDate: string;
+  lastReplier: string;
+  lastReplierId: number | null;
+  threadUrl: string;
+  detailPageUpdateDate?: string | null; // Changed to string
+}
+
+/**
+ * A forum linked from the forum index, either as a node or as a subforum
+ * link beneath one
+ */
+export interface ForumNodeData {
+  forumId: number;
+  title: string;
+  url: string;
+  /** Forum the link was listed under, or null for top-level nodes */
+  parentId: number | null;
+}
+
+export interface ThreadUpdateData extends ThreadStateData {
+  threadId: number;
+  /** Forum the listing row was found in; set by the update checker */
+  forumId?: number;
+  replies: string;
+  views: string;
+  lastReplyDate: string;
+  lastReplier: string;
+  lastReplierId: number | null;
+}
+
+/**
+ * A tag listed on a thread page
+ */
+export interface ThreadTagData {
+  /** URL slug of the tag, from its /tags/<slug>/ link */
+  tag: string;
+  name: string;
+}
+
+/**
+ * Thread details shown on the thread page but not in the listing
+ */
+export interface ThreadPageData extends ThreadPrefixData {
+  tags: ThreadTagData[];
+  locked: boolean;
+}
+
+/**
+ * A post body as a tree of BBCode-like nodes, so an archive can re-render
+ * posts without the site's own markup and styles
+ */
+export type PostBodyNode =
+  | { type: "text"; text: string }
+  | { type: "break" }
+  | {
+      type: "paragraph" | "bold" | "italic" | "underline" | "strike" | "item";
+      children: PostBodyNode[];
+    }
+  | { type: "heading"; level: number; children: PostBodyNode[] }
+  | { type: "list"; ordered: boolean; children: PostBodyNode[] }
+  | { type: "link"; url: string; children: PostBodyNode[] }
+  | {
+      type: "quote";
+      /** Quoted member, and the post quoted when the quote links to one */
+      author: string | null;
+      postId: number | null;
+      children: PostBodyNode[];
+    }
+  | {
+      type: "spoiler";
+      title: string | null;
+      inline: boolean;
+      children: PostBodyNode[];
+    }
+  | { type: "code"; text: string }
+  | {
+      type: "media";
+      kind: "image" | "video" | "embed";
+      /** Same URL as in PostData.medias */
+      url: string;
+      /** forum_medias row the URL was stored as; set when the post is saved */
+      mediaId: number | null;
+    };
+
+/**
+ * A quote in a post of another post or member
+ */
+export interface PostQuoteData {
+  /** Quoted post, from data-source="post: 123" */
+  postId: number | null;
+  /** Quoted member, from data-attributes="member: 42" */
+  memberId: number | null;
+  /** Name shown on the quote, from data-quote */
+  author: string | null;
+}
+
+export interface PostData {
+  postId: number;
+  author: string;
+  /** Member ID of the author; null for guests and deleted members */
+  authorId: number | null;
+  /** Plain text of the body */
+  content: string;
+  /** Body HTML reduced to safe tags and attributes, with absolute URLs */
+  html: string;
+  body: PostBodyNode[];
+  quotes: PostQuoteData[];
+  postCreatedDate: string;
+  likes: number;
+  medias: [string, string][]; // [fullImageUrl, thumbImageUrl] pairs
+}
+
+/**
+ * A reaction type given to a post, with how many members gave it
+ */
+export interface ReactionCountData {
+  reactionId: number;
+  name: string;
+  count: number;
+}
+
+export interface ReactionUserData {
+  reactionId: number;
+  /** From the reaction icon of the member's row; "" if it has no title */
+  reactionName: string;
+  userId: number | null;
+  username: string;
+}
+
+/**
+ * One page of a post's reactions list
+ */
+export interface ReactionsPageData {
+  reactions: ReactionCountData[];
+  users: ReactionUserData[];
+  /** Next page of the member list, if it continues */
+  nextPageUrl: string | null;
+}
+
+/**
+ * The header of a member's profile page. Counts and dates are the page
+ * text, converted with ./values when stored.
+ */
+export interface MemberProfileData {
+  userId: number;
+  username: string;
+  joinDate: string;
+  messages: string;
+  reactionScore: string;
+  /** Full-size avatar, or null for members without one */
+  avatarUrl: string | null;
+}
+
+export interface AttachmentMediaUrl {
+  url: string;
+  type: string;
+}
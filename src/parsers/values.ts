@@ -0,0 +1,68 @@
+import { PostBodyNode } from "./types";
+
+/*
+ * Conversions from the text the page parsers return to the values stored
+ * in the database. These run in Node only, unlike ./pageParsers.
+ */
+
+/**
+ * Convert a displayed count such as "842", "1,295", "1.2K" or "2.4M" to
+ * an integer
+ * @returns 0 for empty or unreadable text
+ */
+export const parseCount = (text: string | null | undefined): number => {
+  if (!text || text === "0") {
+    return 0;
+  }
+
+  // Remove any non-numeric characters except K, M, B and decimal point
+  const cleanString = text.replace(/[^0-9.KMB]/gi, "");
+
+  // Check for K/M/B suffixes
+  if (cleanString.endsWith("K") || cleanString.endsWith("k")) {
+    const number = parseFloat(cleanString.slice(0, -1));
+    return Math.round(number * 1000) || 0;
+  } else if (cleanString.endsWith("M") || cleanString.endsWith("m")) {
+    const number = parseFloat(cleanString.slice(0, -1));
+    return Math.round(number * 1000000) || 0;
+  } else if (cleanString.endsWith("B") || cleanString.endsWith("b")) {
+    const number = parseFloat(cleanString.slice(0, -1));
+    return Math.round(number * 1000000000) || 0;
+  } else {
+    // No suffix, just parse as integer
+    return parseInt(cleanString) || 0;
+  }
+};
+
+/**
+ * Parse a XenForo datetime attribute such as 2024-01-24T19:34:34-0500
+ * @returns null for empty or unreadable text
+ */
+export const parseForumDate = (
+  text: string | null | undefined
+): Date | null => {
+  if (!text) {
+    return null;
+  }
+  const date = new Date(text.trim());
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Point the media nodes of a post body at stored forum_medias rows
+ * @param mediaIds forum_medias id by the media URL the post linked to;
+ * nodes whose URL is not in it keep their current id
+ */
+export const linkBodyMedia = (
+  nodes: PostBodyNode[],
+  mediaIds: Map<string, number>
+): PostBodyNode[] =>
+  nodes.map((node) => {
+    if (node.type === "media") {
+      return { ...node, mediaId: mediaIds.get(node.url) ?? node.mediaId };
+    }
+    if ("children" in node) {
+      return { ...node, children: linkBodyMedia(node.children, mediaIds) };
+    }
+    return node;
+  });
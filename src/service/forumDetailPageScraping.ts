@@ -1,65 +1,107 @@
-import puppeteer, { Browser, Page, LaunchOptions } from "puppeteer";
+import { Page } from "puppeteer";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { ForumThread } from "../model/ForumThread";
 import { ForumPost } from "../model/ForumPost";
 import { ForumMedia } from "../model/ForumMedia";
-import { sequelize } from "../config/database";
-import * as fs from "fs";
-import * as path from "path";
-import * as os from "os";
+import { MediaObject } from "../model/MediaObject";
 import dotenv from "dotenv";
-import { S3Service } from "./s3Service";
+import { MediaUploadService } from "./mediaUploadService";
+import { MediaObjectService } from "./mediaObjectService";
+import { ForumSession } from "./forumSession";
+import { ScrapeJobQueue } from "./scrapeJobQueue";
+import { PostRevisionService } from "./postRevisions";
+import { PostQuoteGraph } from "./postQuotes";
+import { PostReactionScraper, ReactionsMode } from "./postReactions";
+import { ForumUserDirectory } from "./forumUsers";
+import { ThreadMetadataService } from "./threadMetadata";
+import { pagePostRange, RemovedContentTracker } from "./removedContent";
 import {
-  createTempUserDataDir,
-  deleteTempUserDataDir,
-  clearSystemCaches,
-  getMemoryUsage,
-  clearBrowserCache,
-  createBrowserConfig,
-  delay,
-} from "../utils";
-import { PutObjectCommand } from "@aws-sdk/client-s3";
+  DueFailureOptions,
+  MediaDownloadError,
+  MediaFailureLedger,
+  MediaTimeoutError,
+} from "./mediaFailureLedger";
+import { evaluateParser } from "../parsers/evaluate";
+import { computeDHash } from "../media/perceptualHash";
+import { generateThumbnail } from "../media/thumbnail";
+import { extractPosterFrame, isVideoExtension } from "../media/video";
+import {
+  detectFileMediaType,
+  detectMediaType,
+  looksLikeMarkup,
+  MediaKind,
+  readFileHeader,
+  UnsupportedMediaError,
+} from "../media/mediaType";
+import { parseHtmlDocument } from "../parsers/html";
+import { PostData } from "../parsers/types";
+import { linkBodyMedia, parseForumDate } from "../parsers/values";
+import { clearSystemCaches, getMemoryUsage, delay } from "../utils";
+import { createMediaStore, MediaStore } from "../storage";
 import { Op } from "sequelize";
 dotenv.config();
 
-export interface PostData {
+interface MediaTask {
   postId: number;
-  author: string;
-  content: string;
-  postCreatedDate: string;
-  likes: number;
-  medias: [string, string][]; // [fullImageUrl, thumbImageUrl] pairs
+  fullSizeUrl: string;
+  thumbUrl: string;
+  // Guessed from the URL, including the leading dot. Only used to pick a
+  // timeout; the stored type comes from the downloaded bytes.
+  extension: string;
 }
 
-interface MediaTask {
-  url: string;
-  postId: number;
-  threadId: number;
-  key: string;
-  extension?: string; // Optional file extension for attachment pages
-  existThumb: number; // 0 for full image, 1 for thumbnail
+interface ProcessedMedia {
+  s3Url: string;
+  object: MediaObject;
+  type: MediaKind;
+  perceptualHash: string | null;
+}
+
+// Stored media of a post, with the URL the post linked it by
+interface PostMedia extends ProcessedMedia {
+  sourceUrl: string;
 }
 
-interface LoginCredentials {
-  username: string;
-  password: string;
+// Media stored for the posts of a batch, and the posts with media that
+// failed to store
+interface BatchMedia {
+  medias: Map<number, PostMedia[]>;
+  failedPostIds: Set<number>;
+}
+
+type MediaResult =
+  | { task: MediaTask; success: true; media: ProcessedMedia }
+  | { task: MediaTask; success: false; error: unknown };
+
+export interface ForumDetailPageScraperOptions {
+  workerId?: string;
+  /** Where downloaded media is stored; defaults to the MEDIA_STORE driver */
+  mediaStore?: MediaStore;
+  /** Reactions to read for liked posts; defaults to SCRAPE_REACTIONS */
+  reactions?: ReactionsMode;
 }
 
 class ForumDetailPageScraper {
-  private browser: Browser | null = null;
-  private page: Page | null = null;
-  private readonly SITE_URL = "https://www.lpsg.com";
-  private readonly FORUM_URL = `${this.SITE_URL}/forums/models-and-celebrities.17/`;
-  private cookiesPath: string;
-  private credentials: LoginCredentials;
+  private session: ForumSession;
   private mode: string;
-  private s3Service: S3Service;
+  private mediaStore: MediaStore;
+  private uploadService: MediaUploadService;
+  private mediaObjects: MediaObjectService;
+  private failureLedger = new MediaFailureLedger();
+  private revisions = new PostRevisionService();
+  private quotes = new PostQuoteGraph();
+  private removedContent = new RemovedContentTracker();
+  private users = new ForumUserDirectory();
+  private threadMetadata = new ThreadMetadataService();
+  private reactions: PostReactionScraper;
   private pagesScraped: number = 0;
   private readonly PAGES_BEFORE_RESTART: number = 20; // Changed from 100 to 20
-  private tempDir: string = "";
 
-  // Node distribution configuration
-  private readonly NODE_INDEX = parseInt(process.env.NODE_INDEX || "0");
-  private readonly NODE_COUNT = parseInt(process.env.NODE_COUNT || "1");
+  // Shared queue of threads to scrape, claimed one at a time
+  private queue: ScrapeJobQueue;
 
   // Memory monitoring configuration
   private readonly MIN_AVAILABLE_MEMORY_MB = 200; // 200MB minimum available memory
@@ -68,103 +110,21 @@ class ForumDetailPageScraper {
 
   // Media processing configuration
   private readonly MEDIA_BATCH_SIZE = 10; // Process media files in batches of 10
+  private readonly MEDIA_TIMEOUT = 60000; // 60 seconds per image
+  private readonly LARGE_MEDIA_TIMEOUT = 600000; // 10 minutes per video
 
-  constructor() {
-    this.cookiesPath = path.join(__dirname, "../../cookies.json");
-    this.credentials = {
-      username: process.env.FORUM_USERNAME || "",
-      password: process.env.FORUM_PASSWORD || "",
-    };
-    this.mode = process.env.NODE_ENV || "";
-    this.s3Service = new S3Service();
-
-    // Validate node configuration
-    if (this.NODE_INDEX < 0 || this.NODE_INDEX >= this.NODE_COUNT) {
-      throw new Error(
-        `Invalid NODE_INDEX: ${this.NODE_INDEX}. Must be between 0 and ${
-          this.NODE_COUNT - 1
-        }`
-      );
-    }
-
-    console.log(
-      `🚀 Starting scraper instance: Node ${this.NODE_INDEX}/${
-        this.NODE_COUNT - 1
-      }`
-    );
-  }
-
-  /**
-   * Helper method to convert likes string with K/M/B suffixes to integer
-   */
-  private convertLikesToInt(likesString: string): number {
-    if (!likesString || likesString === "0") {
-      return 0;
-    }
-
-    // Remove any non-numeric characters except K, M, B and decimal point
-    const cleanString = likesString.replace(/[^0-9.KMB]/gi, "");
-
-    // Check for K/M/B suffixes
-    if (cleanString.endsWith("K") || cleanString.endsWith("k")) {
-      const number = parseFloat(cleanString.slice(0, -1));
-      return Math.round(number * 1000);
-    } else if (cleanString.endsWith("M") || cleanString.endsWith("m")) {
-      const number = parseFloat(cleanString.slice(0, -1));
-      return Math.round(number * 1000000);
-    } else if (cleanString.endsWith("B") || cleanString.endsWith("b")) {
-      const number = parseFloat(cleanString.slice(0, -1));
-      return Math.round(number * 1000000000);
-    } else {
-      // No suffix, just parse as integer
-      return parseInt(cleanString) || 0;
-    }
-  }
-
-  /**
-   * Helper method to determine if a URL is an image
-   */
-  public isImageUrl(url: string): boolean {
-    const imageExtensions = [
-      ".jpg",
-      ".jpeg",
-      ".png",
-      ".gif",
-      ".bmp",
-      ".webp",
-      ".svg",
-    ];
-    const lowerUrl = url.toLowerCase();
-    return imageExtensions.some((ext) => lowerUrl.includes(ext));
-  }
+  private readonly REACTIONS_DELAY = 500; // Pause between reaction lists
 
-  /**
-   * Helper method to determine if a URL is a video
-   */
-  private isVideoUrl(url: string): boolean {
-    const videoExtensions = [
-      ".mp4",
-      ".avi",
-      ".mov",
-      ".wmv",
-      ".flv",
-      ".webm",
-      ".mkv",
-    ];
-    const lowerUrl = url.toLowerCase();
-    return (
-      videoExtensions.some((ext) => lowerUrl.includes(ext)) ||
-      lowerUrl.includes("youtube.com") ||
-      lowerUrl.includes("youtu.be") ||
-      lowerUrl.includes("vimeo.com")
-    );
-  }
+  constructor(options: ForumDetailPageScraperOptions = {}) {
+    this.queue = new ScrapeJobQueue({ workerId: options.workerId });
+    this.session = new ForumSession();
+    this.reactions = new PostReactionScraper(this.session, options.reactions);
+    this.mode = process.env.NODE_ENV || "";
+    this.mediaStore = options.mediaStore || createMediaStore();
+    this.uploadService = new MediaUploadService(this.mediaStore);
+    this.mediaObjects = new MediaObjectService(this.mediaStore);
 
-  /**
-   * Helper method to determine if a URL is an image or video
-   */
-  private isImageOrVideo(url: string): boolean {
-    return this.isImageUrl(url) || this.isVideoUrl(url);
+    console.log(`🚀 Starting scraper worker: ${this.queue.workerId}`);
   }
 
   /**
@@ -215,67 +175,6 @@ class ForumDetailPageScraper {
     }));
   }
 
-  /**
-   * Helper method to determine if a URL is NOT a raw image file
-   * (i.e., it's an attachment page that needs to be processed)
-   */
-  public isNotRawImg(url: string): boolean {
-    const lowerUrl = url.toLowerCase();
-
-    // Check if it has image name but no extension (like screenshot-2024-01-25-013402-png.120147661)
-    const imageNames = ["jpg", "jpeg", "png", "gif", "bmp", "webp", "svg"];
-    const hasImageName = imageNames.some(
-      (name) =>
-        lowerUrl.includes(`-${name}`) ||
-        lowerUrl.includes(`_${name}`) ||
-        lowerUrl.includes(`${name}-`) ||
-        lowerUrl.includes(name)
-    );
-
-    // Check if it's a direct image file with extension
-    const imageExtensions = [
-      ".jpg",
-      ".jpeg",
-      ".png",
-      ".gif",
-      ".bmp",
-      ".webp",
-      ".svg",
-    ];
-    const hasImageExtension = imageExtensions.some((ext) =>
-      lowerUrl.includes(ext)
-    );
-
-    // Check for video extensions as well
-    const videoExtensions = [
-      ".mp4",
-      ".avi",
-      ".mov",
-      ".wmv",
-      ".flv",
-      ".webm",
-      ".mkv",
-    ];
-    const hasVideoExtension = videoExtensions.some((ext) =>
-      lowerUrl.includes(ext)
-    );
-
-    // Check for video names without extension
-    const videoNames = ["mp4", "avi", "mov", "wmv", "flv", "webm", "mkv"];
-    const hasVideoName = videoNames.some(
-      (name) =>
-        lowerUrl.includes(`-${name}`) ||
-        lowerUrl.includes(`_${name}`) ||
-        lowerUrl.includes(`${name}-`) ||
-        lowerUrl.includes(name)
-    );
-
-    // Return true if it has image/video name but no extension (attachment page)
-    return (
-      (hasImageName || hasVideoName) && !hasImageExtension && !hasVideoExtension
-    );
-  }
-
   /**
    * Download image from LPSG attachment page by extracting the actual CDN URL
    * @param attachmentUrl - The attachment page URL
@@ -310,17 +209,12 @@ class ForumDetailPageScraper {
             await this.delay(500 * attempt); // Progressive delay: 500ms, 1s, 1.5s
           }
 
-          if (!this.browser) {
-            console.error(`❌ Browser not initialized for attempt ${attempt}`);
-            throw new Error("Browser not initialized");
-          }
-
           // Extract file extension from the attachment URL
           const fileExtension =
             this.extractFileExtensionFromAttachmentUrl(attachmentUrl);
 
-          // Create a new page for this attachment
-          attachmentPage = await this.browser.newPage();
+          // Create a new page for this attachment, sharing session cookies
+          attachmentPage = await this.session.openPage();
 
           // Clear page cache to avoid eviction issues
           await attachmentPage.evaluateOnNewDocument(() => {
@@ -334,17 +228,6 @@ class ForumDetailPageScraper {
             }
           });
 
-          // Set user agent for the new page
-          await attachmentPage.setUserAgent(
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
-          );
-
-          // Copy cookies from the main page to ensure authentication
-          if (this.page) {
-            const cookies = await this.page.cookies();
-            await attachmentPage.setCookie(...cookies);
-          }
-
           // Navigate to the attachment page
           const initialResponse = await attachmentPage.goto(attachmentUrl, {
             waitUntil: "networkidle2",
@@ -363,31 +246,17 @@ class ForumDetailPageScraper {
           // Wait a bit for the page to fully load
           await this.delay(500);
 
-          // Handle age verification dialog if present
-          try {
-            const ageConfirmButton = await attachmentPage.$(
-              'button:has-text("I am 18 or older")'
-            );
-            if (ageConfirmButton) {
-              await ageConfirmButton.click();
-              // await this.delay(1000);
-            }
-          } catch (error) {
-            // Age verification dialog not found, continue
-          }
-
-          // Handle cookie consent dialogs
-          try {
-            // Accept all cookies button
-            const acceptAllButton = await attachmentPage.$(
-              'button:has-text("Accept all cookies")'
-            );
-            if (acceptAllButton) {
-              await acceptAllButton.click();
-              // await this.delay(1000);
+          // Dismiss age verification and cookie dialogs if present
+          for (const selector of this.session.site.selectors
+            .attachmentDialogs) {
+            try {
+              const dialogButton = await attachmentPage.$(selector);
+              if (dialogButton) {
+                await dialogButton.click();
+              }
+            } catch (error) {
+              // Dialog not found, continue
             }
-          } catch (error) {
-            // Cookie dialog not found, continue
           }
 
           // Wait for the image to be fully loaded on the page
@@ -405,26 +274,10 @@ class ForumDetailPageScraper {
           }
 
           // Check if the page actually contains any media content
-          const hasMediaContent = await attachmentPage.evaluate(() => {
-            const document = (globalThis as any).document;
-            const imgCount = document.querySelectorAll("img").length;
-            const videoCount = document.querySelectorAll("video").length;
-            const bodyText = document.body.textContent || "";
-
-            // Check for common error indicators
-            if (
-              bodyText.includes("age verification") ||
-              bodyText.includes("18 or older")
-            ) {
-              return false;
-            }
-
-            if (bodyText.includes("cookies") && bodyText.length < 1000) {
-              return false;
-            }
-
-            return imgCount > 0 || videoCount > 0 || bodyText.length > 500;
-          });
+          const hasMediaContent = await evaluateParser(
+            attachmentPage,
+            this.session.site.parsers.hasAttachmentMediaContent
+          );
 
           if (!hasMediaContent) {
             console.error(
@@ -436,74 +289,11 @@ class ForumDetailPageScraper {
           }
 
           // Try to find the direct media URL from the page
-          const directMediaUrl = await attachmentPage.evaluate(() => {
-            const document = (globalThis as any).document;
-
-            // Look for img element with src attribute (prioritize) - but exclude attachment pages
-            const img = document.querySelector("img[src]");
-            if (
-              img &&
-              img.src &&
-              !img.src.includes("data:") &&
-              !img.src.includes("avatar") &&
-              !img.src.includes("/attachments/") &&
-              !img.src.endsWith("/")
-            ) {
-              return { url: img.src, type: "img" };
-            }
-
-            // Look for video element - but exclude attachment pages
-            const video = document.querySelector("video source[src]");
-            if (
-              video &&
-              video.src &&
-              !video.src.includes("/attachments/") &&
-              !video.src.endsWith("/")
-            ) {
-              return { url: video.src, type: "video" };
-            }
-
-            // Look for any element with data-src - but exclude attachment pages
-            const dataSrcImg = document.querySelector("img[data-src]");
-            if (
-              dataSrcImg &&
-              dataSrcImg.dataset.src &&
-              !dataSrcImg.dataset.src.includes("/attachments/") &&
-              !dataSrcImg.dataset.src.endsWith("/")
-            ) {
-              return { url: dataSrcImg.dataset.src, type: "data-src" };
-            }
-
-            // Look for any img element that might be hidden or not fully loaded - but exclude attachment pages
-            const allImgs = document.querySelectorAll("img");
-            for (const img of allImgs) {
-              if (
-                img.src &&
-                !img.src.includes("data:") &&
-                !img.src.includes("avatar") &&
-                !img.src.includes("/attachments/") &&
-                !img.src.endsWith("/") &&
-                (img.src.includes(".gif") ||
-                  img.src.includes(".jpg") ||
-                  img.src.includes(".png"))
-              ) {
-                return { url: img.src, type: "hidden-img" };
-              }
-            }
-
-            // Try to find any media URL in the page content - but exclude attachment pages
-            const pageContent = document.body.innerHTML;
-            const gifMatch = pageContent.match(/https:\/\/[^"'\s]+\.gif/);
-            if (
-              gifMatch &&
-              !gifMatch[0].includes("/attachments/") &&
-              !gifMatch[0].endsWith("/")
-            ) {
-              return { url: gifMatch[0], type: "content-match" };
-            }
-
-            return null;
-          });
+          const directMediaUrl = await evaluateParser(
+            attachmentPage,
+            this.session.site.parsers.attachmentMediaUrl,
+            this.session.site.siteUrl
+          );
 
           let imageBuffer: Buffer;
 
@@ -635,7 +425,8 @@ class ForumDetailPageScraper {
   }
 
   /**
-   * Extract file extension from attachment URL
+   * Guess the file extension from an attachment URL. This is a hint for
+   * routing only; stored media is typed by detectMediaType().
    * @param attachmentUrl - The attachment page URL
    * @returns string - The file extension (e.g., '.png', '.jpg')
    */
@@ -721,18 +512,6 @@ class ForumDetailPageScraper {
     return ".jpg";
   }
 
-  private async initializeBrowser(): Promise<{
-    browser: Browser;
-    tempDir: string;
-  }> {
-    const tempDir = createTempUserDataDir();
-    const browserConfig = createBrowserConfig(this.mode, tempDir);
-
-    const browser = await puppeteer.launch(browserConfig);
-
-    return { browser, tempDir };
-  }
-
   /**
    * Check available memory and reboot system if below threshold in production
    */
@@ -811,24 +590,10 @@ class ForumDetailPageScraper {
   }
 
   async initialize(): Promise<void> {
-    const { browser, tempDir } = await this.initializeBrowser();
-    this.browser = browser;
-    this.tempDir = tempDir;
-
-    this.page = await this.browser.newPage();
-
-    // Clear cache and cookies for production mode
-    if (this.mode === "production") {
-      await clearBrowserCache(this.page);
-      await clearSystemCaches();
-    }
-
-    await this.page.setUserAgent(
-      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
-    );
+    await this.session.launch();
 
     // Ensure logged in before starting
-    const isLoggedIn = await this.ensureLoggedIn();
+    const isLoggedIn = await this.session.ensureLoggedIn();
     if (!isLoggedIn) {
       throw new Error("Failed to login");
     }
@@ -837,308 +602,39 @@ class ForumDetailPageScraper {
     this.startMemoryMonitoring();
   }
 
-  async loadCookies(): Promise<boolean> {
-    try {
-      if (fs.existsSync(this.cookiesPath)) {
-        const cookies = JSON.parse(fs.readFileSync(this.cookiesPath, "utf8"));
-        await this.page!.setCookie(...cookies);
-        return true;
-      }
-    } catch (error) {
-      // console.log("No valid cookies found or error loading cookies:", error);
-    }
-    return false;
-  }
-
-  async saveCookies(): Promise<void> {
-    try {
-      const cookies = await this.page!.cookies();
-      fs.writeFileSync(this.cookiesPath, JSON.stringify(cookies, null, 2));
-    } catch (error) {
-      console.error("Error saving cookies:", error);
-    }
-  }
-
-  async handleCookieConsent(): Promise<void> {
-    try {
-      // Check if cookie consent button exists
-      const cookieButton = await this.page!.$(
-        'a[href*="/misc/cookies"][class*="button--notice"]'
-      );
-
-      if (cookieButton) {
-        await cookieButton.click();
-      }
-    } catch (error) {
-      // console.log(
-      //   "No cookie consent dialog found or error handling it:",
-      //   error
-      // );
-    }
-  }
-
-  async checkLoginStatus(): Promise<boolean> {
-    try {
-      await this.page!.goto(this.FORUM_URL, {
-        waitUntil: "networkidle2",
-        timeout: 5000,
-      });
-
-      // Handle cookie consent first
-      await this.handleCookieConsent();
-
-      // Check if user account link exists (means we're logged in)
-      const userAccountLink = await this.page!.$('a[href="/account/"]');
-      return !!userAccountLink; // If user account link exists, we're logged in
-    } catch (error) {
-      return false;
-    }
-  }
-
-  async login(): Promise<boolean> {
-    try {
-      // Navigate to the forum page first
-      await this.page!.goto(this.FORUM_URL, {
-        waitUntil: "networkidle2",
-      });
-
-      // Handle cookie consent first
-      await this.handleCookieConsent();
-
-      // Wait a bit for the page to fully load
-      await this.delay(2000);
-
-      // Try multiple selectors for the login link
-      let loginLink = await this.page!.$('a[href="/login/"]');
-
-      if (!loginLink) {
-        // Try alternative selector
-        loginLink = await this.page!.$("a.p-navgroup-link--logIn");
-      }
-
-      if (!loginLink) {
-        // Try clicking by text content using evaluate - FIXED: Handle properly
-        const loginLinkFound = await this.page!.evaluate(() => {
-          const document = (globalThis as any).document;
-          const links = Array.from(document.querySelectorAll("a"));
-          const loginLink = links.find((link: any) =>
-            link.textContent?.includes("Log in")
-          );
-          if (loginLink) {
-            (loginLink as any).click();
-            return true;
-          }
-          return false;
-        });
-
-        if (!loginLinkFound) {
-          return true; // Already logged in or no login link found
-        }
-      } else {
-        // We have a proper ElementHandle, check visibility and click normally
-        try {
-          const isVisible = await loginLink.isVisible();
-          if (!isVisible) {
-            await loginLink.scrollIntoView();
-            await this.delay(1000);
-          }
-          await loginLink.click();
-        } catch (clickError) {
-          // Fallback: try clicking via evaluate
-          await this.page!.evaluate((element) => {
-            element.click();
-          }, loginLink);
-        }
-      }
-
-      // Wait a bit for modal to start opening
-      await this.delay(2000);
-
-      // Try multiple selectors for the login form
-      let loginForm = await this.page!.$('input[name="login"]');
-
-      if (!loginForm) {
-        // Try other possible selectors
-        loginForm = await this.page!.$('input[type="text"]');
-        if (!loginForm) {
-          loginForm = await this.page!.$('input[placeholder*="name"]');
-        }
-        if (!loginForm) {
-          loginForm = await this.page!.$('input[placeholder*="email"]');
-        }
-        if (!loginForm) {
-          loginForm = await this.page!.$('input[placeholder*="username"]');
-        }
-      }
-
-      if (!loginForm) {
-        await this.page!.screenshot({ path: "debug-login-detail.png" });
-        return false;
-      }
-
-      // Add a small delay to ensure modal is fully loaded
-      await this.delay(1000);
-
-      // Clear any existing text and fill in credentials
-      await this.page!.focus('input[name="login"]');
-      await this.page!.keyboard.down("Control");
-      await this.page!.keyboard.press("KeyA");
-      await this.page!.keyboard.up("Control");
-      await this.page!.type('input[name="login"]', this.credentials.username);
-
-      await this.page!.focus('input[name="password"]');
-      await this.page!.keyboard.down("Control");
-      await this.page!.keyboard.press("KeyA");
-      await this.page!.keyboard.up("Control");
-      await this.page!.type(
-        'input[name="password"]',
-        this.credentials.password
-      );
-
-      // Try multiple selectors for the submit button
-      let submitButton = await this.page!.$(
-        'button[type="submit"].button--primary.button--icon--login'
-      );
-
-      if (!submitButton) {
-        submitButton = await this.page!.$(
-          'button.button--primary[type="submit"]'
-        );
-      }
-
-      if (!submitButton) {
-        submitButton = await this.page!.$('button[type="submit"]');
-      }
-
-      if (submitButton) {
-        await submitButton.click();
-      } else {
-        return false;
-      }
-
-      // Wait for the modal to close and page to update
-      await this.delay(3000);
-
-      // Check if login was successful by looking for user account link
-      const userAccountLink = await this.page!.$('a[href="/account/"]');
-
-      if (userAccountLink) {
-        await this.saveCookies();
-        return true;
-      } else {
-        return false;
-      }
-    } catch (error) {
-      console.error("Error during login:", error);
-      return false;
-    }
-  }
-
-  async ensureLoggedIn(): Promise<boolean> {
-    // Try to load existing cookies first
-    const cookiesLoaded = await this.loadCookies();
-
-    if (cookiesLoaded) {
-      // Check if we're still logged in with the cookies
-      const isLoggedIn = await this.checkLoginStatus();
-      if (isLoggedIn) {
-        // console.log("Already logged in with saved cookies");
-        return true;
-      }
-    }
-
-    // If not logged in, attempt login
-    return await this.login();
-  }
-
   /**
-   * Get threads needing update - filtered by node distribution
+   * Scrape every page of a thread from its last updated page onwards
+   * @returns true if all pages were scraped and the thread marked up to date
    */
-  async getThreadsNeedingUpdate(): Promise<ForumThread[]> {
-    try {
-      // Get all threads where detailPageUpdateDate is null OR lastReplyDate > detailPageUpdateDate
-      const allThreads = await ForumThread.findAll({
-        where: sequelize.or(
-          { detailPageUpdateDate: null },
-          sequelize.where(
-            sequelize.col("lastReplyDate"),
-            ">",
-            sequelize.col("detailPageUpdateDate")
-          )
-        ),
-        order: [["lastReplyDate", "DESC"]],
-      });
-
-      console.log(
-        `Found ${allThreads.length} total threads needing detail page updates`
-      );
-
-      // Filter threads based on node distribution using modulo operation
-      const nodeThreads = allThreads.filter((thread) => {
-        // threadId is already a number
-        return thread.threadId % this.NODE_COUNT === this.NODE_INDEX;
-      });
-
-      console.log(
-        `Node ${this.NODE_INDEX}/${this.NODE_COUNT - 1}: Processing ${
-          nodeThreads.length
-        } threads (${((nodeThreads.length / allThreads.length) * 100).toFixed(
-          1
-        )}% of total)`
-      );
-
-      return nodeThreads;
-    } catch (error) {
-      console.error("Error getting threads needing update:", error);
-      return [];
-    }
-  }
-
-  async scrapeThreadDetailPage(thread: ForumThread): Promise<void> {
+  async scrapeThreadDetailPage(thread: ForumThread): Promise<boolean> {
     try {
       console.log(
-        `Node ${this.NODE_INDEX}/${
-          this.NODE_COUNT - 1
-        }: Scraping detail page for thread: ${thread.threadId}`
+        `Worker ${this.queue.workerId}: Scraping detail page for thread: ${thread.threadId}`
       );
 
-      // Clean and construct the URL
-      let cleanUrl = thread.threadUrl;
-
-      // Skip if it's a forum URL (not a thread URL)
-      // if (cleanUrl.includes("/forums/") || cleanUrl.includes("?prefix_id=")) {
-      //   console.log(`Skipping forum URL: ${cleanUrl}`);
-      //   return;
-      // }
-
-      // Remove /unread suffix if present
-      if (cleanUrl.endsWith("/unread")) {
-        cleanUrl = cleanUrl.replace("/unread", "");
-      }
-
-      // Ensure URL ends with /
-      if (!cleanUrl.endsWith("/")) {
-        cleanUrl += "/";
-      }
-
-      const fullUrl = `${this.SITE_URL}${cleanUrl}`;
+      const { site } = this.session;
 
       // Get total pages for this thread
-      const totalPages = await this.getTotalPages(fullUrl);
+      const totalPages = await this.getTotalPages(
+        thread.threadId,
+        site.threadPageUrl(thread.threadUrl, 1)
+      );
 
       // Scrape pages in ASCENDING order (first to last)
       // Start from lastUpdatedPage, or page 1 if lastUpdatedPage is null
       const startPage = thread.lastUpdatedPage ? thread.lastUpdatedPage : 1;
+      // Without a page count only the start page is scraped
+      const lastPage = totalPages ?? startPage;
+      let previousLastPostId: number | null = null;
 
-      for (let pageNum = startPage; pageNum <= totalPages; pageNum++) {
+      for (let pageNum = startPage; pageNum <= lastPage; pageNum++) {
         console.log(
-          `Node ${this.NODE_INDEX}/${
-            this.NODE_COUNT - 1
-          }: Scraping page ${pageNum} of ${totalPages} (starting from page ${startPage})...`
+          `Worker ${this.queue.workerId}: Scraping page ${pageNum} of ${
+            totalPages ?? "?"
+          } (starting from page ${startPage})...`
         );
 
-        // Handle URL structure: /threads/title.id/page-X or just /threads/title.id/ for page 1
-        const pageUrl = pageNum === 1 ? fullUrl : `${fullUrl}page-${pageNum}`;
+        const pageUrl = site.threadPageUrl(thread.threadUrl, pageNum);
         console.log(`Page URL: ${pageUrl}`);
 
         // Retry logic: try loading the page up to 5 times
@@ -1153,7 +649,7 @@ class ForumDetailPageScraper {
           try {
             // Add 30-second timeout for page loading
             await Promise.race([
-              this.page!.goto(pageUrl, {
+              this.session.goto(pageUrl, {
                 waitUntil: "networkidle2",
               }),
               new Promise((_, reject) =>
@@ -1166,10 +662,10 @@ class ForumDetailPageScraper {
 
             // Handle cookie consent on first page loaded
             if (pageNum === startPage && attempt === 1) {
-              await this.handleCookieConsent();
+              await this.session.handleCookieConsent();
             }
 
-            const posts = await this.scrapePagePosts();
+            let posts = await this.scrapePagePosts();
 
             console.log(`Page ${pageNum}: Found ${posts.length} posts`);
 
@@ -1180,10 +676,10 @@ class ForumDetailPageScraper {
               
               console.log(`🔄 Reloading page ${pageNum} after 1 minute delay...`);
               // Reload the current page
-              await this.page!.reload({ waitUntil: "networkidle2" });
+              await this.session.page!.reload({ waitUntil: "networkidle2" });
               
               // Handle cookie consent after reload
-              await this.handleCookieConsent();
+              await this.session.handleCookieConsent();
               
               // Try scraping posts again after reload
               const reloadedPosts = await this.scrapePagePosts();
@@ -1195,19 +691,48 @@ class ForumDetailPageScraper {
               }
               
               // Use the reloaded posts for database saving
-              await this.savePostsToDatabase(thread.threadId, reloadedPosts);
-            } else {
-              // Save all posts to database with batch processing
-              await this.savePostsToDatabase(thread.threadId, posts);
+              posts = reloadedPosts;
             }
 
-            // Update lastUpdatedPage after successful page scraping
-            await ForumThread.update(
-              { lastUpdatedPage: pageNum },
-              { where: { threadId: thread.threadId } }
-            );
+            // Save all posts to database with batch processing
+            await this.savePostsToDatabase(thread.threadId, posts);
 
-            // Clear memory cache after each page is processed
+            if (pageNum === 1 && posts.length > 0) {
+              await this.threadMetadata.saveFirstPost(
+                thread.threadId,
+                posts[0].content
+              );
+            }
+
+            // Posts stored for this page's range but no longer shown were deleted
+            if (posts.length > 0) {
+              const postIds = posts.map((post) => post.postId);
+              const range = pagePostRange(
+                postIds,
+                pageNum,
+                totalPages,
+                previousLastPostId
+              );
+              if (range) {
+                await this.removedContent.markDeletedPosts(
+                  thread.threadId,
+                  postIds,
+                  range
+                );
+              }
+              previousLastPostId = Math.max(...postIds);
+            }
+
+            // Reaction lists are separate pages, read once this one is done
+            await this.scrapePostReactions(thread.threadId, posts);
+
+            // Update lastUpdatedPage after successful page scraping
+            await ForumThread.update(
+              { lastUpdatedPage: pageNum },
+              { where: { threadId: thread.threadId } }
+            );
+
+            // Clear memory cache after each page is processed
             await this.clearPageMemoryCache();
 
             // Increment pages scraped counter
@@ -1236,12 +761,19 @@ class ForumDetailPageScraper {
               );
               await this.restartBrowser();
               this.pagesScraped++;
-              return; // Exit the entire thread scraping
+              return false; // Exit the entire thread scraping
             }
           }
         }
       }
 
+      if (totalPages === null) {
+        console.log(
+          `⚠️ Page count of thread ${thread.threadId} unknown; leaving it to the next run`
+        );
+        return false;
+      }
+
       // Update detailPageUpdateDate to match lastReplier field after all pages are done
       await ForumThread.update(
         { detailPageUpdateDate: thread.lastReplyDate },
@@ -1249,35 +781,79 @@ class ForumDetailPageScraper {
       );
 
       console.log(
-        `Completed scraping thread ${thread.threadId} - detailPageUpdateDate set to: ${thread.lastReplyDate}`
+        `Completed scraping thread ${thread.threadId} - detailPageUpdateDate set to: ${thread.lastReplyDate?.toISOString()}`
       );
+      return true;
     } catch (error) {
       console.error(`Error scraping thread ${thread.threadId}:`, error);
+      return false;
     }
   }
 
-  private async getTotalPages(threadUrl: string): Promise<number> {
-    try {
-      await this.page!.goto(threadUrl, { waitUntil: "networkidle2" });
+  /**
+   * Read the reactions list of each liked post when a reactions mode is
+   * set. A post whose list fails keeps the likes stored before, or the
+   * page's estimate if it is new.
+   */
+  private async scrapePostReactions(
+    threadId: number,
+    posts: PostData[]
+  ): Promise<void> {
+    if (!this.reactions.enabled) {
+      return;
+    }
+
+    for (const post of posts.filter((post) => post.likes > 0)) {
+      try {
+        await this.reactions.scrape(threadId, post.postId);
+      } catch (error) {
+        console.error(`Error reading reactions of post ${post.postId}:`, error);
+      }
+      await this.delay(this.REACTIONS_DELAY);
+    }
+  }
 
-      const totalPages = await this.page!.evaluate(() => {
-        const document = (globalThis as any).document;
-        const pageNav = document.querySelector(".pageNav-main");
-        if (!pageNav) return 1;
+  /**
+   * Open the first page of a thread, store the thread details shown above
+   * its posts and read its page count
+   * @returns null if the page failed to load or showed neither a page nav
+   * nor posts, so the count is unknown
+   */
+  private async getTotalPages(
+    threadId: number,
+    threadUrl: string
+  ): Promise<number | null> {
+    try {
+      await this.session.goto(threadUrl, { waitUntil: "networkidle2" });
 
-        const lastPageLink = pageNav.querySelector("li:last-child a");
-        if (!lastPageLink) return 1;
+      const totalPages = await evaluateParser(
+        this.session.page!,
+        this.session.site.parsers.lastPageNumber
+      );
+      // Single-page threads have no page nav, but they do show posts
+      if (totalPages === 1 && (await this.scrapePagePosts()).length === 0) {
+        console.log(`⚠️ No page nav or posts on ${threadUrl}`);
+        return null;
+      }
 
-        const href = lastPageLink.getAttribute("href");
-        // Match pattern like "page-3" in URLs like "/threads/mc-kolos.3654511/page-3"
-        const match = href.match(/page-(\d+)$/);
-        return match ? parseInt(match[1]) : 1;
-      });
+      try {
+        const details = await evaluateParser(
+          this.session.page!,
+          this.session.site.parsers.threadPage
+        );
+        await this.threadMetadata.saveThreadPage(
+          threadId,
+          details,
+          totalPages
+        );
+      } catch (error) {
+        console.error(`Error saving details of thread ${threadId}:`, error);
+      }
 
       return totalPages;
     } catch (error) {
       console.error("Error getting total pages:", error);
-      return 1;
+      return null;
     }
   }
 
@@ -1287,238 +863,11 @@ class ForumDetailPageScraper {
    */
   private async scrapePagePosts(): Promise<PostData[]> {
     try {
-      const posts = await this.page!.evaluate(() => {
-        const document = (globalThis as any).document;
-        const postElements = document.querySelectorAll(".message");
-        const posts: PostData[] = [];
-
-        postElements.forEach((element: any) => {
-          try {
-            // Extract post ID from article element - get the numeric ID
-            const articleElement = element.closest("article[data-content]");
-            let postId = 0;
-
-            if (articleElement) {
-              const contentAttr = articleElement.getAttribute("data-content");
-              if (contentAttr) {
-                const match = contentAttr.match(/post-(\d+)/);
-                if (match) {
-                  postId = parseInt(match[1]);
-                }
-              }
-            }
-
-            // Fallback methods if article element not found
-            if (!postId) {
-              const dataLbId = element.getAttribute("data-lb-id");
-              if (dataLbId) {
-                postId = parseInt(dataLbId) || 0;
-              }
-            }
-
-            if (!postId) {
-              const elementId = element.id;
-              if (elementId) {
-                const match = elementId.match(/js-post-(\d+)/);
-                if (match) {
-                  postId = parseInt(match[1]);
-                }
-              }
-            }
-
-            // Extract author
-            const authorElement = element.querySelector(
-              ".message-userDetails .username"
-            );
-            const author = authorElement?.textContent?.trim() || "";
-
-            // Extract content
-            const contentElement = element.querySelector(
-              ".message-content .bbWrapper"
-            );
-            const content = contentElement?.textContent?.trim() || "";
-
-            // Extract post created date from time element's title attribute
-            let postCreatedDate = "";
-            const timeElement = element.querySelector("time.u-dt[title]");
-            if (timeElement) {
-              const title = timeElement.getAttribute("title");
-              if (title) {
-                // Parse the title format "Oct 5, 2025 at 5:03 PM"
-                // and convert to "2024-01-24T19:34:34-0500" format
-                const datetimeAttr = timeElement.getAttribute("datetime");
-                if (datetimeAttr) {
-                  // Use the datetime attribute which is already in ISO format
-                  postCreatedDate = datetimeAttr;
-                }
-              }
-            }
-
-            // Extract likes count
-            // Format examples:
-            // 1 user: "username"
-            // 2 users: "username1 and username2"
-            // 3 users: "username1, username2 and username3"
-            // 4+ users: "username1, username2, username3 and 1,295 others"
-            let likes = 0;
-            const reactionsLink = element.querySelector(
-              '.reactionsBar-link[href*="/reactions"]'
-            );
-            if (reactionsLink) {
-              const text = reactionsLink.textContent || "";
-
-              // Split by "and" to separate visible names from "others" count
-              const hasAnd = text.includes(" and ");
-
-              if (!hasAnd) {
-                // 1 user: "username" - no "and"
-                likes = 1;
-              } else {
-                // Split by "and" to get the first part (visible names)
-                const parts = text.split(" and ");
-                const visibleNamesPart = parts[0];
-                const afterAndPart = parts[1];
-
-                // Count commas in the visible names part only
-                const commaCount = (visibleNamesPart.match(/,/g) || []).length;
-                const visibleNamesCount = commaCount + 1; // Number of visible names = comma count + 1
-
-                // Check if there's an "others" count
-                const othersMatch = afterAndPart.match(/([0-9,]+)\s+others?/i);
-
-                if (othersMatch) {
-                  // 4+ users: "username1, username2, username3 and 1,295 others"
-                  const otherCountStr = othersMatch[1].replace(/,/g, ""); // Remove commas from "1,295"
-                  const otherCount = parseInt(otherCountStr);
-                  likes = visibleNamesCount + otherCount;
-                } else if (commaCount === 0) {
-                  // 2 users: "username1 and username2" - no commas in first part
-                  likes = 2;
-                } else {
-                  // 3 users: "username1, username2 and username3" - 1 comma in first part
-                  likes = 3;
-                }
-              }
-            }
-
-            // Extract media (images and videos) - UPDATED LOGIC
-            // Each media is a pair: [fullImageUrl, thumbImageUrl] where thumb can be empty
-            const medias: [string, string][] = [];
-
-            // Get attachments from message-attachments section
-            const attachmentSection = element.querySelector(
-              ".message-attachments"
-            );
-            if (attachmentSection) {
-              // Get attachment links (full-size images) - PRIORITY: Extract from <a href>
-              const attachmentLinks = attachmentSection.querySelectorAll(
-                'a[href*="/attachments/"]'
-              );
-              attachmentLinks.forEach((link: any) => {
-                const href = link.getAttribute("href");
-                if (href) {
-                  const fullUrl = href.startsWith("http")
-                    ? href
-                    : `https://www.lpsg.com${href}`;
-
-                  // Check if this <a> tag contains an <img> (thumbnail)
-                  const imgInsideLink = link.querySelector("img[src]");
-                  if (imgInsideLink) {
-                    // If there's a thumbnail inside the link, add both full and thumb
-                    const imgSrc = imgInsideLink.getAttribute("src");
-                    if (imgSrc) {
-                      const thumbUrl = imgSrc.startsWith("http")
-                        ? imgSrc
-                        : `https://www.lpsg.com${imgSrc}`;
-
-                      // Add pair: [fullUrl, thumbUrl]
-                      medias.push([fullUrl, thumbUrl]);
-                    }
-                  } else {
-                    // No thumbnail found, add full URL with empty thumb
-                    medias.push([fullUrl, ""]);
-                  }
-                }
-              });
-            }
-
-            // Get images from message content (inline images)
-            const contentImages = element.querySelectorAll(
-              ".message-content img[src], .message-content img[data-src]"
-            );
-            contentImages.forEach((img: any) => {
-              // Skip if this image is inside .message-attachments section (already processed)
-              if (img.closest(".message-attachments")) {
-                return;
-              }
-
-              // Try to get src first, then data-src
-              let src = img.getAttribute("src") || img.getAttribute("data-src");
-
-              if (
-                src &&
-                !src.includes("avatar") &&
-                !src.includes("smiley") &&
-                !src.includes("icon")
-              ) {
-                // Convert relative URLs to absolute
-                const fullUrl = src.startsWith("http")
-                  ? src
-                  : `https://www.lpsg.com${src}`;
-
-                // Regular inline image with empty thumb
-                medias.push([fullUrl, ""]);
-              }
-            });
-
-            // Get videos from message content
-            // const videoElements = element.querySelectorAll(
-            //   ".message-content video source, .message-content video[src]"
-            // );
-            // videoElements.forEach((video: any) => {
-            //   const src = video.getAttribute("src");
-            //   if (src) {
-            //     const fullUrl = src.startsWith("http")
-            //       ? src
-            //       : `https://www.lpsg.com${src}`;
-            //     // Add video with empty thumb
-            //     medias.push([fullUrl, ""]);
-            //   }
-            // });
-
-            // Remove duplicates from media pairs
-            // Keep only unique pairs based on full image URL
-            const urlMap = new Map<string, [string, string]>();
-
-            for (const [fullUrl, thumbUrl] of medias) {
-              // Use full URL as key for deduplication (or thumb URL if full is empty)
-              const keyUrl = fullUrl || thumbUrl;
-
-              // If we haven't seen this URL before, add the pair
-              if (!urlMap.has(keyUrl)) {
-                urlMap.set(keyUrl, [fullUrl, thumbUrl]);
-              }
-            }
-
-            const uniqueMedias = Array.from(urlMap.values());
-
-            if (postId) {
-              posts.push({
-                postId,
-                author,
-                content,
-                postCreatedDate,
-                likes,
-                medias: uniqueMedias,
-              });
-            }
-          } catch (error) {
-            console.error("Error parsing post element:", error);
-          }
-        });
-
-        return posts;
-      });
+      const posts = await evaluateParser(
+        this.session.page!,
+        this.session.site.parsers.pagePosts,
+        this.session.site.siteUrl
+      );
 
       // Filter out tracking pixels and unwanted URLs from the scraped posts
       const filteredPosts = this.filterPostMedias(posts);
@@ -1537,292 +886,711 @@ class ForumDetailPageScraper {
   private async processBatchMedia(
     posts: PostData[],
     threadId: number
-  ): Promise<Map<number, Array<{ s3Url: string; hasThumbnail: boolean }>>> {
-    const postMediaMap = new Map<
-      number,
-      Array<{ s3Url: string; hasThumbnail: boolean }>
-    >();
+  ): Promise<BatchMedia> {
+    const postMediaMap = new Map<number, PostMedia[]>();
+    const failedPostIds = new Set<number>();
 
     // Collect all media tasks for the batch
-    const allMediaTasks: Array<{
-      postId: number;
-      fullSizeUrl: string;
-      thumbUrl: string;
-      fullKey: string;
-      thumbKey: string;
-    }> = [];
+    const allMediaTasks: MediaTask[] = [];
 
     // Prepare all media tasks
     for (const post of posts) {
-      let uniqueId = 0;
-
       for (const [fullUrl, thumbUrl] of post.medias) {
-        if (fullUrl || thumbUrl) {
-          // Skip if either URL is a tracking pixel or unwanted
-          if (this.shouldSkipUrl(fullUrl) || this.shouldSkipUrl(thumbUrl)) {
-            continue;
-          }
+        // Thumbnail-only media has nothing to link to
+        if (!fullUrl) {
+          continue;
+        }
 
-          const baseUrl = fullUrl || thumbUrl;
-          let fullKey: string;
-          let thumbKey: string;
-          let extension: string | undefined;
+        // Skip if either URL is a tracking pixel or unwanted
+        if (this.shouldSkipUrl(fullUrl) || this.shouldSkipUrl(thumbUrl)) {
+          continue;
+        }
 
-          if (this.isNotRawImg(baseUrl)) {
-            extension = this.extractFileExtensionFromAttachmentUrl(baseUrl);
+        allMediaTasks.push(this.createMediaTask(post.postId, fullUrl, thumbUrl));
+      }
+    }
 
-            fullKey = this.s3Service.generateKeyWithExtension(
-              baseUrl,
-              threadId,
-              post.postId,
-              extension,
-              false,
-              uniqueId
-            );
+    // Failures of media that has since been edited out are moot
+    for (const post of posts) {
+      await this.failureLedger.forgetMissing(
+        post.postId,
+        allMediaTasks
+          .filter((task) => task.postId === post.postId)
+          .map((task) => task.fullSizeUrl)
+      );
+    }
 
-            thumbKey = this.s3Service.generateKeyWithExtension(
-              baseUrl,
-              threadId,
-              post.postId,
-              extension,
-              true,
-              uniqueId
-            );
-          } else {
-            fullKey = this.s3Service.generateKey(
-              baseUrl,
-              threadId,
-              post.postId,
-              false,
-              uniqueId
-            );
+    if (allMediaTasks.length === 0) {
+      return { medias: postMediaMap, failedPostIds };
+    }
 
-            thumbKey = this.s3Service.generateKey(
-              baseUrl,
-              threadId,
-              post.postId,
-              true,
-              uniqueId
-            );
+    console.log(`Processing ${allMediaTasks.length} media files in batch...`);
+
+    // Process media in batches of 10 to avoid overwhelming the system
+    const results: MediaResult[] = [];
+
+    for (let i = 0; i < allMediaTasks.length; i += this.MEDIA_BATCH_SIZE) {
+      const batch = allMediaTasks.slice(i, i + this.MEDIA_BATCH_SIZE);
+      const batchNum = Math.floor(i / this.MEDIA_BATCH_SIZE) + 1;
+      const totalBatches = Math.ceil(
+        allMediaTasks.length / this.MEDIA_BATCH_SIZE
+      );
+
+      console.log(
+        `Processing media batch ${batchNum}/${totalBatches} (${batch.length} files)...`
+      );
+
+      const processingPromises = batch.map(
+        async (task, index): Promise<MediaResult> => {
+          // Add a small delay between concurrent downloads to reduce cache pressure
+          if (index > 0) {
+            await this.delay(100 * index);
           }
 
-          allMediaTasks.push({
-            postId: post.postId,
-            fullSizeUrl: fullUrl || "",
-            thumbUrl: thumbUrl || "",
-            fullKey,
-            thumbKey,
-          });
+          try {
+            const media = await this.processMediaTask(task, threadId);
+            return { task, success: true, media };
+          } catch (error) {
+            return { task, success: false, error };
+          }
         }
+      );
+
+      results.push(...(await Promise.all(processingPromises)));
 
-        uniqueId++;
+      // Add a small delay between batches to prevent overwhelming the system
+      if (i + this.MEDIA_BATCH_SIZE < allMediaTasks.length) {
+        await this.delay(500);
       }
     }
 
-    if (allMediaTasks.length === 0) {
-      return postMediaMap;
+    // Group results by post ID, and keep the ledger of missed media in step
+    for (const result of results) {
+      const { task } = result;
+
+      if (!result.success) {
+        await this.failureLedger.record({
+          threadId,
+          postId: task.postId,
+          url: task.fullSizeUrl,
+          thumbUrl: task.thumbUrl,
+          error: result.error,
+        });
+        failedPostIds.add(task.postId);
+        continue;
+      }
+
+      await this.failureLedger.resolve(task.postId, task.fullSizeUrl);
+      if (!postMediaMap.has(task.postId)) {
+        postMediaMap.set(task.postId, []);
+      }
+      postMediaMap
+        .get(task.postId)!
+        .push({ ...result.media, sourceUrl: task.fullSizeUrl });
     }
+    return { medias: postMediaMap, failedPostIds };
+  }
 
-    console.log(`Processing ${allMediaTasks.length} media files in batch...`);
+  /**
+   * Media task for a post's media URL, with the extension guessed from
+   * the URL
+   */
+  private createMediaTask(
+    postId: number,
+    fullUrl: string,
+    thumbUrl: string | null
+  ): MediaTask {
+    const extension = this.session.site.isAttachmentPageUrl(fullUrl)
+      ? this.extractFileExtensionFromAttachmentUrl(fullUrl)
+      : this.uploadService.getExtension(fullUrl);
+
+    return {
+      postId,
+      fullSizeUrl: fullUrl,
+      thumbUrl: thumbUrl || "",
+      extension,
+    };
+  }
+
+  /**
+   * Download and store one media file within the task's time limit
+   * @throws MediaDownloadError, MediaTimeoutError, UnsupportedMediaError
+   * or a storage error; the error is logged before it is thrown
+   */
+  private async processMediaTask(
+    task: MediaTask,
+    threadId: number
+  ): Promise<ProcessedMedia> {
+    // Videos get longer since they are much larger
+    const timeoutMs = this.isLargeMediaTask(task)
+      ? this.LARGE_MEDIA_TIMEOUT
+      : this.MEDIA_TIMEOUT;
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new MediaTimeoutError(
+              `Processing timeout after ${
+                timeoutMs / 1000
+              } seconds for: ${task.fullSizeUrl}`
+            )
+          ),
+        timeoutMs
+      );
+    });
+
+    const processing = this.processMedia(task, threadId);
+    try {
+      // Race between processing and timeout
+      return await Promise.race([processing, timeoutPromise]);
+    } catch (error) {
+      if (error instanceof MediaTimeoutError) {
+        this.releaseWhenStored(processing, task);
+      }
+      if (error instanceof UnsupportedMediaError) {
+        console.error(`🚫 Rejected: ${error.message}`);
+      } else {
+        console.error(
+          `❌ Processing failed for ${task.fullSizeUrl}: ${error}`
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
 
-    // Create individual upload tasks
-    const uploadTasks: Array<{
-      postId: number;
-      url: string;
-      key: string;
-      isThumb: number;
-      hasThumb: boolean;
-    }> = [];
+  /**
+   * Processing goes on after a timeout; give back the reference to the
+   * object it stores, since nothing will attach it
+   */
+  private releaseWhenStored(
+    processing: Promise<ProcessedMedia>,
+    task: MediaTask
+  ): void {
+    processing
+      .then(
+        async (media) => {
+          console.log(
+            `🗑️ Releasing ${task.fullSizeUrl}, stored after it timed out`
+          );
+          await this.mediaObjects.release(media.object.id);
+        },
+        () => undefined
+      )
+      .catch((error) => {
+        console.error(
+          `Error releasing timed-out media ${task.fullSizeUrl}:`,
+          error
+        );
+      });
+  }
 
-    for (const task of allMediaTasks) {
-      const hasThumb = !!task.thumbUrl;
+  /**
+   * Metadata stored with every uploaded object
+   */
+  private mediaMetadata(
+    task: MediaTask,
+    threadId: number
+  ): Record<string, string> {
+    return {
+      "original-url": task.fullSizeUrl,
+      "upload-timestamp": new Date().toISOString(),
+      "thread-id": threadId.toString(),
+      "post-id": task.postId.toString(),
+    };
+  }
 
-      if (task.fullSizeUrl) {
-        uploadTasks.push({
-          postId: task.postId,
-          url: task.fullSizeUrl,
-          key: task.fullKey,
-          isThumb: 0,
-          hasThumb: hasThumb,
-        });
+  /**
+   * Videos and media gallery items, which may be videos, can be far larger
+   * than images and are never downloaded through the browser
+   */
+  private isLargeMediaTask(task: MediaTask): boolean {
+    return (
+      isVideoExtension(task.extension) || this.isMediaPageUrl(task.fullSizeUrl)
+    );
+  }
+
+  /**
+   * Whether a URL is a XenForo Media Gallery item page (/media/<id>/)
+   */
+  private isMediaPageUrl(url: string): boolean {
+    try {
+      return /\/media\/(?:[^/]*\.)?\d+\/?$/.test(new URL(url).pathname);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Download a media file to a temp file and stream it to the store, so
+   * memory use does not grow with file size. Images that cannot be fetched
+   * that way (e.g. attachment pages behind a browser check) fall back to
+   * the buffered browser download.
+   */
+  private async processMedia(
+    task: MediaTask,
+    threadId: number
+  ): Promise<ProcessedMedia> {
+    const download = await this.downloadToTempFile(task.fullSizeUrl);
+    if (!download) {
+      if (this.isLargeMediaTask(task)) {
+        throw new MediaDownloadError(`Failed to download: ${task.fullSizeUrl}`);
       }
+      console.log(`🔄 Retrying through the browser: ${task.fullSizeUrl}`);
+      return await this.processBufferedImage(task, threadId);
+    }
 
-      if (task.thumbUrl) {
-        uploadTasks.push({
-          postId: task.postId,
-          url: task.thumbUrl,
-          key: task.thumbKey,
-          isThumb: 1,
-          hasThumb: hasThumb,
-        });
+    try {
+      return await this.storeDownloadedFile(
+        task,
+        download.filePath,
+        download.contentType,
+        this.mediaMetadata(task, threadId)
+      );
+    } finally {
+      await fs.promises.rm(download.filePath, { force: true });
+    }
+  }
+
+  /**
+   * Store a downloaded file with its thumbnail, and with its perceptual
+   * hash for images. The file's own bytes decide its type, extension and
+   * content type; anything that is not an image or video is rejected.
+   * @throws UnsupportedMediaError for files that are not media
+   */
+  private async storeDownloadedFile(
+    task: MediaTask,
+    filePath: string,
+    responseContentType: string | null,
+    metadata: Record<string, string>
+  ): Promise<ProcessedMedia> {
+    const mediaType = await detectFileMediaType(filePath, responseContentType);
+    if (!mediaType) {
+      throw new UnsupportedMediaError(
+        `${task.fullSizeUrl} is not an image or video (served as ${
+          responseContentType || "unknown type"
+        })`
+      );
+    }
+
+    const { object, url, created } = await this.mediaObjects.storeFile(
+      filePath,
+      {
+        extension: mediaType.extension,
+        contentType: mediaType.contentType,
+        metadata,
       }
+    );
+
+    if (!created) {
+      console.log(`♻️ Reusing stored copy of ${task.fullSizeUrl}`);
     }
 
-    // Process upload tasks in batches of 10 to avoid overwhelming the system
-    const results: PromiseSettledResult<{
-      postId: number;
-      s3Url: string;
-      isThumb: number;
-      hasThumb: boolean;
-      success: boolean;
-    }>[] = [];
-
-    for (let i = 0; i < uploadTasks.length; i += this.MEDIA_BATCH_SIZE) {
-      const batch = uploadTasks.slice(i, i + this.MEDIA_BATCH_SIZE);
-      const batchNum = Math.floor(i / this.MEDIA_BATCH_SIZE) + 1;
-      const totalBatches = Math.ceil(
-        uploadTasks.length / this.MEDIA_BATCH_SIZE
+    try {
+      // Identical content shares one thumbnail, so only make it once
+      if (!object.hasThumb) {
+        if (mediaType.kind === "mov") {
+          await this.storeVideoThumbnail(object, filePath, task, metadata);
+        } else {
+          await this.storeImageThumbnail(
+            object,
+            filePath,
+            task,
+            mediaType.extension,
+            metadata
+          );
+        }
+      }
+
+      return {
+        s3Url: url,
+        object,
+        type: mediaType.kind,
+        perceptualHash:
+          mediaType.kind === "img"
+            ? await this.computePerceptualHash(filePath, task)
+            : null,
+      };
+    } catch (error) {
+      await this.mediaObjects.release(object.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Download an image through the browser into memory and store it with
+   * its thumbnail
+   */
+  private async processBufferedImage(
+    task: MediaTask,
+    threadId: number
+  ): Promise<ProcessedMedia> {
+    const buffer = await this.downloadMedia(task.fullSizeUrl);
+    if (!buffer) {
+      throw new MediaDownloadError(`Failed to download: ${task.fullSizeUrl}`);
+    }
+
+    const mediaType = detectMediaType(buffer);
+    if (!mediaType) {
+      throw new UnsupportedMediaError(
+        `${task.fullSizeUrl} is not an image or video`
       );
+    }
 
-      console.log(
-        `Processing media batch ${batchNum}/${totalBatches} (${batch.length} files)...`
+    const metadata = this.mediaMetadata(task, threadId);
+    const { object, url, created } = await this.mediaObjects.storeContent(
+      buffer,
+      {
+        extension: mediaType.extension,
+        contentType: mediaType.contentType,
+        metadata,
+      }
+    );
+
+    if (!created) {
+      console.log(`♻️ Reusing stored copy of ${task.fullSizeUrl}`);
+    }
+
+    try {
+      if (!object.hasThumb && mediaType.kind === "img") {
+        await this.storeImageThumbnail(
+          object,
+          buffer,
+          task,
+          mediaType.extension,
+          metadata
+        );
+      } else if (!object.hasThumb) {
+        await this.storeForumThumbnail(object, task, metadata);
+      }
+
+      return {
+        s3Url: url,
+        object,
+        type: mediaType.kind,
+        perceptualHash:
+          mediaType.kind === "img"
+            ? await this.computePerceptualHash(buffer, task)
+            : null,
+      };
+    } catch (error) {
+      await this.mediaObjects.release(object.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a media URL to a temp file with the browser session's cookies.
+   * When the URL answers with an HTML page (attachment or media gallery
+   * page), the media file linked from that page is downloaded instead.
+   * @returns The temp file and its content type, or null on failure
+   */
+  private async downloadToTempFile(
+    url: string
+  ): Promise<{ filePath: string; contentType: string | null } | null> {
+    const headers = { Cookie: await this.session.cookieHeader() };
+    const filePath = path.join(
+      os.tmpdir(),
+      `forum-media-${process.pid}-${crypto.randomUUID()}`
+    );
+
+    try {
+      let { contentType } = await this.uploadService.downloadToFile(
+        url,
+        filePath,
+        headers
       );
 
-      const processingPromises = batch.map(async (uploadTask, index) => {
-        // Add a small delay between concurrent downloads to reduce cache pressure
-        if (index > 0) {
-          await this.delay(100 * index);
+      // Attachment and gallery pages, or error pages mislabelled as media
+      if (
+        contentType?.includes("text/html") ||
+        looksLikeMarkup(await readFileHeader(filePath))
+      ) {
+        const html = await fs.promises.readFile(filePath, "utf8");
+        const mediaUrl = this.session.site.parsers.attachmentMediaUrl(
+          parseHtmlDocument(html, url),
+          this.session.site.siteUrl
+        );
+        if (!mediaUrl) {
+          throw new Error(`No media found on page ${url}`);
         }
 
-        // Add timeout wrapper to prevent hanging
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(
-            () =>
-              reject(
-                new Error(
-                  `Processing timeout after 60 seconds for: ${uploadTask.url}`
-                )
-              ),
-            60000
-          );
-        });
+        ({ contentType } = await this.uploadService.downloadToFile(
+          mediaUrl.url,
+          filePath,
+          headers
+        ));
+      }
 
-        const processingPromise = (async () => {
-          try {
-            let buffer: Buffer | null = null;
+      return { filePath, contentType };
+    } catch (error) {
+      console.error(`❌ Streaming download failed for ${url}: ${error}`);
+      await fs.promises.rm(filePath, { force: true });
+      return null;
+    }
+  }
 
-            if (this.isNotRawImg(uploadTask.url)) {
-              const result = await this.downloadFromAttachmentPage(
-                uploadTask.url
-              );
-              if (result) {
-                buffer = result.buffer;
-              } else {
-                console.error(
-                  `❌ Failed to download attachment page: ${uploadTask.url}`
-                );
-              }
-            } else {
-              try {
-                buffer = await this.s3Service.downloadFile(uploadTask.url);
-              } catch (rawDownloadError) {
-                console.error(
-                  `❌ Raw download failed, trying attachment page fallback: ${uploadTask.url}`
-                );
-                // Try attachment page method as fallback for raw images
-                const result = await this.downloadFromAttachmentPage(
-                  uploadTask.url
-                );
-                if (result) {
-                  buffer = result.buffer;
-                } else {
-                  console.error(
-                    `❌ Attachment page method also failed for raw image: ${uploadTask.url}`
-                  );
-                }
-              }
-            }
+  /**
+   * Store a poster frame thumbnail for a video. Falls back to the
+   * forum's poster image when ffmpeg cannot read the video. The thumbnail
+   * is a JPEG under the video's `_thumb` key (e.g. `<hash>_thumb.mp4`) so
+   * the frontend's link convention still finds it; its content type says
+   * it is an image.
+   */
+  private async storeVideoThumbnail(
+    object: MediaObject,
+    videoPath: string,
+    task: MediaTask,
+    metadata: Record<string, string>
+  ): Promise<void> {
+    try {
+      const poster = await extractPosterFrame(videoPath);
+      const thumbnail = await generateThumbnail(poster, ".jpg");
+      await this.mediaObjects.storeThumbnail(object, thumbnail.buffer, {
+        contentType: thumbnail.contentType,
+        metadata: { ...metadata, "generated-thumb": "true" },
+      });
+      return;
+    } catch (error) {
+      console.error(
+        `⚠️ Could not extract poster frame for ${task.fullSizeUrl}: ${error}`
+      );
+    }
 
-            if (buffer) {
-              const contentType = this.s3Service.getContentType(uploadTask.url);
-              const uploadCommand = new PutObjectCommand({
-                Bucket: this.s3Service.bucketName,
-                Key: uploadTask.key,
-                Body: buffer,
-                ContentType: contentType,
-                Metadata: {
-                  "original-url": uploadTask.url,
-                  "upload-timestamp": new Date().toISOString(),
-                  "thread-id": threadId.toString(),
-                  "post-id": uploadTask.postId.toString(),
-                  "is-thumb": uploadTask.isThumb.toString(),
-                  "has-thumb": uploadTask.hasThumb.toString(),
-                },
-              });
+    await this.storeForumThumbnail(object, task, metadata);
+  }
 
-              await this.s3Service.s3Client.send(uploadCommand);
-              const finalS3Url = `https://${this.s3Service.bucketName}.s3.${
-                process.env.S3_REGION || "us-east-2"
-              }.wasabisys.com/${uploadTask.key}`;
-              return {
-                postId: uploadTask.postId,
-                s3Url: finalS3Url,
-                isThumb: uploadTask.isThumb,
-                hasThumb: uploadTask.hasThumb,
-                success: true,
-              };
-            } else {
-              console.error(`❌ Failed to download: ${uploadTask.url}`);
-              return {
-                postId: uploadTask.postId,
-                s3Url: uploadTask.url,
-                isThumb: uploadTask.isThumb,
-                hasThumb: uploadTask.hasThumb,
-                success: false,
-              };
-            }
-          } catch (error) {
-            console.error(
-              `❌ Processing failed for ${uploadTask.url}: ${error}`
-            );
-            return {
-              postId: uploadTask.postId,
-              s3Url: uploadTask.url,
-              isThumb: uploadTask.isThumb,
-              hasThumb: uploadTask.hasThumb,
-              success: false,
-            };
-          }
-        })();
-
-        // Race between processing and timeout
-        return Promise.race([processingPromise, timeoutPromise]) as Promise<{
-          postId: number;
-          s3Url: string;
-          isThumb: number;
-          hasThumb: boolean;
-          success: boolean;
-        }>;
+  /**
+   * Generate and store the `_thumb` object for a stored image. Falls back
+   * to the forum's own thumbnail when the file cannot be decoded.
+   */
+  private async storeImageThumbnail(
+    object: MediaObject,
+    image: Buffer | string,
+    task: MediaTask,
+    extension: string,
+    metadata: Record<string, string>
+  ): Promise<void> {
+    try {
+      const thumbnail = await generateThumbnail(image, extension);
+      await this.mediaObjects.storeThumbnail(object, thumbnail.buffer, {
+        contentType: thumbnail.contentType,
+        metadata: { ...metadata, "generated-thumb": "true" },
       });
+      return;
+    } catch (error) {
+      console.error(
+        `⚠️ Could not generate thumbnail for ${task.fullSizeUrl}: ${error}`
+      );
+    }
 
-      const batchResults = await Promise.allSettled(processingPromises);
-      results.push(...batchResults);
+    await this.storeForumThumbnail(object, task, metadata);
+  }
 
-      // Add a small delay between batches to prevent overwhelming the system
-      if (i + this.MEDIA_BATCH_SIZE < uploadTasks.length) {
-        await this.delay(500);
+  /**
+   * Store the thumbnail (or video poster) the forum page provided, if any
+   */
+  private async storeForumThumbnail(
+    object: MediaObject,
+    task: MediaTask,
+    metadata: Record<string, string>
+  ): Promise<void> {
+    if (!task.thumbUrl) {
+      return;
+    }
+
+    const thumbBuffer = await this.downloadMedia(task.thumbUrl);
+    if (!thumbBuffer) {
+      console.error(`❌ Failed to download thumbnail: ${task.thumbUrl}`);
+      return;
+    }
+
+    const thumbType = detectMediaType(thumbBuffer);
+    if (thumbType?.kind !== "img") {
+      console.error(`❌ Thumbnail is not an image: ${task.thumbUrl}`);
+      return;
+    }
+
+    await this.mediaObjects.storeThumbnail(object, thumbBuffer, {
+      contentType: thumbType.contentType,
+      metadata: { ...metadata, "original-url": task.thumbUrl },
+    });
+  }
+
+  /**
+   * dHash of a downloaded image for near-duplicate detection
+   * @returns The hash, or null for images that fail to decode
+   */
+  private async computePerceptualHash(
+    image: Buffer | string,
+    task: MediaTask
+  ): Promise<string | null> {
+    try {
+      return await computeDHash(image);
+    } catch (error) {
+      console.error(
+        `⚠️ Could not compute perceptual hash for ${task.fullSizeUrl}: ${error}`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Download a media file, falling back to its attachment page when the
+   * raw download fails
+   * @returns The file contents, or null if every method failed
+   */
+  private async downloadMedia(url: string): Promise<Buffer | null> {
+    if (this.session.site.isAttachmentPageUrl(url)) {
+      const result = await this.downloadFromAttachmentPage(url);
+      if (!result) {
+        console.error(`❌ Failed to download attachment page: ${url}`);
       }
+      return result ? result.buffer : null;
     }
 
-    // Group results by post ID
-    for (const result of results) {
-      if (result.status === "fulfilled" && result.value) {
-        const { postId, s3Url, isThumb, success, hasThumb } = result.value;
+    try {
+      return await this.uploadService.downloadFile(url);
+    } catch (rawDownloadError) {
+      console.error(
+        `❌ Raw download failed, trying attachment page fallback: ${url}`
+      );
+      // Try attachment page method as fallback for raw images
+      const result = await this.downloadFromAttachmentPage(url);
+      if (!result) {
+        console.error(
+          `❌ Attachment page method also failed for raw image: ${url}`
+        );
+      }
+      return result ? result.buffer : null;
+    }
+  }
 
-        if (success && isThumb === 0) {
-          if (!postMediaMap.has(postId)) {
-            postMediaMap.set(postId, []);
-          }
-          postMediaMap.get(postId)!.push({ s3Url, hasThumbnail: hasThumb });
-        }
+  /**
+   * Attach the post's stored media in place of the rows it replaces,
+   * record a revision if the post changed, then overwrite the post row
+   * with media nodes of its body pointing at the attached forum_medias
+   * rows, and record whom it quotes
+   * @param complete Whether every media of the post was stored
+   */
+  private async savePost(
+    threadId: number,
+    postData: PostData,
+    medias: PostMedia[],
+    complete: boolean
+  ): Promise<void> {
+    const mediaIds = new Map<string, number>();
+    const attachedRows: ForumMedia[] = [];
+    const attached = await Promise.allSettled(
+      medias.map((media) =>
+        this.mediaObjects.attach({
+          threadId: threadId,
+          postId: postData.postId,
+          type: media.type,
+          object: media.object,
+          perceptualHash: media.perceptualHash,
+        })
+      )
+    );
+    for (const [index, result] of attached.entries()) {
+      if (result.status === "fulfilled") {
+        mediaIds.set(medias[index].sourceUrl, result.value.id);
+        attachedRows.push(result.value);
+      } else {
+        console.error(
+          `Error attaching media to post ${postData.postId}:`,
+          result.reason
+        );
+        await this.mediaObjects.release(medias[index].object.id);
       }
     }
-    return postMediaMap;
+    await this.detachReplacedMedia(
+      threadId,
+      postData.postId,
+      attachedRows,
+      complete && attachedRows.length === medias.length
+    );
+
+    await this.revisions.record(threadId, postData);
+    const post = {
+      postId: postData.postId,
+      threadId: threadId,
+      author: postData.author,
+      authorId: postData.authorId,
+      content: postData.content,
+      contentHtml: postData.html,
+      contentBody: linkBodyMedia(postData.body, mediaIds),
+      postCreatedDate: parseForumDate(postData.postCreatedDate),
+      likes: postData.likes,
+      deletedAt: null,
+    };
+    // The reactions list stores the real total of a liked post, so the
+    // page's estimate only fills in posts stored for the first time
+    const keepLikes = this.reactions.enabled && postData.likes > 0;
+    await ForumPost.upsert(
+      post,
+      keepLikes
+        ? {
+            fields: (Object.keys(post) as (keyof typeof post)[]).filter(
+              (field) => field !== "likes"
+            ),
+          }
+        : {}
+    );
+    await this.quotes.replace(threadId, postData.postId, postData.quotes);
   }
 
   /**
-   * Save posts to database with batch processing (30 posts per batch)
-   * No S3 deletion - only uploads new media
+   * Drop the forum_medias rows of an earlier scrape of a post that the
+   * attached rows replace. Rows of media that failed to store again are
+   * kept until a scrape stores all of the post's media, except those for
+   * content that was attached anew.
+   */
+  private async detachReplacedMedia(
+    threadId: number,
+    postId: number,
+    attachedRows: ForumMedia[],
+    complete: boolean
+  ): Promise<void> {
+    const objectIds = attachedRows
+      .map((row) => row.mediaObjectId)
+      .filter((id): id is number => id !== null);
+    if (!complete && objectIds.length === 0) {
+      return;
+    }
+
+    const attachedIds = attachedRows.map((row) => row.id);
+    await this.mediaObjects.detach({
+      threadId,
+      postId,
+      ...(attachedIds.length > 0 ? { id: { [Op.notIn]: attachedIds } } : {}),
+      ...(complete ? {} : { mediaObjectId: { [Op.in]: objectIds } }),
+    });
+  }
+
+  /**
+   * Point a post body's placeholder for a media URL at its forum_medias
+   * row, once media that failed during the scrape has been stored
+   */
+  private async linkPostBodyMedia(
+    postId: number,
+    url: string,
+    mediaId: number
+  ): Promise<void> {
+    const post = await ForumPost.findByPk(postId);
+    if (post?.contentBody) {
+      await post.update({
+        contentBody: linkBodyMedia(post.contentBody, new Map([[url, mediaId]])),
+      });
+    }
+  }
+
+  /**
+   * Save posts and their media to the database, five posts at a time.
+   * New and re-scraped posts share this path; savePost replaces what an
+   * earlier scrape stored.
    */
   private async savePostsToDatabase(
     threadId: number,
@@ -1832,15 +1600,10 @@ class ForumDetailPageScraper {
       const BATCH_SIZE = 5;
       let totalProcessed = 0;
 
-      await ForumMedia.destroy({
-        where: {
-          threadId: threadId,
-          postId: {
-            [Op.in]: posts.map((post) => post.postId),
-          },
-          type: "img",
-        },
-      });
+      // Authors get their forum_users rows before posts point at them
+      await this.users.recordNames(
+        posts.map((post) => ({ userId: post.authorId, username: post.author }))
+      );
 
       // Process posts in batches
       for (let i = 0; i < posts.length; i += BATCH_SIZE) {
@@ -1848,79 +1611,27 @@ class ForumDetailPageScraper {
         const batchNum = Math.floor(i / BATCH_SIZE) + 1;
         const totalBatches = Math.ceil(posts.length / BATCH_SIZE);
 
-        // Process media for this batch in parallel
-        const postMediaMap = await this.processBatchMedia(batch, threadId);
-
-        // Save posts and media to database
-        const dbPromises: Promise<any>[] = [];
-
-        // Save/update posts (without medias field)
-        batch.forEach((postData) => {
-          dbPromises.push(
-            ForumPost.upsert({
-              postId: postData.postId,
-              threadId: threadId,
-              author: postData.author,
-              content: postData.content,
-              postCreatedDate: postData.postCreatedDate,
-              likes: postData.likes,
-            })
-          );
-        });
+        console.log(
+          `Processing batch ${batchNum}/${totalBatches} (${batch.length} posts)`
+        );
 
-        // Save media data to ForumMedia table
-        for (const postData of batch) {
-          const processedMedias = postMediaMap.get(postData.postId) || [];
-
-          for (const mediaData of processedMedias) {
-            const { s3Url, hasThumbnail } = mediaData;
-
-            if (s3Url.includes("s3.") && s3Url.includes("wasabisys.com")) {
-              const mediaType = this.isImageUrl(s3Url)
-                ? "img"
-                : this.isVideoUrl(s3Url)
-                ? "mov"
-                : null;
-
-              if (mediaType && !s3Url.includes("_thumb")) {
-                dbPromises.push(
-                  ForumMedia.create({
-                    threadId: threadId,
-                    postId: postData.postId,
-                    link: s3Url,
-                    type: mediaType,
-                    existThumb: hasThumbnail ? 1 : 0,
-                  })
-                );
-              }
-            }
-          }
-        }
+        // Process media for this batch in parallel
+        const { medias, failedPostIds } = await this.processBatchMedia(
+          batch,
+          threadId
+        );
 
-        await Promise.allSettled(dbPromises);
-
-        // Log media count for each post in this batch
-        // for (const postData of batch) {
-        //   const processedMedias = postMediaMap.get(postData.postId) || [];
-        //   const imageCount = processedMedias.filter(
-        //     (media) =>
-        //       media.s3Url.includes("s3.") &&
-        //       media.s3Url.includes("wasabisys.com") &&
-        //       !media.s3Url.includes("_thumb") &&
-        //       this.isImageUrl(media.s3Url)
-        //   ).length;
-        //   const videoCount = processedMedias.filter(
-        //     (media) =>
-        //       media.s3Url.includes("s3.") &&
-        //       media.s3Url.includes("wasabisys.com") &&
-        //       !media.s3Url.includes("_thumb") &&
-        //       this.isVideoUrl(media.s3Url)
-        //   ).length;
-
-        //   console.log(
-        //     `Post ID ${postData.postId}: ${imageCount} images, ${videoCount} videos`
-        //   );
-        // }
+        // Save posts and their media to database
+        await Promise.allSettled(
+          batch.map((postData) =>
+            this.savePost(
+              threadId,
+              postData,
+              medias.get(postData.postId) || [],
+              !failedPostIds.has(postData.postId)
+            )
+          )
+        );
 
         totalProcessed += batch.length;
 
@@ -1938,10 +1649,10 @@ class ForumDetailPageScraper {
 
   async clearBrowserCache(): Promise<void> {
     try {
-      if (!this.page) return;
+      if (!this.session.page) return;
 
       // Clear browser cache
-      const client = await this.page.target().createCDPSession();
+      const client = await this.session.page.target().createCDPSession();
       await client.send("Network.clearBrowserCache");
       await client.send("Network.clearBrowserCookies");
 
@@ -1980,10 +1691,10 @@ class ForumDetailPageScraper {
    */
   async clearPageMemoryCache(): Promise<void> {
     try {
-      if (!this.page) return;
+      if (!this.session.page) return;
 
       // Clear browser cache
-      const client = await this.page.target().createCDPSession();
+      const client = await this.session.page.target().createCDPSession();
       await client.send("Network.clearBrowserCache");
 
       // Clear memory and force garbage collection
@@ -2020,23 +1731,14 @@ class ForumDetailPageScraper {
       // Show memory usage before restart
       await getMemoryUsage();
 
-      // Close current browser
-      if (this.browser) {
-        await this.browser.close();
-        this.browser = null;
-        this.page = null;
-      }
-
-      // Clean up temp directory
-      if (this.tempDir) {
-        await deleteTempUserDataDir(this.mode);
-      }
-
       // Reset page counter
       this.pagesScraped = 0;
 
-      // Reinitialize browser (this will include cache clearing in production)
-      await this.initialize();
+      // Relaunch browser (this will include cache clearing in production)
+      const isLoggedIn = await this.session.restart();
+      if (!isLoggedIn) {
+        throw new Error("Failed to login");
+      }
 
       // Show memory usage after restart
       await getMemoryUsage();
@@ -2054,133 +1756,14 @@ class ForumDetailPageScraper {
     // Stop memory monitoring
     this.stopMemoryMonitoring();
 
-    if (this.browser) {
-      await this.browser.close();
-    }
-  }
-
-  /**
-   * Save ALL posts to database (including existing ones) with batch processing
-   * This method processes all posts without checking for existing ones
-   * @param threadId - The thread ID
-   * @param posts - All posts to save
-   */
-  private async saveAllPostsToDatabase(
-    threadId: number,
-    posts: PostData[]
-  ): Promise<void> {
-    try {
-      const BATCH_SIZE = 5;
-      let totalProcessed = 0;
-
-      // Delete existing media for these posts first (to avoid duplicates)
-      await ForumMedia.destroy({
-        where: {
-          threadId: threadId,
-          postId: {
-            [Op.in]: posts.map((post) => post.postId),
-          },
-        },
-      });
-
-      // Process posts in batches
-      for (let i = 0; i < posts.length; i += BATCH_SIZE) {
-        const batch = posts.slice(i, i + BATCH_SIZE);
-        const batchNum = Math.floor(i / BATCH_SIZE) + 1;
-        const totalBatches = Math.ceil(posts.length / BATCH_SIZE);
-
-        console.log(
-          `Processing batch ${batchNum}/${totalBatches} (${batch.length} posts) - ALL POSTS MODE`
-        );
-
-        // Process media for this batch in parallel
-        const postMediaMap = await this.processBatchMedia(batch, threadId);
-
-        // Save posts and media to database
-        const dbPromises: Promise<any>[] = [];
-
-        // Save/update ALL posts (without medias field)
-        batch.forEach((postData) => {
-          dbPromises.push(
-            ForumPost.upsert({
-              postId: postData.postId,
-              threadId: threadId,
-              author: postData.author,
-              content: postData.content,
-              postCreatedDate: postData.postCreatedDate,
-              likes: postData.likes,
-            })
-          );
-        });
-
-        // Save media data to ForumMedia table
-        for (const postData of batch) {
-          const processedMedias = postMediaMap.get(postData.postId) || [];
-
-          for (const mediaData of processedMedias) {
-            const { s3Url, hasThumbnail } = mediaData;
-
-            if (s3Url.includes("s3.") && s3Url.includes("wasabisys.com")) {
-              const mediaType = this.isImageUrl(s3Url)
-                ? "img"
-                : this.isVideoUrl(s3Url)
-                ? "mov"
-                : null;
-
-              if (mediaType && !s3Url.includes("_thumb")) {
-                dbPromises.push(
-                  ForumMedia.create({
-                    threadId: threadId,
-                    postId: postData.postId,
-                    link: s3Url,
-                    type: mediaType,
-                    existThumb: hasThumbnail ? 1 : 0,
-                  })
-                );
-              }
-            }
-          }
-        }
-
-        await Promise.allSettled(dbPromises);
-
-        // Log media count for each post in this batch
-        for (const postData of batch) {
-          const processedMedias = postMediaMap.get(postData.postId) || [];
-          const imageCount = processedMedias.filter(
-            (media) =>
-              media.s3Url.includes("s3.") &&
-              media.s3Url.includes("wasabisys.com") &&
-              !media.s3Url.includes("_thumb") &&
-              this.isImageUrl(media.s3Url)
-          ).length;
-          const videoCount = processedMedias.filter(
-            (media) =>
-              media.s3Url.includes("s3.") &&
-              media.s3Url.includes("wasabisys.com") &&
-              !media.s3Url.includes("_thumb") &&
-              this.isVideoUrl(media.s3Url)
-          ).length;
-        }
-
-        totalProcessed += batch.length;
-
-        // Clear memory after each batch to prevent memory accumulation
-        await this.clearPageMemoryCache();
-      }
-
-      console.log(
-        `✓ Completed processing ALL ${totalProcessed} posts for thread ${threadId} (ALL POSTS MODE)`
-      );
-    } catch (error) {
-      console.error("Error saving all posts to database:", error);
-    }
+    await this.session.close();
   }
 
   /**
    * Run detail page scraping for a specific thread by threadId
    * @param threadId - The ID of the thread to scrape
-   * @returns Promise<ForumThread | null> - The scraped thread data or null if not found
+   * @returns Promise<ForumThread | null> - The scraped thread data, or null if
+   * it is not stored or the scrape failed
    */
   async runDetailPage(threadId: number): Promise<ForumThread | null> {
     try {
@@ -2202,7 +1785,10 @@ class ForumDetailPageScraper {
       console.log(`Found thread: ${thread.title} (${thread.threadId})`);
 
       // Scrape the thread detail page
-      await this.scrapeThreadDetailPage(thread);
+      if (!(await this.scrapeThreadDetailPage(thread))) {
+        console.error(`Detail page scraping failed for thread ${threadId}`);
+        return null;
+      }
 
       console.log(
         `Successfully completed detail page scraping for thread ${threadId}`
@@ -2220,42 +1806,142 @@ class ForumDetailPageScraper {
     }
   }
 
-  async run(): Promise<void> {
+  /**
+   * Retry media that earlier scrapes failed to store (media_failures rows
+   * whose backoff has expired), attaching it to its post on success
+   * @returns Number of media recovered and still failing
+   */
+  async retryFailedMedia(
+    options: DueFailureOptions = {}
+  ): Promise<{ recovered: number; failed: number }> {
+    const failures = await this.failureLedger.due(options);
+    if (failures.length === 0) {
+      console.log("No failed media is due for a retry");
+      return { recovered: 0, failed: 0 };
+    }
+
+    console.log(`Retrying ${failures.length} failed media downloads...`);
+    let recovered = 0;
+    let failed = 0;
+
     try {
       await this.initialize();
 
-      const threadsToUpdate = await this.getThreadsNeedingUpdate();
-
-      console.log(
-        `Node ${this.NODE_INDEX}: Processing ${threadsToUpdate.length} threads`
-      );
+      for (const failure of failures) {
+        const task = this.createMediaTask(
+          failure.postId,
+          failure.url,
+          failure.thumbUrl
+        );
 
-      if (threadsToUpdate.length === 0) {
-        console.log(`Node ${this.NODE_INDEX}: No threads to process`);
-        return;
+        try {
+          const media = await this.processMediaTask(task, failure.threadId);
+          const attached = await this.mediaObjects
+            .attach({
+              threadId: failure.threadId,
+              postId: failure.postId,
+              type: media.type,
+              object: media.object,
+              perceptualHash: media.perceptualHash,
+            })
+            .catch(async (error) => {
+              await this.mediaObjects.release(media.object.id);
+              throw error;
+            });
+          await this.linkPostBodyMedia(
+            failure.postId,
+            failure.url,
+            attached.id
+          );
+          await this.failureLedger.resolve(failure.postId, failure.url);
+          console.log(
+            `✅ Recovered media for post ${failure.postId}: ${failure.url}`
+          );
+          recovered++;
+        } catch (error) {
+          await this.failureLedger.record({
+            threadId: failure.threadId,
+            postId: failure.postId,
+            url: failure.url,
+            thumbUrl: failure.thumbUrl,
+            error,
+          });
+          failed++;
+        }
       }
+    } finally {
+      await this.close();
+    }
+
+    return { recovered, failed };
+  }
+
+  /**
+   * Claim and scrape queued threads until the queue is drained. Safe to run
+   * on any number of workers at once.
+   * @returns true if the run completed without a fatal error
+   */
+  async run(): Promise<boolean> {
+    const workerId = this.queue.workerId;
+
+    try {
+      await this.initialize();
+      await this.queue.enqueueStaleThreads();
 
       let processedCount = 0;
-      for (const thread of threadsToUpdate) {
-        processedCount++;
-        console.log(
-          `Node ${this.NODE_INDEX}: Processing thread ${processedCount}/${threadsToUpdate.length} - ${thread.title}`
-        );
+      let failedCount = 0;
+
+      while (true) {
+        const job = await this.queue.claim();
+        if (!job) {
+          break;
+        }
 
-        await this.scrapeThreadDetailPage(thread);
+        const stopHeartbeat = this.queue.startHeartbeat(job);
+
+        try {
+          const thread = await ForumThread.findOne({
+            where: { threadId: job.threadId },
+          });
+
+          if (!thread) {
+            await this.queue.fail(job, `Thread ${job.threadId} not found`);
+            failedCount++;
+            continue;
+          }
+
+          processedCount++;
+          console.log(
+            `Worker ${workerId}: Processing thread ${processedCount} (attempt ${job.attempts}) - ${thread.title}`
+          );
+
+          if (await this.scrapeThreadDetailPage(thread)) {
+            await this.queue.complete(job);
+          } else {
+            await this.queue.fail(
+              job,
+              `Scraping thread ${thread.threadId} did not finish`
+            );
+            failedCount++;
+          }
+        } catch (error) {
+          await this.queue.fail(job, error);
+          failedCount++;
+        } finally {
+          stopHeartbeat();
+        }
 
         // Add delay between threads
         await this.delay(1000);
       }
 
       console.log(
-        `Node ${this.NODE_INDEX}: Detail page scraping completed - processed ${processedCount} threads`
+        `Worker ${workerId}: Queue drained - processed ${processedCount} threads (${failedCount} failed)`
       );
+      return true;
     } catch (error) {
-      console.error(
-        `Node ${this.NODE_INDEX}: Error in detail page scraping:`,
-        error
-      );
+      console.error(`Worker ${workerId}: Error in detail page scraping:`, error);
+      return false;
     } finally {
       await this.close();
     }
@@ -0,0 +1,76 @@
+import { ForumNode, loadForumNodes, withSubforums } from "../config/forums";
+import { ForumSession } from "./forumSession";
+import { evaluateParser } from "../parsers/evaluate";
+import { ForumNodeData } from "../parsers/types";
+
+export interface ForumSelection {
+  /** Only crawl this forum (a configured one or a discovered subforum) */
+  forumId?: number;
+  /** Discover subforums of every configured forum, whatever its setting */
+  discoverSubforums?: boolean;
+}
+
+/**
+ * Works out which forums a listing crawl covers: the configured forums,
+ * plus subforums found on the forum index where discovery is enabled
+ */
+class ForumDirectory {
+  private session: ForumSession;
+
+  constructor(session: ForumSession) {
+    this.session = session;
+  }
+
+  /**
+   * Forums to crawl, in order. Needs a logged-in session when discovery
+   * is enabled for any forum.
+   */
+  async resolve(selection: ForumSelection = {}): Promise<ForumNode[]> {
+    let forums = loadForumNodes().map((forum) => ({
+      ...forum,
+      discoverSubforums:
+        forum.discoverSubforums || !!selection.discoverSubforums,
+    }));
+
+    if (forums.some((forum) => forum.discoverSubforums)) {
+      forums = withSubforums(forums, await this.readForumIndex());
+    }
+
+    if (selection.forumId) {
+      forums = forums.filter((forum) => forum.forumId === selection.forumId);
+    }
+
+    console.log(
+      `📚 Crawling ${forums.length} forum(s): ${forums
+        .map((forum) => `${forum.name} (${forum.forumId})`)
+        .join(", ")}`
+    );
+    return forums;
+  }
+
+  /**
+   * Parse the forum index for subforum links
+   * @returns An empty list if the index cannot be loaded
+   */
+  private async readForumIndex(): Promise<ForumNodeData[]> {
+    const { site } = this.session;
+    try {
+      await this.session.goto(site.forumIndexUrl(), {
+        waitUntil: "networkidle2",
+        timeout: 30000,
+      });
+      const index = await evaluateParser(
+        this.session.page!,
+        site.parsers.forumNodes,
+        site.siteUrl
+      );
+      console.log(`Found ${index.length} forums on the forum index`);
+      return index;
+    } catch (error) {
+      console.error("Error reading the forum index:", error);
+      return [];
+    }
+  }
+}
+
+export { ForumDirectory };
@@ -297,30 +297,3 @@ class ForumMediaMigration {
 
 // Export the class
 export { ForumMediaMigration };
-
-// Run migration if this file is executed directly
-if (require.main === module) {
-  const migration = new ForumMediaMigration();
-
-  // Check command line arguments
-  const args = process.argv.slice(2);
-
-  if (args.includes("--preview")) {
-    const limit = args.find((arg) => arg.startsWith("--limit="))?.split("=")[1];
-    migration
-      .previewMigration(limit ? parseInt(limit) : 10)
-      .then(() => process.exit(0))
-      .catch((error) => {
-        console.error(error);
-        process.exit(1);
-      });
-  } else {
-    migration
-      .migrateMedias()
-      .then(() => process.exit(0))
-      .catch((error) => {
-        console.error(error);
-        process.exit(1);
-      });
-  }
-}
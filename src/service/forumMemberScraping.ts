@@ -0,0 +1,174 @@
+import dotenv from "dotenv";
+import { ForumUser } from "../model/ForumUser";
+import { ForumSession } from "./forumSession";
+import { ForumUserDirectory } from "./forumUsers";
+import { MediaObjectService } from "./mediaObjectService";
+import { MediaUploadService } from "./mediaUploadService";
+import { evaluateParser } from "../parsers/evaluate";
+import { detectMediaType } from "../media/mediaType";
+import { createMediaStore, MediaStore } from "../storage";
+import { delay } from "../utils";
+dotenv.config();
+
+export interface ForumMemberScraperOptions {
+  /** Where avatars are stored; defaults to the MEDIA_STORE driver */
+  mediaStore?: MediaStore;
+  /** Pause between profile pages */
+  pageDelayMs?: number;
+}
+
+export interface MemberScrapeSelection {
+  /** Read these members' profiles instead of the stale ones */
+  userIds?: number[];
+  /** Most stale profiles to read */
+  limit?: number;
+  /** Profiles read after this are up to date */
+  olderThan?: Date;
+}
+
+/**
+ * Reads member profile pages into forum_users: join date, message count,
+ * reaction score and the avatar, which goes through the media store like
+ * post media
+ */
+class ForumMemberScraper {
+  private session: ForumSession;
+  private users = new ForumUserDirectory();
+  private mediaObjects: MediaObjectService;
+  private uploadService: MediaUploadService;
+  private pageDelayMs: number;
+
+  constructor(options: ForumMemberScraperOptions = {}) {
+    const mediaStore = options.mediaStore || createMediaStore();
+    this.session = new ForumSession();
+    this.mediaObjects = new MediaObjectService(mediaStore);
+    this.uploadService = new MediaUploadService(mediaStore);
+    this.pageDelayMs = options.pageDelayMs ?? 2000;
+  }
+
+  /**
+   * Read and store one member's profile
+   * @returns false if the page showed no profile
+   */
+  async scrapeProfile(userId: number): Promise<boolean> {
+    const { site } = this.session;
+    await this.session.goto(site.memberUrl(userId), {
+      waitUntil: "networkidle2",
+    });
+    const profile = await evaluateParser(
+      this.session.page!,
+      site.parsers.memberProfile,
+      site.siteUrl
+    );
+    if (!profile || profile.userId !== userId) {
+      console.log(`⚠️ No profile shown for member ${userId}`);
+      return false;
+    }
+
+    const existing = await ForumUser.findByPk(userId);
+    const previousAvatarId = existing?.avatarMediaObjectId ?? null;
+    const avatarId = profile.avatarUrl
+      ? await this.storeAvatar(userId, profile.avatarUrl)
+      : null;
+
+    // Keep the stored avatar when a new one fails to download. Storing the
+    // new one took a reference, so the member gives up the old one.
+    let user: ForumUser;
+    try {
+      user = await this.users.recordProfile(profile, avatarId);
+    } catch (error) {
+      await this.mediaObjects.release(avatarId ?? null);
+      throw error;
+    }
+    if (avatarId !== undefined) {
+      await this.mediaObjects.release(previousAvatarId);
+    }
+
+    console.log(`👤 Read profile of member ${user.userId} (${user.username})`);
+    return true;
+  }
+
+  /**
+   * Download an avatar into the media store
+   * @returns The media object ID, or undefined if the download failed
+   */
+  private async storeAvatar(
+    userId: number,
+    url: string
+  ): Promise<number | undefined> {
+    try {
+      const buffer = await this.uploadService.downloadFile(url);
+      const detected = detectMediaType(buffer);
+      if (!detected || detected.kind !== "img") {
+        console.error(`⚠️ Avatar is not an image: ${url}`);
+        return undefined;
+      }
+      const { object } = await this.mediaObjects.storeContent(buffer, {
+        extension: detected.extension,
+        contentType: detected.contentType,
+        metadata: {
+          "original-url": url,
+          "upload-timestamp": new Date().toISOString(),
+          "user-id": userId.toString(),
+        },
+      });
+      return object.id;
+    } catch (error) {
+      console.error(`❌ Failed to store avatar ${url}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the selected profiles
+   * @returns true if every profile was read
+   */
+  async run(selection: MemberScrapeSelection = {}): Promise<boolean> {
+    try {
+      const userIds =
+        selection.userIds ||
+        (
+          await this.users.staleProfiles(
+            selection.limit ?? 100,
+            selection.olderThan ?? new Date()
+          )
+        ).map((user) => user.userId);
+      console.log(`Reading ${userIds.length} member profiles`);
+      if (userIds.length === 0) {
+        return true;
+      }
+
+      await this.session.launch();
+      if (!(await this.session.ensureLoggedIn())) {
+        throw new Error("Failed to login");
+      }
+
+      let failed = 0;
+      for (const [index, userId] of userIds.entries()) {
+        try {
+          if (!(await this.scrapeProfile(userId))) {
+            failed++;
+          }
+        } catch (error) {
+          console.error(`Error reading profile of member ${userId}:`, error);
+          failed++;
+        }
+        if (index < userIds.length - 1) {
+          await delay(this.pageDelayMs);
+        }
+      }
+
+      console.log(
+        `✓ Read ${userIds.length - failed} of ${userIds.length} member profiles`
+      );
+      return failed === 0;
+    } catch (error) {
+      console.error("Error reading member profiles:", error);
+      return false;
+    } finally {
+      await this.session.close();
+    }
+  }
+}
+
+export { ForumMemberScraper };
@@ -1,261 +1,52 @@
-import puppeteer, { Browser, Page } from "puppeteer";
-import * as fs from "fs";
-import * as path from "path";
 import dotenv from "dotenv";
 import { ForumThread } from "../model/ForumThread";
+import { ForumSession } from "./forumSession";
+import { ForumDirectory, ForumSelection } from "./forumDirectory";
+import { ForumUserDirectory } from "./forumUsers";
+import { ForumNode } from "../config/forums";
+import { evaluateParser } from "../parsers/evaluate";
+import { ForumThreadData, PostData } from "../parsers/types";
+import { parseCount, parseForumDate } from "../parsers/values";
 dotenv.config();
 
-interface ForumThreadData {
-  threadId: number;
-  title: string;
-  creator: string;
-  creationDate: string;
-  replies: string;
-  views: string;
-  lastReplyDate: string;
-  lastReplier: string;
-  threadUrl: string;
-  detailPageUpdateDate?: string | null; // Changed to string
-}
-
-interface LoginCredentials {
-  username: string;
-  password: string;
+export interface ForumScraperOptions extends ForumSelection {
+  startPage?: number;
+  /** Last listing page of each forum; overrides the forum's maxPages */
+  endPage?: number;
 }
 
 class ForumScraper {
-  private browser: Browser | null = null;
-  private page: Page | null = null;
-  private cookiesPath: string;
-  private credentials: LoginCredentials;
-  private mode: string;
-
-  // Site URLs
-  private readonly SITE_URL = "https://www.lpsg.com";
-  private readonly FORUM_URL = `${this.SITE_URL}/forums/models-and-celebrities.17/`;
-  private readonly LOGIN_URL = `${this.SITE_URL}/login/`;
-
-  constructor() {
-    this.cookiesPath = path.join(__dirname, "../../cookies.json");
-    this.credentials = {
-      username: process.env.FORUM_USERNAME || "",
-      password: process.env.FORUM_PASSWORD || "",
-    };
-    this.mode = process.env.NODE_ENV || "";
-  }
-
-  async initialize(): Promise<void> {
-    console.log("Initializing browser...");
-    this.browser = await puppeteer.launch({
-      headless: this.mode === "production" ? true : false,
-      args: ["--no-sandbox", "--disable-setuid-sandbox"],
-      defaultViewport: { width: 1280, height: 720 },
-    });
-
-    this.page = await this.browser.newPage();
-
-    // Set user agent to avoid detection
-    await this.page.setUserAgent(
-      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
-    );
-  }
-
-  async loadCookies(): Promise<boolean> {
-    try {
-      if (fs.existsSync(this.cookiesPath)) {
-        const cookies = JSON.parse(fs.readFileSync(this.cookiesPath, "utf8"));
-        await this.page!.setCookie(...cookies);
-        console.log("Cookies loaded successfully");
-        return true;
-      }
-    } catch (error) {
-      console.log("No valid cookies found or error loading cookies:", error);
-    }
-    return false;
-  }
+  private session: ForumSession;
+  private options: ForumScraperOptions;
+  private users = new ForumUserDirectory();
 
-  async saveCookies(): Promise<void> {
-    try {
-      const cookies = await this.page!.cookies();
-      fs.writeFileSync(this.cookiesPath, JSON.stringify(cookies, null, 2));
-      console.log("Cookies saved successfully");
-    } catch (error) {
-      console.error("Error saving cookies:", error);
-    }
+  constructor(options: ForumScraperOptions = {}) {
+    this.options = options;
+    this.session = new ForumSession();
   }
 
-  private async handleCookieConsent(): Promise<void> {
-    try {
-      // Check if cookie consent button exists
-      const cookieButton = await this.page!.$(
-        'a[href*="/misc/cookies"][class*="button--notice"]'
-      );
-
-      if (cookieButton) {
-        console.log(
-          "Cookie consent dialog found, clicking Accept all cookies..."
-        );
-        await cookieButton.click();
-        await this.delay(1000); // Wait for dialog to close
-        console.log("Cookie consent accepted");
-      }
-    } catch (error) {
-      console.log(
-        "No cookie consent dialog found or error handling it:",
-        error
-      );
-    }
+  async initialize(): Promise<void> {
+    await this.session.launch();
   }
 
-  async checkLoginStatus(): Promise<boolean> {
-    try {
-      await this.page!.goto(this.FORUM_URL, {
-        waitUntil: "networkidle2",
-      });
-
-      // Handle cookie consent first
-      await this.handleCookieConsent();
-
-      // Check if user account link exists (means we're logged in)
-      const userAccountLink = await this.page!.$('a[href="/account/"]');
-      return !!userAccountLink;
-    } catch (error) {
-      console.error("Error checking login status:", error);
-      return false;
-    }
+  async ensureLoggedIn(): Promise<boolean> {
+    return this.session.ensureLoggedIn();
   }
 
-  async login(): Promise<boolean> {
+  /**
+   * Open the first listing page of a forum and read its last page number
+   */
+  private async getLastPageNumber(forum: ForumNode): Promise<number> {
     try {
-      console.log("Attempting to login...");
-
-      // Navigate to the forum page first
-      await this.page!.goto(this.LOGIN_URL, {
+      await this.session.goto(forum.url, {
         waitUntil: "networkidle2",
+        timeout: 30000,
       });
-
-      // Handle cookie consent first
-      await this.handleCookieConsent();
-
-      // Wait a bit for the page to fully load
-      await this.delay(2000);
-
-      // Try multiple selectors for the login link
-      let loginElement = await this.page!.$('a[href="/login/"]');
-
-      if (!loginElement) {
-        loginElement = await this.page!.$("a.p-navgroup-link--logIn");
-      }
-
-      if (!loginElement) {
-        console.log("Login link not found - might already be logged in");
-        return true;
-      }
-
-      await loginElement.click();
-      console.log("Clicked login link, waiting for modal to open...");
-      // Wait a bit for modal to start opening
-      await this.delay(2000);
-
-      // Try multiple selectors for the login form
-      let loginForm = await this.page!.$('input[name="login"]');
-
-      if (!loginForm) {
-        console.log(
-          "Still no login form found, taking screenshot for debugging..."
-        );
-        await this.page!.screenshot({ path: "debug-login.png" });
-        console.log("Screenshot saved as debug-login.png");
-        return false;
-      }
-
-      console.log("Login form found, proceeding with login...");
-
-      // Add a small delay to ensure modal is fully loaded
-      await this.delay(1000);
-
-      // Clear any existing text and fill in credentials
-      await this.page!.focus('input[name="login"]');
-      await this.page!.keyboard.down("Control");
-      await this.page!.keyboard.press("KeyA");
-      await this.page!.keyboard.up("Control");
-      await this.page!.type('input[name="login"]', this.credentials.username);
-
-      await this.page!.focus('input[name="password"]');
-      await this.page!.keyboard.down("Control");
-      await this.page!.keyboard.press("KeyA");
-      await this.page!.keyboard.up("Control");
-      await this.page!.type(
-        'input[name="password"]',
-        this.credentials.password
-      );
-
-      // Alternative approach - try multiple selectors for the submit button
-      let submitButton = await this.page!.$(
-        'button[type="submit"].button--primary.button--icon--login'
+      const lastPageNumber = await evaluateParser(
+        this.session.page!,
+        this.session.site.parsers.lastPageNumber
       );
 
-      if (submitButton) {
-        await submitButton.click();
-        console.log("Submitted login form...");
-      } else {
-        console.log("Submit button not found");
-        return false;
-      }
-
-      // Wait for the modal to close and page to update
-      await this.delay(3000);
-
-      // Check if login was successful by looking for user account link
-      const userAccountLink = await this.page!.$('a[href="/account/"]');
-
-      if (userAccountLink) {
-        console.log("Login successful!");
-        await this.saveCookies();
-        return true;
-      } else {
-        console.log("Login failed - user account link not found");
-        return false;
-      }
-    } catch (error) {
-      console.error("Error during login:", error);
-      return false;
-    }
-  }
-
-  async ensureLoggedIn(): Promise<boolean> {
-    // Try to load existing cookies first
-    const cookiesLoaded = await this.loadCookies();
-
-    if (cookiesLoaded) {
-      // Check if we're still logged in with the cookies
-      const isLoggedIn = await this.checkLoginStatus();
-      if (isLoggedIn) {
-        console.log("Already logged in with saved cookies");
-        return true;
-      }
-    }
-
-    // If not logged in, attempt login
-    return await this.login();
-  }
-
-  // Add method to get the last page number
-  private async getLastPageNumber(): Promise<number> {
-    try {
-      const lastPageNumber = await this.page!.evaluate(() => {
-        const document = (globalThis as any).document;
-        const pageNav = document.querySelector(".pageNav-main");
-        if (!pageNav) return 1;
-
-        const lastPageLink = pageNav.querySelector("li:last-child a");
-        if (!lastPageLink) return 1;
-
-        const href = lastPageLink.getAttribute("href");
-        const match = href.match(/page-(\d+)$/);
-        return match ? parseInt(match[1]) : 1;
-      });
-
       console.log(`Detected last page: ${lastPageNumber}`);
       return lastPageNumber;
     } catch (error) {
@@ -264,29 +55,41 @@ class ForumScraper {
     }
   }
 
-  // Update scrapeForumThreads to save to MySQL
-  async scrapeForumThreads(): Promise<ForumThreadData[]> {
+  /**
+   * Scrape the listing pages of one forum, saving each page's threads
+   */
+  async scrapeForumThreads(forum: ForumNode): Promise<ForumThreadData[]> {
     try {
-      console.log("Scraping forum threads...");
+      console.log(`Scraping threads of ${forum.name} (${forum.forumId})...`);
 
       // First, get the last page number
-      const lastPageNumber = await this.getLastPageNumber();
+      const detectedLastPage = await this.getLastPageNumber(forum);
+      const firstPageNumber = Math.max(1, this.options.startPage || 1);
+      const pageLimit = this.options.endPage
+        ? this.options.endPage
+        : forum.maxPages > 0
+        ? firstPageNumber + forum.maxPages - 1
+        : detectedLastPage;
+      const lastPageNumber = Math.min(pageLimit, detectedLastPage);
       const allThreads: ForumThreadData[] = [];
       let failedPages: number[] = [];
 
-      // Loop through ALL pages (no limit)
-      for (let pageNum = 1; pageNum <= lastPageNumber; pageNum++) {
+      // Loop through all pages in the requested range
+      for (
+        let pageNum = firstPageNumber;
+        pageNum <= lastPageNumber;
+        pageNum++
+      ) {
         try {
           console.log(`Scraping page ${pageNum} of ${lastPageNumber}...`);
 
-          const pageUrl =
-            pageNum === 1 ? this.FORUM_URL : `${this.FORUM_URL}page-${pageNum}`;
+          const pageUrl = this.session.site.listingPageUrl(forum.url, pageNum);
 
           // Navigate to page with retry logic
           let navigationSuccess = false;
           for (let retry = 0; retry < 3; retry++) {
             try {
-              await this.page!.goto(pageUrl, {
+              await this.session.goto(pageUrl, {
                 waitUntil: "networkidle2",
                 timeout: 30000, // Increase timeout to 30 seconds
               });
@@ -312,21 +115,17 @@ class ForumScraper {
           }
 
           // Handle cookie consent on first page only
-          if (pageNum === 1) {
-            await this.handleCookieConsent();
+          if (pageNum === firstPageNumber) {
+            await this.session.handleCookieConsent();
           }
 
           // Wait for threads to load with multiple fallback strategies
           let threadsLoaded = false;
-          const selectors = [
-            ".structItem",
-            ".structItem-container",
-            ".thread-list",
-          ];
-
-          for (const selector of selectors) {
+          for (const selector of this.session.site.selectors.threadList) {
             try {
-              await this.page!.waitForSelector(selector, { timeout: 15000 });
+              await this.session.page!.waitForSelector(selector, {
+                timeout: 15000,
+              });
               threadsLoaded = true;
               console.log(`Found threads using selector: ${selector}`);
               break;
@@ -341,7 +140,7 @@ class ForumScraper {
             );
 
             // Check if page loaded correctly by looking for any forum-related content
-            const pageContent = await this.page!.evaluate(() => {
+            const pageContent = await this.session.page!.evaluate(() => {
               return (globalThis as any).document.body.innerText;
             });
 
@@ -363,83 +162,10 @@ class ForumScraper {
             );
           }
 
-          const threads = await this.page!.evaluate(() => {
-            const threadElements = (
-              globalThis as any
-            ).document.querySelectorAll(".structItem");
-            const threads: any[] = [];
-
-            threadElements.forEach((element: any) => {
-              try {
-                // Extract thread ID from data attribute
-                const threadIdStr =
-                  element.getAttribute("data-thread-id") ||
-                  element.className.match(/js-threadListItem-(\d+)/)?.[1] ||
-                  "";
-                
-                const threadId = parseInt(threadIdStr) || 0;
-
-                const titleElement = element.querySelector(
-                  ".structItem-title a"
-                );
-                const title = titleElement?.textContent?.trim() || "";
-
-                // Extract thread URL from the title link
-                const threadUrl = titleElement?.getAttribute("href") || "";
-
-                const creatorElement = element.querySelector(
-                  ".structItem-minor .username"
-                );
-                const creator = creatorElement?.textContent?.trim() || "";
-
-                const creationDateElement = element.querySelector(
-                  ".structItem-minor time"
-                );
-                const creationDate =
-                  creationDateElement?.getAttribute("datetime") || "";
-
-                const repliesElement = element.querySelector(
-                  ".structItem-cell--meta dl:nth-child(1) dd"
-                );
-                const replies = repliesElement?.textContent?.trim() || "0";
-
-                const viewsElement = element.querySelector(
-                  ".structItem-cell--meta dl:nth-child(2) dd"
-                );
-                const views = viewsElement?.textContent?.trim() || "0";
-
-                const lastReplyElement = element.querySelector(
-                  ".structItem-cell--latest time"
-                );
-                const lastReplyDate =
-                  lastReplyElement?.getAttribute("datetime") || "";
-
-                const lastReplierElement = element.querySelector(
-                  ".structItem-cell--latest .username"
-                );
-                const lastReplier =
-                  lastReplierElement?.textContent?.trim() || "";
-
-                if (title && threadId > 0) {
-                  threads.push({
-                    threadId,
-                    title,
-                    creator,
-                    creationDate,
-                    replies,
-                    views,
-                    lastReplyDate,
-                    lastReplier,
-                    threadUrl, // Add thread URL
-                  });
-                }
-              } catch (error) {
-                console.error("Error parsing thread element:", error);
-              }
-            });
-
-            return threads;
-          });
+          const threads = await evaluateParser(
+            this.session.page!,
+            this.session.site.parsers.threadListing
+          );
 
           if (threads.length === 0) {
             console.log(
@@ -453,12 +179,12 @@ class ForumScraper {
             );
 
             // Save to MySQL database after each page
-            await this.saveThreadsToDatabase(threads);
+            await this.saveThreadsToDatabase(threads, forum.forumId);
           }
 
           // Add delay between pages to avoid being blocked
           if (pageNum < lastPageNumber) {
-            await this.delay(2000);
+            await this.delay(forum.pageDelayMs);
           }
         } catch (pageError) {
           console.error(`Error scraping page ${pageNum}:`, pageError);
@@ -473,11 +199,16 @@ class ForumScraper {
       }
 
       console.log(
-        `Total scraped ${allThreads.length} threads from ${lastPageNumber} pages`
+        `Total scraped ${allThreads.length} threads from ${Math.max(
+          lastPageNumber - firstPageNumber + 1,
+          0
+        )} pages of ${forum.name}`
       );
 
       if (failedPages.length > 0) {
-        console.log(`Failed pages: ${failedPages.join(", ")}`);
+        console.log(
+          `Failed pages of ${forum.name}: ${failedPages.join(", ")}`
+        );
         console.log(`You may want to retry these pages later`);
       }
 
@@ -488,22 +219,47 @@ class ForumScraper {
     }
   }
 
-  // Replace saveThreadsToFile with saveThreadsToDatabase
   private async saveThreadsToDatabase(
-    threads: ForumThreadData[]
+    threads: ForumThreadData[],
+    forumId: number
   ): Promise<void> {
     try {
+      await this.users.recordNames(
+        threads.map((thread) => ({
+          userId: thread.creatorId,
+          username: thread.creator,
+        }))
+      );
+      await this.users.recordNames(
+        threads.map((thread) => ({
+          userId: thread.lastReplierId,
+          username: thread.lastReplier,
+        })),
+        false
+      );
+
       for (const threadData of threads) {
         await ForumThread.upsert({
           threadId: threadData.threadId,
           title: threadData.title,
           creator: threadData.creator,
-          creationDate: threadData.creationDate,
-          replies: threadData.replies,
-          views: threadData.views,
-          lastReplyDate: threadData.lastReplyDate,
+          creatorId: threadData.creatorId,
+          creationDate: parseForumDate(threadData.creationDate),
+          replies: parseCount(threadData.replies),
+          views: parseCount(threadData.views),
+          lastReplyDate:
+            parseForumDate(threadData.lastReplyDate) ||
+            parseForumDate(threadData.creationDate),
           lastReplier: threadData.lastReplier,
+          lastReplierId: threadData.lastReplierId,
           threadUrl: threadData.threadUrl,
+          prefixId: threadData.prefixId,
+          prefix: threadData.prefix,
+          sticky: threadData.sticky,
+          locked: threadData.locked,
+          pageCount: threadData.pageCount,
+          forumId,
+          missingSince: null,
         });
       }
       console.log(`Saved ${threads.length} threads to database`);
@@ -512,62 +268,23 @@ class ForumScraper {
     }
   }
 
-  async scrapeThreadContent(threadUrl: string): Promise<any> {
+  /**
+   * Parse the posts on the first page of a thread
+   */
+  async scrapeThreadContent(threadUrl: string): Promise<PostData[]> {
     try {
       console.log(`Scraping thread content: ${threadUrl}`);
 
-      await this.page!.goto(threadUrl, {
+      const { site } = this.session;
+      await this.session.goto(site.threadPageUrl(threadUrl, 1), {
         waitUntil: "networkidle2",
       });
 
-      // Wait for posts to load
-      await this.page!.waitForSelector(".message", { timeout: 10000 });
-
-      const posts = await this.page!.evaluate(() => {
-        const postElements = (globalThis as any).document.querySelectorAll(
-          ".message"
-        );
-        const posts: any[] = [];
-
-        postElements.forEach((element: any) => {
-          try {
-            const authorElement = element.querySelector(
-              ".message-userDetails .username"
-            );
-            const author = authorElement?.textContent?.trim() || "";
-
-            const dateElement = element.querySelector(
-              ".message-userDetails time"
-            );
-            const date = dateElement?.getAttribute("datetime") || "";
-
-            const contentElement = element.querySelector(
-              ".message-content .bbWrapper"
-            );
-            const content = contentElement?.textContent?.trim() || "";
-
-            const postNumberElement = element.querySelector(
-              ".message-attribution-opposite a"
-            );
-            const postNumber = postNumberElement?.textContent?.trim() || "";
-
-            if (author && content) {
-              posts.push({
-                author,
-                date,
-                content,
-                postNumber,
-              });
-            }
-          } catch (error) {
-            console.error("Error parsing post element:", error);
-          }
-        });
-
-        return posts;
-      });
-
-      return posts;
+      return await evaluateParser(
+        this.session.page!,
+        site.parsers.pagePosts,
+        site.siteUrl
+      );
     } catch (error) {
       console.error("Error scraping thread content:", error);
       return [];
@@ -575,17 +292,18 @@ class ForumScraper {
   }
 
   async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      console.log("Browser closed");
-    }
+    await this.session.close();
   }
 
   private async delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
-  async run(): Promise<void> {
+  /**
+   * Scrape the listing of every selected forum
+   * @returns true if at least one thread was scraped
+   */
+  async run(): Promise<boolean> {
     try {
       await this.initialize();
 
@@ -594,12 +312,25 @@ class ForumScraper {
         throw new Error("Failed to login");
       }
 
-      const threads = await this.scrapeForumThreads();
+      const forums = await new ForumDirectory(this.session).resolve(
+        this.options
+      );
+      if (forums.length === 0) {
+        throw new Error("No forums to scrape");
+      }
+
+      let totalThreads = 0;
+      for (const forum of forums) {
+        const threads = await this.scrapeForumThreads(forum);
+        totalThreads += threads.length;
+      }
 
       // Display summary of scraped threads
-      console.log(`\nScraping completed! Total threads: ${threads.length}`);
+      console.log(`\nScraping completed! Total threads: ${totalThreads}`);
+      return totalThreads > 0;
     } catch (error) {
       console.error("Error in main execution:", error);
+      return false;
     } finally {
       await this.close();
     }
@@ -608,9 +339,3 @@ class ForumScraper {
 
 // Export the class for use in other files
 export { ForumScraper };
-
-// Run the scraper if this file is executed directly
-if (require.main === module) {
-  const scraper = new ForumScraper();
-  scraper.run().catch(console.error);
-}
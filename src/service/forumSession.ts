@@ -0,0 +1,293 @@
+import puppeteer, { Browser, Page, HTTPResponse, GoToOptions } from "puppeteer";
+import * as fs from "fs";
+import * as path from "path";
+import dotenv from "dotenv";
+import {
+  createTempUserDataDir,
+  deleteTempUserDataDir,
+  clearSystemCaches,
+  clearBrowserCache,
+  createBrowserConfig,
+  delay,
+} from "../utils";
+import { createSiteAdapter, LoginCredentials, SiteAdapter } from "../site";
+dotenv.config();
+
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36";
+
+/**
+ * Shared browser session for all scrapers.
+ * Owns the browser launch, cookie persistence, cookie consent handling,
+ * login detection and re-login when the site logs us out mid-run. What
+ * the pages look like is left to the site adapter.
+ */
+class ForumSession {
+  browser: Browser | null = null;
+  page: Page | null = null;
+  private tempDir: string = "";
+  private cookiesPath: string;
+  private credentials: LoginCredentials;
+  private mode: string;
+
+  // URL shapes, selectors and parsers of the forum software (SITE_ADAPTER)
+  readonly site: SiteAdapter;
+
+  constructor(site: SiteAdapter = createSiteAdapter()) {
+    this.site = site;
+    this.cookiesPath = path.join(__dirname, "../../cookies.json");
+    this.credentials = {
+      username: process.env.FORUM_USERNAME || "",
+      password: process.env.FORUM_PASSWORD || "",
+    };
+    this.mode = process.env.NODE_ENV || "";
+  }
+
+  /**
+   * Launch the browser and open the main page
+   */
+  async launch(): Promise<Page> {
+    console.log("Initializing browser...");
+    this.tempDir = createTempUserDataDir();
+    this.browser = await puppeteer.launch(
+      createBrowserConfig(this.mode, this.tempDir)
+    );
+
+    this.page = await this.browser.newPage();
+
+    // Clear cache and cookies for production mode
+    if (this.mode === "production") {
+      await clearBrowserCache(this.page);
+      await clearSystemCaches();
+    }
+
+    // Set user agent to avoid detection
+    await this.page.setUserAgent(USER_AGENT);
+
+    return this.page;
+  }
+
+  /**
+   * Close the browser and relaunch it with a fresh profile, then log in again
+   */
+  async restart(): Promise<boolean> {
+    await this.close();
+
+    // Clean up temp directory
+    if (this.tempDir) {
+      await deleteTempUserDataDir(this.mode);
+    }
+
+    await this.launch();
+    return this.ensureLoggedIn();
+  }
+
+  async close(): Promise<void> {
+    if (this.browser) {
+      await this.browser.close();
+      console.log("Browser closed");
+    }
+    this.browser = null;
+    this.page = null;
+  }
+
+  /**
+   * Open an extra page sharing the main page's user agent and cookies
+   */
+  async openPage(): Promise<Page> {
+    if (!this.browser) {
+      throw new Error("Browser not initialized");
+    }
+
+    const page = await this.browser.newPage();
+    await page.setUserAgent(USER_AGENT);
+
+    // Copy cookies from the main page to ensure authentication
+    if (this.page) {
+      const cookies = await this.page.cookies();
+      await page.setCookie(...cookies);
+    }
+
+    return page;
+  }
+
+  /**
+   * Cookie header carrying the browser session, for downloads made
+   * outside the browser
+   */
+  async cookieHeader(): Promise<string> {
+    if (!this.page) {
+      return "";
+    }
+    const cookies = await this.page.cookies();
+    return cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join("; ");
+  }
+
+  async loadCookies(): Promise<boolean> {
+    try {
+      if (fs.existsSync(this.cookiesPath)) {
+        const cookies = JSON.parse(fs.readFileSync(this.cookiesPath, "utf8"));
+        await this.page!.setCookie(...cookies);
+        console.log("Cookies loaded successfully");
+        return true;
+      }
+    } catch (error) {
+      console.log("No valid cookies found or error loading cookies:", error);
+    }
+    return false;
+  }
+
+  async saveCookies(): Promise<void> {
+    try {
+      const cookies = await this.page!.cookies();
+      fs.writeFileSync(this.cookiesPath, JSON.stringify(cookies, null, 2));
+      console.log("Cookies saved successfully");
+    } catch (error) {
+      console.error("Error saving cookies:", error);
+    }
+  }
+
+  async handleCookieConsent(): Promise<void> {
+    try {
+      // Check if cookie consent button exists
+      const cookieButton = await this.page!.$(
+        this.site.selectors.cookieConsent
+      );
+
+      if (cookieButton) {
+        await cookieButton.click();
+        await delay(1000); // Wait for dialog to close
+        console.log("Cookie consent accepted");
+      }
+    } catch (error) {
+      // No cookie consent dialog
+    }
+  }
+
+  /**
+   * Check whether the current page shows a logged-in user
+   */
+  async isLoggedIn(): Promise<boolean> {
+    // User account link only exists when we're logged in
+    const userAccountLink = await this.page!.$(this.site.selectors.loggedIn);
+    return !!userAccountLink;
+  }
+
+  /**
+   * Check whether the current page is rendered for a guest.
+   * Requires a visible login link so error pages don't trigger a re-login.
+   */
+  async isLoggedOut(): Promise<boolean> {
+    if (await this.isLoggedIn()) {
+      return false;
+    }
+
+    for (const selector of this.site.selectors.loginLinks) {
+      if (await this.page!.$(selector)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async checkLoginStatus(): Promise<boolean> {
+    try {
+      await this.page!.goto(this.site.landingUrl(), {
+        waitUntil: "networkidle2",
+        timeout: 30000,
+      });
+
+      // Handle cookie consent first
+      await this.handleCookieConsent();
+
+      return await this.isLoggedIn();
+    } catch (error) {
+      console.error("Error checking login status:", error);
+      return false;
+    }
+  }
+
+  async login(): Promise<boolean> {
+    try {
+      console.log("Attempting to login...");
+
+      // Navigate to the forum page first
+      await this.page!.goto(this.site.landingUrl(), {
+        waitUntil: "networkidle2",
+      });
+
+      // Handle cookie consent first
+      await this.handleCookieConsent();
+
+      // Wait a bit for the page to fully load
+      await delay(2000);
+
+      const submitted = await this.site.submitLogin(
+        this.page!,
+        this.credentials
+      );
+      if (!submitted) {
+        return false;
+      }
+
+      // Wait for the modal to close and page to update
+      await delay(3000);
+
+      // Check if login was successful by looking for user account link
+      if (await this.isLoggedIn()) {
+        console.log("Login successful!");
+        await this.saveCookies();
+        return true;
+      } else {
+        console.log("Login failed - user account link not found");
+        return false;
+      }
+    } catch (error) {
+      console.error("Error during login:", error);
+      return false;
+    }
+  }
+
+  async ensureLoggedIn(): Promise<boolean> {
+    // Try to load existing cookies first
+    const cookiesLoaded = await this.loadCookies();
+
+    if (cookiesLoaded) {
+      // Check if we're still logged in with the cookies
+      const isLoggedIn = await this.checkLoginStatus();
+      if (isLoggedIn) {
+        console.log("Already logged in with saved cookies");
+        return true;
+      }
+    }
+
+    // If not logged in, attempt login
+    return await this.login();
+  }
+
+  /**
+   * Navigate the main page, logging back in transparently if the site
+   * served the page to a guest (expired session, server-side logout)
+   */
+  async goto(
+    url: string,
+    options: GoToOptions = { waitUntil: "networkidle2" }
+  ): Promise<HTTPResponse | null> {
+    const response = await this.page!.goto(url, options);
+
+    if (await this.isLoggedOut()) {
+      console.log(`Session logged out while loading ${url}, logging in again...`);
+
+      const loggedIn = await this.login();
+      if (!loggedIn) {
+        throw new Error("Failed to login again after session was logged out");
+      }
+
+      return this.page!.goto(url, options);
+    }
+
+    return response;
+  }
+}
+
+export { ForumSession };
@@ -1,226 +1,50 @@
-import puppeteer, { Browser, Page } from "puppeteer";
-import * as fs from "fs";
-import * as path from "path";
 import dotenv from "dotenv";
+import { Op } from "sequelize";
 import { ForumThread } from "../model/ForumThread";
+import { ForumSession } from "./forumSession";
+import { ForumDirectory, ForumSelection } from "./forumDirectory";
+import { RemovedContentTracker } from "./removedContent";
+import { listingRowChanged } from "./threadMetadata";
+import { ForumUserDirectory } from "./forumUsers";
+import { ForumNode } from "../config/forums";
+import { evaluateParser } from "../parsers/evaluate";
+import { ThreadUpdateData } from "../parsers/types";
+import { parseCount, parseForumDate } from "../parsers/values";
 dotenv.config();
 
-interface ThreadUpdateData {
-  threadId: number;
-  replies: string;
-  views: string;
-  lastReplyDate: string;
-  lastReplier: string;
-}
-
-interface LoginCredentials {
-  username: string;
-  password: string;
-}
-
 class ForumThreadLatestUpdateChecker {
-  private browser: Browser | null = null;
-  private page: Page | null = null;
-  private cookiesPath: string;
-  private credentials: LoginCredentials;
-  private mode: string;
-
-  // Site URLs
-  private readonly SITE_URL = "https://www.lpsg.com";
-  private readonly FORUM_URL = `${this.SITE_URL}/forums/models-and-celebrities.17/`;
-  private readonly LOGIN_URL = `${this.SITE_URL}/login/`;
-
-  constructor() {
-    this.cookiesPath = path.join(__dirname, "../../cookies.json");
-    this.credentials = {
-      username: process.env.FORUM_USERNAME || "",
-      password: process.env.FORUM_PASSWORD || "",
-    };
-    this.mode = process.env.NODE_ENV || "";
+  private session: ForumSession;
+  private selection: ForumSelection;
+  private removedContent = new RemovedContentTracker();
+  private users = new ForumUserDirectory();
+
+  constructor(selection: ForumSelection = {}) {
+    this.selection = selection;
+    this.session = new ForumSession();
   }
 
   async initialize(): Promise<void> {
-    console.log("Initializing browser...");
-    this.browser = await puppeteer.launch({
-      headless: this.mode === "production" ? true : true,
-      args: ["--no-sandbox", "--disable-setuid-sandbox"],
-      defaultViewport: { width: 1280, height: 720 },
-    });
-
-    this.page = await this.browser.newPage();
-
-    await this.page.setUserAgent(
-      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
-    );
-  }
-
-  async loadCookies(): Promise<boolean> {
-    try {
-      if (fs.existsSync(this.cookiesPath)) {
-        const cookies = JSON.parse(fs.readFileSync(this.cookiesPath, "utf8"));
-        await this.page!.setCookie(...cookies);
-        console.log("Cookies loaded successfully");
-        return true;
-      }
-    } catch (error) {
-      console.log("No valid cookies found or error loading cookies:", error);
-    }
-    return false;
-  }
-
-  async saveCookies(): Promise<void> {
-    try {
-      const cookies = await this.page!.cookies();
-      fs.writeFileSync(this.cookiesPath, JSON.stringify(cookies, null, 2));
-      console.log("Cookies saved successfully");
-    } catch (error) {
-      console.error("Error saving cookies:", error);
-    }
+    await this.session.launch();
   }
 
-  private async handleCookieConsent(): Promise<void> {
-    try {
-      const cookieButton = await this.page!.$(
-        'a[href*="/misc/cookies"][class*="button--notice"]'
-      );
-
-      if (cookieButton) {
-        await cookieButton.click();
-        await this.delay(1000);
-      }
-    } catch (error) {}
-  }
-
-  async checkLoginStatus(): Promise<boolean> {
-    try {
-      await this.page!.goto(this.FORUM_URL, {
-        waitUntil: "networkidle2",
-      });
-
-      await this.handleCookieConsent();
-
-      const userAccountLink = await this.page!.$('a[href="/account/"]');
-      return !!userAccountLink;
-    } catch (error) {
-      console.error("Error checking login status:", error);
-      return false;
-    }
+  async ensureLoggedIn(): Promise<boolean> {
+    return this.session.ensureLoggedIn();
   }
 
-  async login(): Promise<boolean> {
+  /**
+   * Open the first listing page of a forum and read its last page number
+   */
+  private async getLastPageNumber(forum: ForumNode): Promise<number> {
     try {
-      console.log("Attempting to login...");
-
-      await this.page!.goto(this.LOGIN_URL, {
+      await this.session.goto(forum.url, {
         waitUntil: "networkidle2",
+        timeout: 30000,
       });
-
-      await this.handleCookieConsent();
-      await this.delay(2000);
-
-      let loginElement = await this.page!.$('a[href="/login/"]');
-
-      if (!loginElement) {
-        loginElement = await this.page!.$("a.p-navgroup-link--logIn");
-      }
-
-      if (!loginElement) {
-        console.log("Login link not found - might already be logged in");
-        return true;
-      }
-
-      await loginElement.click();
-      console.log("Clicked login link, waiting for modal to open...");
-      await this.delay(2000);
-
-      let loginForm = await this.page!.$('input[name="login"]');
-
-      if (!loginForm) {
-        console.log(
-          "Still no login form found, taking screenshot for debugging..."
-        );
-        await this.page!.screenshot({ path: "debug-login.png" });
-        console.log("Screenshot saved as debug-login.png");
-        return false;
-      }
-
-      console.log("Login form found, proceeding with login...");
-      await this.delay(1000);
-
-      await this.page!.focus('input[name="login"]');
-      await this.page!.keyboard.down("Control");
-      await this.page!.keyboard.press("KeyA");
-      await this.page!.keyboard.up("Control");
-      await this.page!.type('input[name="login"]', this.credentials.username);
-
-      await this.page!.focus('input[name="password"]');
-      await this.page!.keyboard.down("Control");
-      await this.page!.keyboard.press("KeyA");
-      await this.page!.keyboard.up("Control");
-      await this.page!.type(
-        'input[name="password"]',
-        this.credentials.password
-      );
-
-      let submitButton = await this.page!.$(
-        'button[type="submit"].button--primary.button--icon--login'
+      const lastPageNumber = await evaluateParser(
+        this.session.page!,
+        this.session.site.parsers.lastPageNumber
       );
 
-      if (submitButton) {
-        await submitButton.click();
-        console.log("Submitted login form...");
-      } else {
-        console.log("Submit button not found");
-        return false;
-      }
-
-      await this.delay(3000);
-
-      const userAccountLink = await this.page!.$('a[href="/account/"]');
-
-      if (userAccountLink) {
-        console.log("Login successful!");
-        await this.saveCookies();
-        return true;
-      } else {
-        console.log("Login failed - user account link not found");
-        return false;
-      }
-    } catch (error) {
-      console.error("Error during login:", error);
-      return false;
-    }
-  }
-
-  async ensureLoggedIn(): Promise<boolean> {
-    const cookiesLoaded = await this.loadCookies();
-
-    if (cookiesLoaded) {
-      const isLoggedIn = await this.checkLoginStatus();
-      if (isLoggedIn) {
-        console.log("Already logged in with saved cookies");
-        return true;
-      }
-    }
-
-    return await this.login();
-  }
-
-  private async getLastPageNumber(): Promise<number> {
-    try {
-      const lastPageNumber = await this.page!.evaluate(() => {
-        const document = (globalThis as any).document;
-        const pageNav = document.querySelector(".pageNav-main");
-        if (!pageNav) return 1;
-
-        const lastPageLink = pageNav.querySelector("li:last-child a");
-        if (!lastPageLink) return 1;
-
-        const href = lastPageLink.getAttribute("href");
-        const match = href.match(/page-(\d+)$/);
-        return match ? parseInt(match[1]) : 1;
-      });
-
       console.log(`Detected last page: ${lastPageNumber}`);
       return lastPageNumber;
     } catch (error) {
@@ -230,10 +54,10 @@ class ForumThreadLatestUpdateChecker {
   }
 
   /**
-   * Check for updates on forum listing pages
-   * Returns true if at least one thread has the same lastReplyDate as in DB (no updates needed)
+   * Check every selected forum's listing pages for updated threads
+   * @returns true if the check ran against at least one stored thread
    */
-  async checkForUpdates(): Promise<boolean> {
+  async checkForUpdates(forums: ForumNode[]): Promise<boolean> {
     try {
       console.log("Checking for thread updates...");
 
@@ -249,29 +73,74 @@ class ForumThreadLatestUpdateChecker {
 
       console.log(`Checking ${dbThreads.length} threads from database`);
 
-      // Create a map of threadId -> lastReplyDate from DB
-      const dbThreadMap = new Map<number, string>();
+      const dbThreadMap = new Map<number, ForumThread>();
       dbThreads.forEach((thread) => {
-        dbThreadMap.set(thread.threadId, thread.lastReplyDate);
+        dbThreadMap.set(thread.threadId, thread);
       });
 
+      const updatedThreads: ThreadUpdateData[] = [];
+      for (const forum of forums) {
+        updatedThreads.push(
+          ...(await this.checkForumForUpdates(forum, dbThreadMap))
+        );
+      }
+
+      // Update threads in database if there are changes
+      if (updatedThreads.length > 0) {
+        console.log(`Updating ${updatedThreads.length} threads in database...`);
+        await this.updateThreadsInDatabase(updatedThreads);
+        console.log("Database update completed");
+      }
+
+      return true;
+    } catch (error) {
+      console.error("Error checking for updates:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Walk one forum's listing, newest first, collecting threads whose
+   * lastReplyDate differs from the database. Stops at the first unchanged
+   * thread, since everything after it is older.
+   *
+   * Stored threads of the forum with a newer last reply than that thread
+   * should have been listed before it; those that were not are noted as
+   * missed, and marked missing when the next check misses them too.
+   * Reaching the end of the listing covers every stored thread.
+   */
+  private async checkForumForUpdates(
+    forum: ForumNode,
+    dbThreadMap: Map<number, ForumThread>
+  ): Promise<ThreadUpdateData[]> {
+    const updatedThreads: ThreadUpdateData[] = [];
+    try {
+      console.log(`Checking ${forum.name} (${forum.forumId}) for updates...`);
+
       // Get the last page number
-      const lastPageNumber = await this.getLastPageNumber();
+      const detectedLastPage = await this.getLastPageNumber(forum);
+      const lastPageNumber =
+        forum.maxPages > 0
+          ? Math.min(forum.maxPages, detectedLastPage)
+          : detectedLastPage;
       let foundMatchingThread = false;
-      let updatedThreads: ThreadUpdateData[] = [];
+      // Last reply of the unchanged thread the walk stopped at
+      let matchingLastReplyDate: Date | null = null;
+      // Any page that failed to load makes the missing check unreliable
+      let skippedPage = false;
+      const seenThreadIds: number[] = [];
 
       // Loop through all pages to check for updates
       for (let pageNum = 1; pageNum <= lastPageNumber; pageNum++) {
         try {
           console.log(`Checking page ${pageNum} of ${lastPageNumber}...`);
 
-          const pageUrl =
-            pageNum === 1 ? this.FORUM_URL : `${this.FORUM_URL}page-${pageNum}`;
+          const pageUrl = this.session.site.listingPageUrl(forum.url, pageNum);
 
           let navigationSuccess = false;
           for (let retry = 0; retry < 3; retry++) {
             try {
-              await this.page!.goto(pageUrl, {
+              await this.session.goto(pageUrl, {
                 waitUntil: "networkidle2",
                 timeout: 30000,
               });
@@ -292,24 +161,21 @@ class ForumThreadLatestUpdateChecker {
             console.error(
               `Failed to navigate to page ${pageNum} after 3 attempts, skipping...`
             );
+            skippedPage = true;
             continue;
           }
 
           if (pageNum === 1) {
-            await this.handleCookieConsent();
+            await this.session.handleCookieConsent();
           }
 
           // Wait for threads to load
           let threadsLoaded = false;
-          const selectors = [
-            ".structItem",
-            ".structItem-container",
-            ".thread-list",
-          ];
-
-          for (const selector of selectors) {
+          for (const selector of this.session.site.selectors.threadList) {
             try {
-              await this.page!.waitForSelector(selector, { timeout: 15000 });
+              await this.session.page!.waitForSelector(selector, {
+                timeout: 15000,
+              });
               threadsLoaded = true;
               break;
             } catch (selectorError) {
@@ -319,102 +185,69 @@ class ForumThreadLatestUpdateChecker {
 
           if (!threadsLoaded) {
             console.error(`No thread selectors found on page ${pageNum}`);
+            skippedPage = true;
             continue;
           }
 
-          const threads = await this.page!.evaluate(() => {
-            const document = (globalThis as any).document;
-            const threads: any[] = [];
-
-            // Get ONLY the normal threads container (NOT the sticky one)
-            // Sticky threads are in: .structItemContainer-group--sticky
-            // Normal threads are in: .structItemContainer-group (without --sticky)
-            const normalThreadsContainer = document.querySelector(
-              ".structItemContainer-group:not(.structItemContainer-group--sticky)"
-            );
-
-            if (!normalThreadsContainer) {
-              console.log("Normal threads container not found");
-              return [];
-            }
-
-            // Get thread elements from the normal container only
-            const threadElements =
-              normalThreadsContainer.querySelectorAll(".structItem");
-
-            threadElements.forEach((element: any) => {
-              try {
-                const threadIdStr =
-                  element.getAttribute("data-thread-id") ||
-                  element.className.match(/js-threadListItem-(\d+)/)?.[1] ||
-                  "";
-
-                const threadId = parseInt(threadIdStr) || 0;
-
-                const repliesElement = element.querySelector(
-                  ".structItem-cell--meta dl:nth-child(1) dd"
-                );
-                const replies = repliesElement?.textContent?.trim() || "0";
-
-                const viewsElement = element.querySelector(
-                  ".structItem-cell--meta dl:nth-child(2) dd"
-                );
-                const views = viewsElement?.textContent?.trim() || "0";
-
-                const lastReplyElement = element.querySelector(
-                  ".structItem-cell--latest time"
-                );
-                const lastReplyDate =
-                  lastReplyElement?.getAttribute("datetime") || "";
-
-                const lastReplierElement = element.querySelector(
-                  ".structItem-cell--latest .username"
-                );
-                const lastReplier =
-                  lastReplierElement?.textContent?.trim() || "";
-
-                if (threadId > 0 && lastReplyDate) {
-                  threads.push({
-                    threadId,
-                    replies,
-                    views,
-                    lastReplyDate,
-                    lastReplier,
-                  });
-                }
-              } catch (error) {
-                console.error("Error parsing thread element:", error);
-              }
-            });
-
-            return threads;
-          });
+          const threads = await evaluateParser(
+            this.session.page!,
+            this.session.site.parsers.threadUpdates
+          );
 
           console.log(`Found ${threads.length} threads on page ${pageNum}`);
+          seenThreadIds.push(...threads.map((thread) => thread.threadId));
+          if (pageNum === 1) {
+            await this.syncStickies(
+              forum.forumId,
+              threads.filter((thread) => thread.sticky)
+            );
+          }
 
           // Check each thread against the database
           for (const thread of threads) {
-            const dbLastReplyDate = dbThreadMap.get(thread.threadId);
+            if (thread.sticky) {
+              // Stickies stay on top whatever their last reply, so they
+              // say nothing about where the walk can stop
+              const stored = dbThreadMap.get(thread.threadId);
+              if (
+                stored &&
+                (stored.forumId !== forum.forumId ||
+                  listingRowChanged(stored, thread))
+              ) {
+                updatedThreads.push({ ...thread, forumId: forum.forumId });
+              }
+              continue;
+            }
+            const stored = dbThreadMap.get(thread.threadId);
+            if (stored && stored.forumId && stored.forumId !== forum.forumId) {
+              // Moved here from another forum: its last reply says nothing
+              // about where this forum's walk can stop
+              console.log(
+                `↪️ Thread ${thread.threadId} moved from forum ${stored.forumId}`
+              );
+              updatedThreads.push({ ...thread, forumId: forum.forumId });
+              continue;
+            }
+            if (stored) {
+              const dbLastReplyDate = stored.lastReplyDate;
+              const lastReplyDate = parseForumDate(thread.lastReplyDate);
 
-            if (dbLastReplyDate) {
               // Thread exists in DB, check if lastReplyDate matches
-              if (dbLastReplyDate === thread.lastReplyDate) {
+              if (
+                dbLastReplyDate &&
+                dbLastReplyDate.getTime() === lastReplyDate?.getTime()
+              ) {
                 console.log(
                   `✓ Thread ${thread.threadId} has same lastReplyDate as DB: ${thread.lastReplyDate}`
                 );
                 foundMatchingThread = true;
+                matchingLastReplyDate = dbLastReplyDate;
                 break; // Stop checking this page
               } else {
                 console.log(
-                  `✗ Thread ${thread.threadId} has different lastReplyDate - DB: ${dbLastReplyDate}, Current: ${thread.lastReplyDate}`
+                  `✗ Thread ${thread.threadId} has different lastReplyDate - DB: ${dbLastReplyDate?.toISOString()}, Current: ${thread.lastReplyDate}`
                 );
-                updatedThreads.push({
-                  threadId: thread.threadId,
-                  replies: thread.replies,
-                  views: thread.views,
-                  lastReplyDate: thread.lastReplyDate,
-                  lastReplier: thread.lastReplier,
-                });
+                updatedThreads.push({ ...thread, forumId: forum.forumId });
               }
             }
           }
@@ -429,25 +262,58 @@ class ForumThreadLatestUpdateChecker {
 
           // Add delay between pages
           if (pageNum < lastPageNumber) {
-            await this.delay(2000);
+            await this.delay(forum.pageDelayMs);
           }
         } catch (pageError) {
           console.error(`Error checking page ${pageNum}:`, pageError);
+          skippedPage = true;
           await this.delay(3000);
         }
       }
 
-      // Update threads in database if there are changes
-      if (updatedThreads.length > 0) {
-        console.log(`Updating ${updatedThreads.length} threads in database...`);
-        await this.updateThreadsInDatabase(updatedThreads);
-        console.log("Database update completed");
+      await this.removedContent.restoreThreads(seenThreadIds);
+      const readWholeListing =
+        !foundMatchingThread && lastPageNumber === detectedLastPage;
+      if (!skippedPage && (foundMatchingThread || readWholeListing)) {
+        await this.removedContent.markMissingThreads(
+          forum.forumId,
+          seenThreadIds,
+          matchingLastReplyDate
+        );
       }
-
-      return true;
     } catch (error) {
-      console.error("Error checking for updates:", error);
-      return false;
+      console.error(`Error checking ${forum.name} for updates:`, error);
+    }
+
+    return updatedThreads;
+  }
+
+  /**
+   * Clear the sticky flag of the forum's threads that are no longer pinned
+   * to the first listing page. The stickies shown are flagged when their
+   * rows are updated.
+   */
+  private async syncStickies(
+    forumId: number,
+    stickies: ThreadUpdateData[]
+  ): Promise<void> {
+    const stickyIds = stickies.map((thread) => thread.threadId);
+    const [count] = await ForumThread.update(
+      { sticky: false },
+      {
+        where: {
+          forumId,
+          sticky: true,
+          ...(stickyIds.length > 0
+            ? { threadId: { [Op.notIn]: stickyIds } }
+            : {}),
+        },
+      }
+    );
+    if (count > 0) {
+      console.log(
+        `📌 ${count} threads of forum ${forumId} are no longer sticky`
+      );
     }
   }
 
@@ -455,6 +321,14 @@ class ForumThreadLatestUpdateChecker {
     threads: ThreadUpdateData[]
   ): Promise<void> {
     try {
+      await this.users.recordNames(
+        threads.map((thread) => ({
+          userId: thread.lastReplierId,
+          username: thread.lastReplier,
+        })),
+        false
+      );
+
       const BATCH_SIZE = 50;
       const totalBatches = Math.ceil(threads.length / BATCH_SIZE);
 
@@ -467,13 +341,23 @@ class ForumThreadLatestUpdateChecker {
         );
 
         // Process all updates in this batch in parallel
-        const updatePromises = batch.map((threadData) =>
-          ForumThread.update(
+        const updatePromises = batch.map((threadData) => {
+          // Update rows carry no creation date to fall back on, so a reply
+          // date that does not parse keeps the stored one
+          const lastReplyDate = parseForumDate(threadData.lastReplyDate);
+          return ForumThread.update(
             {
-              replies: threadData.replies,
-              views: threadData.views,
-              lastReplyDate: threadData.lastReplyDate,
+              replies: parseCount(threadData.replies),
+              views: parseCount(threadData.views),
+              ...(lastReplyDate ? { lastReplyDate } : {}),
               lastReplier: threadData.lastReplier,
+              lastReplierId: threadData.lastReplierId,
+              prefixId: threadData.prefixId,
+              prefix: threadData.prefix,
+              sticky: threadData.sticky,
+              locked: threadData.locked,
+              pageCount: threadData.pageCount,
+              ...(threadData.forumId ? { forumId: threadData.forumId } : {}),
             },
             {
               where: { threadId: threadData.threadId },
@@ -482,8 +366,8 @@ class ForumThreadLatestUpdateChecker {
             console.log(
               `Updated thread ${threadData.threadId} - Replies: ${threadData.replies}, Views: ${threadData.views}`
             );
-          })
-        );
+          });
+        });
 
         await Promise.all(updatePromises);
         console.log(`✓ Completed batch ${batchNum}/${totalBatches}`);
@@ -496,17 +380,18 @@ class ForumThreadLatestUpdateChecker {
   }
 
   async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      console.log("Browser closed");
-    }
+    await this.session.close();
   }
 
   private async delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
-  async run(): Promise<void> {
+  /**
+   * Check the listing for updated threads
+   * @returns true if the check completed
+   */
+  async run(): Promise<boolean> {
     try {
       await this.initialize();
 
@@ -515,9 +400,13 @@ class ForumThreadLatestUpdateChecker {
         throw new Error("Failed to login");
       }
 
-      const foundMatch = await this.checkForUpdates();
+      const forums = await new ForumDirectory(this.session).resolve(
+        this.selection
+      );
+      return await this.checkForUpdates(forums);
     } catch (error) {
       console.error("Error in main execution:", error);
+      return false;
     } finally {
       await this.close();
     }
@@ -525,9 +414,3 @@ class ForumThreadLatestUpdateChecker {
 }
 
 export { ForumThreadLatestUpdateChecker };
-
-// Run the checker if this file is executed directly
-if (require.main === module) {
-  const checker = new ForumThreadLatestUpdateChecker();
-  checker.run().catch(console.error);
-}
@@ -0,0 +1,119 @@
+import { Op } from "sequelize";
+import { ForumUser, UsernameChange } from "../model/ForumUser";
+import { MemberProfileData } from "../parsers/types";
+import { parseCount, parseForumDate } from "../parsers/values";
+
+/**
+ * A member as shown next to a post or in a listing row
+ */
+export interface MemberName {
+  userId: number | null;
+  username: string;
+}
+
+/**
+ * Name history of a member after a scrape saw them as `username`
+ * @returns The new history, or null if the name is unchanged
+ */
+export const renameHistory = (
+  member: Pick<ForumUser, "username" | "nameHistory">,
+  username: string,
+  seenAt: Date
+): UsernameChange[] | null => {
+  if (!username || username === member.username) {
+    return null;
+  }
+  return [
+    ...(member.nameHistory || []),
+    { username: member.username, changedAt: seenAt.toISOString() },
+  ];
+};
+
+/**
+ * Keeps one forum_users row per member ID, following renames, and fills in
+ * the details read from profile pages
+ */
+class ForumUserDirectory {
+  /**
+   * Create rows for members not seen before and record renames
+   * @param renames Whether the names are current. Listings cache the last
+   * replier's name when the reply is posted, so those only link the ID.
+   */
+  async recordNames(members: MemberName[], renames = true): Promise<void> {
+    const names = new Map<number, string>();
+    for (const member of members) {
+      if (member.userId && member.username) {
+        names.set(member.userId, member.username);
+      }
+    }
+    if (names.size === 0) {
+      return;
+    }
+
+    const known = await ForumUser.findAll({
+      where: { userId: { [Op.in]: [...names.keys()] } },
+    });
+    const knownIds = new Set(known.map((user) => user.userId));
+
+    await ForumUser.bulkCreate(
+      [...names]
+        .filter(([userId]) => !knownIds.has(userId))
+        .map(([userId, username]) => ({ userId, username, nameHistory: [] })),
+      { ignoreDuplicates: true }
+    );
+
+    if (!renames) {
+      return;
+    }
+    const now = new Date();
+    for (const user of known) {
+      const username = names.get(user.userId)!;
+      const nameHistory = renameHistory(user, username, now);
+      if (nameHistory) {
+        console.log(
+          `🏷️  Member ${user.userId} renamed: ${user.username} → ${username}`
+        );
+        await user.update({ username, nameHistory });
+      }
+    }
+  }
+
+  /**
+   * Store the details of a profile page
+   * @param avatarMediaObjectId Stored avatar; undefined keeps the current one
+   */
+  async recordProfile(
+    profile: MemberProfileData,
+    avatarMediaObjectId?: number | null
+  ): Promise<ForumUser> {
+    await this.recordNames([profile]);
+    const user = (await ForumUser.findByPk(profile.userId))!;
+    return user.update({
+      joinDate: parseForumDate(profile.joinDate),
+      messageCount: profile.messages ? parseCount(profile.messages) : null,
+      reactionScore: profile.reactionScore
+        ? parseCount(profile.reactionScore)
+        : null,
+      ...(avatarMediaObjectId !== undefined ? { avatarMediaObjectId } : {}),
+      profileScrapedAt: new Date(),
+    });
+  }
+
+  /**
+   * Members whose profile was never read, or not since the cutoff
+   */
+  async staleProfiles(limit: number, olderThan: Date): Promise<ForumUser[]> {
+    return ForumUser.findAll({
+      where: {
+        [Op.or]: [
+          { profileScrapedAt: null },
+          { profileScrapedAt: { [Op.lt]: olderThan } },
+        ],
+      },
+      order: [["profileScrapedAt", "ASC"]],
+      limit,
+    });
+  }
+}
+
+export { ForumUserDirectory };
@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import { Op, WhereOptions } from "sequelize";
+import { MediaFailure } from "../model/MediaFailure";
+
+export interface MediaFailureInput {
+  threadId: number;
+  postId: number;
+  url: string;
+  thumbUrl?: string | null;
+  error: unknown;
+}
+
+export interface DueFailureOptions {
+  limit?: number;
+  maxAttempts?: number;
+  threadId?: number;
+}
+
+/**
+ * Thrown when no download method could fetch a media URL
+ */
+export class MediaDownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MediaDownloadError";
+  }
+}
+
+/**
+ * Thrown when downloading and storing one media file takes too long
+ */
+export class MediaTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MediaTimeoutError";
+  }
+}
+
+// Retrying cannot fix these: the URL serves something that is not media
+const PERMANENT_ERRORS = ["UnsupportedMediaError"];
+
+const RETRY_BASE_MS = 15 * 60 * 1000; // 15 minutes
+const RETRY_MAX_MS = 24 * 60 * 60 * 1000; // 1 day
+
+const hashUrl = (url: string): string =>
+  createHash("sha256").update(url).digest("hex");
+
+/**
+ * Wait before the next attempt after the given number of failed ones:
+ * 15 minutes, doubling each time, at most a day
+ */
+export const mediaRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+/**
+ * Records media that scrapes failed to store, so it can be retried later
+ * without re-scraping the thread
+ */
+class MediaFailureLedger {
+  private readonly MAX_ATTEMPTS = parseInt(
+    process.env.MEDIA_RETRY_MAX_ATTEMPTS || "5"
+  );
+
+  private nextAttemptAt(attempts: number): Date {
+    return new Date(Date.now() + mediaRetryDelay(attempts));
+  }
+
+  /**
+   * Record a failed attempt, adding to the attempt count if the URL
+   * failed before
+   */
+  async record(failure: MediaFailureInput): Promise<MediaFailure> {
+    const error = failure.error;
+    const errorClass =
+      error instanceof Error ? error.name || "Error" : "Error";
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const urlHash = hashUrl(failure.url);
+
+    const existing = await MediaFailure.findOne({
+      where: { postId: failure.postId, urlHash },
+    });
+    if (existing) {
+      const attempts = existing.attempts + 1;
+      return await existing.update({
+        threadId: failure.threadId,
+        thumbUrl: failure.thumbUrl || null,
+        errorClass,
+        errorMessage,
+        attempts,
+        lastAttemptAt: new Date(),
+        nextAttemptAt: this.nextAttemptAt(attempts),
+      });
+    }
+
+    return await MediaFailure.create({
+      threadId: failure.threadId,
+      postId: failure.postId,
+      url: failure.url,
+      urlHash,
+      thumbUrl: failure.thumbUrl || null,
+      errorClass,
+      errorMessage,
+      attempts: 1,
+      lastAttemptAt: new Date(),
+      nextAttemptAt: this.nextAttemptAt(1),
+    });
+  }
+
+  /**
+   * Forget a failure once its media has been stored
+   */
+  async resolve(postId: number, url: string): Promise<void> {
+    await MediaFailure.destroy({ where: { postId, urlHash: hashUrl(url) } });
+  }
+
+  /**
+   * Forget failures of a post whose URLs are no longer in it, e.g. after
+   * the post was edited
+   * @param urls - Every media URL the post has now
+   */
+  async forgetMissing(postId: number, urls: string[]): Promise<number> {
+    const where: WhereOptions =
+      urls.length > 0
+        ? { postId, urlHash: { [Op.notIn]: urls.map(hashUrl) } }
+        : { postId };
+    return await MediaFailure.destroy({ where });
+  }
+
+  /**
+   * Failures whose backoff has expired and that are still under the
+   * attempt cap, oldest first
+   */
+  async due(options: DueFailureOptions = {}): Promise<MediaFailure[]> {
+    const where: WhereOptions = {
+      nextAttemptAt: { [Op.lte]: new Date() },
+      attempts: { [Op.lt]: options.maxAttempts ?? this.MAX_ATTEMPTS },
+      errorClass: { [Op.notIn]: PERMANENT_ERRORS },
+      ...(options.threadId ? { threadId: options.threadId } : {}),
+    };
+
+    return await MediaFailure.findAll({
+      where,
+      order: [["nextAttemptAt", "ASC"]],
+      limit: options.limit,
+    });
+  }
+}
+
+export { MediaFailureLedger };
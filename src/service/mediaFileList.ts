@@ -1,16 +1,12 @@
-import {
-  S3Client,
-  ListObjectsV2Command,
-  DeleteObjectCommand,
-  DeleteObjectsCommand,
-} from "@aws-sdk/client-s3";
 import dotenv from "dotenv";
 import { sequelize } from "../config/database";
 import { ForumPost } from "../model/ForumPost";
+import { createMediaStore, DeleteResult, MediaStore } from "../storage";
+import { MediaObjectService } from "./mediaObjectService";
 
 dotenv.config();
 
-interface S3FileInfo {
+interface MediaFileInfo {
   key: string;
   fullUrl: string;
   fileName: string;
@@ -19,30 +15,11 @@ interface S3FileInfo {
   lastModified: Date;
 }
 
-class S3FileList {
-  private s3Client: S3Client;
-  private bucketName: string;
-  private region: string;
+class MediaFileList {
+  private store: MediaStore;
 
-  constructor() {
-    this.bucketName = process.env.S3_BUCKET_NAME || "";
-    this.region = process.env.S3_REGION || "us-east-2";
-
-    // Ensure endpoint has protocol
-    let endpoint =
-      process.env.S3_ENDPOINT || `https://s3.${this.region}.wasabisys.com`;
-    if (!endpoint.startsWith("http://") && !endpoint.startsWith("https://")) {
-      endpoint = `https://${endpoint}`;
-    }
-
-    this.s3Client = new S3Client({
-      region: this.region,
-      endpoint: endpoint,
-      credentials: {
-        accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
-        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
-      },
-    });
+  constructor(store: MediaStore = createMediaStore()) {
+    this.store = store;
   }
 
   /**
@@ -63,7 +40,7 @@ class S3FileList {
   }
 
   /**
-   * Get all IMAGE files in a specific folder (threadId/postId) from S3 bucket
+   * Get all IMAGE files in a specific folder (threadId/postId) from the store
    * @param threadId - The thread ID
    * @param postId - The post ID
    * @returns Array of image file information only
@@ -71,21 +48,16 @@ class S3FileList {
   async getFilesByThreadAndPost(
     threadId: number,
     postId: number
-  ): Promise<S3FileInfo[]> {
+  ): Promise<MediaFileInfo[]> {
     try {
       const prefix = `forum-media/${threadId}/${postId}/`;
 
-      console.log(`Listing files in S3 bucket: ${this.bucketName}`);
+      console.log(`Listing files in ${this.store.name} store`);
       console.log(`Prefix: ${prefix}`);
 
-      const command = new ListObjectsV2Command({
-        Bucket: this.bucketName,
-        Prefix: prefix,
-      });
-
-      const response = await this.s3Client.send(command);
+      const objects = await this.store.list(prefix);
 
-      if (!response.Contents || response.Contents.length === 0) {
+      if (objects.length === 0) {
         console.log(
           `No files found for threadId: ${threadId}, postId: ${postId}`
         );
@@ -93,19 +65,17 @@ class S3FileList {
       }
 
       // Filter and map only image files
-      const allFiles = response.Contents.map((item) => {
-        const key = item.Key || "";
-        const fileName = key.split("/").pop() || "";
+      const allFiles = objects.map((item) => {
+        const fileName = item.key.split("/").pop() || "";
         const isThumb = fileName.includes("_thumb");
-        const fullUrl = `https://${this.bucketName}.s3.${this.region}.wasabisys.com/${key}`;
 
         return {
-          key,
-          fullUrl,
+          key: item.key,
+          fullUrl: this.store.publicUrl(item.key),
           fileName,
           isThumb,
-          size: item.Size || 0,
-          lastModified: item.LastModified || new Date(),
+          size: item.size,
+          lastModified: item.lastModified,
         };
       });
 
@@ -120,86 +90,38 @@ class S3FileList {
 
       return imageFiles;
     } catch (error) {
-      console.error(`Error listing files from S3:`, error);
+      console.error(`Error listing files from ${this.store.name}:`, error);
       throw error;
     }
   }
 
   /**
-   * Delete a single file from S3
+   * Delete a single file from the store
    */
   async deleteFile(key: string): Promise<boolean> {
-    try {
-      const command = new DeleteObjectCommand({
-        Bucket: this.bucketName,
-        Key: key,
-      });
-
-      await this.s3Client.send(command);
-      console.log(`✓ Deleted: ${key}`);
-      return true;
-    } catch (error) {
-      console.error(`✗ Failed to delete: ${key}`, error);
+    const result = await this.store.delete([key]);
+    if (result.failed > 0) {
+      console.error(`✗ Failed to delete: ${key}`);
       return false;
     }
+    console.log(`✓ Deleted: ${key}`);
+    return true;
   }
 
   /**
-   * Delete multiple files from S3 (batch delete - up to 1000 files at once)
+   * Delete multiple files from the store
    */
-  async deleteFiles(
-    keys: string[]
-  ): Promise<{ successful: number; failed: number }> {
+  async deleteFiles(keys: string[]): Promise<DeleteResult> {
     if (keys.length === 0) {
       return { successful: 0, failed: 0 };
     }
 
-    let successful = 0;
-    let failed = 0;
-
-    // S3 DeleteObjects can handle up to 1000 objects at once
-    const BATCH_SIZE = 1000;
-
-    for (let i = 0; i < keys.length; i += BATCH_SIZE) {
-      const batch = keys.slice(i, i + BATCH_SIZE);
-
-      try {
-        const command = new DeleteObjectsCommand({
-          Bucket: this.bucketName,
-          Delete: {
-            Objects: batch.map((key) => ({ Key: key })),
-            Quiet: false,
-          },
-        });
-
-        const response = await this.s3Client.send(command);
-
-        if (response.Deleted) {
-          successful += response.Deleted.length;
-          console.log(
-            `✓ Deleted ${response.Deleted.length} files (batch ${
-              Math.floor(i / BATCH_SIZE) + 1
-            })`
-          );
-        }
-
-        if (response.Errors && response.Errors.length > 0) {
-          failed += response.Errors.length;
-          console.error(`✗ Failed to delete ${response.Errors.length} files`);
-          response.Errors.forEach((error) => {
-            console.error(`  - ${error.Key}: ${error.Message}`);
-          });
-        }
-      } catch (error) {
-        console.error(
-          `✗ Batch delete failed for ${batch.length} files:`,
-          error
-        );
-        failed += batch.length;
-      }
+    const result = await this.store.delete(keys);
+    console.log(`✓ Deleted ${result.successful} files`);
+    if (result.failed > 0) {
+      console.error(`✗ Failed to delete ${result.failed} files`);
     }
-
-    return { successful, failed };
+    return result;
   }
 
   /**
@@ -208,7 +130,7 @@ class S3FileList {
   async deletePostFiles(
     threadId: number,
     postId: number
-  ): Promise<{ successful: number; failed: number }> {
+  ): Promise<DeleteResult> {
     console.log(
       `\n=== Deleting files for Thread: ${threadId}, Post: ${postId} ===`
     );
@@ -226,14 +148,14 @@ class S3FileList {
   }
 
   /**
-   * Delete ALL media files from S3 by getting post IDs from forum_posts table
+   * Delete ALL media files from the store by getting post IDs from forum_posts table
    * Processes posts in batches for better performance
    */
   async deleteAllMediaFromDatabase(): Promise<void> {
     const BATCH_SIZE = 300;
 
     try {
-      console.log("\n=== Starting deletion of all media files from S3 ===\n");
+      console.log(`\n=== Starting deletion of all media files from ${this.store.name} ===\n`);
 
       // Connect to database
       await sequelize.authenticate();
@@ -279,8 +201,6 @@ class S3FileList {
             `[${globalIndex}/${posts.length}] Processing Thread: ${threadId}, Post: ${postId}`
           );
 
-          if (threadId === 290271) continue;
-
           const result = await this.deletePostFiles(threadId, postId);
           totalDeleted += result.successful;
           totalFailed += result.failed;
@@ -294,11 +214,19 @@ class S3FileList {
         console.log(`  Total Failed so far: ${totalFailed}`);
       }
 
+      // Deduplicated objects are shared between posts, so they are deleted
+      // once here rather than per post
+      console.log("\nDeleting shared media objects...");
+      const objectsDeleted = await new MediaObjectService(
+        this.store
+      ).purgeAll();
+
       console.log("\n========================================");
       console.log("=== Final Deletion Summary ===");
       console.log("========================================");
       console.log(`Total Files Deleted: ${totalDeleted}`);
       console.log(`Total Files Failed: ${totalFailed}`);
+      console.log(`Shared Media Objects Deleted: ${objectsDeleted}`);
       console.log(`Total Posts Processed: ${posts.length}`);
       console.log(`Total Batches: ${totalBatches}`);
 
@@ -313,33 +241,15 @@ class S3FileList {
 }
 
 /**
- * Standalone function to delete S3 image files by threadId and postId
+ * Standalone function to delete stored image files by threadId and postId
  * Can be imported and used in other services
  */
-export async function deleteS3ImagesByThreadAndPost(
+export async function deleteStoredImagesByThreadAndPost(
   threadId: number,
   postId: number
-): Promise<{ successful: number; failed: number }> {
-  const s3FileList = new S3FileList();
-  return await s3FileList.deletePostFiles(threadId, postId);
-}
-
-// Main function - Delete ALL media files from S3 using forum_posts table
-async function main() {
-  const s3FileList = new S3FileList();
-
-  try {
-    // Delete ALL media files from S3 by getting post IDs from forum_posts table
-    await s3FileList.deleteAllMediaFromDatabase();
-  } catch (error) {
-    console.error("Error:", error);
-    process.exit(1);
-  }
-}
-
-// Run if executed directly
-if (require.main === module) {
-  main();
+): Promise<DeleteResult> {
+  const mediaFileList = new MediaFileList();
+  return await mediaFileList.deletePostFiles(threadId, postId);
 }
 
-export { S3FileList, S3FileInfo };
+export { MediaFileList, MediaFileInfo };
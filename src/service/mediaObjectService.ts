@@ -0,0 +1,365 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import { Op, WhereOptions } from "sequelize";
+import { sequelize } from "../config/database";
+import { ForumMedia } from "../model/ForumMedia";
+import { MediaObject } from "../model/MediaObject";
+import { MediaKind } from "../media/mediaType";
+import { thumbnailKey } from "../media/thumbnail";
+import { createMediaStore, MediaStore } from "../storage";
+
+// Content-addressed objects live under their own prefix, sharded by hash
+const OBJECT_PREFIX = "forum-media/objects";
+
+export interface StoreContentOptions {
+  /** File extension for the key, with or without the leading dot */
+  extension: string;
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StoredContent {
+  object: MediaObject;
+  url: string;
+  /** False when identical content was already stored */
+  created: boolean;
+}
+
+export interface AttachMediaOptions {
+  threadId: number;
+  postId: number;
+  type: MediaKind;
+  object: MediaObject;
+  perceptualHash?: string | null;
+}
+
+/**
+ * SHA-256 of a buffer as lowercase hex
+ */
+export const hashContent = (buffer: Buffer): string =>
+  createHash("sha256").update(buffer).digest("hex");
+
+/**
+ * SHA-256 of a file as lowercase hex, read as a stream
+ */
+export const hashFile = async (filePath: string): Promise<string> => {
+  const hash = createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+};
+
+/**
+ * Store key of the object holding content with the given hash
+ */
+export const contentKey = (sha256: string, extension: string): string => {
+  const normalizedExtension = extension.replace(/^\./, "").toLowerCase();
+  return `${OBJECT_PREFIX}/${sha256.slice(0, 2)}/${sha256}.${normalizedExtension}`;
+};
+
+/**
+ * Deduplicates uploaded media by content hash and keeps each object's
+ * reference count in step with the forum_medias rows that use it
+ */
+class MediaObjectService {
+  readonly store: MediaStore;
+
+  constructor(store: MediaStore = createMediaStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Store a downloaded file, reusing the existing object if the same
+   * content was uploaded before. The caller holds a reference on the
+   * returned object: hand it to attach(), or give it back with release().
+   */
+  async storeContent(
+    buffer: Buffer,
+    options: StoreContentOptions
+  ): Promise<StoredContent> {
+    const sha256 = hashContent(buffer);
+
+    const existing = await this.reuseObject(sha256);
+    if (existing) {
+      return existing;
+    }
+
+    const key = contentKey(sha256, options.extension);
+    await this.store.put(key, buffer, {
+      contentType: options.contentType,
+      metadata: { ...options.metadata, sha256 },
+    });
+
+    return await this.recordObject(sha256, key, buffer.length, options);
+  }
+
+  /**
+   * Store a file downloaded to disk. The file is streamed to the store,
+   * never read into memory as a whole, so large videos and GIFs cost one
+   * upload part of memory rather than their full size. The caller holds a
+   * reference on the returned object, as with storeContent().
+   */
+  async storeFile(
+    filePath: string,
+    options: StoreContentOptions
+  ): Promise<StoredContent> {
+    const sha256 = await hashFile(filePath);
+
+    const existing = await this.reuseObject(sha256);
+    if (existing) {
+      return existing;
+    }
+
+    const key = contentKey(sha256, options.extension);
+    await this.store.putFile(key, filePath, {
+      contentType: options.contentType,
+      metadata: { ...options.metadata, sha256 },
+    });
+
+    const { size } = await fs.promises.stat(filePath);
+    return await this.recordObject(sha256, key, size, options);
+  }
+
+  /**
+   * Take a reference on the stored object with this content, if any. The
+   * row stays locked from the lookup to the increment, so a concurrent
+   * pruneUnreferenced() either deletes it first or leaves it alone.
+   */
+  private async reuseObject(sha256: string): Promise<StoredContent | null> {
+    return await sequelize.transaction(async (transaction) => {
+      const object = await MediaObject.findOne({
+        where: { sha256 },
+        lock: transaction.LOCK.UPDATE,
+        transaction,
+      });
+      if (!object) {
+        return null;
+      }
+      await object.increment("refCount", { by: 1, transaction });
+      return {
+        object,
+        url: this.store.publicUrl(object.key),
+        created: false,
+      };
+    });
+  }
+
+  /**
+   * Insert the media_objects row for content just written to the store and
+   * take a reference on it
+   */
+  private async recordObject(
+    sha256: string,
+    key: string,
+    size: number,
+    options: StoreContentOptions
+  ): Promise<StoredContent> {
+    return await sequelize.transaction(async (transaction) => {
+      // Another worker may have stored the same content meanwhile; the put
+      // before this wrote identical bytes, so whichever row wins is correct
+      await MediaObject.bulkCreate(
+        [{ sha256, key, size, contentType: options.contentType || null }],
+        { ignoreDuplicates: true, transaction }
+      );
+      const object = await MediaObject.findOne({
+        where: { sha256 },
+        lock: transaction.LOCK.UPDATE,
+        transaction,
+      });
+      if (!object) {
+        throw new Error(`Media object ${sha256} vanished after insert`);
+      }
+      await object.increment("refCount", { by: 1, transaction });
+
+      return { object, url: this.store.publicUrl(object.key), created: true };
+    });
+  }
+
+  /**
+   * Store the thumbnail of an object under its `_thumb` key
+   */
+  async storeThumbnail(
+    object: MediaObject,
+    buffer: Buffer,
+    options: Omit<StoreContentOptions, "extension"> = {}
+  ): Promise<string> {
+    const url = await this.store.put(thumbnailKey(object.key), buffer, {
+      contentType: options.contentType,
+      metadata: options.metadata,
+    });
+    if (!object.hasThumb) {
+      await object.update({ hasThumb: true });
+    }
+    return url;
+  }
+
+  /**
+   * Create the forum_medias row for a post, handing it the reference taken
+   * when the object was stored
+   */
+  async attach(options: AttachMediaOptions): Promise<ForumMedia> {
+    return await ForumMedia.create({
+      threadId: options.threadId,
+      postId: options.postId,
+      link: this.store.publicUrl(options.object.key),
+      type: options.type,
+      existThumb: options.object.hasThumb ? 1 : 0,
+      mediaObjectId: options.object.id,
+      perceptualHash: options.perceptualHash || null,
+    });
+  }
+
+  /**
+   * Give back a reference taken by storeContent() or storeFile() that was
+   * not attached, or one held outside forum_medias such as a member's
+   * previous avatar
+   */
+  async release(objectId: number | null): Promise<void> {
+    if (!objectId) {
+      return;
+    }
+    await MediaObject.decrement("refCount", {
+      by: 1,
+      where: { id: objectId },
+    });
+  }
+
+  /**
+   * Delete forum_medias rows and release the references they held.
+   * Objects are kept at zero references until pruneUnreferenced() so that
+   * re-scraping a page does not upload its media again.
+   * @returns Number of rows deleted
+   */
+  async detach(where: WhereOptions): Promise<number> {
+    return await sequelize.transaction(async (transaction) => {
+      const rows = await ForumMedia.findAll({
+        attributes: ["mediaObjectId"],
+        where,
+        transaction,
+        raw: true,
+      });
+
+      const releases = new Map<number, number>();
+      for (const row of rows) {
+        if (row.mediaObjectId) {
+          releases.set(
+            row.mediaObjectId,
+            (releases.get(row.mediaObjectId) || 0) + 1
+          );
+        }
+      }
+
+      const deleted = await ForumMedia.destroy({ where, transaction });
+
+      for (const [id, count] of releases) {
+        await MediaObject.decrement("refCount", {
+          by: count,
+          where: { id },
+          transaction,
+        });
+      }
+
+      return deleted;
+    });
+  }
+
+  /**
+   * Delete objects no post has referenced since the cutoff. Each batch is
+   * locked until its rows are gone, so a store reusing one of them waits
+   * and then uploads the content again.
+   * @returns Number of objects deleted
+   */
+  async pruneUnreferenced(olderThan: Date): Promise<number> {
+    const BATCH_SIZE = 500;
+    let total = 0;
+
+    while (true) {
+      const deleted = await sequelize.transaction(async (transaction) => {
+        const objects = await MediaObject.findAll({
+          where: {
+            refCount: { [Op.lte]: 0 },
+            updatedAt: { [Op.lt]: olderThan },
+          },
+          limit: BATCH_SIZE,
+          lock: transaction.LOCK.UPDATE,
+          transaction,
+        });
+        if (objects.length === 0) {
+          return 0;
+        }
+
+        await this.deleteFromStore(objects);
+        await MediaObject.destroy({
+          where: {
+            id: objects.map((object) => object.id),
+            refCount: { [Op.lte]: 0 },
+          },
+          transaction,
+        });
+        return objects.length;
+      });
+
+      total += deleted;
+      if (deleted < BATCH_SIZE) {
+        return total;
+      }
+    }
+  }
+
+  /**
+   * Discard multipart uploads of objects that were interrupted before the
+   * cutoff and never resumed
+   * @returns Number of uploads discarded
+   */
+  async abortIncompleteUploads(olderThan: Date): Promise<number> {
+    return await this.store.abortIncompleteUploads(
+      `${OBJECT_PREFIX}/`,
+      olderThan
+    );
+  }
+
+  /**
+   * Delete every content-addressed object, leaving forum_medias rows
+   * without a backing object
+   * @returns Number of objects deleted
+   */
+  async purgeAll(): Promise<number> {
+    const BATCH_SIZE = 500;
+    let total = 0;
+
+    while (true) {
+      const objects = await MediaObject.findAll({ limit: BATCH_SIZE });
+      if (objects.length === 0) {
+        return total;
+      }
+
+      await ForumMedia.update(
+        { mediaObjectId: null },
+        { where: { mediaObjectId: objects.map((object) => object.id) } }
+      );
+      await this.deleteFromStore(objects);
+      await MediaObject.destroy({
+        where: { id: objects.map((object) => object.id) },
+      });
+      total += objects.length;
+    }
+  }
+
+  /**
+   * Delete objects and their thumbnails from the store, leaving their rows
+   */
+  private async deleteFromStore(objects: MediaObject[]): Promise<void> {
+    const keys = objects.flatMap((object) =>
+      object.hasThumb ? [object.key, thumbnailKey(object.key)] : [object.key]
+    );
+    const result = await this.store.delete(keys);
+    if (result.failed > 0) {
+      throw new Error(
+        `Failed to delete ${result.failed} of ${keys.length} media objects`
+      );
+    }
+  }
+}
+
+export { MediaObjectService };
@@ -1,16 +1,22 @@
-import {
-  S3Client,
-  PutObjectCommand,
-  GetObjectCommand,
-} from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import * as https from "https";
 import * as http from "http";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
+import { randomUUID } from "crypto";
 import * as zlib from "zlib";
+import { pipeline } from "stream/promises";
 
 import dotenv from "dotenv";
+import { createMediaStore, MediaStore } from "../storage";
+import { detectFileMediaType, UnsupportedMediaError } from "../media/mediaType";
+
+const DOWNLOAD_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': '*/*',
+  'Accept-Encoding': 'gzip, deflate',
+  'Connection': 'keep-alive'
+};
 
 interface UploadTask {
   url: string;
@@ -29,9 +35,11 @@ interface UploadStats {
   endTime?: number;
 }
 
-export class S3Service {
-  s3Client: S3Client;
-  bucketName: string;
+/**
+ * Downloads forum media and uploads it to the configured MediaStore
+ */
+export class MediaUploadService {
+  readonly store: MediaStore;
   private uploadQueue: UploadTask[] = [];
   private activeUploads: Set<string> = new Set();
   private uploadStats: UploadStats = {
@@ -48,67 +56,22 @@ export class S3Service {
   private readonly RETRY_DELAY = 2000; // 2 seconds
   private readonly DOWNLOAD_TIMEOUT = 30000; // 30 seconds
 
-  constructor() {
-    this.bucketName = process.env.S3_BUCKET_NAME || "";
-
-    // Fix the endpoint URL by adding protocol
-    const endpoint = process.env.S3_ENDPOINT || "";
-    const fullEndpoint = endpoint.startsWith("http")
-      ? endpoint
-      : `https://${endpoint}`;
-
-    // Create a custom HTTPS agent that ignores SSL certificate errors
-    const httpsAgent = new https.Agent({
-      rejectUnauthorized: false,
-      keepAlive: true,
-      maxSockets: this.MAX_CONCURRENT_UPLOADS * 2, // Allow more connections
-    });
-
-    this.s3Client = new S3Client({
-      region: process.env.S3_REGION || "us-east-2",
-      endpoint: fullEndpoint,
-      credentials: {
-        accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
-        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
-      },
-      forcePathStyle: true, // Required for Wasabi
-      requestHandler: {
-        httpsAgent: httpsAgent,
-      },
-      maxAttempts: 3, // AWS SDK retry attempts
-    });
+  constructor(store: MediaStore = createMediaStore()) {
+    this.store = store;
   }
 
   async uploadFromUrl(sourceUrl: string, key: string): Promise<string> {
     try {
-      // Download the file from the source URL
-      const fileBuffer = await this.downloadFile(sourceUrl);
-
-      // Determine content type based on file extension
-      const contentType = this.getContentType(sourceUrl);
-
-      // Upload to S3 bucket
-      const uploadCommand = new PutObjectCommand({
-        Bucket: this.bucketName,
-        Key: key,
-        Body: fileBuffer,
-        ContentType: contentType,
-        Metadata: {
-          "original-url": sourceUrl,
-          "upload-timestamp": new Date().toISOString(),
-        },
+      const storedUrl = await this.transferUrl(sourceUrl, key, {
+        "original-url": sourceUrl,
+        "upload-timestamp": new Date().toISOString(),
       });
 
-      await this.s3Client.send(uploadCommand);
-
-      // Generate S3 URL
-      const s3Url = `https://${this.bucketName}.s3.${process.env.S3_REGION}.wasabisys.com/${key}`;
+      console.log(`Successfully uploaded to ${this.store.name}: ${storedUrl}`);
 
-      console.log(`Successfully uploaded to S3: ${s3Url}`);
-
-      return s3Url;
+      return storedUrl;
     } catch (error) {
-      console.error(`Error uploading ${sourceUrl} to S3:`, error);
+      console.error(`Error uploading ${sourceUrl} to ${this.store.name}:`, error);
       return "";
     }
   }
@@ -217,33 +180,21 @@ export class S3Service {
       this.activeUploads.add(taskId);
 
       // Download and upload
-      const fileBuffer = await this.downloadFile(task.url);
-      const contentType = this.getContentType(task.url);
-
-      const uploadCommand = new PutObjectCommand({
-        Bucket: this.bucketName,
-        Key: task.key,
-        Body: fileBuffer,
-        ContentType: contentType,
-        Metadata: {
-          "original-url": task.url,
-          "upload-timestamp": new Date().toISOString(),
-          "thread-id": task.threadId.toString(),
-          "post-id": task.postId.toString(),
-        },
+      return await this.transferUrl(task.url, task.key, {
+        "original-url": task.url,
+        "upload-timestamp": new Date().toISOString(),
+        "thread-id": task.threadId.toString(),
+        "post-id": task.postId.toString(),
       });
 
-      await this.s3Client.send(uploadCommand);
-
-      const s3Url = `https://${this.bucketName}.s3.${process.env.S3_REGION}.wasabisys.com/${task.key}`;
-      
-      return s3Url;
-
     } catch (error) {
       console.error(`Upload failed for ${task.url}:`, error);
       
-      // Retry logic
-      if (task.retryCount! < this.MAX_RETRIES) {
+      // Retry logic; a file that is not media will not become media
+      if (
+        !(error instanceof UnsupportedMediaError) &&
+        task.retryCount! < this.MAX_RETRIES
+      ) {
         task.retryCount!++;
         console.log(`Retrying upload for ${task.url} (attempt ${task.retryCount})`);
         
@@ -257,6 +208,41 @@ export class S3Service {
     }
   }
 
+  /**
+   * Copy a URL into the store through a temp file, so large files never
+   * sit in memory whole
+   * @returns The stored object's public URL
+   */
+  private async transferUrl(
+    url: string,
+    key: string,
+    metadata: Record<string, string>
+  ): Promise<string> {
+    const tempPath = path.join(
+      os.tmpdir(),
+      `media-upload-${process.pid}-${randomUUID()}`
+    );
+
+    try {
+      const { contentType } = await this.downloadToFile(url, tempPath);
+      const mediaType = await detectFileMediaType(tempPath, contentType);
+      if (!mediaType) {
+        throw new UnsupportedMediaError(
+          `${url} is not an image or video (served as ${
+            contentType || "unknown type"
+          })`
+        );
+      }
+
+      return await this.store.putFile(key, tempPath, {
+        contentType: mediaType.contentType,
+        metadata,
+      });
+    } finally {
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  }
+
   /**
    * Enhanced download with better error handling and timeout
    */
@@ -266,12 +252,7 @@ export class S3Service {
       
       const options = {
         timeout: this.DOWNLOAD_TIMEOUT,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-          'Accept': '*/*',
-          'Accept-Encoding': 'gzip, deflate',
-          'Connection': 'keep-alive'
-        }
+        headers: DOWNLOAD_HEADERS
       };
 
       const request =
@@ -294,6 +275,79 @@ export class S3Service {
     });
   }
 
+  /**
+   * Stream a download straight to a file instead of buffering it in
+   * memory, for large media such as videos. Follows redirects.
+   * @param headers - Extra request headers, e.g. the session Cookie
+   * @returns The response content type and the number of bytes written
+   */
+  public async downloadToFile(
+    url: string,
+    destination: string,
+    headers: Record<string, string> = {},
+    redirectsLeft: number = 5
+  ): Promise<{ contentType: string | null; size: number }> {
+    const response = await new Promise<http.IncomingMessage>(
+      (resolve, reject) => {
+        const options = {
+          headers: { ...DOWNLOAD_HEADERS, ...headers },
+        };
+        const request = (
+          new URL(url).protocol === "https:" ? https : http
+        ).get(url, options, resolve);
+
+        request.on("error", reject);
+        // Idle timeout: large files may take longer than DOWNLOAD_TIMEOUT
+        // in total, but must keep data flowing
+        request.setTimeout(this.DOWNLOAD_TIMEOUT, () => {
+          request.destroy(new Error(`Download stalled for ${url}`));
+        });
+      }
+    );
+
+    const status = response.statusCode || 0;
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirectsLeft <= 0) {
+        throw new Error(`Too many redirects for ${url}`);
+      }
+      const location = new URL(response.headers.location, url).href;
+      return this.downloadToFile(
+        location,
+        destination,
+        headers,
+        redirectsLeft - 1
+      );
+    }
+
+    if (status !== 200) {
+      response.resume();
+      throw new Error(`Failed to download file: ${status}`);
+    }
+
+    const contentEncoding = response.headers["content-encoding"];
+    const decoder =
+      contentEncoding === "gzip"
+        ? zlib.createGunzip()
+        : contentEncoding === "deflate"
+        ? zlib.createInflate()
+        : null;
+
+    const output = fs.createWriteStream(destination);
+    if (decoder) {
+      await pipeline(response, decoder, output);
+    } else {
+      await pipeline(response, output);
+    }
+
+    // Size of the decoded file, not of the bytes on the wire
+    const { size } = await fs.promises.stat(destination);
+    return {
+      contentType: response.headers["content-type"] || null,
+      size,
+    };
+  }
+
   private handleResponse(
     response: any,
     resolve: Function,
@@ -358,7 +412,15 @@ export class S3Service {
   }
 
   /**
-   * Generate S3 key (public method)
+   * File extension of a media URL including the dot, as used in keys
+   */
+  getExtension(originalUrl: string): string {
+    const filename = new URL(originalUrl).pathname.split("/").pop() || "media";
+    return `.${filename.split(".").pop() || "jpg"}`;
+  }
+
+  /**
+   * Generate storage key (public method)
    */
   generateKey(
     originalUrl: string,
@@ -415,35 +477,6 @@ export class S3Service {
     return `forum-media/${threadId}/${postId}/${uniqueId}-${sanitizedFilename}${thumbSuffix}${normalizedExtension}`;
   }
 
-  /**
-   * Get content type (public method)
-   */
-  getContentType(url: string): string {
-    const extension = url.split(".").pop()?.toLowerCase();
-
-    switch (extension) {
-      case "jpg":
-      case "jpeg":
-        return "image/jpeg";
-      case "png":
-        return "image/png";
-      case "gif":
-        return "image/gif";
-      case "webp":
-        return "image/webp";
-      case "mp4":
-        return "video/mp4";
-      case "webm":
-        return "video/webm";
-      case "mov":
-        return "video/quicktime";
-      case "avi":
-        return "video/x-msvideo";
-      default:
-        return "application/octet-stream";
-    }
-  }
-
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
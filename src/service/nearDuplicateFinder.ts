@@ -0,0 +1,138 @@
+import { Op } from "sequelize";
+import { ForumMedia } from "../model/ForumMedia";
+import {
+  clusterHashes,
+  computeDHash,
+  DEFAULT_NEAR_DUPLICATE_DISTANCE,
+} from "../media/perceptualHash";
+import { createMediaStore, MediaStore } from "../storage";
+
+export interface NearDuplicateMedia {
+  id: number;
+  threadId: number;
+  postId: number;
+  link: string;
+  perceptualHash: string;
+}
+
+export interface NearDuplicateCluster {
+  /** Distinct perceptual hashes in the cluster */
+  hashes: string[];
+  media: NearDuplicateMedia[];
+  threadIds: number[];
+}
+
+export interface FindClustersOptions {
+  /** Largest Hamming distance between hashes of the same picture */
+  maxDistance?: number;
+  /** Smallest number of media rows a cluster must have */
+  minSize?: number;
+  /** Only return clusters that span more than one thread */
+  crossThreadOnly?: boolean;
+}
+
+/**
+ * Finds reposts of the same picture, including resized or recompressed
+ * copies, by clustering forum_medias rows on their perceptual hash
+ */
+class NearDuplicateFinder {
+  private store: MediaStore;
+
+  constructor(store: MediaStore = createMediaStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Compute perceptual hashes for images stored before hashing existed
+   * @returns Number of rows hashed and rows that could not be hashed
+   */
+  async backfillHashes(): Promise<{ updated: number; failed: number }> {
+    const BATCH_SIZE = 100;
+    let updated = 0;
+    let failed = 0;
+    let lastId = 0;
+
+    while (true) {
+      const rows = await ForumMedia.findAll({
+        where: {
+          id: { [Op.gt]: lastId },
+          type: "img",
+          perceptualHash: null,
+        },
+        order: [["id", "ASC"]],
+        limit: BATCH_SIZE,
+      });
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        lastId = row.id;
+
+        try {
+          const key = this.store.keyFromUrl(row.link);
+          const buffer = key ? await this.store.get(key) : null;
+          if (!buffer) {
+            throw new Error(`not found in ${this.store.name} store`);
+          }
+
+          await row.update({ perceptualHash: await computeDHash(buffer) });
+          updated++;
+        } catch (error) {
+          console.error(
+            `⚠️ Could not hash media ${row.id} (${row.link}): ${error}`
+          );
+          failed++;
+        }
+      }
+
+      console.log(`Hashed ${updated} media so far (${failed} failed)`);
+    }
+
+    return { updated, failed };
+  }
+
+  /**
+   * Group hashed media into clusters of near-duplicate pictures
+   * @returns Clusters with the most media first
+   */
+  async findClusters(
+    options: FindClustersOptions = {}
+  ): Promise<NearDuplicateCluster[]> {
+    const maxDistance = options.maxDistance ?? DEFAULT_NEAR_DUPLICATE_DISTANCE;
+    const minSize = options.minSize ?? 2;
+
+    const rows = (await ForumMedia.findAll({
+      attributes: ["id", "threadId", "postId", "link", "perceptualHash"],
+      where: { perceptualHash: { [Op.ne]: null } },
+      raw: true,
+    })) as unknown as NearDuplicateMedia[];
+
+    const mediaByHash = new Map<string, NearDuplicateMedia[]>();
+    for (const row of rows) {
+      const media = mediaByHash.get(row.perceptualHash);
+      if (media) {
+        media.push(row);
+      } else {
+        mediaByHash.set(row.perceptualHash, [row]);
+      }
+    }
+
+    return clusterHashes([...mediaByHash.keys()], maxDistance)
+      .map((hashes) => {
+        const media = hashes.flatMap((hash) => mediaByHash.get(hash) || []);
+        const threadIds = [...new Set(media.map((m) => m.threadId))].sort(
+          (a, b) => a - b
+        );
+        return { hashes, media, threadIds };
+      })
+      .filter(
+        (cluster) =>
+          cluster.media.length >= minSize &&
+          (!options.crossThreadOnly || cluster.threadIds.length > 1)
+      )
+      .sort((a, b) => b.media.length - a.media.length);
+  }
+}
+
+export { NearDuplicateFinder };
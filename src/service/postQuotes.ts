@@ -0,0 +1,80 @@
+import { Op } from "sequelize";
+import { ForumPost } from "../model/ForumPost";
+import { PostQuote } from "../model/PostQuote";
+import { PostQuoteData } from "../parsers/types";
+
+/**
+ * A post replying to another by quoting it
+ */
+export interface ReplyEdge {
+  postId: number;
+  author: string;
+  quotedPostId: number | null;
+  /** Author of the quoted post if it is stored, else the name on the quote */
+  quotedAuthor: string | null;
+}
+
+/**
+ * Keeps the quote graph between posts in step with their scraped content
+ */
+class PostQuoteGraph {
+  /**
+   * Replace the quotes recorded for a post with the ones it has now
+   */
+  async replace(
+    threadId: number,
+    postId: number,
+    quotes: PostQuoteData[]
+  ): Promise<void> {
+    await PostQuote.destroy({ where: { postId } });
+    if (quotes.length === 0) {
+      return;
+    }
+    await PostQuote.bulkCreate(
+      quotes.map((quote) => ({
+        threadId,
+        postId,
+        quotedPostId: quote.postId,
+        quotedMemberId: quote.memberId,
+        quotedAuthor: quote.author,
+      }))
+    );
+  }
+
+  /**
+   * Who replied to whom in a thread, in post order
+   */
+  async threadReplies(threadId: number): Promise<ReplyEdge[]> {
+    const quotes = await PostQuote.findAll({
+      where: { threadId },
+      order: [
+        ["postId", "ASC"],
+        ["id", "ASC"],
+      ],
+    });
+    const postIds = new Set<number>();
+    quotes.forEach((quote) => {
+      postIds.add(quote.postId);
+      if (quote.quotedPostId) {
+        postIds.add(quote.quotedPostId);
+      }
+    });
+
+    const posts = await ForumPost.findAll({
+      attributes: ["postId", "author"],
+      where: { postId: { [Op.in]: [...postIds] } },
+    });
+    const authors = new Map(posts.map((post) => [post.postId, post.author]));
+
+    return quotes.map((quote) => ({
+      postId: quote.postId,
+      author: authors.get(quote.postId) || "",
+      quotedPostId: quote.quotedPostId,
+      quotedAuthor:
+        (quote.quotedPostId && authors.get(quote.quotedPostId)) ||
+        quote.quotedAuthor,
+    }));
+  }
+}
+
+export { PostQuoteGraph };
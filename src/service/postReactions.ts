@@ -0,0 +1,167 @@
+import { Op } from "sequelize";
+import { ForumPost } from "../model/ForumPost";
+import { PostReaction, ReactionUser } from "../model/PostReaction";
+import { evaluateParser } from "../parsers/evaluate";
+import { ReactionsPageData } from "../parsers/types";
+import { ForumSession } from "./forumSession";
+
+/**
+ * How much of a post's reactions list to read: nothing, the count of each
+ * reaction type, or the counts and every member who reacted
+ */
+export type ReactionsMode = "off" | "counts" | "users";
+
+export const REACTIONS_MODES: ReactionsMode[] = ["off", "counts", "users"];
+
+export const isReactionsMode = (text: string): text is ReactionsMode =>
+  (REACTIONS_MODES as string[]).includes(text);
+
+export interface PostReactionSummary {
+  reactionId: number;
+  reactionName: string;
+  count: number;
+  /** null unless the members were read */
+  users: ReactionUser[] | null;
+}
+
+// The member list loads 50 at a time; stop following it after this many
+const MAX_REACTION_PAGES = 100;
+
+/**
+ * Combine the pages of a post's reactions list into one summary per
+ * reaction type. Counts come from the first page's tabs; a type is never
+ * counted lower than the members actually listed for it. Types without a
+ * tab are named from their members' rows, and members of a type that has
+ * no name either way are left out.
+ * @param withUsers Keep the members who reacted
+ */
+export const summarizeReactions = (
+  pages: ReactionsPageData[],
+  withUsers: boolean
+): PostReactionSummary[] => {
+  const summaries = new Map<number, PostReactionSummary>();
+  const summaryOf = (reactionId: number, name: string) => {
+    let summary = summaries.get(reactionId);
+    if (!summary) {
+      summary = { reactionId, reactionName: name, count: 0, users: [] };
+      summaries.set(reactionId, summary);
+    }
+    return summary;
+  };
+
+  for (const reaction of pages[0]?.reactions || []) {
+    summaryOf(reaction.reactionId, reaction.name).count = reaction.count;
+  }
+  for (const user of pages.flatMap((page) => page.users)) {
+    if (!summaries.has(user.reactionId) && !user.reactionName) {
+      continue;
+    }
+    const summary = summaryOf(user.reactionId, user.reactionName);
+    summary.users!.push({ userId: user.userId, username: user.username });
+  }
+
+  return [...summaries.values()].map((summary) => ({
+    ...summary,
+    count: Math.max(summary.count, summary.users!.length),
+    users: withUsers ? summary.users : null,
+  }));
+};
+
+/**
+ * Reads the reactions list of posts and stores a row per reaction type in
+ * post_reactions, replacing the likes estimate of the thread page with the
+ * real total
+ */
+class PostReactionScraper {
+  readonly mode: ReactionsMode;
+  private session: ForumSession;
+
+  /**
+   * @param mode Defaults to SCRAPE_REACTIONS, off if unset
+   */
+  constructor(
+    session: ForumSession,
+    mode: string = process.env.SCRAPE_REACTIONS || "off"
+  ) {
+    if (!isReactionsMode(mode)) {
+      throw new Error(
+        `Unknown reactions mode "${mode}"; use ${REACTIONS_MODES.join(", ")}`
+      );
+    }
+    this.session = session;
+    this.mode = mode;
+  }
+
+  get enabled(): boolean {
+    return this.mode !== "off";
+  }
+
+  /**
+   * Read and store the reactions of a post. Navigates the session's page.
+   * @returns The stored summaries, or null if the list showed no reactions
+   */
+  async scrape(
+    threadId: number,
+    postId: number
+  ): Promise<PostReactionSummary[] | null> {
+    const pages = await this.readPages(postId);
+    const summaries = summarizeReactions(pages, this.mode === "users");
+    if (summaries.length === 0) {
+      console.log(`⚠️ No reactions listed for post ${postId}`);
+      return null;
+    }
+
+    await this.save(threadId, postId, summaries);
+    return summaries;
+  }
+
+  /**
+   * Replace the stored reactions of a post
+   */
+  async save(
+    threadId: number,
+    postId: number,
+    summaries: PostReactionSummary[]
+  ): Promise<void> {
+    await PostReaction.destroy({
+      where: {
+        postId,
+        reactionId: {
+          [Op.notIn]: summaries.map((summary) => summary.reactionId),
+        },
+      },
+    });
+    await PostReaction.bulkCreate(
+      summaries.map((summary) => ({ threadId, postId, ...summary })),
+      { updateOnDuplicate: ["reactionName", "count", "users", "updatedAt"] }
+    );
+
+    const likes = summaries.reduce(
+      (total, summary) => total + summary.count,
+      0
+    );
+    await ForumPost.update({ likes }, { where: { postId } });
+  }
+
+  private async readPages(postId: number): Promise<ReactionsPageData[]> {
+    const { site } = this.session;
+    const pages: ReactionsPageData[] = [];
+    let url: string | null = site.reactionsUrl(postId);
+
+    while (url && pages.length < MAX_REACTION_PAGES) {
+      await this.session.goto(url, { waitUntil: "networkidle2" });
+      const page = await evaluateParser(
+        this.session.page!,
+        site.parsers.reactionsPage,
+        site.siteUrl
+      );
+      pages.push(page);
+
+      // The first page has every count; only the member list continues
+      url = this.mode === "users" ? page.nextPageUrl : null;
+    }
+    return pages;
+  }
+}
+
+export { PostReactionScraper };
@@ -0,0 +1,170 @@
+import { createHash } from "crypto";
+import { UniqueConstraintError } from "sequelize";
+import { ForumPost } from "../model/ForumPost";
+import { PostRevision } from "../model/PostRevision";
+
+export interface ScrapedPostContent {
+  postId: number;
+  content: string;
+  likes: number;
+}
+
+export interface DiffLine {
+  op: " " | "+" | "-";
+  text: string;
+}
+
+export const hashContent = (content: string): string =>
+  createHash("sha256").update(content).digest("hex");
+
+/**
+ * Line diff of two texts from their longest common subsequence
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // common[i][j]: length of the LCS of a[i..] and b[j..]
+  const common = Array.from(
+    { length: a.length + 1 },
+    () => new Int32Array(b.length + 1)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] =
+        a[i] === b[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ op: " ", text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ op: "-", text: a[i++] });
+    } else {
+      lines.push({ op: "+", text: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    lines.push({ op: "-", text: a[i++] });
+  }
+  while (j < b.length) {
+    lines.push({ op: "+", text: b[j++] });
+  }
+  return lines;
+};
+
+/**
+ * Render a diff with +/- markers, keeping `context` unchanged lines around
+ * each change and eliding the rest
+ */
+export const formatDiff = (lines: DiffLine[], context = 3): string => {
+  const changed = lines
+    .map((line, index) => (line.op === " " ? -1 : index))
+    .filter((index) => index >= 0);
+  const shown = (index: number) =>
+    changed.some((change) => Math.abs(change - index) <= context);
+
+  const output: string[] = [];
+  let elided = 0;
+  lines.forEach((line, index) => {
+    if (line.op === " " && !shown(index)) {
+      elided++;
+      return;
+    }
+    if (elided > 0) {
+      output.push(`  … ${elided} unchanged line(s)`);
+      elided = 0;
+    }
+    output.push(`${line.op} ${line.text}`);
+  });
+  if (elided > 0) {
+    output.push(`  … ${elided} unchanged line(s)`);
+  }
+  return output.join("\n");
+};
+
+/**
+ * Keeps the edit history of posts: every distinct content a scrape sees
+ * becomes a numbered revision
+ */
+class PostRevisionService {
+  /**
+   * Record the scraped content as a new revision unless it matches the
+   * latest one. Call before the post row is overwritten: a post scraped
+   * before history was kept gets its stored content as revision 1.
+   * @returns The new revision, or null if the content is unchanged
+   */
+  async record(
+    threadId: number,
+    post: ScrapedPostContent
+  ): Promise<PostRevision | null> {
+    const contentHash = hashContent(post.content);
+    const latest = await PostRevision.findOne({
+      where: { postId: post.postId },
+      order: [["revision", "DESC"]],
+    });
+    if (latest?.contentHash === contentHash) {
+      return null;
+    }
+
+    let revision = latest ? latest.revision + 1 : 1;
+    try {
+      if (!latest) {
+        const stored = await ForumPost.findByPk(post.postId);
+        if (stored && hashContent(stored.content) !== contentHash) {
+          await PostRevision.create({
+            postId: post.postId,
+            threadId,
+            revision: revision++,
+            contentHash: hashContent(stored.content),
+            content: stored.content,
+            likes: stored.likes,
+          });
+        }
+      }
+
+      const created = await PostRevision.create({
+        postId: post.postId,
+        threadId,
+        revision,
+        contentHash,
+        content: post.content,
+        likes: post.likes,
+      });
+      if (revision > 1) {
+        console.log(`✏️  Post ${post.postId} changed (revision ${revision})`);
+      }
+      return created;
+    } catch (error) {
+      // Another worker recorded this post at the same moment
+      if (error instanceof UniqueConstraintError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Every revision of a post, oldest first
+   */
+  async history(postId: number): Promise<PostRevision[]> {
+    return PostRevision.findAll({
+      where: { postId },
+      order: [["revision", "ASC"]],
+    });
+  }
+
+  async find(postId: number, revision: number): Promise<PostRevision | null> {
+    return PostRevision.findOne({ where: { postId, revision } });
+  }
+}
+
+export { PostRevisionService };
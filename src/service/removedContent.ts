@@ -0,0 +1,155 @@
+import { col, Op, WhereOptions } from "sequelize";
+import { ForumPost } from "../model/ForumPost";
+import { ForumThread } from "../model/ForumThread";
+
+/**
+ * Post IDs a thread page is responsible for: after `after`, up to and
+ * including `through` (no upper bound on the last page)
+ */
+export interface PostIdRange {
+  after: number;
+  through: number | null;
+}
+
+/**
+ * Work out which stored posts a scraped thread page should have shown.
+ * Posts are listed in ID order, so a page covers everything after the
+ * previous page's last post up to its own last post. The first page also
+ * covers any earlier IDs and the last page any later ones.
+ * @param totalPages null if the page count could not be read
+ * @param previousLastPostId Last post ID of the page before, if scraped in
+ * this run; otherwise the page's own first post starts the range
+ * @returns null when the page count is unknown: any page might be taken
+ * for the last one, whose range has no upper bound
+ */
+export const pagePostRange = (
+  postIds: number[],
+  pageNum: number,
+  totalPages: number | null,
+  previousLastPostId: number | null
+): PostIdRange | null => {
+  if (totalPages === null) {
+    return null;
+  }
+  return {
+    after: pageNum === 1 ? 0 : previousLastPostId ?? Math.min(...postIds) - 1,
+    through: pageNum >= totalPages ? null : Math.max(...postIds),
+  };
+};
+
+/**
+ * Flags posts and threads that vanished from the forum instead of
+ * deleting their rows, and clears the flag when they reappear
+ */
+class RemovedContentTracker {
+  /**
+   * Mark stored posts in a page's range that the page no longer shows.
+   * Only pages scraped in this run are checked, and scrapes resume at the
+   * thread's lastUpdatedPage, so a post removed from an earlier page goes
+   * unnoticed until the thread is scraped from its first page again.
+   * @returns Number of posts newly marked deleted
+   */
+  async markDeletedPosts(
+    threadId: number,
+    seenPostIds: number[],
+    range: PostIdRange
+  ): Promise<number> {
+    if (seenPostIds.length === 0) {
+      return 0;
+    }
+
+    const [count] = await ForumPost.update(
+      { deletedAt: new Date() },
+      {
+        where: {
+          threadId,
+          deletedAt: null,
+          postId: {
+            [Op.gt]: range.after,
+            [Op.lte]: range.through ?? Number.MAX_SAFE_INTEGER,
+            [Op.notIn]: seenPostIds,
+          },
+        },
+      }
+    );
+    if (count > 0) {
+      console.log(`🗑️  Marked ${count} posts of thread ${threadId} as deleted`);
+    }
+    return count;
+  }
+
+  /**
+   * Mark threads of a forum that two listing checks in a row should have
+   * shown but did not. A single miss is only noted: the thread may have
+   * moved to a forum checked later, or lost its last reply and dropped
+   * below where the check stopped.
+   * @param since Only threads whose stored last reply is newer than this
+   * were covered by the check; null if it read the whole listing
+   * @returns Number of threads newly marked missing
+   */
+  async markMissingThreads(
+    forumId: number,
+    seenThreadIds: number[],
+    since: Date | null
+  ): Promise<number> {
+    if (seenThreadIds.length === 0) {
+      return 0;
+    }
+
+    const missed: WhereOptions = {
+      forumId,
+      missingSince: null,
+      threadId: { [Op.notIn]: seenThreadIds },
+      ...(since ? { lastReplyDate: { [Op.gt]: since } } : {}),
+    };
+    const [count] = await ForumThread.update(
+      { missingSince: col("missedAt") },
+      { where: { ...missed, missedAt: { [Op.ne]: null } } }
+    );
+    await ForumThread.update(
+      { missedAt: new Date() },
+      { where: { ...missed, missedAt: null } }
+    );
+    if (count > 0) {
+      console.log(
+        `🗑️  Marked ${count} threads of forum ${forumId} as missing from the listing`
+      );
+    }
+    return count;
+  }
+
+  /**
+   * Clear the missing flag, and any earlier miss, of threads seen in a
+   * listing again
+   */
+  async restoreThreads(threadIds: number[]): Promise<number> {
+    if (threadIds.length === 0) {
+      return 0;
+    }
+
+    await ForumThread.update(
+      { missedAt: null },
+      {
+        where: {
+          threadId: { [Op.in]: threadIds },
+          missedAt: { [Op.ne]: null },
+        },
+      }
+    );
+    const [count] = await ForumThread.update(
+      { missingSince: null },
+      {
+        where: {
+          threadId: { [Op.in]: threadIds },
+          missingSince: { [Op.ne]: null },
+        },
+      }
+    );
+    if (count > 0) {
+      console.log(`↩️  ${count} missing threads are listed again`);
+    }
+    return count;
+  }
+}
+
+export { RemovedContentTracker };
@@ -0,0 +1,261 @@
+import { readdirSync } from "fs";
+import path from "path";
+import type { Connection, RowDataPacket } from "mysql2";
+import { QueryInterface } from "sequelize";
+import { sequelize } from "../config/database";
+import { SchemaMigration } from "../model/SchemaMigration";
+
+/**
+ * A numbered schema change in src/migrations. Both directions should be
+ * safe to re-run after an interruption.
+ */
+export interface Migration {
+  /** File name without the extension, e.g. 0001-typed-thread-columns */
+  name: string;
+  up(queryInterface: QueryInterface): Promise<void>;
+  down(queryInterface: QueryInterface): Promise<void>;
+}
+
+export interface AppliedMigration {
+  name: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  name: string;
+  /** null while pending */
+  appliedAt: Date | null;
+  /** Applied here but no longer in src/migrations */
+  missing: boolean;
+}
+
+/**
+ * Where applied migrations are recorded
+ */
+export interface MigrationLog {
+  applied(): Promise<AppliedMigration[]>;
+  record(name: string): Promise<void>;
+  forget(name: string): Promise<void>;
+  /** Run work while no other node runs migrations */
+  withLock<T>(work: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Thrown when the database is behind the migrations shipped with the code
+ */
+export class PendingMigrationsError extends Error {
+  constructor(pending: string[]) {
+    super(
+      `${pending.length} pending migration(s): ${pending.join(", ")}. ` +
+        `Run "form-scrp migrate" first.`
+    );
+    this.name = "PendingMigrationsError";
+  }
+}
+
+const MIGRATIONS_DIR = path.join(__dirname, "../migrations");
+const MIGRATION_FILE = /^\d{4}-[\w-]+\.(ts|js)$/;
+const LOCK_NAME = "form_scrp_schema_migrations";
+const LOCK_TIMEOUT_SECONDS = 60;
+const CREATE_LOG_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+  name VARCHAR(191) NOT NULL,
+  appliedAt DATETIME NOT NULL,
+  PRIMARY KEY (name)
+)`;
+
+/**
+ * Load the migrations in a directory, ordered by their number
+ */
+export const loadMigrations = (dir: string = MIGRATIONS_DIR): Migration[] =>
+  readdirSync(dir)
+    .filter((file) => MIGRATION_FILE.test(file))
+    .sort()
+    .map((file) => {
+      const { up, down } = require(path.join(dir, file));
+      if (typeof up !== "function" || typeof down !== "function") {
+        throw new Error(`Migration ${file} must export up and down`);
+      }
+      return { name: file.replace(/\.(ts|js)$/, ""), up, down };
+    });
+
+/**
+ * Records migrations in the schema_migrations table. The lock is a MySQL
+ * named lock, which belongs to the connection that took it, so one pooled
+ * connection is held for as long as the work runs.
+ */
+class SequelizeMigrationLog implements MigrationLog {
+  async applied(): Promise<AppliedMigration[]> {
+    await sequelize.query(CREATE_LOG_TABLE);
+    const rows = await SchemaMigration.findAll({ order: [["name", "ASC"]] });
+    return rows.map((row) => ({ name: row.name, appliedAt: row.appliedAt }));
+  }
+
+  async record(name: string): Promise<void> {
+    await SchemaMigration.create({ name, appliedAt: new Date() });
+  }
+
+  async forget(name: string): Promise<void> {
+    await SchemaMigration.destroy({ where: { name } });
+  }
+
+  async withLock<T>(work: () => Promise<T>): Promise<T> {
+    const { connectionManager } = sequelize;
+    const connection = (await connectionManager.getConnection({
+      type: "write",
+    })) as Connection;
+    const lockConnection = connection.promise();
+
+    try {
+      const [[{ locked }]] = await lockConnection.query<RowDataPacket[]>(
+        "SELECT GET_LOCK(?, ?) AS locked",
+        [LOCK_NAME, LOCK_TIMEOUT_SECONDS]
+      );
+      if (locked !== 1) {
+        throw new Error(
+          "Another node is running migrations; try again once it finishes"
+        );
+      }
+
+      try {
+        return await work();
+      } finally {
+        await lockConnection.query("SELECT RELEASE_LOCK(?)", [LOCK_NAME]);
+      }
+    } finally {
+      connectionManager.releaseConnection(connection);
+    }
+  }
+}
+
+/**
+ * Applies and reverts the migrations in src/migrations in order, recording
+ * each one so every node converges on the same schema
+ */
+class SchemaMigrator {
+  private migrations: Migration[];
+  private log: MigrationLog;
+  private queryInterface: QueryInterface;
+
+  constructor(
+    migrations: Migration[] = loadMigrations(),
+    log: MigrationLog = new SequelizeMigrationLog(),
+    queryInterface: QueryInterface = sequelize.getQueryInterface()
+  ) {
+    this.migrations = migrations;
+    this.log = log;
+    this.queryInterface = queryInterface;
+  }
+
+  /**
+   * Every known migration with when it was applied, followed by applied
+   * migrations whose files are gone
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.log.applied();
+    const appliedAt = new Map(applied.map((row) => [row.name, row.appliedAt]));
+    const known = new Set(this.migrations.map((migration) => migration.name));
+
+    return [
+      ...this.migrations.map((migration) => ({
+        name: migration.name,
+        appliedAt: appliedAt.get(migration.name) || null,
+        missing: false,
+      })),
+      ...applied
+        .filter((row) => !known.has(row.name))
+        .map((row) => ({ ...row, missing: true })),
+    ];
+  }
+
+  /**
+   * Names of the migrations not yet applied, in order
+   */
+  async pending(): Promise<string[]> {
+    return (await this.status())
+      .filter((migration) => !migration.appliedAt)
+      .map((migration) => migration.name);
+  }
+
+  /**
+   * Throw PendingMigrationsError unless the database is up to date
+   */
+  async assertCurrent(): Promise<void> {
+    const pending = await this.pending();
+    if (pending.length > 0) {
+      throw new PendingMigrationsError(pending);
+    }
+  }
+
+  /**
+   * Apply pending migrations in order
+   * @param to Stop after this migration
+   * @returns Names of the migrations applied
+   */
+  async migrate(to?: string): Promise<string[]> {
+    if (to) {
+      this.find(to);
+    }
+
+    return this.log.withLock(async () => {
+      const pending = new Set(await this.pending());
+      const done: string[] = [];
+
+      for (const migration of this.migrations) {
+        if (pending.has(migration.name)) {
+          console.log(`⬆️  Applying ${migration.name}...`);
+          await migration.up(this.queryInterface);
+          await this.log.record(migration.name);
+          done.push(migration.name);
+        }
+        if (migration.name === to) {
+          break;
+        }
+      }
+      return done;
+    });
+  }
+
+  /**
+   * Revert applied migrations, newest first
+   * @param steps How many to revert
+   * @param to Revert everything after this migration instead
+   * @returns Names of the migrations reverted
+   */
+  async rollback(steps = 1, to?: string): Promise<string[]> {
+    if (to) {
+      this.find(to);
+    }
+
+    return this.log.withLock(async () => {
+      const applied = (await this.log.applied())
+        .map((row) => row.name)
+        .sort()
+        .reverse();
+      const targets = to
+        ? applied.filter((name) => name > to)
+        : applied.slice(0, steps);
+      const done: string[] = [];
+
+      for (const name of targets) {
+        const migration = this.find(name);
+        console.log(`⬇️  Reverting ${name}...`);
+        await migration.down(this.queryInterface);
+        await this.log.forget(name);
+        done.push(name);
+      }
+      return done;
+    });
+  }
+
+  private find(name: string): Migration {
+    const migration = this.migrations.find(
+      (candidate) => candidate.name === name
+    );
+    if (!migration) {
+      throw new Error(`Unknown migration "${name}"`);
+    }
+    return migration;
+  }
+}
+
+export { SchemaMigrator };
@@ -0,0 +1,264 @@
+import * as os from "os";
+import { Op, QueryTypes } from "sequelize";
+import { sequelize } from "../config/database";
+import { ForumThread } from "../model/ForumThread";
+import { ScrapeJob, ScrapeJobStatus } from "../model/ScrapeJob";
+
+export interface ScrapeJobQueueOptions {
+  workerId?: string;
+  leaseMs?: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Database-backed queue of thread detail-page scrapes.
+ *
+ * Workers claim one job at a time with SELECT ... FOR UPDATE SKIP LOCKED,
+ * so any number of them can share the queue without static partitioning.
+ * A claim holds a lease that the worker renews with heartbeats; jobs whose
+ * lease expired (dead or stuck worker) are claimed again by someone else.
+ */
+class ScrapeJobQueue {
+  readonly workerId: string;
+  private readonly LEASE_MS: number;
+  private readonly MAX_ATTEMPTS: number;
+  private readonly ENQUEUE_CHUNK_SIZE = 1000;
+
+  constructor(options: ScrapeJobQueueOptions = {}) {
+    this.workerId =
+      options.workerId ||
+      process.env.WORKER_ID ||
+      `${os.hostname()}-${process.pid}`;
+    this.LEASE_MS =
+      options.leaseMs ??
+      parseInt(process.env.SCRAPE_JOB_LEASE_MS || String(10 * 60 * 1000));
+    this.MAX_ATTEMPTS =
+      options.maxAttempts ??
+      parseInt(process.env.SCRAPE_JOB_MAX_ATTEMPTS || "5");
+  }
+
+  private nextLeaseExpiry(): Date {
+    return new Date(Date.now() + this.LEASE_MS);
+  }
+
+  /**
+   * Queue every thread whose detail pages are missing or older than its
+   * latest reply. Completed jobs of such threads are reopened; failed jobs
+   * stay failed until retryFailed().
+   * @returns Number of threads needing an update
+   */
+  async enqueueStaleThreads(): Promise<number> {
+    // Threads where detailPageUpdateDate is null OR lastReplyDate > detailPageUpdateDate
+    const threads = await ForumThread.findAll({
+      attributes: ["threadId", "lastReplyDate"],
+      where: sequelize.or(
+        { detailPageUpdateDate: null },
+        sequelize.where(
+          sequelize.col("lastReplyDate"),
+          ">",
+          sequelize.col("detailPageUpdateDate")
+        )
+      ),
+    });
+
+    for (let i = 0; i < threads.length; i += this.ENQUEUE_CHUNK_SIZE) {
+      const chunk = threads.slice(i, i + this.ENQUEUE_CHUNK_SIZE);
+      const threadIds = chunk.map((thread) => thread.threadId);
+
+      // Insert missing jobs and refresh the ordering key of existing ones
+      await ScrapeJob.bulkCreate(
+        chunk.map((thread) => ({
+          threadId: thread.threadId,
+          lastReplyDate: thread.lastReplyDate,
+          status: "pending",
+        })),
+        { updateOnDuplicate: ["lastReplyDate"] }
+      );
+
+      await ScrapeJob.update(
+        { status: "pending", attempts: 0, lastError: null },
+        { where: { status: "done", threadId: { [Op.in]: threadIds } } }
+      );
+    }
+
+    console.log(`Queued ${threads.length} threads needing detail page updates`);
+    return threads.length;
+  }
+
+  /**
+   * Atomically claim the next pending job, or a running job whose lease
+   * expired, newest reply first
+   * @returns The claimed job, or null when the queue is drained
+   */
+  async claim(): Promise<ScrapeJob | null> {
+    await this.failExhaustedJobs();
+
+    return sequelize.transaction(async (transaction) => {
+      // Sequelize only emits SKIP LOCKED for Postgres, so lock the row with
+      // a raw query (MySQL 8+). Rows locked by other claims are skipped
+      // instead of making every worker wait on the same job.
+      const rows = await sequelize.query<{ id: number }>(
+        `SELECT id FROM scrape_jobs
+          WHERE status = 'pending'
+             OR (status = 'running' AND leaseExpiresAt < :now AND attempts < :maxAttempts)
+          ORDER BY lastReplyDate DESC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED`,
+        {
+          replacements: { now: new Date(), maxAttempts: this.MAX_ATTEMPTS },
+          type: QueryTypes.SELECT,
+          transaction,
+        }
+      );
+
+      const job =
+        rows.length > 0
+          ? await ScrapeJob.findByPk(rows[0].id, { transaction })
+          : null;
+
+      if (!job) {
+        return null;
+      }
+
+      if (job.status === "running") {
+        console.log(
+          `Reclaiming job ${job.id} (thread ${job.threadId}) from worker ${job.workerId} after its lease expired`
+        );
+      }
+
+      await job.update(
+        {
+          status: "running",
+          workerId: this.workerId,
+          leaseExpiresAt: this.nextLeaseExpiry(),
+          attempts: job.attempts + 1,
+        },
+        { transaction }
+      );
+
+      return job;
+    });
+  }
+
+  /**
+   * Renew the lease of a job this worker holds
+   * @returns false if the lease was lost (expired and claimed elsewhere)
+   */
+  async heartbeat(job: ScrapeJob): Promise<boolean> {
+    const [affected] = await ScrapeJob.update(
+      { leaseExpiresAt: this.nextLeaseExpiry() },
+      { where: { id: job.id, workerId: this.workerId, status: "running" } }
+    );
+    return affected > 0;
+  }
+
+  /**
+   * Renew the lease in the background until the returned stop function
+   * is called
+   */
+  startHeartbeat(job: ScrapeJob): () => void {
+    const interval = setInterval(async () => {
+      try {
+        if (!(await this.heartbeat(job))) {
+          console.warn(
+            `Lost the lease on job ${job.id} (thread ${job.threadId}); another worker may pick it up`
+          );
+        }
+      } catch (error) {
+        console.error(`Error renewing lease on job ${job.id}:`, error);
+      }
+    }, Math.max(1000, Math.floor(this.LEASE_MS / 3)));
+
+    return () => clearInterval(interval);
+  }
+
+  /**
+   * Mark a claimed job as done and release its lease
+   */
+  async complete(job: ScrapeJob): Promise<void> {
+    await ScrapeJob.update(
+      { status: "done", workerId: null, leaseExpiresAt: null, lastError: null },
+      { where: { id: job.id, workerId: this.workerId } }
+    );
+  }
+
+  /**
+   * Release a claimed job after a failed attempt. It goes back to pending
+   * until it has used up its attempts.
+   */
+  async fail(job: ScrapeJob, error: unknown): Promise<void> {
+    const status: ScrapeJobStatus =
+      job.attempts >= this.MAX_ATTEMPTS ? "failed" : "pending";
+
+    await ScrapeJob.update(
+      {
+        status,
+        workerId: null,
+        leaseExpiresAt: null,
+        lastError: error instanceof Error ? error.message : String(error),
+      },
+      { where: { id: job.id, workerId: this.workerId } }
+    );
+  }
+
+  /**
+   * Give up on jobs whose workers kept dying before finishing them
+   */
+  private async failExhaustedJobs(): Promise<void> {
+    await ScrapeJob.update(
+      {
+        status: "failed",
+        workerId: null,
+        leaseExpiresAt: null,
+        lastError: "Lease expired after the last attempt",
+      },
+      {
+        where: {
+          status: "running",
+          leaseExpiresAt: { [Op.lt]: new Date() },
+          attempts: { [Op.gte]: this.MAX_ATTEMPTS },
+        },
+      }
+    );
+  }
+
+  /**
+   * Put failed jobs back in the queue with a fresh attempt budget
+   * @returns Number of jobs requeued
+   */
+  async retryFailed(): Promise<number> {
+    const [affected] = await ScrapeJob.update(
+      { status: "pending", attempts: 0, lastError: null },
+      { where: { status: "failed" } }
+    );
+    return affected;
+  }
+
+  /**
+   * Count jobs per status
+   */
+  async getStatusCounts(): Promise<Record<ScrapeJobStatus, number>> {
+    const counts: Record<ScrapeJobStatus, number> = {
+      pending: 0,
+      running: 0,
+      done: 0,
+      failed: 0,
+    };
+
+    const rows = (await ScrapeJob.findAll({
+      attributes: [
+        "status",
+        [sequelize.fn("COUNT", sequelize.col("id")), "count"],
+      ],
+      group: ["status"],
+      raw: true,
+    })) as unknown as Array<{ status: ScrapeJobStatus; count: number }>;
+
+    for (const row of rows) {
+      counts[row.status] = Number(row.count);
+    }
+    return counts;
+  }
+}
+
+export { ScrapeJobQueue };
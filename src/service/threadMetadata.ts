@@ -0,0 +1,198 @@
+import { Op, WhereOptions } from "sequelize";
+import { ForumTag } from "../model/ForumTag";
+import { ForumThread } from "../model/ForumThread";
+import { ThreadTag } from "../model/ThreadTag";
+import {
+  ThreadPageData,
+  ThreadTagData,
+  ThreadUpdateData,
+} from "../parsers/types";
+import { parseCount, parseForumDate } from "../parsers/values";
+
+/**
+ * Threads to list; every set field must match
+ */
+export interface ThreadFilter {
+  forumId?: number;
+  /** Prefix name, e.g. "HQ", or prefix ID */
+  prefix?: string | number;
+  /** Tag slug or displayed name */
+  tag?: string;
+  sticky?: boolean;
+  locked?: boolean;
+  limit?: number;
+}
+
+const PREVIEW_LENGTH = 500;
+
+/**
+ * Shorten a post's text to a one-paragraph preview, cut at a word where
+ * possible
+ */
+export const previewText = (
+  content: string,
+  maxLength = PREVIEW_LENGTH
+): string => {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength - 1);
+  const wordEnd = cut.lastIndexOf(" ");
+  return `${wordEnd > maxLength / 2 ? cut.slice(0, wordEnd) : cut}…`;
+};
+
+/**
+ * The stored columns a listing row is compared against
+ */
+export type StoredListingState = Pick<
+  ForumThread,
+  | "lastReplyDate"
+  | "replies"
+  | "prefixId"
+  | "prefix"
+  | "sticky"
+  | "locked"
+  | "pageCount"
+>;
+
+/**
+ * Whether a listing row shows something the stored thread lacks: another
+ * last reply or reply count, or another prefix, state or page count
+ */
+export const listingRowChanged = (
+  stored: StoredListingState,
+  row: ThreadUpdateData
+): boolean =>
+  stored.lastReplyDate?.getTime() !==
+    parseForumDate(row.lastReplyDate)?.getTime() ||
+  stored.replies !== parseCount(row.replies) ||
+  stored.prefixId !== row.prefixId ||
+  stored.prefix !== row.prefix ||
+  stored.sticky !== row.sticky ||
+  stored.locked !== row.locked ||
+  stored.pageCount !== row.pageCount;
+
+/**
+ * Stores what a thread's first page shows about the thread itself (prefix,
+ * tags, locked state, page count and the start of the first post) and
+ * finds threads by it
+ */
+class ThreadMetadataService {
+  /**
+   * Store the details above the posts of a thread page
+   * @param pageCount Pages the thread has, from the page nav
+   */
+  async saveThreadPage(
+    threadId: number,
+    page: ThreadPageData,
+    pageCount: number
+  ): Promise<void> {
+    await ForumThread.update(
+      {
+        prefixId: page.prefixId,
+        prefix: page.prefix,
+        locked: page.locked,
+        pageCount,
+      },
+      { where: { threadId } }
+    );
+    await this.replaceTags(threadId, page.tags);
+  }
+
+  /**
+   * Keep the start of a thread's first post
+   */
+  async saveFirstPost(threadId: number, content: string): Promise<void> {
+    await ForumThread.update(
+      { firstPostPreview: previewText(content) },
+      { where: { threadId } }
+    );
+  }
+
+  /**
+   * Replace the stored tags of a thread, adding tags not seen before
+   */
+  async replaceTags(threadId: number, tags: ThreadTagData[]): Promise<void> {
+    const tagIds: number[] = [];
+    if (tags.length > 0) {
+      // Names are only shown on thread pages, so the latest one wins
+      await ForumTag.bulkCreate(
+        tags.map(({ tag, name }) => ({ tag, name })),
+        { updateOnDuplicate: ["name", "updatedAt"] }
+      );
+      const stored = await ForumTag.findAll({
+        where: { tag: { [Op.in]: tags.map(({ tag }) => tag) } },
+      });
+      tagIds.push(...stored.map((tag) => tag.id));
+    }
+
+    await ThreadTag.destroy({
+      where: {
+        threadId,
+        ...(tagIds.length > 0 ? { tagId: { [Op.notIn]: tagIds } } : {}),
+      },
+    });
+    await ThreadTag.bulkCreate(
+      tagIds.map((tagId) => ({ threadId, tagId })),
+      { ignoreDuplicates: true }
+    );
+  }
+
+  /**
+   * Tags of a thread, in name order
+   */
+  async threadTags(threadId: number): Promise<ForumTag[]> {
+    const links = await ThreadTag.findAll({ where: { threadId } });
+    if (links.length === 0) {
+      return [];
+    }
+    return ForumTag.findAll({
+      where: { id: { [Op.in]: links.map((link) => link.tagId) } },
+      order: [["name", "ASC"]],
+    });
+  }
+
+  /**
+   * Threads matching a filter, most recently replied first
+   */
+  async findThreads(filter: ThreadFilter): Promise<ForumThread[]> {
+    const where: WhereOptions[] = [];
+    if (filter.forumId !== undefined) {
+      where.push({ forumId: filter.forumId });
+    }
+    if (typeof filter.prefix === "number") {
+      where.push({ prefixId: filter.prefix });
+    } else if (filter.prefix !== undefined) {
+      where.push({ prefix: filter.prefix });
+    }
+    if (filter.sticky !== undefined) {
+      where.push({ sticky: filter.sticky });
+    }
+    if (filter.locked !== undefined) {
+      where.push({ locked: filter.locked });
+    }
+    if (filter.tag !== undefined) {
+      const tags = await ForumTag.findAll({
+        where: { [Op.or]: [{ tag: filter.tag }, { name: filter.tag }] },
+      });
+      const links = await ThreadTag.findAll({
+        where: { tagId: { [Op.in]: tags.map((tag) => tag.id) } },
+      });
+      if (links.length === 0) {
+        return [];
+      }
+      where.push({
+        threadId: { [Op.in]: links.map((link) => link.threadId) },
+      });
+    }
+
+    return ForumThread.findAll({
+      where: { [Op.and]: where },
+      order: [["lastReplyDate", "DESC"]],
+      limit: filter.limit,
+    });
+  }
+}
+
+export { ThreadMetadataService };
@@ -0,0 +1,104 @@
+import * as path from "path";
+import { Op } from "sequelize";
+import { ForumMedia } from "../model/ForumMedia";
+import { MediaObject } from "../model/MediaObject";
+import { generateThumbnail, thumbnailKey } from "../media/thumbnail";
+import { createMediaStore, MediaStore } from "../storage";
+
+/**
+ * Generates `_thumb` objects for stored images that were saved without one
+ */
+class ThumbnailService {
+  private store: MediaStore;
+
+  constructor(store: MediaStore = createMediaStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Create the thumbnail for one stored image unless it already exists
+   * @returns False if the image is not in the store or cannot be decoded
+   */
+  async ensureThumbnail(key: string): Promise<boolean> {
+    const thumbKey = thumbnailKey(key);
+    if (await this.store.head(thumbKey)) {
+      return true;
+    }
+
+    const image = await this.store.get(key);
+    if (!image) {
+      return false;
+    }
+
+    const thumbnail = await generateThumbnail(image, path.posix.extname(key));
+    await this.store.put(thumbKey, thumbnail.buffer, {
+      contentType: thumbnail.contentType,
+      metadata: { "generated-thumb": "true" },
+    });
+    return true;
+  }
+
+  /**
+   * Generate thumbnails for every image row with existThumb = 0 and flag
+   * the rows (and their shared objects) once the thumbnail exists
+   */
+  async backfill(): Promise<{ created: number; failed: number }> {
+    const BATCH_SIZE = 100;
+    const seenLinks = new Set<string>();
+    let created = 0;
+    let failed = 0;
+    let lastId = 0;
+
+    while (true) {
+      const rows = await ForumMedia.findAll({
+        where: { id: { [Op.gt]: lastId }, type: "img", existThumb: 0 },
+        order: [["id", "ASC"]],
+        limit: BATCH_SIZE,
+      });
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        lastId = row.id;
+
+        // Deduplicated media shares a link, and with it one thumbnail
+        if (seenLinks.has(row.link)) {
+          continue;
+        }
+        seenLinks.add(row.link);
+
+        const key = this.store.keyFromUrl(row.link);
+        try {
+          if (!key || !(await this.ensureThumbnail(key))) {
+            throw new Error(`not found in ${this.store.name} store`);
+          }
+        } catch (error) {
+          console.error(
+            `⚠️ Could not create thumbnail for ${row.link}: ${error}`
+          );
+          failed++;
+          continue;
+        }
+
+        await ForumMedia.update(
+          { existThumb: 1 },
+          { where: { link: row.link } }
+        );
+        if (row.mediaObjectId) {
+          await MediaObject.update(
+            { hasThumb: true },
+            { where: { id: row.mediaObjectId } }
+          );
+        }
+        created++;
+      }
+
+      console.log(`Created ${created} thumbnails so far (${failed} failed)`);
+    }
+
+    return { created, failed };
+  }
+}
+
+export { ThumbnailService };
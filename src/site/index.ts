@@ -0,0 +1,24 @@
+import { SiteAdapterName, siteConfig } from "../config/site";
+import { XenForoAdapter } from "./xenforoAdapter";
+import { SiteAdapter } from "./types";
+
+export * from "./types";
+export { XenForoAdapter };
+
+/**
+ * Create the site adapter selected by SITE_ADAPTER
+ */
+export const createSiteAdapter = (
+  name: SiteAdapterName = siteConfig.adapter
+): SiteAdapter => {
+  switch (name) {
+    case "xenforo2":
+      return new XenForoAdapter({
+        siteUrl: siteConfig.siteUrl,
+        landingUrl: siteConfig.forumUrl,
+      });
+
+    default:
+      throw new Error(`Unknown SITE_ADAPTER "${name}" (expected xenforo2)`);
+  }
+};
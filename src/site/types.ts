@@ -0,0 +1,97 @@
+import { Page } from "puppeteer";
+import {
+  AttachmentMediaUrl,
+  DomDocument,
+  DomRoot,
+  ForumNodeData,
+  ForumThreadData,
+  MemberProfileData,
+  PostData,
+  ReactionsPageData,
+  ThreadPageData,
+  ThreadUpdateData,
+} from "../parsers/types";
+
+export interface LoginCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * CSS selectors the scrapers wait on or click, outside the page parsers
+ */
+export interface SiteSelectors {
+  /** Only present when a user is logged in */
+  loggedIn: string;
+  /** Login links shown to guests, tried in order */
+  loginLinks: string[];
+  /** Button that accepts the cookie notice */
+  cookieConsent: string;
+  /** Any of these means a forum listing has rendered */
+  threadList: string[];
+  /** Dialogs to dismiss on attachment pages (age gates, cookie walls) */
+  attachmentDialogs: string[];
+}
+
+/**
+ * Page parsers for a site. They run inside the browser through
+ * evaluateParser, so each must come from a module the adapter passed to
+ * registerParserModule.
+ */
+export interface SiteParsers {
+  lastPageNumber: (root: DomRoot) => number;
+  threadListing: (root: DomRoot) => ForumThreadData[];
+  threadUpdates: (root: DomRoot) => ThreadUpdateData[];
+  pagePosts: (root: DomRoot, baseUrl: string) => PostData[];
+  threadPage: (root: DomRoot) => ThreadPageData;
+  forumNodes: (root: DomRoot, baseUrl: string) => ForumNodeData[];
+  reactionsPage: (root: DomRoot, baseUrl: string) => ReactionsPageData;
+  memberProfile: (
+    root: DomRoot,
+    baseUrl: string
+  ) => MemberProfileData | null;
+  hasAttachmentMediaContent: (root: DomDocument) => boolean;
+  attachmentMediaUrl: (
+    root: DomDocument,
+    baseUrl: string
+  ) => AttachmentMediaUrl | null;
+}
+
+/**
+ * Everything the scrapers need to know about one forum software: URL
+ * shapes, the login flow, selectors and parsers. The scrapers only talk
+ * to the site through this, so supporting another forum means adding an
+ * adapter rather than forking the scrapers.
+ */
+export interface SiteAdapter {
+  /** Adapter name, for logs */
+  readonly name: string;
+  /** Site root without a trailing slash */
+  readonly siteUrl: string;
+  readonly selectors: SiteSelectors;
+  readonly parsers: SiteParsers;
+
+  /** A page that shows whether we are logged in, used to start a login */
+  landingUrl(): string;
+  /** Page listing every forum, for subforum discovery */
+  forumIndexUrl(): string;
+  /** URL of a listing page of the forum whose first page is forumUrl */
+  listingPageUrl(forumUrl: string, page: number): string;
+  /** URL of a thread page, from the thread URL stored at listing time */
+  threadPageUrl(threadUrl: string, page: number): string;
+  /** Page listing who reacted to a post, and how */
+  reactionsUrl(postId: number): string;
+  /** Profile page of a member */
+  memberUrl(userId: number): string;
+  /**
+   * Whether a post media URL leads to an attachment page that has to be
+   * resolved to the file, rather than to the file itself
+   */
+  isAttachmentPageUrl(url: string): boolean;
+
+  /**
+   * Open the login form from the current page, fill it in and submit it
+   * @returns false if the form could not be found
+   */
+  submitLogin(page: Page, credentials: LoginCredentials): Promise<boolean>;
+}
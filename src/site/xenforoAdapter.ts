@@ -0,0 +1,236 @@
+import { Page } from "puppeteer";
+import { registerParserModule } from "../parsers/evaluate";
+import * as pageParsers from "../parsers/pageParsers";
+import { delay } from "../utils";
+import {
+  LoginCredentials,
+  SiteAdapter,
+  SiteParsers,
+  SiteSelectors,
+} from "./types";
+
+export interface XenForoAdapterOptions {
+  siteUrl: string;
+  /** Page opened to log in; defaults to the forum index */
+  landingUrl?: string;
+}
+
+// Attachment slugs keep the original file name with its dot replaced,
+// e.g. /attachments/screenshot-2024-01-25-png.120147661/
+const MEDIA_NAMES = [
+  "jpg",
+  "jpeg",
+  "png",
+  "gif",
+  "bmp",
+  "webp",
+  "svg",
+  "mp4",
+  "avi",
+  "mov",
+  "wmv",
+  "flv",
+  "webm",
+  "mkv",
+];
+
+registerParserModule(pageParsers);
+
+/**
+ * XenForo 2 forums, as served by lpsg.com: listings and threads paginate
+ * with `page-N` path segments and login happens in an overlay form
+ */
+class XenForoAdapter implements SiteAdapter {
+  readonly name = "xenforo2";
+  readonly siteUrl: string;
+  private readonly landing: string;
+
+  readonly selectors: SiteSelectors = {
+    loggedIn: 'a[href="/account/"]',
+    loginLinks: ['a[href="/login/"]', "a.p-navgroup-link--logIn"],
+    cookieConsent: 'a[href*="/misc/cookies"][class*="button--notice"]',
+    threadList: [".structItem", ".structItem-container", ".thread-list"],
+    attachmentDialogs: [
+      'button:has-text("I am 18 or older")',
+      'button:has-text("Accept all cookies")',
+    ],
+  };
+
+  readonly parsers: SiteParsers = {
+    lastPageNumber: pageParsers.parseLastPageNumber,
+    threadListing: pageParsers.parseThreadListing,
+    threadUpdates: pageParsers.parseThreadUpdates,
+    pagePosts: pageParsers.parsePagePosts,
+    threadPage: pageParsers.parseThreadPage,
+    forumNodes: pageParsers.parseForumNodes,
+    reactionsPage: pageParsers.parseReactionsPage,
+    memberProfile: pageParsers.parseMemberProfile,
+    hasAttachmentMediaContent: pageParsers.hasAttachmentMediaContent,
+    attachmentMediaUrl: pageParsers.parseAttachmentMediaUrl,
+  };
+
+  constructor(options: XenForoAdapterOptions) {
+    this.siteUrl = options.siteUrl.replace(/\/+$/, "");
+    this.landing = options.landingUrl || this.forumIndexUrl();
+  }
+
+  landingUrl(): string {
+    return this.landing;
+  }
+
+  forumIndexUrl(): string {
+    return `${this.siteUrl}/forums/`;
+  }
+
+  listingPageUrl(forumUrl: string, page: number): string {
+    const base = forumUrl.endsWith("/") ? forumUrl : `${forumUrl}/`;
+    return page === 1 ? base : `${base}page-${page}`;
+  }
+
+  /**
+   * Listing links point at /threads/title.id/unread; pages hang off the
+   * bare thread URL as /threads/title.id/page-N
+   */
+  threadPageUrl(threadUrl: string, page: number): string {
+    let base = threadUrl.replace(/\/unread$/, "");
+    if (!base.endsWith("/")) {
+      base += "/";
+    }
+    if (!base.startsWith("http")) {
+      base = `${this.siteUrl}${base}`;
+    }
+    return page === 1 ? base : `${base}page-${page}`;
+  }
+
+  reactionsUrl(postId: number): string {
+    return `${this.siteUrl}/posts/${postId}/reactions`;
+  }
+
+  /**
+   * XenForo redirects /members/<id>/ to the member's /members/name.id/ URL
+   */
+  memberUrl(userId: number): string {
+    return `${this.siteUrl}/members/${userId}/`;
+  }
+
+  /**
+   * Attachment page URLs name the file type without a file extension,
+   * e.g. screenshot-2024-01-25-png.120147661
+   */
+  isAttachmentPageUrl(url: string): boolean {
+    const lowerUrl = url.toLowerCase();
+    const hasMediaName = MEDIA_NAMES.some((name) => lowerUrl.includes(name));
+    const hasMediaExtension = MEDIA_NAMES.some((name) =>
+      lowerUrl.includes(`.${name}`)
+    );
+    return hasMediaName && !hasMediaExtension;
+  }
+
+  async submitLogin(
+    page: Page,
+    credentials: LoginCredentials
+  ): Promise<boolean> {
+    // Try multiple selectors for the login link
+    let loginLink = null;
+    for (const selector of this.selectors.loginLinks) {
+      loginLink = await page.$(selector);
+      if (loginLink) break;
+    }
+
+    if (!loginLink) {
+      // Try clicking by text content
+      const loginLinkFound = await page.evaluate(() => {
+        const document = (globalThis as any).document;
+        const links = Array.from(document.querySelectorAll("a"));
+        const loginLink = links.find((link: any) =>
+          link.textContent?.includes("Log in")
+        );
+        if (loginLink) {
+          (loginLink as any).click();
+          return true;
+        }
+        return false;
+      });
+
+      if (!loginLinkFound) {
+        console.log("Login link not found - might already be logged in");
+        return true;
+      }
+    } else {
+      try {
+        const isVisible = await loginLink.isVisible();
+        if (!isVisible) {
+          await loginLink.scrollIntoView();
+          await delay(1000);
+        }
+        await loginLink.click();
+      } catch (clickError) {
+        // Fallback: try clicking via evaluate
+        await page.evaluate((element) => {
+          (element as HTMLElement).click();
+        }, loginLink);
+      }
+    }
+
+    console.log("Clicked login link, waiting for modal to open...");
+    // Wait a bit for modal to start opening
+    await delay(2000);
+
+    // Try multiple selectors for the login form
+    let loginForm = await page.$('input[name="login"]');
+
+    if (!loginForm) {
+      loginForm =
+        (await page.$('input[type="text"]')) ||
+        (await page.$('input[placeholder*="name"]')) ||
+        (await page.$('input[placeholder*="email"]')) ||
+        (await page.$('input[placeholder*="username"]'));
+    }
+
+    if (!loginForm) {
+      console.log(
+        "Still no login form found, taking screenshot for debugging..."
+      );
+      await page.screenshot({ path: "debug-login.png" });
+      console.log("Screenshot saved as debug-login.png");
+      return false;
+    }
+
+    console.log("Login form found, proceeding with login...");
+
+    // Add a small delay to ensure modal is fully loaded
+    await delay(1000);
+
+    // Clear any existing text and fill in credentials
+    await page.focus('input[name="login"]');
+    await page.keyboard.down("Control");
+    await page.keyboard.press("KeyA");
+    await page.keyboard.up("Control");
+    await page.type('input[name="login"]', credentials.username);
+
+    await page.focus('input[name="password"]');
+    await page.keyboard.down("Control");
+    await page.keyboard.press("KeyA");
+    await page.keyboard.up("Control");
+    await page.type('input[name="password"]', credentials.password);
+
+    // Try multiple selectors for the submit button
+    const submitButton =
+      (await page.$(
+        'button[type="submit"].button--primary.button--icon--login'
+      )) ||
+      (await page.$('button.button--primary[type="submit"]')) ||
+      (await page.$('button[type="submit"]'));
+
+    if (!submitButton) {
+      console.log("Submit button not found");
+      return false;
+    }
+
+    await submitButton.click();
+    console.log("Submitted login form...");
+    return true;
+  }
+}
+
+export { XenForoAdapter };
@@ -0,0 +1,78 @@
+import { MediaStoreDriver, storageConfig } from "../config/storage";
+import { LocalMediaStore } from "./localMediaStore";
+import { S3MediaStore } from "./s3MediaStore";
+import { MediaStore } from "./types";
+
+export * from "./types";
+export { LocalMediaStore, S3MediaStore };
+
+const withProtocol = (endpoint: string): string =>
+  endpoint.startsWith("http://") || endpoint.startsWith("https://")
+    ? endpoint
+    : `https://${endpoint}`;
+
+/**
+ * Create the media store selected by MEDIA_STORE
+ */
+export const createMediaStore = (
+  driver: MediaStoreDriver = storageConfig.driver
+): MediaStore => {
+  const { s3, local, multipart } = storageConfig;
+
+  switch (driver) {
+    case "local":
+      return new LocalMediaStore(local.dir, local.publicUrl || undefined);
+
+    case "wasabi":
+      return new S3MediaStore({
+        name: "wasabi",
+        bucket: s3.bucket,
+        region: s3.region,
+        endpoint: withProtocol(
+          s3.endpoint || `s3.${s3.region}.wasabisys.com`
+        ),
+        accessKeyId: s3.accessKeyId,
+        secretAccessKey: s3.secretAccessKey,
+        forcePathStyle: true, // Required for Wasabi
+        publicUrlBase:
+          s3.publicUrl || `https://${s3.bucket}.s3.${s3.region}.wasabisys.com`,
+        // Wasabi uploads have always run with certificate checks disabled
+        rejectUnauthorized: false,
+        ...multipart,
+      });
+
+    case "minio": {
+      const endpoint = withProtocol(s3.endpoint || "http://localhost:9000");
+      return new S3MediaStore({
+        name: "minio",
+        bucket: s3.bucket,
+        region: s3.region,
+        endpoint,
+        accessKeyId: s3.accessKeyId,
+        secretAccessKey: s3.secretAccessKey,
+        forcePathStyle: true,
+        publicUrlBase: s3.publicUrl || `${endpoint}/${s3.bucket}`,
+        ...multipart,
+      });
+    }
+
+    case "s3":
+      return new S3MediaStore({
+        name: "s3",
+        bucket: s3.bucket,
+        region: s3.region,
+        endpoint: s3.endpoint ? withProtocol(s3.endpoint) : undefined,
+        accessKeyId: s3.accessKeyId,
+        secretAccessKey: s3.secretAccessKey,
+        forcePathStyle: false,
+        publicUrlBase:
+          s3.publicUrl || `https://${s3.bucket}.s3.${s3.region}.amazonaws.com`,
+        ...multipart,
+      });
+
+    default:
+      throw new Error(
+        `Unknown MEDIA_STORE "${driver}" (expected s3, wasabi, minio or local)`
+      );
+  }
+};
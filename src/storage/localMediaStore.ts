@@ -0,0 +1,255 @@
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import {
+  DeleteResult,
+  MediaStore,
+  PutObjectOptions,
+  StoredObject,
+  StoredObjectHead,
+} from "./types";
+
+// Content type and metadata live in sidecar files under this directory
+const META_DIR = ".meta";
+
+interface SidecarMetadata {
+  contentType: string | null;
+  metadata: Record<string, string>;
+}
+
+/**
+ * MediaStore on a local directory, for development machines and tests
+ */
+class LocalMediaStore implements MediaStore {
+  readonly name = "local";
+  readonly rootDir: string;
+  private readonly publicUrlBase: string;
+
+  /**
+   * @param rootDir - Directory objects are written under
+   * @param publicUrlBase - URL the directory is served from; defaults to
+   * its file:// URL
+   */
+  constructor(rootDir: string, publicUrlBase?: string) {
+    this.rootDir = path.resolve(rootDir);
+    this.publicUrlBase = (
+      publicUrlBase || pathToFileURL(this.rootDir).href
+    ).replace(/\/+$/, "");
+  }
+
+  /**
+   * Resolve a key to a file path, refusing keys that escape the root
+   */
+  private filePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    if (path.relative(this.rootDir, filePath).split(path.sep)[0] === META_DIR) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  }
+
+  private metaPath(key: string): string {
+    return path.join(this.rootDir, META_DIR, `${key}.json`);
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    options: PutObjectOptions = {}
+  ): Promise<string> {
+    return await this.writeObject(key, options, (tempPath) =>
+      fs.promises.writeFile(tempPath, body)
+    );
+  }
+
+  async putFile(
+    key: string,
+    filePath: string,
+    options: PutObjectOptions = {}
+  ): Promise<string> {
+    return await this.writeObject(key, options, (tempPath) =>
+      fs.promises.copyFile(filePath, tempPath)
+    );
+  }
+
+  /**
+   * Write an object through a temp file so readers never see a partial
+   * object, then its sidecar
+   */
+  private async writeObject(
+    key: string,
+    options: PutObjectOptions,
+    write: (tempPath: string) => Promise<void>
+  ): Promise<string> {
+    const filePath = this.filePath(key);
+    const metaPath = this.metaPath(key);
+    const sidecar: SidecarMetadata = {
+      contentType: options.contentType || null,
+      metadata: options.metadata || {},
+    };
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.mkdir(path.dirname(metaPath), { recursive: true });
+
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      await write(tempPath);
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+    await fs.promises.writeFile(metaPath, JSON.stringify(sidecar));
+
+    return this.publicUrl(key);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.filePath(key));
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async head(key: string): Promise<StoredObjectHead | null> {
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(this.filePath(key));
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    let sidecar: SidecarMetadata = { contentType: null, metadata: {} };
+    try {
+      sidecar = JSON.parse(
+        await fs.promises.readFile(this.metaPath(key), "utf8")
+      );
+    } catch (error) {
+      // Objects copied in by hand have no sidecar
+    }
+
+    return {
+      key,
+      size: stats.size,
+      lastModified: stats.mtime,
+      contentType: sidecar.contentType,
+      metadata: sidecar.metadata,
+    };
+  }
+
+  /**
+   * Call visit for every file whose key starts with the prefix, including
+   * temp files and excluding sidecars
+   */
+  private async walkFiles(
+    prefix: string,
+    visit: (key: string, filePath: string) => Promise<void>
+  ): Promise<void> {
+    const walk = async (dir: string): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error.code === "ENOENT") return;
+        throw error;
+      }
+
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        const key = path
+          .relative(this.rootDir, entryPath)
+          .split(path.sep)
+          .join("/");
+
+        if (entry.isDirectory()) {
+          // Only descend into directories that can contain the prefix
+          const canMatch = prefix.startsWith(key) || key.startsWith(prefix);
+          if (key !== META_DIR && canMatch) {
+            await walk(entryPath);
+          }
+        } else if (key.startsWith(prefix)) {
+          await visit(key, entryPath);
+        }
+      }
+    };
+
+    await walk(this.rootDir);
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+
+    await this.walkFiles(prefix, async (key, filePath) => {
+      if (!key.endsWith(".tmp")) {
+        const stats = await fs.promises.stat(filePath);
+        objects.push({ key, size: stats.size, lastModified: stats.mtime });
+      }
+    });
+
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async delete(keys: string[]): Promise<DeleteResult> {
+    let successful = 0;
+    let failed = 0;
+
+    for (const key of keys) {
+      try {
+        await fs.promises.rm(this.filePath(key), { force: true });
+        await fs.promises.rm(this.metaPath(key), { force: true });
+        successful++;
+      } catch (error) {
+        console.error(`✗ Failed to delete: ${key}`, error);
+        failed++;
+      }
+    }
+
+    return { successful, failed };
+  }
+
+  /**
+   * Remove temp files left behind by writes that were interrupted
+   */
+  async abortIncompleteUploads(
+    prefix: string,
+    olderThan: Date
+  ): Promise<number> {
+    let removed = 0;
+
+    await this.walkFiles(prefix, async (key, filePath) => {
+      if (key.endsWith(".tmp")) {
+        const stats = await fs.promises.stat(filePath);
+        if (stats.mtime < olderThan) {
+          await fs.promises.rm(filePath, { force: true });
+          removed++;
+        }
+      }
+    });
+
+    return removed;
+  }
+
+  publicUrl(key: string): string {
+    return `${this.publicUrlBase}/${key}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.publicUrlBase}/`;
+    if (!url.startsWith(prefix)) {
+      return null;
+    }
+    return url.slice(prefix.length).split("?")[0] || null;
+  }
+}
+
+export { LocalMediaStore };
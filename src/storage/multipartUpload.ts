@@ -0,0 +1,272 @@
+import {
+  S3Client,
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  ListMultipartUploadsCommand,
+  ListPartsCommand,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import { PutObjectOptions } from "./types";
+
+export interface MultipartUploadOptions extends PutObjectOptions {
+  /** Bytes per part; S3 requires at least 5 MiB for all but the last */
+  partSize: number;
+  /** Parts uploaded at once; memory use is about partSize * concurrency */
+  concurrency: number;
+}
+
+interface UploadedPart {
+  PartNumber: number;
+  ETag: string;
+}
+
+// S3 limits a multipart upload to 10,000 parts
+const MAX_PARTS = 10000;
+
+const normalizeETag = (etag: string | undefined): string =>
+  (etag || "").replace(/"/g, "").toLowerCase();
+
+/**
+ * Find the newest unfinished multipart upload for a key
+ * @returns Its upload ID, or null if there is none
+ */
+const findIncompleteUpload = async (
+  client: S3Client,
+  bucket: string,
+  key: string
+): Promise<string | null> => {
+  let newest: { uploadId: string; initiated: number } | null = null;
+  let keyMarker: string | undefined;
+  let uploadIdMarker: string | undefined;
+
+  do {
+    const response = await client.send(
+      new ListMultipartUploadsCommand({
+        Bucket: bucket,
+        Prefix: key,
+        KeyMarker: keyMarker,
+        UploadIdMarker: uploadIdMarker,
+      })
+    );
+
+    for (const upload of response.Uploads || []) {
+      const initiated = upload.Initiated?.getTime() || 0;
+      if (
+        upload.Key === key &&
+        upload.UploadId &&
+        (!newest || initiated > newest.initiated)
+      ) {
+        newest = { uploadId: upload.UploadId, initiated };
+      }
+    }
+
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    uploadIdMarker = response.IsTruncated
+      ? response.NextUploadIdMarker
+      : undefined;
+  } while (keyMarker);
+
+  return newest ? newest.uploadId : null;
+};
+
+/**
+ * Parts already uploaded to a multipart upload, by part number
+ */
+const listUploadedParts = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  uploadId: string
+): Promise<Map<number, { etag: string; size: number }>> => {
+  const parts = new Map<number, { etag: string; size: number }>();
+  let partNumberMarker: string | undefined;
+
+  do {
+    const response = await client.send(
+      new ListPartsCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumberMarker: partNumberMarker,
+      })
+    );
+
+    for (const part of response.Parts || []) {
+      if (part.PartNumber && part.ETag) {
+        parts.set(part.PartNumber, {
+          etag: normalizeETag(part.ETag),
+          size: part.Size || 0,
+        });
+      }
+    }
+
+    partNumberMarker = response.IsTruncated
+      ? response.NextPartNumberMarker
+      : undefined;
+  } while (partNumberMarker);
+
+  return parts;
+};
+
+/**
+ * Upload a file as an S3 multipart upload, reading one part at a time so
+ * memory stays bounded whatever the file size.
+ *
+ * An interrupted upload is left in place rather than aborted. The next
+ * upload of the same key picks it up and skips every part whose size and
+ * MD5 ETag match the file, so a crash or restart only costs the parts that
+ * were in flight. Media keys are content hashes, so the same key means
+ * the same bytes; the ETag check guards against anything else.
+ * @returns Number of parts that were already uploaded and were skipped
+ */
+export const uploadFileMultipart = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  filePath: string,
+  options: MultipartUploadOptions
+): Promise<number> => {
+  const { size } = await fs.promises.stat(filePath);
+  const partSize = Math.max(options.partSize, Math.ceil(size / MAX_PARTS));
+  const partCount = Math.max(1, Math.ceil(size / partSize));
+
+  let uploadId = await findIncompleteUpload(client, bucket, key);
+  const existingParts = uploadId
+    ? await listUploadedParts(client, bucket, key, uploadId)
+    : new Map<number, { etag: string; size: number }>();
+
+  if (!uploadId) {
+    const created = await client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        ContentType: options.contentType,
+        Metadata: options.metadata,
+      })
+    );
+    if (!created.UploadId) {
+      throw new Error(`No upload ID returned for ${key}`);
+    }
+    uploadId = created.UploadId;
+  }
+
+  const file = await fs.promises.open(filePath, "r");
+  const completed: UploadedPart[] = [];
+  let skipped = 0;
+  let nextPart = 1;
+
+  // Each worker owns one part-sized buffer for the whole upload
+  const worker = async (): Promise<void> => {
+    const buffer = Buffer.alloc(partSize);
+
+    while (nextPart <= partCount) {
+      const partNumber = nextPart++;
+      const start = (partNumber - 1) * partSize;
+      const length = Math.min(partSize, size - start);
+      const { bytesRead } = await file.read(buffer, 0, length, start);
+      const body = buffer.subarray(0, bytesRead);
+      const md5 = createHash("md5").update(body).digest("hex");
+
+      const existing = existingParts.get(partNumber);
+      if (existing && existing.size === bytesRead && existing.etag === md5) {
+        completed.push({ PartNumber: partNumber, ETag: `"${md5}"` });
+        skipped++;
+        continue;
+      }
+
+      const response = await client.send(
+        new UploadPartCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+          Body: body,
+          ContentLength: bytesRead,
+          ContentMD5: Buffer.from(md5, "hex").toString("base64"),
+        })
+      );
+      completed.push({
+        PartNumber: partNumber,
+        ETag: response.ETag || `"${md5}"`,
+      });
+    }
+  };
+
+  try {
+    const workers = Math.max(1, Math.min(options.concurrency, partCount));
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+  } finally {
+    await file.close();
+  }
+
+  await client.send(
+    new CompleteMultipartUploadCommand({
+      Bucket: bucket,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: completed.sort((a, b) => a.PartNumber - b.PartNumber),
+      },
+    })
+  );
+
+  return skipped;
+};
+
+/**
+ * Abort multipart uploads under a prefix that were started before the
+ * cutoff and never completed; their parts are billed until then
+ * @returns Number of uploads aborted
+ */
+export const abortIncompleteUploads = async (
+  client: S3Client,
+  bucket: string,
+  prefix: string,
+  olderThan: Date
+): Promise<number> => {
+  const stale: { key: string; uploadId: string }[] = [];
+  let keyMarker: string | undefined;
+  let uploadIdMarker: string | undefined;
+
+  do {
+    const response = await client.send(
+      new ListMultipartUploadsCommand({
+        Bucket: bucket,
+        Prefix: prefix,
+        KeyMarker: keyMarker,
+        UploadIdMarker: uploadIdMarker,
+      })
+    );
+
+    for (const upload of response.Uploads || []) {
+      if (
+        upload.Key &&
+        upload.UploadId &&
+        upload.Initiated &&
+        upload.Initiated < olderThan
+      ) {
+        stale.push({ key: upload.Key, uploadId: upload.UploadId });
+      }
+    }
+
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    uploadIdMarker = response.IsTruncated
+      ? response.NextUploadIdMarker
+      : undefined;
+  } while (keyMarker);
+
+  for (const upload of stale) {
+    await client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: bucket,
+        Key: upload.key,
+        UploadId: upload.uploadId,
+      })
+    );
+  }
+
+  return stale.length;
+};
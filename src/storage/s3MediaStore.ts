@@ -0,0 +1,274 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectsCommand,
+} from "@aws-sdk/client-s3";
+import * as fs from "fs";
+import * as https from "https";
+import { abortIncompleteUploads, uploadFileMultipart } from "./multipartUpload";
+import {
+  DeleteResult,
+  MediaStore,
+  PutObjectOptions,
+  StoredObject,
+  StoredObjectHead,
+} from "./types";
+
+export interface S3MediaStoreConfig {
+  name: string;
+  bucket: string;
+  region: string;
+  /** Custom endpoint for S3-compatible providers; omit for AWS */
+  endpoint?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+  /** Base that keys are appended to for public URLs (no trailing slash) */
+  publicUrlBase: string;
+  /** Set false to accept self-signed or mismatched TLS certificates */
+  rejectUnauthorized?: boolean;
+  maxSockets?: number;
+  /** Files at least this large are uploaded in parts (default 16 MiB) */
+  multipartThreshold?: number;
+  /** Multipart part size (default 8 MiB) */
+  partSize?: number;
+  /** Parts of one file uploaded at once (default 2) */
+  partConcurrency?: number;
+}
+
+const isNotFound = (error: any): boolean =>
+  error?.name === "NotFound" ||
+  error?.name === "NoSuchKey" ||
+  error?.$metadata?.httpStatusCode === 404;
+
+/**
+ * MediaStore on any S3-compatible API (AWS S3, Wasabi, MinIO)
+ */
+class S3MediaStore implements MediaStore {
+  readonly name: string;
+  readonly bucket: string;
+  readonly client: S3Client;
+  private readonly publicUrlBase: string;
+  private readonly multipartThreshold: number;
+  private readonly partSize: number;
+  private readonly partConcurrency: number;
+
+  // S3 DeleteObjects can handle up to 1000 objects at once
+  private readonly DELETE_BATCH_SIZE = 1000;
+
+  constructor(config: S3MediaStoreConfig) {
+    this.name = config.name;
+    this.bucket = config.bucket;
+    this.publicUrlBase = config.publicUrlBase.replace(/\/+$/, "");
+    this.multipartThreshold = config.multipartThreshold ?? 16 * 1024 * 1024;
+    // S3 rejects parts under 5 MiB other than the last
+    this.partSize = Math.max(config.partSize ?? 8 * 1024 * 1024, 5 * 1024 * 1024);
+    this.partConcurrency = config.partConcurrency ?? 2;
+
+    const httpsAgent = new https.Agent({
+      rejectUnauthorized: config.rejectUnauthorized ?? true,
+      keepAlive: true,
+      maxSockets: config.maxSockets ?? 128,
+    });
+
+    this.client = new S3Client({
+      region: config.region,
+      ...(config.endpoint ? { endpoint: config.endpoint } : {}),
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+      },
+      forcePathStyle: config.forcePathStyle,
+      requestHandler: { httpsAgent },
+      maxAttempts: 3, // AWS SDK retry attempts
+    });
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    options: PutObjectOptions = {}
+  ): Promise<string> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        Metadata: options.metadata,
+      })
+    );
+    return this.publicUrl(key);
+  }
+
+  async putFile(
+    key: string,
+    filePath: string,
+    options: PutObjectOptions = {}
+  ): Promise<string> {
+    const { size } = await fs.promises.stat(filePath);
+
+    if (size < this.multipartThreshold) {
+      await this.client.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Body: fs.createReadStream(filePath),
+          ContentLength: size,
+          ContentType: options.contentType,
+          Metadata: options.metadata,
+        })
+      );
+      return this.publicUrl(key);
+    }
+
+    const skipped = await uploadFileMultipart(
+      this.client,
+      this.bucket,
+      key,
+      filePath,
+      {
+        ...options,
+        partSize: this.partSize,
+        concurrency: this.partConcurrency,
+      }
+    );
+    if (skipped > 0) {
+      console.log(`♻️ Resumed upload of ${key} (${skipped} parts reused)`);
+    }
+    return this.publicUrl(key);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      if (!response.Body) {
+        return null;
+      }
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async head(key: string): Promise<StoredObjectHead | null> {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return {
+        key,
+        size: response.ContentLength || 0,
+        lastModified: response.LastModified || new Date(0),
+        contentType: response.ContentType || null,
+        metadata: response.Metadata || {},
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const item of response.Contents || []) {
+        objects.push({
+          key: item.Key || "",
+          size: item.Size || 0,
+          lastModified: item.LastModified || new Date(0),
+        });
+      }
+
+      continuationToken = response.IsTruncated
+        ? response.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async delete(keys: string[]): Promise<DeleteResult> {
+    let successful = 0;
+    let failed = 0;
+
+    for (let i = 0; i < keys.length; i += this.DELETE_BATCH_SIZE) {
+      const batch = keys.slice(i, i + this.DELETE_BATCH_SIZE);
+
+      try {
+        const response = await this.client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.bucket,
+            Delete: {
+              Objects: batch.map((key) => ({ Key: key })),
+              Quiet: false,
+            },
+          })
+        );
+
+        successful += response.Deleted?.length || 0;
+
+        if (response.Errors && response.Errors.length > 0) {
+          failed += response.Errors.length;
+          response.Errors.forEach((error) => {
+            console.error(`  - ${error.Key}: ${error.Message}`);
+          });
+        }
+      } catch (error) {
+        console.error(
+          `✗ Batch delete failed for ${batch.length} files:`,
+          error
+        );
+        failed += batch.length;
+      }
+    }
+
+    return { successful, failed };
+  }
+
+  async abortIncompleteUploads(
+    prefix: string,
+    olderThan: Date
+  ): Promise<number> {
+    return await abortIncompleteUploads(
+      this.client,
+      this.bucket,
+      prefix,
+      olderThan
+    );
+  }
+
+  publicUrl(key: string): string {
+    return `${this.publicUrlBase}/${key}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.publicUrlBase}/`;
+    if (!url.startsWith(prefix)) {
+      return null;
+    }
+    return url.slice(prefix.length).split("?")[0] || null;
+  }
+}
+
+export { S3MediaStore };
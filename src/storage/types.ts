@@ -0,0 +1,76 @@
+export interface PutObjectOptions {
+  contentType?: string;
+  /** User metadata stored alongside the object (x-amz-meta-* on S3) */
+  metadata?: Record<string, string>;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface StoredObjectHead extends StoredObject {
+  contentType: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface DeleteResult {
+  successful: number;
+  failed: number;
+}
+
+/**
+ * Where scraped media ends up. Keys are slash-separated paths such as
+ * `forum-media/<threadId>/<postId>/<file>`; every driver maps them to a
+ * stable public URL that is what gets stored in forum_medias.link.
+ */
+export interface MediaStore {
+  /** Driver name, for logs */
+  readonly name: string;
+
+  /**
+   * Store an object, replacing any existing object with the same key
+   * @returns The public URL of the stored object
+   */
+  put(key: string, body: Buffer, options?: PutObjectOptions): Promise<string>;
+
+  /**
+   * Store a file from disk without reading it into memory. Large files
+   * are sent in parts, and an interrupted upload of the same key resumes.
+   * @returns The public URL of the stored object
+   */
+  putFile(
+    key: string,
+    filePath: string,
+    options?: PutObjectOptions
+  ): Promise<string>;
+
+  /** Read an object, or null if it does not exist */
+  get(key: string): Promise<Buffer | null>;
+
+  /** Read an object's size and metadata, or null if it does not exist */
+  head(key: string): Promise<StoredObjectHead | null>;
+
+  /** List every object whose key starts with the prefix */
+  list(prefix: string): Promise<StoredObject[]>;
+
+  /** Delete objects; missing keys count as deleted */
+  delete(keys: string[]): Promise<DeleteResult>;
+
+  /**
+   * Discard uploads under the prefix that were started before the cutoff
+   * and never finished
+   * @returns Number of uploads discarded
+   */
+  abortIncompleteUploads(prefix: string, olderThan: Date): Promise<number>;
+
+  /** Public URL of a key */
+  publicUrl(key: string): string;
+
+  /**
+   * Reverse of publicUrl
+   * @returns The key, or null if the URL does not point into this store
+   */
+  keyFromUrl(url: string): string | null;
+}
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { runCli } from "../src/cli";
+import { commands } from "../src/cli/commands";
+import { sequelize } from "../src/config/database";
+import { ForumThread } from "../src/model/ForumThread";
+import { ForumDetailPageScraper } from "../src/service/forumDetailPageScraping";
+import { SchemaMigrator } from "../src/service/schemaMigrator";
+import {
+  CommandContext,
+  ExitCode,
+  OptionSpec,
+  defineCommand,
+  UsageError,
+} from "../src/cli/types";
+
+describe("runCli", () => {
+  const calls: CommandContext<Record<string, OptionSpec>>[] = [];
+  let result: () => Promise<boolean> = async () => true;
+
+  // A command without a database, so only the CLI itself runs
+  const testCommand = defineCommand({
+    name: "test-command",
+    summary: "Record how it was called",
+    args: [
+      { name: "thread", description: "Thread ID", required: true },
+      { name: "page", description: "Page number" },
+    ],
+    options: {
+      limit: { type: "number", description: "Limit", default: 10 },
+      forum: { type: "number", description: "Forum ID" },
+      dry: { type: "boolean", short: "n", description: "Dry run" },
+      name: { type: "string", description: "Name" },
+    },
+    async run(context) {
+      calls.push(context);
+      return result();
+    },
+  });
+
+  beforeEach(() => {
+    calls.length = 0;
+    result = async () => true;
+    commands.push(testCommand);
+    mock.method(console, "log", () => undefined);
+    mock.method(console, "error", () => undefined);
+  });
+
+  afterEach(() => {
+    commands.splice(commands.indexOf(testCommand), 1);
+    mock.restoreAll();
+  });
+
+  it("shows the help on request and as a usage error without a command", async () => {
+    assert.equal(await runCli(["--help"]), ExitCode.Success);
+    assert.equal(await runCli(["help"]), ExitCode.Success);
+    assert.equal(await runCli([]), ExitCode.Usage);
+  });
+
+  it("rejects unknown commands", async () => {
+    assert.equal(await runCli(["no-such-command"]), ExitCode.Usage);
+  });
+
+  it("passes positional arguments and typed options", async () => {
+    assert.equal(
+      await runCli(["test-command", "42", "3", "--forum", "17", "-n"]),
+      ExitCode.Success
+    );
+    assert.deepEqual(calls, [
+      {
+        args: ["42", "3"],
+        options: { limit: 10, forum: 17, dry: true, name: undefined },
+      },
+    ]);
+  });
+
+  it("fills in defaults for options that are not given", async () => {
+    await runCli(["test-command", "42", "--limit", "5", "--name", "x"]);
+    assert.deepEqual(calls[0].options, {
+      limit: 5,
+      forum: undefined,
+      dry: false,
+      name: "x",
+    });
+  });
+
+  it("returns a usage error for bad input without running", async () => {
+    const invocations = [
+      ["test-command"],
+      ["test-command", "42", "3", "extra"],
+      ["test-command", "42", "--limit", "ten"],
+      ["test-command", "42", "--unknown"],
+      ["test-command", "42", "--name"],
+    ];
+    for (const argv of invocations) {
+      assert.equal(await runCli(argv), ExitCode.Usage, argv.join(" "));
+    }
+    assert.equal(calls.length, 0);
+  });
+
+  it("shows command help without running it", async () => {
+    assert.equal(await runCli(["test-command", "--help"]), ExitCode.Success);
+    assert.equal(await runCli(["test-command", "-h"]), ExitCode.Success);
+    assert.equal(calls.length, 0);
+  });
+
+  it("maps the command's outcome to an exit code", async () => {
+    result = async () => false;
+    assert.equal(await runCli(["test-command", "42"]), ExitCode.Failure);
+
+    result = async () => {
+      throw new Error("boom");
+    };
+    assert.equal(await runCli(["test-command", "42"]), ExitCode.Failure);
+
+    result = async () => {
+      throw new UsageError("Invalid thread ID");
+    };
+    assert.equal(await runCli(["test-command", "42"]), ExitCode.Usage);
+  });
+});
+
+describe("scrape-thread", () => {
+  beforeEach(() => {
+    mock.method(console, "log", () => undefined);
+    mock.method(console, "error", () => undefined);
+    // Stand in for the database and the browser
+    mock.method(sequelize, "authenticate", async () => undefined);
+    mock.method(sequelize, "close", async () => undefined);
+    mock.method(SchemaMigrator.prototype, "assertCurrent", async () => {});
+    mock.method(
+      ForumThread,
+      "findOne",
+      async () => ({ threadId: 42, title: "A thread" }) as ForumThread
+    );
+    mock.method(ForumDetailPageScraper.prototype, "initialize", async () => {});
+    mock.method(ForumDetailPageScraper.prototype, "close", async () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("exits with a failure when the thread could not be scraped", async () => {
+    mock.method(
+      ForumDetailPageScraper.prototype,
+      "scrapeThreadDetailPage",
+      async () => false
+    );
+    assert.equal(await runCli(["scrape-thread", "42"]), ExitCode.Failure);
+  });
+
+  it("exits successfully once the thread is scraped", async () => {
+    mock.method(
+      ForumDetailPageScraper.prototype,
+      "scrapeThreadDetailPage",
+      async () => true
+    );
+    assert.equal(await runCli(["scrape-thread", "42"]), ExitCode.Success);
+  });
+});
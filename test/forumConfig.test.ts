@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  forumIdFromUrl,
+  parseForumConfig,
+  withSubforums,
+} from "../src/config/forums";
+
+const SITE_URL = "https://forum.example.com";
+
+describe("forumIdFromUrl", () => {
+  it("reads the node ID from forum and listing page URLs", () => {
+    assert.equal(forumIdFromUrl("/forums/models-and-celebrities.17/"), 17);
+    assert.equal(forumIdFromUrl(`${SITE_URL}/forums/athletes.53/page-4`), 53);
+    assert.equal(forumIdFromUrl("/forums/40/"), 40);
+    assert.equal(forumIdFromUrl("/threads/some-thread.100/"), 0);
+  });
+});
+
+describe("parseForumConfig", () => {
+  it("accepts URLs and objects with crawl settings", () => {
+    const forums = parseForumConfig(
+      JSON.stringify([
+        "/forums/models-and-celebrities.17",
+        {
+          url: `${SITE_URL}/forums/athletes.53/`,
+          name: "Athletes",
+          maxPages: 3,
+          pageDelayMs: 500,
+          discoverSubforums: true,
+        },
+      ]),
+      SITE_URL
+    );
+
+    assert.deepEqual(forums, [
+      {
+        forumId: 17,
+        name: "Forum 17",
+        url: `${SITE_URL}/forums/models-and-celebrities.17/`,
+        maxPages: 0,
+        pageDelayMs: 2000,
+        discoverSubforums: false,
+      },
+      {
+        forumId: 53,
+        name: "Athletes",
+        url: `${SITE_URL}/forums/athletes.53/`,
+        maxPages: 3,
+        pageDelayMs: 500,
+        discoverSubforums: true,
+      },
+    ]);
+  });
+
+  it("keeps the first entry for a repeated forum", () => {
+    const forums = parseForumConfig(
+      JSON.stringify([
+        { url: "/forums/a.17/", maxPages: 1 },
+        { url: "/forums/a.17/", maxPages: 9 },
+      ]),
+      SITE_URL
+    );
+    assert.equal(forums.length, 1);
+    assert.equal(forums[0].maxPages, 1);
+  });
+
+  it("rejects malformed config", () => {
+    assert.throws(() => parseForumConfig("{", SITE_URL), /Invalid forum config/);
+    assert.throws(
+      () => parseForumConfig('{"url": "/forums/a.1/"}', SITE_URL),
+      /expected a JSON array/
+    );
+    assert.throws(
+      () => parseForumConfig('["/forums/no-id/"]', SITE_URL),
+      /has no node ID/
+    );
+  });
+});
+
+describe("withSubforums", () => {
+  const [models, general] = parseForumConfig(
+    JSON.stringify([
+      { url: "/forums/models.17/", maxPages: 2, discoverSubforums: true },
+      "/forums/general.40/",
+    ]),
+    SITE_URL
+  );
+  const node = (forumId: number, parentId: number | null) => ({
+    forumId,
+    title: `Node ${forumId}`,
+    url: `${SITE_URL}/forums/node.${forumId}/`,
+    parentId,
+  });
+  const index = [node(17, null), node(52, 17), node(60, 52), node(41, 40)];
+
+  it("adds subforums at any depth with the parent's settings", () => {
+    const forums = withSubforums([models, general], index);
+    assert.deepEqual(
+      forums.map((forum) => [forum.forumId, forum.maxPages]),
+      [
+        [17, 2],
+        [52, 2],
+        [60, 2],
+        [40, 0],
+      ]
+    );
+    assert.equal(forums[1].name, "Node 52");
+  });
+
+  it("leaves forums without discovery alone", () => {
+    assert.deepEqual(withSubforums([general], index), [general]);
+  });
+});
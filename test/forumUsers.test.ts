@@ -0,0 +1,26 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { renameHistory } from "../src/service/forumUsers";
+
+describe("renameHistory", () => {
+  const seenAt = new Date("2025-10-05T12:00:00Z");
+
+  it("keeps the history when the name is unchanged", () => {
+    const member = { username: "kolos_fan", nameHistory: [] };
+    assert.equal(renameHistory(member, "kolos_fan", seenAt), null);
+    assert.equal(renameHistory(member, "", seenAt), null);
+  });
+
+  it("appends the previous name on a rename", () => {
+    const member = {
+      username: "kolos_fan",
+      nameHistory: [
+        { username: "kolos", changedAt: "2024-01-01T00:00:00.000Z" },
+      ],
+    };
+    assert.deepEqual(renameHistory(member, "kolos_official", seenAt), [
+      { username: "kolos", changedAt: "2024-01-01T00:00:00.000Z" },
+      { username: "kolos_fan", changedAt: "2025-10-05T12:00:00.000Z" },
+    ]);
+  });
+});
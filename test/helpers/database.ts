@@ -0,0 +1,51 @@
+import { after, before, beforeEach } from "node:test";
+
+/*
+ * Tests that need MySQL run against the database named by TEST_DB_NAME,
+ * reached with the usual DB_HOST, DB_PORT, DB_USER and DB_PASSWORD, and
+ * are skipped when it is not set. The database is migrated to the current
+ * schema and each test file empties the tables it uses, so never point it
+ * at real data.
+ *
+ * Import this before anything that loads src/config/database, which reads
+ * DB_NAME when it is first imported.
+ */
+
+const TEST_DB_NAME = process.env.TEST_DB_NAME;
+if (TEST_DB_NAME) {
+  process.env.DB_NAME = TEST_DB_NAME;
+}
+
+/**
+ * `skip` option for suites that need the test database
+ */
+export const skipWithoutDatabase: string | false = TEST_DB_NAME
+  ? false
+  : "TEST_DB_NAME is not set";
+
+/**
+ * Migrate the test database before the suite and empty the given tables,
+ * children first, before each of its tests
+ */
+export const useTestDatabase = (tables: string[]): void => {
+  before(async () => {
+    const { sequelize } = await import("../../src/config/database");
+    const { SchemaMigrator } = await import(
+      "../../src/service/schemaMigrator"
+    );
+    await sequelize.authenticate();
+    await new SchemaMigrator().migrate();
+  });
+
+  beforeEach(async () => {
+    const { sequelize } = await import("../../src/config/database");
+    for (const table of tables) {
+      await sequelize.query(`DELETE FROM \`${table}\``);
+    }
+  });
+
+  after(async () => {
+    const { sequelize } = await import("../../src/config/database");
+    await sequelize.close();
+  });
+};
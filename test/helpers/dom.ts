@@ -0,0 +1,17 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseHtmlDocument } from "../../src/parsers/html";
+import { DomDocument } from "../../src/parsers/types";
+
+const FIXTURES_DIR = path.join(__dirname, "../fixtures");
+
+export const SITE_URL = "https://www.lpsg.com";
+
+export const loadFixture = (name: string): string =>
+  fs.readFileSync(path.join(FIXTURES_DIR, name), "utf8");
+
+/**
+ * Parse a saved HTML fixture into a DOM the page parsers can read
+ */
+export const loadFixtureDocument = (name: string): DomDocument =>
+  parseHtmlDocument(loadFixture(name), `${SITE_URL}/`);
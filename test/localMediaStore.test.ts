@@ -0,0 +1,127 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LocalMediaStore } from "../src/storage";
+
+describe("LocalMediaStore", () => {
+  let rootDir: string;
+  let store: LocalMediaStore;
+
+  before(async () => {
+    rootDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "media-"));
+    store = new LocalMediaStore(rootDir, "http://localhost:8080/media/");
+  });
+
+  after(async () => {
+    await fs.promises.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("stores objects and returns their public URL", async () => {
+    const url = await store.put(
+      "forum-media/1/10/0-photo.png",
+      Buffer.from("png bytes"),
+      { contentType: "image/png", metadata: { "post-id": "10" } }
+    );
+
+    assert.equal(url, "http://localhost:8080/media/forum-media/1/10/0-photo.png");
+    assert.deepEqual(
+      await store.get("forum-media/1/10/0-photo.png"),
+      Buffer.from("png bytes")
+    );
+
+    const head = await store.head("forum-media/1/10/0-photo.png");
+    assert.ok(head);
+    assert.equal(head.size, 9);
+    assert.equal(head.contentType, "image/png");
+    assert.deepEqual(head.metadata, { "post-id": "10" });
+  });
+
+  it("returns null for missing objects", async () => {
+    assert.equal(await store.get("forum-media/missing.png"), null);
+    assert.equal(await store.head("forum-media/missing.png"), null);
+  });
+
+  it("lists by prefix without exposing metadata sidecars", async () => {
+    await store.put("forum-media/1/11/0-a.png", Buffer.from("a"));
+    await store.put("forum-media/1/11/1-a_thumb.png", Buffer.from("b"));
+    await store.put("forum-media/2/20/0-c.png", Buffer.from("c"));
+
+    const keys = (await store.list("forum-media/1/11/")).map((o) => o.key);
+    assert.deepEqual(keys, [
+      "forum-media/1/11/0-a.png",
+      "forum-media/1/11/1-a_thumb.png",
+    ]);
+
+    const all = await store.list("");
+    assert.equal(all.length, 4);
+    assert.ok(all.every((o) => !o.key.startsWith(".meta")));
+  });
+
+  it("deletes objects and treats missing keys as deleted", async () => {
+    const result = await store.delete([
+      "forum-media/2/20/0-c.png",
+      "forum-media/2/20/never-existed.png",
+    ]);
+
+    assert.deepEqual(result, { successful: 2, failed: 0 });
+    assert.equal(await store.head("forum-media/2/20/0-c.png"), null);
+  });
+
+  it("maps public URLs back to keys", () => {
+    assert.equal(
+      store.keyFromUrl("http://localhost:8080/media/forum-media/1/10/0-photo.png"),
+      "forum-media/1/10/0-photo.png"
+    );
+    assert.equal(store.keyFromUrl("https://example.com/forum-media/1.png"), null);
+  });
+
+  it("rejects keys outside the store", async () => {
+    await assert.rejects(store.put("../escape.png", Buffer.from("x")));
+    await assert.rejects(store.put(".meta/x.json", Buffer.from("x")));
+  });
+
+  it("stores files from disk", async () => {
+    const source = path.join(rootDir, "..", `source-${process.pid}.mp4`);
+    await fs.promises.writeFile(source, Buffer.from("video bytes"));
+
+    try {
+      await store.putFile("forum-media/objects/ab/ab.mp4", source, {
+        contentType: "video/mp4",
+      });
+    } finally {
+      await fs.promises.rm(source, { force: true });
+    }
+
+    assert.deepEqual(
+      await store.get("forum-media/objects/ab/ab.mp4"),
+      Buffer.from("video bytes")
+    );
+    const head = await store.head("forum-media/objects/ab/ab.mp4");
+    assert.equal(head?.contentType, "video/mp4");
+  });
+
+  it("removes temp files of interrupted writes", async () => {
+    const stale = path.join(rootDir, "forum-media/objects/ab/cd.mp4.1.tmp");
+    const fresh = path.join(rootDir, "forum-media/objects/ab/ef.mp4.1.tmp");
+    await fs.promises.writeFile(stale, "partial");
+    await fs.promises.writeFile(fresh, "partial");
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    await fs.promises.utimes(stale, yesterday, yesterday);
+
+    const removed = await store.abortIncompleteUploads(
+      "forum-media/objects/",
+      new Date(Date.now() - 60 * 60 * 1000)
+    );
+
+    assert.equal(removed, 1);
+    assert.equal(fs.existsSync(stale), false);
+    assert.equal(fs.existsSync(fresh), true);
+    assert.ok(
+      (await store.list("forum-media/objects/")).every(
+        (object) => !object.key.endsWith(".tmp")
+      )
+    );
+  });
+});
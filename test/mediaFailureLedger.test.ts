@@ -0,0 +1,124 @@
+import { skipWithoutDatabase, useTestDatabase } from "./helpers/database";
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MediaFailure } from "../src/model/MediaFailure";
+import {
+  MediaDownloadError,
+  MediaFailureLedger,
+  mediaRetryDelay,
+} from "../src/service/mediaFailureLedger";
+
+const MINUTE = 60 * 1000;
+
+describe("mediaRetryDelay", () => {
+  it("doubles the wait after each failed attempt", () => {
+    assert.equal(mediaRetryDelay(1), 15 * MINUTE);
+    assert.equal(mediaRetryDelay(2), 30 * MINUTE);
+    assert.equal(mediaRetryDelay(3), 60 * MINUTE);
+  });
+
+  it("never waits longer than a day", () => {
+    assert.equal(mediaRetryDelay(8), 24 * 60 * MINUTE);
+    assert.equal(mediaRetryDelay(50), 24 * 60 * MINUTE);
+  });
+});
+
+describe("MediaFailureLedger", { skip: skipWithoutDatabase }, () => {
+  useTestDatabase(["media_failures"]);
+
+  const ledger = new MediaFailureLedger();
+  const URL = "https://forum.example.com/attachments/a-jpg.1/";
+  const OTHER_URL = "https://forum.example.com/attachments/b-jpg.2/";
+
+  const fail = (postId: number, url: string, error: unknown, threadId = 1) =>
+    ledger.record({ threadId, postId, url, error });
+
+  // Move a failure's next attempt into the past
+  const makeDue = (failure: MediaFailure, minutesAgo = 1) =>
+    MediaFailure.update(
+      { nextAttemptAt: new Date(Date.now() - minutesAgo * MINUTE) },
+      { where: { id: failure.id } }
+    );
+
+  it("counts repeated failures of a URL in one row", async () => {
+    const first = await fail(10, URL, new MediaDownloadError("404"));
+    assert.equal(first.attempts, 1);
+    assert.equal(first.errorClass, "MediaDownloadError");
+    assert.ok(first.nextAttemptAt.getTime() > Date.now() + 14 * MINUTE);
+
+    const second = await fail(10, URL, "socket hang up");
+    assert.equal(second.id, first.id);
+    assert.equal(second.attempts, 2);
+    assert.equal(second.errorClass, "Error");
+    assert.equal(second.errorMessage, "socket hang up");
+    assert.ok(second.nextAttemptAt.getTime() > Date.now() + 29 * MINUTE);
+
+    await fail(11, URL, new Error("timeout"));
+    assert.equal(await MediaFailure.count(), 2);
+  });
+
+  it("forgets a failure once its media is stored", async () => {
+    await fail(10, URL, new Error("timeout"));
+    await fail(10, OTHER_URL, new Error("timeout"));
+    await fail(11, URL, new Error("timeout"));
+
+    await ledger.resolve(10, URL);
+    const left = await MediaFailure.findAll({ order: [["id", "ASC"]] });
+    assert.deepEqual(
+      left.map((failure) => [failure.postId, failure.url]),
+      [
+        [10, OTHER_URL],
+        [11, URL],
+      ]
+    );
+  });
+
+  it("forgets failures of URLs a post no longer has", async () => {
+    await fail(10, URL, new Error("timeout"));
+    await fail(10, OTHER_URL, new Error("timeout"));
+
+    assert.equal(await ledger.forgetMissing(10, [OTHER_URL]), 1);
+    assert.equal(await MediaFailure.count({ where: { postId: 10 } }), 1);
+    assert.equal(await ledger.forgetMissing(10, []), 1);
+    assert.equal(await MediaFailure.count(), 0);
+  });
+
+  it("selects failures whose backoff expired, oldest first", async () => {
+    const older = await fail(10, URL, new Error("timeout"));
+    const newer = await fail(11, URL, new Error("timeout"));
+    await fail(12, URL, new Error("timeout"));
+    await makeDue(older, 10);
+    await makeDue(newer, 5);
+
+    const due = await ledger.due();
+    assert.deepEqual(
+      due.map((failure) => failure.postId),
+      [10, 11]
+    );
+    assert.deepEqual(
+      (await ledger.due({ limit: 1 })).map((failure) => failure.postId),
+      [10]
+    );
+  });
+
+  it("skips capped and permanent failures and other threads", async () => {
+    const retried = await fail(10, URL, new Error("timeout"));
+    await fail(10, URL, new Error("timeout"));
+    const unsupported = new Error("text/html");
+    unsupported.name = "UnsupportedMediaError";
+    const permanent = await fail(11, URL, unsupported);
+    const elsewhere = await fail(12, URL, new Error("timeout"), 2);
+    for (const failure of [retried, permanent, elsewhere]) {
+      await makeDue(failure);
+    }
+
+    assert.deepEqual(
+      (await ledger.due({ maxAttempts: 2 })).map((failure) => failure.postId),
+      [12]
+    );
+    assert.deepEqual(
+      (await ledger.due({ threadId: 1 })).map((failure) => failure.postId),
+      [10]
+    );
+  });
+});
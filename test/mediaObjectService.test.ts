@@ -0,0 +1,132 @@
+import { skipWithoutDatabase, useTestDatabase } from "./helpers/database";
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  contentKey,
+  hashContent,
+  MediaObjectService,
+} from "../src/service/mediaObjectService";
+import { ForumMedia } from "../src/model/ForumMedia";
+import { MediaObject } from "../src/model/MediaObject";
+import { LocalMediaStore } from "../src/storage";
+
+describe("content addressing", () => {
+  it("hashes identical content to the same SHA-256", () => {
+    const a = hashContent(Buffer.from("same bytes"));
+    const b = hashContent(Buffer.from("same bytes"));
+
+    assert.equal(a, b);
+    assert.match(a, /^[0-9a-f]{64}$/);
+    assert.notEqual(a, hashContent(Buffer.from("other bytes")));
+  });
+
+  it("shards content keys by the first byte of the hash", () => {
+    const sha256 = hashContent(Buffer.from("png"));
+
+    assert.equal(
+      contentKey(sha256, ".PNG"),
+      `forum-media/objects/${sha256.slice(0, 2)}/${sha256}.png`
+    );
+    assert.equal(contentKey(sha256, "jpg"), contentKey(sha256, ".jpg"));
+  });
+});
+
+describe("MediaObjectService", { skip: skipWithoutDatabase }, () => {
+  useTestDatabase(["forum_medias", "media_objects"]);
+
+  let rootDir: string;
+  let service: MediaObjectService;
+  const png = { extension: "png", contentType: "image/png" };
+  // Prune everything unreferenced, however recently it was released
+  const later = () => new Date(Date.now() + 60000);
+
+  before(async () => {
+    rootDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "objects-"));
+    service = new MediaObjectService(new LocalMediaStore(rootDir));
+  });
+
+  after(async () => {
+    await fs.promises.rm(rootDir, { recursive: true, force: true });
+  });
+
+  const refCount = async (id: number) =>
+    (await MediaObject.findByPk(id))?.refCount;
+
+  const attach = (object: MediaObject, postId: number) =>
+    service.attach({ threadId: 1, postId, type: "img", object });
+
+  it("stores identical content once and takes a reference per store", async () => {
+    const first = await service.storeContent(Buffer.from("photo"), png);
+    const second = await service.storeContent(Buffer.from("photo"), png);
+
+    assert.equal(first.created, true);
+    assert.equal(second.created, false);
+    assert.equal(second.object.id, first.object.id);
+    assert.equal(second.url, first.url);
+    assert.equal(await MediaObject.count(), 1);
+    assert.equal(await refCount(first.object.id), 2);
+    assert.ok(await service.store.head(first.object.key));
+  });
+
+  it("hands the stored reference to attach and releases it on detach", async () => {
+    const { object } = await service.storeContent(Buffer.from("a"), png);
+    await attach(object, 10);
+    const again = await service.storeContent(Buffer.from("a"), png);
+    await attach(again.object, 11);
+    assert.equal(await refCount(object.id), 2);
+
+    assert.equal(await service.detach({ postId: 10 }), 1);
+    assert.equal(await refCount(object.id), 1);
+    assert.equal(await ForumMedia.count({ where: { postId: 11 } }), 1);
+
+    await service.detach({ postId: 11 });
+    assert.equal(await refCount(object.id), 0);
+    assert.ok(await MediaObject.findByPk(object.id));
+  });
+
+  it("gives back references that were never attached", async () => {
+    const { object } = await service.storeContent(Buffer.from("b"), png);
+    await service.release(object.id);
+
+    assert.equal(await refCount(object.id), 0);
+  });
+
+  it("prunes unreferenced objects and their files only", async () => {
+    const kept = await service.storeContent(Buffer.from("kept"), png);
+    await attach(kept.object, 20);
+    const dropped = await service.storeContent(Buffer.from("gone"), png);
+    await service.release(dropped.object.id);
+
+    assert.equal(await service.pruneUnreferenced(new Date(0)), 0);
+    assert.equal(await service.pruneUnreferenced(later()), 1);
+
+    assert.equal(await MediaObject.findByPk(dropped.object.id), null);
+    assert.equal(await service.store.head(dropped.object.key), null);
+    assert.ok(await MediaObject.findByPk(kept.object.id));
+    assert.ok(await service.store.head(kept.object.key));
+  });
+
+  it("keeps an unreferenced object once a store reuses it", async () => {
+    const { object } = await service.storeContent(Buffer.from("c"), png);
+    await service.release(object.id);
+
+    const reused = await service.storeContent(Buffer.from("c"), png);
+    assert.equal(reused.created, false);
+    assert.equal(await service.pruneUnreferenced(later()), 0);
+    assert.ok(await service.store.head(object.key));
+  });
+
+  it("stores content again after its object was pruned", async () => {
+    const { object } = await service.storeContent(Buffer.from("d"), png);
+    await service.release(object.id);
+    await service.pruneUnreferenced(later());
+
+    const restored = await service.storeContent(Buffer.from("d"), png);
+    assert.equal(restored.created, true);
+    assert.equal(await refCount(restored.object.id), 1);
+    assert.ok(await service.store.head(restored.object.key));
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import { createMockPng } from "../src/mock/mockImage";
+import { detectMediaType, looksLikeMarkup } from "../src/media/mediaType";
+
+/** Start of an ISO base media file with the given major brand */
+const isoMedia = (brand: string): Buffer =>
+  Buffer.concat([
+    Buffer.from([0x00, 0x00, 0x00, 0x20]),
+    Buffer.from(`ftyp${brand}`, "latin1"),
+    Buffer.alloc(20),
+  ]);
+
+/** Start of a Matroska file with the given EBML DocType */
+const matroska = (docType: string): Buffer =>
+  Buffer.concat([
+    Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x86, 0x81, 0x01]),
+    Buffer.from([0x42, 0x82, 0x80 | docType.length]),
+    Buffer.from(docType, "latin1"),
+  ]);
+
+describe("detectMediaType", () => {
+  it("recognises images rendered by sharp", async () => {
+    const png = createMockPng(16, 16, 3);
+    const cases: [Buffer, string, string][] = [
+      [png, ".png", "image/png"],
+      [await sharp(png).jpeg().toBuffer(), ".jpg", "image/jpeg"],
+      [await sharp(png).gif().toBuffer(), ".gif", "image/gif"],
+      [await sharp(png).webp().toBuffer(), ".webp", "image/webp"],
+      [await sharp(png).tiff().toBuffer(), ".tiff", "image/tiff"],
+    ];
+
+    for (const [bytes, extension, contentType] of cases) {
+      assert.deepEqual(detectMediaType(bytes), {
+        kind: "img",
+        extension,
+        contentType,
+      });
+    }
+  });
+
+  it("recognises video containers", () => {
+    assert.equal(detectMediaType(isoMedia("isom"))?.extension, ".mp4");
+    assert.equal(detectMediaType(isoMedia("qt  "))?.extension, ".mov");
+    assert.equal(detectMediaType(matroska("webm"))?.extension, ".webm");
+    assert.equal(detectMediaType(matroska("matroska"))?.extension, ".mkv");
+    assert.equal(
+      detectMediaType(Buffer.from("FLV\x01\x05\x00\x00\x00\x09", "latin1"))
+        ?.contentType,
+      "video/x-flv"
+    );
+    assert.equal(detectMediaType(isoMedia("mp42"))?.kind, "mov");
+  });
+
+  it("uses the response header only to tell MP4 from MOV", () => {
+    assert.equal(
+      detectMediaType(isoMedia("isom"), "video/quicktime")?.extension,
+      ".mov"
+    );
+    assert.equal(detectMediaType(isoMedia("heic"), "video/mp4")?.kind, "img");
+    assert.equal(detectMediaType(Buffer.from("<html>"), "image/jpeg"), null);
+  });
+
+  it("rejects HTML pages, SVG and unknown bytes", () => {
+    assert.equal(
+      detectMediaType(Buffer.from("<!DOCTYPE html><html><body>Error")),
+      null
+    );
+    assert.equal(
+      detectMediaType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg">')),
+      null
+    );
+    assert.equal(detectMediaType(Buffer.from("RIFF\x00\x00\x00\x00WAVE")), null);
+    assert.equal(detectMediaType(Buffer.alloc(0)), null);
+  });
+});
+
+describe("looksLikeMarkup", () => {
+  it("spots HTML and XML documents", () => {
+    assert.equal(looksLikeMarkup(Buffer.from("\n  <!doctype html>")), true);
+    assert.equal(looksLikeMarkup(Buffer.from("\xEF\xBB\xBF<html>", "latin1")), true);
+    assert.equal(looksLikeMarkup(Buffer.from('<?xml version="1.0"?>')), true);
+  });
+
+  it("ignores binary files", () => {
+    assert.equal(looksLikeMarkup(createMockPng(4, 4, 1)), false);
+    assert.equal(looksLikeMarkup(isoMedia("isom")), false);
+  });
+});
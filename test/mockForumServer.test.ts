@@ -0,0 +1,280 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mockMemberId } from "../src/mock/mockForumData";
+import { MockForumServer } from "../src/mock/mockForumServer";
+import { parseHtmlDocument } from "../src/parsers/html";
+import {
+  hasAttachmentMediaContent,
+  parseAttachmentMediaUrl,
+  parseForumNodes,
+  parseLastPageNumber,
+  parseMemberProfile,
+  parsePagePosts,
+  parseReactionsPage,
+  parseThreadListing,
+  parseThreadPage,
+  parseThreadUpdates,
+} from "../src/parsers/pageParsers";
+
+const PNG_SIGNATURE = "89504e470d0a1a0a";
+
+/**
+ * Log in through the login form and return the session cookie
+ */
+const login = async (server: MockForumServer): Promise<string> => {
+  const response = await fetch(`${server.url}/login/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: "login=tester&password=secret",
+    redirect: "manual",
+  });
+  assert.equal(response.status, 303);
+  const cookie = response.headers.get("set-cookie") || "";
+  return cookie.split(";")[0];
+};
+
+const fetchDocument = async (url: string, cookie = "") => {
+  const response = await fetch(url, { headers: { cookie } });
+  return {
+    status: response.status,
+    document: parseHtmlDocument(await response.text(), url),
+  };
+};
+
+describe("MockForumServer", () => {
+  const server = new MockForumServer({
+    threadCount: 25,
+    stickyCount: 2,
+    threadsPerPage: 10,
+    postsPerPage: 5,
+    maxPostsPerThread: 12,
+    attachmentEvery: 2,
+  });
+
+  before(async () => {
+    await server.start();
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  it("paginates the forum listing", async () => {
+    const { document } = await fetchDocument(server.forumUrl);
+    assert.equal(parseLastPageNumber(document), 3);
+
+    const seen = new Set<number>();
+    for (let page = 1; page <= 3; page++) {
+      const url =
+        page === 1 ? server.forumUrl : `${server.forumUrl}page-${page}`;
+      const { document } = await fetchDocument(url);
+      for (const thread of parseThreadListing(document)) {
+        seen.add(thread.threadId);
+      }
+    }
+    assert.equal(seen.size, 25);
+  });
+
+  it("lists the forum on the forum index", async () => {
+    const { document } = await fetchDocument(`${server.url}/forums/`);
+    assert.deepEqual(parseForumNodes(document, server.url), [
+      {
+        forumId: 17,
+        title: "Models and Celebrities",
+        url: server.forumUrl,
+        parentId: null,
+      },
+    ]);
+  });
+
+  it("marks stickies in the listing and thread updates", async () => {
+    const { document } = await fetchDocument(server.forumUrl);
+    const listed = parseThreadListing(document);
+    const stickies = parseThreadUpdates(document)
+      .filter((t) => t.sticky)
+      .map((t) => t.threadId);
+
+    assert.deepEqual(
+      listed.slice(0, 3).map((t) => [t.sticky, t.locked]),
+      [
+        [true, true],
+        [true, true],
+        [false, false],
+      ]
+    );
+    assert.equal(listed[0].prefix, "Announcement");
+    assert.deepEqual(stickies, [1000, 1001]);
+    assert.deepEqual(
+      listed.slice(0, 2).map((t) => t.threadId),
+      stickies
+    );
+  });
+
+  it("shows the prefix and tags on the thread page", async () => {
+    const thread = server.data.threads[3];
+    const { document } = await fetchDocument(
+      `${server.url}/threads/${thread.slug}.${thread.threadId}/`
+    );
+
+    assert.deepEqual(parseThreadPage(document), {
+      prefixId: 3,
+      prefix: "HQ",
+      tags: thread.tags.map((tag) => ({ tag, name: tag })),
+      locked: false,
+    });
+  });
+
+  it("serves every post of a thread across its pages", async () => {
+    const thread = server.data.threads[5];
+    const expected = server.data.getPosts(thread);
+    const threadUrl = `${server.url}/threads/${thread.slug}.${
+      thread.threadId
+    }/`;
+
+    const { document } = await fetchDocument(threadUrl);
+    const lastPage = parseLastPageNumber(document);
+    assert.equal(lastPage, Math.ceil(expected.length / 5));
+
+    const posts = [];
+    for (let page = 1; page <= lastPage; page++) {
+      const url = page === 1 ? threadUrl : `${threadUrl}page-${page}`;
+      const { document } = await fetchDocument(url);
+      posts.push(...parsePagePosts(document, server.url));
+    }
+
+    assert.deepEqual(
+      posts.map((post) => [post.postId, post.author, post.likes]),
+      expected.map((post) => [post.postId, post.author, post.likes])
+    );
+    assert.deepEqual(
+      posts.map((post) => post.authorId),
+      expected.map((post) => mockMemberId(post.author))
+    );
+  });
+
+  it("lists everyone who reacted to a post across pages", async () => {
+    const post = server.data.threads
+      .flatMap((thread) => server.data.getPosts(thread))
+      .find((candidate) => candidate.likes > 50);
+    assert.ok(post);
+
+    const url = `${server.url}/posts/${post.postId}/reactions`;
+    const { document } = await fetchDocument(url);
+    let page = parseReactionsPage(document, server.url);
+    assert.deepEqual(page.reactions, [
+      { reactionId: 1, name: "Like", count: post.likes },
+    ]);
+
+    const users = [...page.users];
+    while (page.nextPageUrl) {
+      const next = await fetchDocument(page.nextPageUrl);
+      page = parseReactionsPage(next.document, server.url);
+      users.push(...page.users);
+    }
+    assert.equal(users.length, post.likes);
+    assert.equal(users[0].username, "alice");
+  });
+
+  it("serves member profiles with their avatars", async () => {
+    const member = server.data.findMember(2);
+    assert.ok(member);
+
+    const { document } = await fetchDocument(`${server.url}/members/2/`);
+    const profile = parseMemberProfile(document, server.url);
+    assert.ok(profile);
+    assert.equal(profile.username, "bob");
+    assert.equal(profile.messages, member.messages.toLocaleString("en-US"));
+
+    const avatar = await fetch(profile.avatarUrl!);
+    assert.equal(avatar.headers.get("content-type"), "image/png");
+  });
+
+  it("redirects out-of-range pages to the last page", async () => {
+    const response = await fetch(`${server.forumUrl}page-99`, {
+      redirect: "manual",
+    });
+    assert.equal(response.status, 303);
+    assert.match(response.headers.get("location") || "", /page-3$/);
+  });
+
+  it("requires a login for attachments", async () => {
+    const attachment = server.data.threads
+      .flatMap((thread) => server.data.getPosts(thread))
+      .flatMap((post) => post.attachments)[0];
+    assert.ok(attachment);
+    const url = `${server.url}/attachments/a-png.${attachment.attachmentId}/`;
+
+    const guest = await fetchDocument(url);
+    assert.equal(guest.status, 403);
+    assert.ok(guest.document.querySelector('a[href="/login/"]'));
+
+    const cookie = await login(server);
+    const member = await fetchDocument(url, cookie);
+    assert.equal(member.status, 200);
+    assert.ok(member.document.querySelector('a[href="/account/"]'));
+    assert.equal(hasAttachmentMediaContent(member.document), true);
+
+    const media = parseAttachmentMediaUrl(member.document, server.url);
+    assert.ok(media);
+    const image = await fetch(media.url);
+    assert.equal(image.headers.get("content-type"), "image/png");
+    const bytes = Buffer.from(await image.arrayBuffer());
+    assert.equal(bytes.subarray(0, 8).toString("hex"), PNG_SIGNATURE);
+  });
+
+  it("rejects logins with wrong credentials when configured", async () => {
+    const strict = new MockForumServer({
+      threadCount: 1,
+      username: "tester",
+      password: "other",
+    });
+    await strict.start();
+    try {
+      const response = await fetch(`${strict.url}/login/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: "login=tester&password=secret",
+        redirect: "manual",
+      });
+      assert.equal(response.status, 200);
+      assert.equal(response.headers.get("set-cookie"), null);
+    } finally {
+      await strict.stop();
+    }
+  });
+});
+
+describe("MockForumServer failure injection", () => {
+  it("answers every Nth request with a 503", async () => {
+    const server = new MockForumServer({ threadCount: 3, failEvery: 3 });
+    await server.start();
+    try {
+      const statuses = [];
+      for (let i = 0; i < 6; i++) {
+        statuses.push((await fetch(server.forumUrl)).status);
+      }
+      assert.deepEqual(statuses, [200, 200, 503, 200, 200, 503]);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  it("logs sessions out after the request limit", async () => {
+    const server = new MockForumServer({
+      threadCount: 3,
+      sessionRequestLimit: 2,
+    });
+    await server.start();
+    try {
+      const cookie = await login(server);
+      const loggedIn = [];
+      for (let i = 0; i < 3; i++) {
+        const { document } = await fetchDocument(server.forumUrl, cookie);
+        loggedIn.push(!!document.querySelector('a[href="/account/"]'));
+      }
+      assert.deepEqual(loggedIn, [true, true, false]);
+    } finally {
+      await server.stop();
+    }
+  });
+});
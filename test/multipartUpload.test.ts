@@ -0,0 +1,218 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  S3Client,
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  ListMultipartUploadsCommand,
+  ListPartsCommand,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  abortIncompleteUploads,
+  uploadFileMultipart,
+} from "../src/storage/multipartUpload";
+
+const md5 = (data: Buffer): string =>
+  createHash("md5").update(data).digest("hex");
+
+/**
+ * In-memory stand-in for the multipart subset of the S3 API
+ */
+class FakeMultipartS3 {
+  uploads = new Map<
+    string,
+    { key: string; initiated: Date; parts: Map<number, Buffer> }
+  >();
+  objects = new Map<string, Buffer>();
+  uploadedParts: number[] = [];
+  private nextId = 1;
+
+  async send(command: any): Promise<any> {
+    const input = command.input;
+
+    if (command instanceof CreateMultipartUploadCommand) {
+      const uploadId = `upload-${this.nextId++}`;
+      this.uploads.set(uploadId, {
+        key: input.Key,
+        initiated: new Date(),
+        parts: new Map(),
+      });
+      return { UploadId: uploadId };
+    }
+
+    if (command instanceof ListMultipartUploadsCommand) {
+      return {
+        Uploads: [...this.uploads].map(([uploadId, upload]) => ({
+          Key: upload.key,
+          UploadId: uploadId,
+          Initiated: upload.initiated,
+        })),
+        IsTruncated: false,
+      };
+    }
+
+    if (command instanceof ListPartsCommand) {
+      const upload = this.uploads.get(input.UploadId)!;
+      return {
+        Parts: [...upload.parts].map(([partNumber, body]) => ({
+          PartNumber: partNumber,
+          ETag: `"${md5(body)}"`,
+          Size: body.length,
+        })),
+        IsTruncated: false,
+      };
+    }
+
+    if (command instanceof UploadPartCommand) {
+      const body = Buffer.from(input.Body);
+      this.uploads.get(input.UploadId)!.parts.set(input.PartNumber, body);
+      this.uploadedParts.push(input.PartNumber);
+      return { ETag: `"${md5(body)}"` };
+    }
+
+    if (command instanceof CompleteMultipartUploadCommand) {
+      const upload = this.uploads.get(input.UploadId)!;
+      const body = Buffer.concat(
+        input.MultipartUpload.Parts.map((part: any) => {
+          const stored = upload.parts.get(part.PartNumber)!;
+          assert.equal(part.ETag, `"${md5(stored)}"`);
+          return stored;
+        })
+      );
+      this.objects.set(upload.key, body);
+      this.uploads.delete(input.UploadId);
+      return {};
+    }
+
+    if (command instanceof AbortMultipartUploadCommand) {
+      this.uploads.delete(input.UploadId);
+      return {};
+    }
+
+    throw new Error(`Unexpected command ${command.constructor.name}`);
+  }
+}
+
+describe("uploadFileMultipart", () => {
+  const PART_SIZE = 1024;
+  let tempDir: string;
+  let filePath: string;
+  let content: Buffer;
+
+  before(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "multipart-"));
+    filePath = path.join(tempDir, "video.mp4");
+    content = Buffer.alloc(PART_SIZE * 4 + 100);
+    for (let i = 0; i < content.length; i++) {
+      content[i] = i % 251;
+    }
+    await fs.promises.writeFile(filePath, content);
+  });
+
+  after(async () => {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("uploads a file in parts and completes the object", async () => {
+    const s3 = new FakeMultipartS3();
+
+    const skipped = await uploadFileMultipart(
+      s3 as unknown as S3Client,
+      "bucket",
+      "forum-media/objects/ab/abc.mp4",
+      filePath,
+      { partSize: PART_SIZE, concurrency: 2 }
+    );
+
+    assert.equal(skipped, 0);
+    assert.deepEqual(
+      s3.uploadedParts.sort((a, b) => a - b),
+      [1, 2, 3, 4, 5]
+    );
+    assert.deepEqual(s3.objects.get("forum-media/objects/ab/abc.mp4"), content);
+    assert.equal(s3.uploads.size, 0);
+  });
+
+  it("resumes an interrupted upload and re-sends only missing or bad parts", async () => {
+    const s3 = new FakeMultipartS3();
+    const key = "forum-media/objects/ab/abc.mp4";
+
+    // A previous run uploaded parts 1 and 2, and part 3 was corrupted
+    const { UploadId } = await s3.send(
+      new CreateMultipartUploadCommand({ Bucket: "bucket", Key: key })
+    );
+    const upload = s3.uploads.get(UploadId)!;
+    upload.parts.set(1, content.subarray(0, PART_SIZE));
+    upload.parts.set(2, content.subarray(PART_SIZE, PART_SIZE * 2));
+    upload.parts.set(3, Buffer.alloc(PART_SIZE));
+
+    const skipped = await uploadFileMultipart(
+      s3 as unknown as S3Client,
+      "bucket",
+      key,
+      filePath,
+      { partSize: PART_SIZE, concurrency: 1 }
+    );
+
+    assert.equal(skipped, 2);
+    assert.deepEqual(s3.uploadedParts, [3, 4, 5]);
+    assert.deepEqual(s3.objects.get(key), content);
+  });
+
+  it("leaves a failed upload in place for the next attempt", async () => {
+    const s3 = new FakeMultipartS3();
+    const send = s3.send.bind(s3);
+    s3.send = async (command: any) => {
+      if (command instanceof UploadPartCommand && command.input.PartNumber === 4) {
+        throw new Error("connection reset");
+      }
+      return send(command);
+    };
+
+    await assert.rejects(
+      uploadFileMultipart(
+        s3 as unknown as S3Client,
+        "bucket",
+        "forum-media/objects/ab/abc.mp4",
+        filePath,
+        { partSize: PART_SIZE, concurrency: 1 }
+      ),
+      /connection reset/
+    );
+
+    assert.equal(s3.uploads.size, 1);
+    assert.equal(s3.objects.size, 0);
+  });
+});
+
+describe("abortIncompleteUploads", () => {
+  it("aborts only uploads started before the cutoff", async () => {
+    const s3 = new FakeMultipartS3();
+    const stale = await s3.send(
+      new CreateMultipartUploadCommand({ Bucket: "bucket", Key: "a.mp4" })
+    );
+    s3.uploads.get(stale.UploadId)!.initiated = new Date("2020-01-01");
+    await s3.send(
+      new CreateMultipartUploadCommand({ Bucket: "bucket", Key: "b.mp4" })
+    );
+
+    const aborted = await abortIncompleteUploads(
+      s3 as unknown as S3Client,
+      "bucket",
+      "",
+      new Date(Date.now() - 60 * 60 * 1000)
+    );
+
+    assert.equal(aborted, 1);
+    assert.deepEqual(
+      [...s3.uploads.values()].map((upload) => upload.key),
+      ["b.mp4"]
+    );
+  });
+});
@@ -0,0 +1,592 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import { loadFixture, loadFixtureDocument, SITE_URL } from "./helpers/dom";
+import {
+  parseLastPageNumber,
+  parseLikesText,
+  parseThreadListing,
+  parseThreadUpdates,
+  parsePagePosts,
+  hasAttachmentMediaContent,
+  parseAttachmentMediaUrl,
+  parseForumNodes,
+  parsePostBody,
+  parsePostQuotes,
+  parseMemberProfile,
+  parseReactionsPage,
+  parseThreadPage,
+  parseUserId,
+  sanitizePostHtml,
+} from "../src/parsers/pageParsers";
+import { parseHtmlDocument } from "../src/parsers/html";
+import * as pageParsers from "../src/parsers/pageParsers";
+import { DomRoot } from "../src/parsers/types";
+import {
+  evaluateParser,
+  registerParserModule,
+} from "../src/parsers/evaluate";
+
+describe("parseLastPageNumber", () => {
+  it("reads the last page from the listing page nav", () => {
+    const document = loadFixtureDocument("listing-page.html");
+    assert.equal(parseLastPageNumber(document), 42);
+  });
+
+  it("reads the last page from the thread page nav", () => {
+    const document = loadFixtureDocument("thread-page.html");
+    assert.equal(parseLastPageNumber(document), 3);
+  });
+
+  it("defaults to 1 without page nav", () => {
+    const document = loadFixtureDocument("attachment-page.html");
+    assert.equal(parseLastPageNumber(document), 1);
+  });
+});
+
+describe("parseThreadListing", () => {
+  const threads = parseThreadListing(loadFixtureDocument("listing-page.html"));
+
+  it("includes sticky threads and skips rows without an ID", () => {
+    assert.deepEqual(
+      threads.map((thread) => thread.threadId),
+      [100001, 3654511, 290271, 10003071]
+    );
+  });
+
+  it("reads the thread ID from data-thread-id or the js-threadListItem class", () => {
+    const byClass = threads.find((thread) => thread.threadId === 3654511);
+    const byAttribute = threads.find((thread) => thread.threadId === 290271);
+    assert.ok(byClass);
+    assert.ok(byAttribute);
+  });
+
+  it("extracts the listing columns", () => {
+    assert.deepEqual(
+      threads.find((thread) => thread.threadId === 3654511),
+      {
+        threadId: 3654511,
+        title: "MC Kolos",
+        creator: "kolos_fan",
+        creatorId: 88,
+        creationDate: "2024-01-24T19:34:34-0500",
+        replies: "1.2K",
+        views: "35K",
+        lastReplyDate: "2025-10-05T17:03:00-0400",
+        lastReplier: "late_replier",
+        lastReplierId: 512,
+        threadUrl: "/threads/mc-kolos.3654511/unread",
+        prefixId: 3,
+        prefix: "HQ",
+        sticky: false,
+        locked: false,
+        pageCount: 61,
+      }
+    );
+  });
+
+  it("reads the prefix link, sticky and locked state of a sticky thread", () => {
+    const thread = threads.find((thread) => thread.threadId === 100001);
+    assert.ok(thread);
+    assert.equal(thread.title, "Forum rules - read before posting");
+    assert.equal(thread.prefixId, 1);
+    assert.equal(thread.prefix, "Announcement");
+    assert.equal(thread.sticky, true);
+    assert.equal(thread.locked, true);
+    assert.equal(thread.pageCount, 1);
+  });
+
+  it("leaves latest reply fields empty for threads without replies", () => {
+    const thread = threads.find((thread) => thread.threadId === 10003071);
+    assert.ok(thread);
+    assert.equal(thread.lastReplyDate, "");
+    assert.equal(thread.lastReplier, "");
+    assert.equal(thread.lastReplierId, null);
+  });
+});
+
+describe("parseThreadUpdates", () => {
+  const updates = parseThreadUpdates(loadFixtureDocument("listing-page.html"));
+
+  it("excludes threads without a last reply date", () => {
+    assert.deepEqual(
+      updates.map((thread) => thread.threadId),
+      [100001, 3654511, 290271]
+    );
+  });
+
+  it("marks sticky threads", () => {
+    assert.deepEqual(
+      updates.map((thread) => thread.sticky),
+      [true, false, false]
+    );
+  });
+
+  it("extracts reply stats", () => {
+    assert.deepEqual(updates[2], {
+      threadId: 290271,
+      replies: "842",
+      views: "2.4M",
+      lastReplyDate: "2025-10-04T09:12:45-0400",
+      lastReplier: "night_owl",
+      lastReplierId: 300,
+      prefixId: null,
+      prefix: null,
+      sticky: false,
+      locked: false,
+      pageCount: 1,
+    });
+  });
+});
+
+describe("parseThreadPage", () => {
+  it("reads the title prefix, tags and locked notice", () => {
+    assert.deepEqual(parseThreadPage(loadFixtureDocument("thread-page.html")), {
+      prefixId: 3,
+      prefix: "HQ",
+      tags: [
+        { tag: "beach", name: "beach" },
+        { tag: "mc-kolos", name: "mc kolos" },
+      ],
+      locked: true,
+    });
+  });
+
+  it("returns no prefix or tags for plain open threads", () => {
+    assert.deepEqual(parseThreadPage(loadFixtureDocument("member-page.html")), {
+      prefixId: null,
+      prefix: null,
+      tags: [],
+      locked: false,
+    });
+  });
+});
+
+describe("parsePagePosts", () => {
+  const posts = parsePagePosts(
+    loadFixtureDocument("thread-page.html"),
+    SITE_URL
+  );
+  const post = (postId: number) => {
+    const found = posts.find((candidate) => candidate.postId === postId);
+    assert.ok(found, `post ${postId} not parsed`);
+    return found;
+  };
+
+  it("falls back from data-content to data-lb-id to js-post- IDs", () => {
+    assert.deepEqual(
+      posts.map((post) => post.postId),
+      [5001, 5002, 5003, 5004, 5005]
+    );
+  });
+
+  it("extracts author, content and created date", () => {
+    assert.equal(post(5002).author, "late_replier");
+    assert.equal(post(5002).content, "Thanks for sharing!");
+    assert.equal(post(5002).postCreatedDate, "2024-01-25T08:00:00-0500");
+    assert.match(post(5001).content, /^New set from the weekend shoot/);
+  });
+
+  it("reads the author's member ID", () => {
+    assert.equal(post(5002).authorId, 512);
+    assert.equal(post(5003).authorId, 300);
+  });
+
+  it("only takes the created date from time elements with a title", () => {
+    assert.equal(post(5004).postCreatedDate, "");
+    assert.equal(post(5005).postCreatedDate, "");
+  });
+
+  it("parses the likes text", () => {
+    assert.equal(post(5001).likes, 1);
+    assert.equal(post(5002).likes, 2);
+    assert.equal(post(5003).likes, 3);
+    assert.equal(post(5004).likes, 1298);
+    assert.equal(post(5005).likes, 0);
+  });
+
+  it("pairs attachments with their thumbnails and dedupes media", () => {
+    assert.deepEqual(post(5001).medias, [
+      [
+        "https://www.lpsg.com/attachments/kolos-beach-jpg.120147661/",
+        "https://cdn.lpsg.com/data/attachments/120/120147661-3f2a.jpg?hash=abc",
+      ],
+      [
+        "https://www.lpsg.com/attachments/screenshot-2024-01-25-013402-png.120147662/",
+        "",
+      ],
+      ["https://i.imgur.com/inlineShot.jpg", ""],
+      ["https://i.imgur.com/lazyLoaded.png", ""],
+    ]);
+  });
+
+  it("extracts videos with their posters and media gallery embeds", () => {
+    assert.deepEqual(post(5004).medias, [
+      [
+        "https://cdn.lpsg.com/data/video/120/120147700-clip.mp4",
+        "https://www.lpsg.com/data/video/120/120147700-poster.jpg",
+      ],
+      ["https://www.lpsg.com/data/video/120/120147701-clip.webm", ""],
+      ["https://www.lpsg.com/media/88123/", ""],
+      ["https://www.lpsg.com/media/88124/", ""],
+    ]);
+  });
+
+  it("returns no media for text-only posts", () => {
+    assert.deepEqual(post(5002).medias, []);
+  });
+});
+
+describe("post bodies", () => {
+  const wrapper = loadFixtureDocument("post-body.html").querySelector(
+    ".bbWrapper"
+  )!;
+
+  it("keeps formatting and links but strips scripts and handlers", () => {
+    const html = sanitizePostHtml(wrapper, SITE_URL);
+
+    assert.match(html, /^Hey <b>everyone<\/b>, <i>quick<\/i> update/);
+    assert.match(
+      html,
+      /<a href="https:\/\/example.com\/page" rel="nofollow noopener">this page<\/a>/
+    );
+    assert.match(
+      html,
+      /<blockquote data-quote="alice" data-source="post: 4999"/
+    );
+    assert.doesNotMatch(
+      html,
+      /script|onclick|javascript:|style=|<button|<iframe/
+    );
+    assert.doesNotMatch(html, /js-expandWatch|link--external/);
+  });
+
+  it("resolves relative URLs", () => {
+    assert.match(
+      sanitizePostHtml(wrapper, SITE_URL),
+      /src="https:\/\/www.lpsg.com\/data\/assets\/smiley\/smile.png"/
+    );
+  });
+
+  it("groups the body into paragraphs, quotes, spoilers and lists", () => {
+    const body = parsePostBody(wrapper, SITE_URL);
+
+    assert.deepEqual(
+      body.map((node) => node.type),
+      [
+        "paragraph",
+        "quote",
+        "paragraph",
+        "spoiler",
+        "list",
+        "media",
+        "paragraph",
+      ]
+    );
+    assert.deepEqual(body[1], {
+      type: "quote",
+      author: "alice",
+      postId: 4999,
+      children: [
+        {
+          type: "paragraph",
+          children: [{ type: "text", text: "Where was this taken?" }],
+        },
+      ],
+    });
+    assert.deepEqual(body[5], {
+      type: "media",
+      kind: "embed",
+      url: "https://www.lpsg.com/media/88123/",
+      mediaId: null,
+    });
+  });
+
+  it("turns smilies into text and links into link nodes", () => {
+    const [first] = parsePostBody(wrapper, SITE_URL);
+    assert.equal(first.type, "paragraph");
+    const children = first.type === "paragraph" ? first.children : [];
+
+    assert.ok(
+      children.some((node) => node.type === "text" && node.text === ":)")
+    );
+    assert.deepEqual(
+      children.find((node) => node.type === "link"),
+      {
+        type: "link",
+        url: "https://example.com/page",
+        children: [{ type: "text", text: "this page" }],
+      }
+    );
+  });
+
+  it("keeps spoiler titles and inline spoilers", () => {
+    const body = parsePostBody(wrapper, SITE_URL);
+    const spoiler = body[3];
+    assert.equal(
+      spoiler.type === "spoiler" && spoiler.title,
+      "Behind the scenes"
+    );
+
+    const paragraph = body[2];
+    assert.ok(
+      paragraph.type === "paragraph" &&
+        paragraph.children.some(
+          (node) => node.type === "spoiler" && node.inline
+        )
+    );
+  });
+
+  it("places inline images with the URLs of parsePostMedias", () => {
+    const paragraph = parsePostBody(wrapper, SITE_URL)[2];
+    assert.ok(paragraph.type === "paragraph");
+    assert.deepEqual(paragraph.children[paragraph.children.length - 1], {
+      type: "media",
+      kind: "image",
+      url: "https://i.imgur.com/inlineShot.jpg",
+      mediaId: null,
+    });
+  });
+
+  it("drops links to non-web URLs but keeps their text", () => {
+    const last = parsePostBody(wrapper, SITE_URL)[6];
+    assert.deepEqual(last, {
+      type: "paragraph",
+      children: [{ type: "text", text: "bad link" }],
+    });
+  });
+});
+
+describe("parsePostQuotes", () => {
+  it("reads the quoted post and member of each quote", () => {
+    const wrapper = loadFixtureDocument("post-body.html").querySelector(
+      ".bbWrapper"
+    )!;
+
+    assert.deepEqual(parsePostQuotes(wrapper), [
+      { postId: 4999, memberId: 42, author: "alice" },
+    ]);
+  });
+
+  it("lists repeated quotes once and skips anonymous ones", () => {
+    const document = parseHtmlDocument(
+      `<div class="bbWrapper">
+        <blockquote class="bbCodeBlock bbCodeBlock--quote" data-quote="bob" data-source="post: 7" data-attributes="member: 3">one</blockquote>
+        <blockquote class="bbCodeBlock bbCodeBlock--quote" data-quote="bob" data-source="post: 7" data-attributes="member: 3">two</blockquote>
+        <blockquote class="bbCodeBlock bbCodeBlock--quote" data-quote="carol">no source</blockquote>
+        <blockquote class="bbCodeBlock bbCodeBlock--quote">anonymous</blockquote>
+      </div>`,
+      `${SITE_URL}/`
+    );
+
+    assert.deepEqual(parsePostQuotes(document.querySelector(".bbWrapper")!), [
+      { postId: 7, memberId: 3, author: "bob" },
+      { postId: null, memberId: null, author: "carol" },
+    ]);
+  });
+});
+
+describe("parseUserId", () => {
+  const document = parseHtmlDocument(
+    `<a class="username" href="/members/night_owl.300/">night_owl</a>
+     <a class="username" href="/members/1234/">numeric</a>
+     <span class="username">Guest</span>`,
+    `${SITE_URL}/`
+  );
+  const usernames = Array.from(document.querySelectorAll(".username"));
+
+  it("falls back to the member ID in the profile link", () => {
+    assert.deepEqual(usernames.map(parseUserId), [300, 1234, null]);
+  });
+
+  it("is null without an element", () => {
+    assert.equal(parseUserId(null), null);
+  });
+});
+
+describe("parseMemberProfile", () => {
+  it("reads the profile header", () => {
+    assert.deepEqual(
+      parseMemberProfile(loadFixtureDocument("member-page.html"), SITE_URL),
+      {
+        userId: 88,
+        username: "kolos_fan",
+        joinDate: "2019-03-02T10:11:12-0500",
+        messages: "4,321",
+        reactionScore: "12.5K",
+        avatarUrl: `${SITE_URL}/data/avatars/o/0/88.jpg?1706140800`,
+      }
+    );
+  });
+
+  it("has no avatar URL for letter placeholders", () => {
+    const document = parseHtmlDocument(
+      `<div class="memberHeader">
+        <span class="memberHeader-avatar"><a href="/members/newcomer.9001/" class="avatar avatar--l" data-user-id="9001"><span class="avatar-u9001-l">N</span></a></span>
+        <h1 class="memberHeader-name"><span class="username" data-user-id="9001">newcomer</span></h1>
+      </div>`,
+      `${SITE_URL}/`
+    );
+    const profile = parseMemberProfile(document, SITE_URL);
+    assert.equal(profile?.avatarUrl, null);
+    assert.equal(profile?.messages, "");
+  });
+
+  it("returns null for pages without a member header", () => {
+    assert.equal(
+      parseMemberProfile(loadFixtureDocument("thread-page.html"), SITE_URL),
+      null
+    );
+  });
+});
+
+describe("parseReactionsPage", () => {
+  const page = parseReactionsPage(
+    loadFixtureDocument("reactions-page.html"),
+    SITE_URL
+  );
+
+  it("reads the count of each reaction type from the tabs", () => {
+    assert.deepEqual(page.reactions, [
+      { reactionId: 1, name: "Like", count: 1250 },
+      { reactionId: 2, name: "Love", count: 54 },
+    ]);
+  });
+
+  it("lists the members on the page with their reaction", () => {
+    assert.deepEqual(page.users, [
+      { reactionId: 1, reactionName: "Like", userId: 5, username: "alice" },
+      { reactionId: 2, reactionName: "Love", userId: 6, username: "bob" },
+    ]);
+  });
+
+  it("finds the next page of members", () => {
+    assert.equal(
+      page.nextPageUrl,
+      `${SITE_URL}/posts/5001/reactions?reaction_id=0&list_only=1&page=2`
+    );
+  });
+
+  it("counts members when the page has no reaction tabs", () => {
+    const document = parseHtmlDocument(
+      loadFixture("reactions-page.html").replace(/<h2[\s\S]*<\/h2>/, ""),
+      `${SITE_URL}/`
+    );
+    assert.deepEqual(parseReactionsPage(document, SITE_URL).reactions, [
+      { reactionId: 1, name: "Like", count: 1 },
+      { reactionId: 2, name: "Love", count: 1 },
+    ]);
+  });
+});
+
+describe("attachment page parsers", () => {
+  it("detects media content", () => {
+    const document = loadFixtureDocument("attachment-page.html");
+    assert.equal(hasAttachmentMediaContent(document), true);
+  });
+
+  it("rejects age verification walls", () => {
+    const document = loadFixtureDocument("attachment-page-blocked.html");
+    assert.equal(hasAttachmentMediaContent(document), false);
+  });
+
+  it("finds the full-size image past the avatar", () => {
+    const document = loadFixtureDocument("attachment-page.html");
+    assert.deepEqual(parseAttachmentMediaUrl(document, SITE_URL), {
+      url: "https://cdn.lpsg.com/data/120/120147661-full.jpg?hash=abc",
+      type: "hidden-img",
+    });
+  });
+});
+
+describe("parseForumNodes", () => {
+  const forums = parseForumNodes(
+    loadFixtureDocument("forum-index.html"),
+    SITE_URL
+  );
+
+  it("lists forums with their subforums once each", () => {
+    assert.deepEqual(
+      forums.map((forum) => [forum.forumId, forum.parentId]),
+      [
+        [17, null],
+        [52, 17],
+        [53, 17],
+        [40, null],
+      ]
+    );
+  });
+
+  it("resolves titles and absolute URLs", () => {
+    assert.deepEqual(forums[1], {
+      forumId: 52,
+      title: "Male models",
+      url: `${SITE_URL}/forums/male-models.52/`,
+      parentId: 17,
+    });
+  });
+
+  it("skips categories and link forums", () => {
+    assert.equal(
+      forums.some((forum) => [16, 41].includes(forum.forumId)),
+      false
+    );
+  });
+});
+
+describe("parseLikesText", () => {
+  it("counts visible names and others", () => {
+    assert.equal(parseLikesText(""), 0);
+    assert.equal(parseLikesText("alice"), 1);
+    assert.equal(parseLikesText("alice and bob"), 2);
+    assert.equal(parseLikesText("alice, bob and carol"), 3);
+    assert.equal(parseLikesText("alice, bob, carol and 1 other"), 4);
+    assert.equal(parseLikesText("alice, bob, carol and 1,295 others"), 1298);
+  });
+});
+
+function countPostLinks(root: DomRoot): number {
+  return doubled(root.querySelectorAll("article.message a").length) / 2;
+}
+
+function doubled(value: number): number {
+  return value * 2;
+}
+
+describe("evaluateParser", () => {
+  const dom = new JSDOM(loadFixture("thread-page.html"), {
+    url: `${SITE_URL}/`,
+    runScripts: "outside-only",
+  });
+  // Stand-in for a Puppeteer page: evaluate in the window and serialize
+  // the result back out the way Puppeteer does
+  const page = {
+    evaluate: async (expression: string) =>
+      JSON.parse(JSON.stringify(dom.window.eval(expression))),
+  } as any;
+
+  it("runs the same parsers inside a browser page", async () => {
+    registerParserModule(pageParsers);
+    const posts = await evaluateParser(page, parsePagePosts, SITE_URL);
+    assert.deepEqual(
+      posts,
+      parsePagePosts(loadFixtureDocument("thread-page.html"), SITE_URL)
+    );
+    assert.equal(await evaluateParser(page, parseLastPageNumber), 3);
+  });
+
+  it("only runs parsers from registered modules", async () => {
+    await assert.rejects(
+      evaluateParser(page, countPostLinks),
+      /countPostLinks is not a registered page parser/
+    );
+
+    registerParserModule({ countPostLinks, doubled });
+    assert.equal(
+      await evaluateParser(page, countPostLinks),
+      loadFixtureDocument("thread-page.html").querySelectorAll(
+        "article.message a"
+      ).length
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import {
+  clusterHashes,
+  computeDHash,
+  hammingDistance,
+} from "../src/media/perceptualHash";
+
+/**
+ * Render a 200x150 picture of soft diagonal stripes; `phase` shifts them
+ */
+const createPicture = (phase: number): Promise<Buffer> => {
+  const width = 200;
+  const height = 150;
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.round(
+        127 + 127 * Math.sin((x + 2 * y) / 23 + phase)
+      );
+      const offset = (y * width + x) * 3;
+      pixels[offset] = value;
+      pixels[offset + 1] = 255 - value;
+      pixels[offset + 2] = (x * 255) / width;
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } })
+    .png()
+    .toBuffer();
+};
+
+describe("computeDHash", () => {
+  it("barely changes when an image is resized and recompressed", async () => {
+    const original = await createPicture(0);
+    const repost = await sharp(original)
+      .resize(120)
+      .jpeg({ quality: 40 })
+      .toBuffer();
+
+    const a = await computeDHash(original);
+    const b = await computeDHash(repost);
+
+    assert.match(a, /^[0-9a-f]{16}$/);
+    assert.ok(hammingDistance(a, b) <= 4, `distance ${hammingDistance(a, b)}`);
+  });
+
+  it("differs for a different picture", async () => {
+    const a = await computeDHash(await createPicture(0));
+    const b = await computeDHash(await createPicture(Math.PI));
+
+    assert.ok(hammingDistance(a, b) > 16, `distance ${hammingDistance(a, b)}`);
+  });
+
+  it("rejects data that is not an image", async () => {
+    await assert.rejects(computeDHash(Buffer.from("<html></html>")));
+  });
+});
+
+describe("hammingDistance", () => {
+  it("counts differing bits", () => {
+    assert.equal(hammingDistance("0000000000000000", "0000000000000000"), 0);
+    assert.equal(hammingDistance("0000000000000000", "000000000000000f"), 4);
+    assert.equal(hammingDistance("ffffffffffffffff", "0000000000000000"), 64);
+  });
+});
+
+describe("clusterHashes", () => {
+  it("chains near hashes together and keeps distant ones apart", () => {
+    const clusters = clusterHashes(
+      [
+        "0000000000000000",
+        "0000000000000003", // 2 bits from the first
+        "000000000000000f", // 2 bits from the second
+        "ffffffffffffffff",
+        "0000000000000000", // exact repeat
+      ],
+      2
+    );
+
+    assert.deepEqual(clusters, [
+      ["0000000000000000", "0000000000000003", "000000000000000f"],
+      ["ffffffffffffffff"],
+    ]);
+  });
+
+  it("finds pairs that differ in every band but one", () => {
+    // Differing bits spread across the hash so only one band matches
+    const clusters = clusterHashes(["0000000000000000", "8000800080000000"], 3);
+
+    assert.equal(clusters.length, 1);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ReactionsPageData } from "../src/parsers/types";
+import {
+  isReactionsMode,
+  summarizeReactions,
+} from "../src/service/postReactions";
+
+const firstPage: ReactionsPageData = {
+  reactions: [
+    { reactionId: 1, name: "Like", count: 3 },
+    { reactionId: 2, name: "Love", count: 1 },
+  ],
+  users: [
+    { reactionId: 1, reactionName: "Like", userId: 5, username: "alice" },
+    { reactionId: 2, reactionName: "Love", userId: 6, username: "bob" },
+  ],
+  nextPageUrl: "https://forum.example.com/posts/5001/reactions?page=2",
+};
+
+// Later pages are the bare member list, counted from the members shown
+const secondPage: ReactionsPageData = {
+  reactions: [{ reactionId: 1, name: "Like", count: 2 }],
+  users: [
+    { reactionId: 1, reactionName: "Like", userId: 7, username: "carol" },
+    { reactionId: 1, reactionName: "Like", userId: null, username: "Guest" },
+  ],
+  nextPageUrl: null,
+};
+
+describe("summarizeReactions", () => {
+  it("takes the counts from the first page", () => {
+    assert.deepEqual(summarizeReactions([firstPage, secondPage], false), [
+      { reactionId: 1, reactionName: "Like", count: 3, users: null },
+      { reactionId: 2, reactionName: "Love", count: 1, users: null },
+    ]);
+  });
+
+  it("collects the members of every page", () => {
+    const [like, love] = summarizeReactions([firstPage, secondPage], true);
+    assert.deepEqual(like.users, [
+      { userId: 5, username: "alice" },
+      { userId: 7, username: "carol" },
+      { userId: null, username: "Guest" },
+    ]);
+    assert.deepEqual(love.users, [{ userId: 6, username: "bob" }]);
+  });
+
+  it("never counts fewer than the members listed", () => {
+    const page = {
+      ...firstPage,
+      reactions: [{ reactionId: 1, name: "Like", count: 0 }],
+    };
+    assert.deepEqual(
+      summarizeReactions([page], false).map((summary) => summary.count),
+      [1, 1]
+    );
+  });
+
+  it("names reaction types without a tab from the members' rows", () => {
+    const page: ReactionsPageData = {
+      reactions: [{ reactionId: 1, name: "Like", count: 1 }],
+      users: [
+        { reactionId: 1, reactionName: "Like", userId: 5, username: "alice" },
+        { reactionId: 3, reactionName: "Wow", userId: 6, username: "bob" },
+        { reactionId: 4, reactionName: "", userId: 7, username: "carol" },
+      ],
+      nextPageUrl: null,
+    };
+    assert.deepEqual(summarizeReactions([page], false), [
+      { reactionId: 1, reactionName: "Like", count: 1, users: null },
+      { reactionId: 3, reactionName: "Wow", count: 1, users: null },
+    ]);
+  });
+
+  it("is empty without any reactions", () => {
+    assert.deepEqual(summarizeReactions([], true), []);
+  });
+});
+
+describe("isReactionsMode", () => {
+  it("accepts the known modes only", () => {
+    assert.equal(isReactionsMode("counts"), true);
+    assert.equal(isReactionsMode("users"), true);
+    assert.equal(isReactionsMode("all"), false);
+  });
+});
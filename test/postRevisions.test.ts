@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  diffLines,
+  formatDiff,
+  hashContent,
+} from "../src/service/postRevisions";
+
+describe("diffLines", () => {
+  it("marks removed and added lines around unchanged ones", () => {
+    const lines = diffLines("a\nb\nc", "a\nB\nc\nd");
+
+    assert.deepEqual(
+      lines.map((line) => `${line.op}${line.text}`),
+      [" a", "-b", "+B", " c", "+d"]
+    );
+  });
+
+  it("reports a redacted post as removed lines only", () => {
+    const lines = diffLines("hello\nphone: 555-0100\nbye", "hello\nbye");
+
+    assert.deepEqual(
+      lines.filter((line) => line.op !== " "),
+      [{ op: "-", text: "phone: 555-0100" }]
+    );
+  });
+
+  it("finds no changes in identical content", () => {
+    const lines = diffLines("same\ntext", "same\ntext");
+    assert.ok(lines.every((line) => line.op === " "));
+  });
+});
+
+describe("formatDiff", () => {
+  it("elides unchanged lines far from a change", () => {
+    const before = ["1", "2", "3", "4", "5", "6"].join("\n");
+    const after = ["1", "2", "3", "4", "5", "six"].join("\n");
+
+    assert.equal(
+      formatDiff(diffLines(before, after), 1),
+      ["  … 4 unchanged line(s)", "  5", "- 6", "+ six"].join("\n")
+    );
+  });
+});
+
+describe("hashContent", () => {
+  it("tells changed content apart", () => {
+    assert.equal(hashContent("post"), hashContent("post"));
+    assert.notEqual(hashContent("post"), hashContent("post edited"));
+  });
+});
@@ -0,0 +1,107 @@
+import { skipWithoutDatabase, useTestDatabase } from "./helpers/database";
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ForumThread } from "../src/model/ForumThread";
+import {
+  pagePostRange,
+  RemovedContentTracker,
+} from "../src/service/removedContent";
+
+describe("pagePostRange", () => {
+  it("covers everything before the last post of the first page", () => {
+    assert.deepEqual(pagePostRange([105, 101, 110], 1, 3, null), {
+      after: 0,
+      through: 110,
+    });
+  });
+
+  it("starts after the previous page's last post", () => {
+    assert.deepEqual(pagePostRange([120, 130], 2, 3, 110), {
+      after: 110,
+      through: 130,
+    });
+  });
+
+  it("starts at the page's first post when resuming mid-thread", () => {
+    assert.deepEqual(pagePostRange([120, 130], 2, 3, null), {
+      after: 119,
+      through: 130,
+    });
+  });
+
+  it("leaves the pages before a resumed scrape unchecked", () => {
+    // Posts 101-139 sit on pages 1 and 2, which this run does not read
+    const range = pagePostRange([140, 150], 3, 3, null);
+    assert.deepEqual(range, { after: 139, through: null });
+  });
+
+  it("has no upper bound on the last page", () => {
+    assert.deepEqual(pagePostRange([140, 150], 3, 3, 130), {
+      after: 130,
+      through: null,
+    });
+  });
+
+  it("gives no range when the page count is unknown", () => {
+    assert.equal(pagePostRange([101, 110], 1, null, null), null);
+    assert.equal(pagePostRange([120, 130], 2, null, 110), null);
+  });
+});
+
+describe("RemovedContentTracker", { skip: skipWithoutDatabase }, () => {
+  useTestDatabase(["forum_threads"]);
+
+  const tracker = new RemovedContentTracker();
+
+  const addThread = (threadId: number, forumId: number) =>
+    ForumThread.create({
+      threadId,
+      forumId,
+      title: `Thread ${threadId}`,
+      creator: "someone",
+      replies: 0,
+      views: 0,
+      lastReplier: "someone",
+      lastReplyDate: new Date("2025-01-01T00:00:00Z"),
+      lastUpdatedPage: 1,
+    });
+
+  const missingSince = async (threadId: number) =>
+    (await ForumThread.findByPk(threadId))?.missingSince ?? null;
+
+  it("marks a thread missing once two checks in a row miss it", async () => {
+    await addThread(1, 17);
+    await addThread(2, 17);
+
+    assert.equal(await tracker.markMissingThreads(17, [1], null), 0);
+    assert.equal(await missingSince(2), null);
+
+    assert.equal(await tracker.markMissingThreads(17, [1], null), 1);
+    const thread = await ForumThread.findByPk(2);
+    assert.deepEqual(thread?.missingSince, thread?.missedAt);
+    assert.equal(await missingSince(1), null);
+  });
+
+  it("leaves a thread that moved to another forum unmarked", async () => {
+    await addThread(1, 17);
+    await addThread(2, 17);
+
+    // Forum 17 is checked first, then the thread shows up in forum 18
+    await tracker.markMissingThreads(17, [1], null);
+    await tracker.restoreThreads([2]);
+    await ForumThread.update({ forumId: 18 }, { where: { threadId: 2 } });
+
+    await tracker.markMissingThreads(17, [1], null);
+    assert.equal(await missingSince(2), null);
+  });
+
+  it("forgets a miss once the thread is listed again", async () => {
+    await addThread(1, 17);
+    await addThread(2, 17);
+
+    await tracker.markMissingThreads(17, [1], null);
+    await tracker.restoreThreads([2]);
+    assert.equal(await tracker.markMissingThreads(17, [1], null), 0);
+    assert.equal(await missingSince(2), null);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { QueryInterface } from "sequelize";
+import {
+  AppliedMigration,
+  loadMigrations,
+  Migration,
+  MigrationLog,
+  PendingMigrationsError,
+  SchemaMigrator,
+} from "../src/service/schemaMigrator";
+
+class MemoryLog implements MigrationLog {
+  rows: AppliedMigration[] = [];
+  locks = 0;
+
+  async applied(): Promise<AppliedMigration[]> {
+    return [...this.rows].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async record(name: string): Promise<void> {
+    this.rows.push({ name, appliedAt: new Date() });
+  }
+
+  async forget(name: string): Promise<void> {
+    this.rows = this.rows.filter((row) => row.name !== name);
+  }
+
+  async withLock<T>(work: () => Promise<T>): Promise<T> {
+    this.locks++;
+    return work();
+  }
+}
+
+const setup = (names: string[]) => {
+  const calls: string[] = [];
+  const migrations: Migration[] = names.map((name) => ({
+    name,
+    up: async () => {
+      calls.push(`up ${name}`);
+    },
+    down: async () => {
+      calls.push(`down ${name}`);
+    },
+  }));
+  const log = new MemoryLog();
+  const migrator = new SchemaMigrator(migrations, log, {} as QueryInterface);
+  return { calls, log, migrator };
+};
+
+describe("SchemaMigrator", () => {
+  it("applies pending migrations in order and records them", async () => {
+    const { calls, log, migrator } = setup(["0000-a", "0001-b"]);
+
+    assert.deepEqual(await migrator.migrate(), ["0000-a", "0001-b"]);
+    assert.deepEqual(calls, ["up 0000-a", "up 0001-b"]);
+    assert.deepEqual(await migrator.pending(), []);
+    assert.equal(log.locks, 1);
+
+    assert.deepEqual(await migrator.migrate(), []);
+  });
+
+  it("stops after the target migration", async () => {
+    const { migrator } = setup(["0000-a", "0001-b", "0002-c"]);
+
+    assert.deepEqual(await migrator.migrate("0001-b"), ["0000-a", "0001-b"]);
+    assert.deepEqual(await migrator.pending(), ["0002-c"]);
+  });
+
+  it("rolls back the newest migrations first", async () => {
+    const { calls, migrator } = setup(["0000-a", "0001-b", "0002-c"]);
+    await migrator.migrate();
+    calls.length = 0;
+
+    assert.deepEqual(await migrator.rollback(2), ["0002-c", "0001-b"]);
+    assert.deepEqual(calls, ["down 0002-c", "down 0001-b"]);
+    assert.deepEqual(await migrator.pending(), ["0001-b", "0002-c"]);
+  });
+
+  it("rolls back everything after a target migration", async () => {
+    const { migrator } = setup(["0000-a", "0001-b", "0002-c"]);
+    await migrator.migrate();
+
+    assert.deepEqual(await migrator.rollback(1, "0000-a"), [
+      "0002-c",
+      "0001-b",
+    ]);
+  });
+
+  it("rejects unknown target migrations", async () => {
+    const { migrator } = setup(["0000-a"]);
+
+    await assert.rejects(migrator.migrate("9999-z"), /Unknown migration/);
+    await assert.rejects(migrator.rollback(1, "9999-z"), /Unknown migration/);
+  });
+
+  it("reports pending and missing migrations", async () => {
+    const { log, migrator } = setup(["0000-a", "0001-b"]);
+    await log.record("0000-a");
+    await log.record("0000-removed");
+
+    const status = await migrator.status();
+    assert.deepEqual(
+      status.map(({ name, appliedAt, missing }) => [name, !!appliedAt, missing]),
+      [
+        ["0000-a", true, false],
+        ["0001-b", false, false],
+        ["0000-removed", true, true],
+      ]
+    );
+    await assert.rejects(migrator.assertCurrent(), PendingMigrationsError);
+  });
+});
+
+describe("loadMigrations", () => {
+  it("loads the shipped migrations in order", () => {
+    const names = loadMigrations().map((migration) => migration.name);
+
+    assert.deepEqual(names, [...names].sort());
+    assert.equal(names[0], "0000-baseline");
+    assert.ok(names.includes("0001-typed-thread-columns"));
+  });
+});
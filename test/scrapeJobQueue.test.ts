@@ -0,0 +1,113 @@
+import { skipWithoutDatabase, useTestDatabase } from "./helpers/database";
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ScrapeJob } from "../src/model/ScrapeJob";
+import { ScrapeJobQueue } from "../src/service/scrapeJobQueue";
+
+describe("ScrapeJobQueue", { skip: skipWithoutDatabase }, () => {
+  useTestDatabase(["scrape_jobs"]);
+
+  const queue = (workerId: string) =>
+    new ScrapeJobQueue({ workerId, leaseMs: 60000, maxAttempts: 2 });
+
+  const addJob = (threadId: number, lastReplyDate: string) =>
+    ScrapeJob.create({
+      threadId,
+      lastReplyDate: new Date(lastReplyDate),
+      status: "pending",
+      attempts: 0,
+    });
+
+  // Let a claimed job's lease run out
+  const expireLease = (job: ScrapeJob) =>
+    ScrapeJob.update(
+      { leaseExpiresAt: new Date(Date.now() - 1000) },
+      { where: { id: job.id } }
+    );
+
+  it("claims the newest reply first and each job once", async () => {
+    await addJob(1, "2025-01-01T00:00:00Z");
+    await addJob(2, "2025-03-01T00:00:00Z");
+    await addJob(3, "2025-02-01T00:00:00Z");
+
+    const a = queue("a");
+    const b = queue("b");
+    const claimed = [await a.claim(), await b.claim(), await a.claim()];
+
+    assert.deepEqual(
+      claimed.map((job) => job?.threadId),
+      [2, 3, 1]
+    );
+    assert.equal(await b.claim(), null);
+
+    const stored = await ScrapeJob.findOne({ where: { threadId: 2 } });
+    assert.equal(stored?.status, "running");
+    assert.equal(stored?.workerId, "a");
+    assert.equal(stored?.attempts, 1);
+    assert.ok(stored?.leaseExpiresAt && stored.leaseExpiresAt > new Date());
+  });
+
+  it("reclaims a running job only once its lease expired", async () => {
+    await addJob(1, "2025-01-01T00:00:00Z");
+    const job = (await queue("dead").claim())!;
+
+    assert.equal(await queue("b").claim(), null);
+
+    await expireLease(job);
+    const reclaimed = await queue("b").claim();
+    assert.equal(reclaimed?.id, job.id);
+    assert.equal(reclaimed?.workerId, "b");
+    assert.equal(reclaimed?.attempts, 2);
+  });
+
+  it("ignores a stale worker's heartbeat, complete and fail", async () => {
+    await addJob(1, "2025-01-01T00:00:00Z");
+    const stale = queue("stale");
+    const staleJob = (await stale.claim())!;
+    await expireLease(staleJob);
+    const current = queue("current");
+    const job = (await current.claim())!;
+
+    assert.equal(await stale.heartbeat(staleJob), false);
+    await stale.complete(staleJob);
+    await stale.fail(staleJob, new Error("stale"));
+
+    let stored = await ScrapeJob.findByPk(job.id);
+    assert.equal(stored?.status, "running");
+    assert.equal(stored?.workerId, "current");
+    assert.equal(stored?.lastError, null);
+
+    assert.equal(await current.heartbeat(job), true);
+    await current.complete(job);
+    stored = await ScrapeJob.findByPk(job.id);
+    assert.equal(stored?.status, "done");
+    assert.equal(stored?.workerId, null);
+  });
+
+  it("requeues failed attempts until they are used up", async () => {
+    await addJob(1, "2025-01-01T00:00:00Z");
+    const worker = queue("a");
+
+    await worker.fail((await worker.claim())!, new Error("timeout"));
+    let stored = await ScrapeJob.findOne({ where: { threadId: 1 } });
+    assert.equal(stored?.status, "pending");
+    assert.equal(stored?.lastError, "timeout");
+
+    await worker.fail((await worker.claim())!, new Error("timeout again"));
+    stored = await ScrapeJob.findOne({ where: { threadId: 1 } });
+    assert.equal(stored?.status, "failed");
+    assert.equal(await worker.claim(), null);
+  });
+
+  it("fails jobs whose last attempt's lease expired", async () => {
+    await addJob(1, "2025-01-01T00:00:00Z");
+    const job = (await queue("a").claim())!;
+    await expireLease(job);
+    await expireLease((await queue("b").claim())!);
+
+    assert.equal(await queue("c").claim(), null);
+    const stored = await ScrapeJob.findByPk(job.id);
+    assert.equal(stored?.status, "failed");
+    assert.equal(stored?.lastError, "Lease expired after the last attempt");
+  });
+});
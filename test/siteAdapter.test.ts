@@ -0,0 +1,89 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createSiteAdapter, XenForoAdapter } from "../src/site";
+import { parsePagePosts } from "../src/parsers/pageParsers";
+
+const SITE_URL = "https://forum.example.com";
+
+describe("XenForoAdapter", () => {
+  const site = new XenForoAdapter({ siteUrl: `${SITE_URL}/` });
+
+  it("builds listing page URLs with page-N segments", () => {
+    const forumUrl = `${SITE_URL}/forums/models.17/`;
+    assert.equal(site.listingPageUrl(forumUrl, 1), forumUrl);
+    assert.equal(site.listingPageUrl(forumUrl, 3), `${forumUrl}page-3`);
+    assert.equal(
+      site.listingPageUrl(`${SITE_URL}/forums/models.17`, 2),
+      `${forumUrl}page-2`
+    );
+  });
+
+  it("builds thread page URLs from stored listing links", () => {
+    assert.equal(
+      site.threadPageUrl("/threads/some-thread.123/unread", 1),
+      `${SITE_URL}/threads/some-thread.123/`
+    );
+    assert.equal(
+      site.threadPageUrl("/threads/some-thread.123", 4),
+      `${SITE_URL}/threads/some-thread.123/page-4`
+    );
+    assert.equal(
+      site.threadPageUrl(`${SITE_URL}/threads/some-thread.123/`, 2),
+      `${SITE_URL}/threads/some-thread.123/page-2`
+    );
+  });
+
+  it("builds post reaction list URLs", () => {
+    assert.equal(site.reactionsUrl(5001), `${SITE_URL}/posts/5001/reactions`);
+  });
+
+  it("builds member profile URLs from the member ID", () => {
+    assert.equal(site.memberUrl(88), `${SITE_URL}/members/88/`);
+  });
+
+  it("falls back to the forum index as the landing page", () => {
+    assert.equal(site.landingUrl(), `${SITE_URL}/forums/`);
+    assert.equal(
+      new XenForoAdapter({
+        siteUrl: SITE_URL,
+        landingUrl: `${SITE_URL}/forums/models.17/`,
+      }).landingUrl(),
+      `${SITE_URL}/forums/models.17/`
+    );
+  });
+
+  it("tells attachment pages from media files", () => {
+    assert.equal(
+      site.isAttachmentPageUrl(
+        `${SITE_URL}/attachments/screenshot-2024-01-25-png.120147661/`
+      ),
+      true
+    );
+    assert.equal(
+      site.isAttachmentPageUrl(`${SITE_URL}/attachments/clip-mp4.55/`),
+      true
+    );
+    assert.equal(
+      site.isAttachmentPageUrl(`${SITE_URL}/data/attachments/1/1-full.png`),
+      false
+    );
+    assert.equal(site.isAttachmentPageUrl(`${SITE_URL}/threads/a.1/`), false);
+  });
+
+  it("uses the shared page parsers", () => {
+    assert.equal(site.parsers.pagePosts, parsePagePosts);
+  });
+});
+
+describe("createSiteAdapter", () => {
+  it("creates the XenForo adapter by default", () => {
+    assert.equal(createSiteAdapter().name, "xenforo2");
+  });
+
+  it("rejects unknown adapters", () => {
+    assert.throws(
+      () => createSiteAdapter("vbulletin" as any),
+      /Unknown SITE_ADAPTER "vbulletin"/
+    );
+  });
+});
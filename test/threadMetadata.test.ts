@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ThreadUpdateData } from "../src/parsers/types";
+import {
+  listingRowChanged,
+  previewText,
+  StoredListingState,
+} from "../src/service/threadMetadata";
+
+describe("previewText", () => {
+  it("collapses whitespace in short posts", () => {
+    assert.equal(
+      previewText("  New set from\n\nthe weekend   shoot "),
+      "New set from the weekend shoot"
+    );
+  });
+
+  it("cuts long posts at a word", () => {
+    assert.equal(
+      previewText("one two three four five", 16),
+      "one two three…"
+    );
+  });
+
+  it("cuts inside a word that fills most of the preview", () => {
+    assert.equal(previewText("a abcdefghijklmnop", 10), "a abcdefg…");
+  });
+});
+
+describe("listingRowChanged", () => {
+  const stored: StoredListingState = {
+    lastReplyDate: new Date("2024-01-25T14:30:00Z"),
+    replies: 1200,
+    prefixId: 7,
+    prefix: "HQ",
+    sticky: true,
+    locked: false,
+    pageCount: 40,
+  };
+  const row: ThreadUpdateData = {
+    threadId: 1,
+    replies: "1.2K",
+    views: "90K",
+    lastReplyDate: "2024-01-25T14:30:00Z",
+    lastReplier: "someone",
+    lastReplierId: 2,
+    prefixId: 7,
+    prefix: "HQ",
+    sticky: true,
+    locked: false,
+    pageCount: 40,
+  };
+
+  it("ignores rows that match the stored thread", () => {
+    assert.equal(listingRowChanged(stored, row), false);
+    assert.equal(listingRowChanged(stored, { ...row, views: "95K" }), false);
+  });
+
+  it("notices a new reply", () => {
+    assert.equal(
+      listingRowChanged(stored, {
+        ...row,
+        lastReplyDate: "2024-01-26T09:00:00Z",
+      }),
+      true
+    );
+    assert.equal(listingRowChanged(stored, { ...row, replies: "1.3K" }), true);
+  });
+
+  it("notices a changed prefix, state or page count", () => {
+    const changes: Partial<ThreadUpdateData>[] = [
+      { prefixId: null, prefix: null },
+      { prefix: "Request" },
+      { sticky: false },
+      { locked: true },
+      { pageCount: 41 },
+    ];
+    for (const change of changes) {
+      assert.equal(
+        listingRowChanged(stored, { ...row, ...change }),
+        true,
+        JSON.stringify(change)
+      );
+    }
+    assert.equal(
+      listingRowChanged({ ...stored, pageCount: null }, row),
+      true
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import { createMockPng } from "../src/mock/mockImage";
+import {
+  generateThumbnail,
+  THUMBNAIL_HEIGHT,
+  THUMBNAIL_WIDTH,
+  thumbnailKey,
+} from "../src/media/thumbnail";
+
+describe("thumbnailKey", () => {
+  it("adds _thumb before the extension", () => {
+    assert.equal(
+      thumbnailKey("forum-media/objects/ab/abcdef.jpg"),
+      "forum-media/objects/ab/abcdef_thumb.jpg"
+    );
+    assert.equal(
+      thumbnailKey("forum-media/1/10/0-photo.png"),
+      "forum-media/1/10/0-photo_thumb.png"
+    );
+  });
+});
+
+describe("generateThumbnail", () => {
+  it("shrinks large images to fit the thumbnail box", async () => {
+    const image = createMockPng(1200, 600, 3);
+    const thumbnail = await generateThumbnail(image, ".png");
+    const metadata = await sharp(thumbnail.buffer).metadata();
+
+    assert.equal(thumbnail.contentType, "image/png");
+    assert.equal(metadata.format, "png");
+    assert.equal(metadata.width, THUMBNAIL_WIDTH);
+    assert.equal(metadata.height, THUMBNAIL_HEIGHT / 2);
+  });
+
+  it("keeps the original's format for the extension", async () => {
+    const jpeg = await sharp(createMockPng(800, 800, 5)).jpeg().toBuffer();
+    const thumbnail = await generateThumbnail(jpeg, "jpg");
+
+    assert.equal(thumbnail.contentType, "image/jpeg");
+    assert.equal((await sharp(thumbnail.buffer).metadata()).format, "jpeg");
+  });
+
+  it("does not enlarge small images", async () => {
+    const thumbnail = await generateThumbnail(createMockPng(120, 80, 7), "png");
+    const metadata = await sharp(thumbnail.buffer).metadata();
+
+    assert.equal(metadata.width, 120);
+    assert.equal(metadata.height, 80);
+  });
+
+  it("rejects files that are not images", async () => {
+    await assert.rejects(generateThumbnail(Buffer.from("not an image"), "jpg"));
+  });
+});
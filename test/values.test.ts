@@ -0,0 +1,99 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  linkBodyMedia,
+  parseCount,
+  parseForumDate,
+} from "../src/parsers/values";
+import { PostBodyNode } from "../src/parsers/types";
+
+describe("parseCount", () => {
+  it("reads plain and abbreviated counts", () => {
+    assert.equal(parseCount("842"), 842);
+    assert.equal(parseCount("1,295"), 1295);
+    assert.equal(parseCount("1.2K"), 1200);
+    assert.equal(parseCount("35K"), 35000);
+    assert.equal(parseCount("2.4M"), 2400000);
+    assert.equal(parseCount("1B"), 1000000000);
+  });
+
+  it("treats empty and unreadable text as zero", () => {
+    assert.equal(parseCount(""), 0);
+    assert.equal(parseCount(null), 0);
+    assert.equal(parseCount("—"), 0);
+    assert.equal(parseCount("K"), 0);
+  });
+});
+
+describe("parseForumDate", () => {
+  it("reads XenForo datetime attributes with their offset", () => {
+    assert.equal(
+      parseForumDate("2024-01-24T19:34:34-0500")?.toISOString(),
+      "2024-01-25T00:34:34.000Z"
+    );
+    assert.equal(
+      parseForumDate("2025-10-05T17:03:00+0000")?.toISOString(),
+      "2025-10-05T17:03:00.000Z"
+    );
+  });
+
+  it("returns null for empty or unreadable text", () => {
+    assert.equal(parseForumDate(""), null);
+    assert.equal(parseForumDate(undefined), null);
+    assert.equal(parseForumDate("yesterday"), null);
+  });
+});
+
+describe("linkBodyMedia", () => {
+  const image = (url: string, mediaId: number | null = null): PostBodyNode => ({
+    type: "media",
+    kind: "image",
+    url,
+    mediaId,
+  });
+
+  it("sets the forum_medias id of media nodes at any depth", () => {
+    const body: PostBodyNode[] = [
+      image("https://i.imgur.com/a.jpg"),
+      {
+        type: "quote",
+        author: "alice",
+        postId: null,
+        children: [
+          { type: "paragraph", children: [image("https://i.imgur.com/b.jpg")] },
+        ],
+      },
+    ];
+
+    assert.deepEqual(
+      linkBodyMedia(
+        body,
+        new Map([
+          ["https://i.imgur.com/a.jpg", 10],
+          ["https://i.imgur.com/b.jpg", 11],
+        ])
+      ),
+      [
+        image("https://i.imgur.com/a.jpg", 10),
+        {
+          type: "quote",
+          author: "alice",
+          postId: null,
+          children: [
+            {
+              type: "paragraph",
+              children: [image("https://i.imgur.com/b.jpg", 11)],
+            },
+          ],
+        },
+      ]
+    );
+  });
+
+  it("keeps the id of media that is not in the map", () => {
+    assert.deepEqual(
+      linkBodyMedia([image("https://i.imgur.com/a.jpg", 7)], new Map()),
+      [image("https://i.imgur.com/a.jpg", 7)]
+    );
+  });
+});
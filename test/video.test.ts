@@ -0,0 +1,150 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import * as zlib from "zlib";
+import {
+  extensionForContentType,
+  extractPosterFrame,
+  isVideoExtension,
+} from "../src/media/video";
+import { MediaUploadService } from "../src/service/mediaUploadService";
+import { LocalMediaStore } from "../src/storage";
+
+const hasFfmpeg = (() => {
+  try {
+    execFileSync(process.env.FFMPEG_PATH || "ffmpeg", ["-version"], {
+      stdio: "ignore",
+    });
+    return true;
+  } catch (error) {
+    return false;
+  }
+})();
+
+describe("isVideoExtension", () => {
+  it("accepts video extensions with or without the dot", () => {
+    assert.equal(isVideoExtension(".mp4"), true);
+    assert.equal(isVideoExtension("MOV"), true);
+    assert.equal(isVideoExtension("webm"), true);
+    assert.equal(isVideoExtension(".jpg"), false);
+    assert.equal(isVideoExtension(""), false);
+  });
+});
+
+describe("extensionForContentType", () => {
+  it("maps image and video types to extensions", () => {
+    assert.equal(extensionForContentType("video/mp4"), ".mp4");
+    assert.equal(extensionForContentType("video/x-m4v"), ".mp4");
+    assert.equal(extensionForContentType("video/quicktime"), ".mov");
+    assert.equal(extensionForContentType("image/jpeg"), ".jpg");
+    assert.equal(extensionForContentType("IMAGE/PNG; charset=binary"), ".png");
+  });
+
+  it("returns null for unknown or missing types", () => {
+    assert.equal(extensionForContentType("text/html; charset=utf-8"), null);
+    assert.equal(extensionForContentType("application/octet-stream"), null);
+    assert.equal(extensionForContentType(null), null);
+  });
+});
+
+describe("extractPosterFrame", () => {
+  let tempDir: string;
+
+  before(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "video-"));
+  });
+
+  after(async () => {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("rejects files that are not videos", async () => {
+    const notVideo = path.join(tempDir, "not-video.mp4");
+    await fs.promises.writeFile(notVideo, "<html></html>");
+    await assert.rejects(extractPosterFrame(notVideo));
+  });
+
+  it(
+    "grabs a JPEG frame from short clips",
+    { skip: !hasFfmpeg && "ffmpeg is not installed" },
+    async () => {
+      const clip = path.join(tempDir, "clip.mp4");
+      execFileSync(process.env.FFMPEG_PATH || "ffmpeg", [
+        "-loglevel",
+        "error",
+        "-f",
+        "lavfi",
+        "-i",
+        "testsrc=duration=0.5:size=64x48:rate=10",
+        "-pix_fmt",
+        "yuv420p",
+        clip,
+      ]);
+
+      const frame = await extractPosterFrame(clip);
+      // JPEG start-of-image marker
+      assert.equal(frame.readUInt16BE(0), 0xffd8);
+    }
+  );
+});
+
+describe("MediaUploadService.downloadToFile", () => {
+  const video = Buffer.alloc(256 * 1024, 7);
+  let server: http.Server;
+  let baseUrl: string;
+  let tempDir: string;
+  let receivedCookie: string | undefined;
+  const service = new MediaUploadService(new LocalMediaStore(os.tmpdir()));
+
+  before(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "download-"));
+    server = http.createServer((req, res) => {
+      if (req.url === "/redirect") {
+        res.writeHead(302, { Location: "/clip.mp4" });
+        res.end();
+      } else if (req.url === "/clip.mp4") {
+        receivedCookie = req.headers.cookie;
+        res.writeHead(200, {
+          "Content-Type": "video/mp4",
+          "Content-Encoding": "gzip",
+        });
+        res.end(zlib.gzipSync(video));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("streams through redirects and decompresses the body", async () => {
+    const destination = path.join(tempDir, "clip");
+    const result = await service.downloadToFile(
+      `${baseUrl}/redirect`,
+      destination,
+      { Cookie: "xf_session=abc" }
+    );
+
+    assert.equal(result.contentType, "video/mp4");
+    assert.equal(result.size, video.length);
+    assert.deepEqual(await fs.promises.readFile(destination), video);
+    assert.equal(receivedCookie, "xf_session=abc");
+  });
+
+  it("rejects error responses", async () => {
+    await assert.rejects(
+      service.downloadToFile(`${baseUrl}/missing`, path.join(tempDir, "x"))
+    );
+  });
+});